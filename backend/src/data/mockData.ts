@@ -6,15 +6,53 @@ export interface Client {
     company?: string;
     phone?: string;
     address?: string;
+    defaultCurrency?: string; // ISO 4217 code used for new invoices
+    defaultPaymentTerms?: PaymentTerms; // Terms of new invoices, Net 30 when absent
     createdAt: string;
 }
 
+export interface TaxRate {
+    name: string;
+    rate: number;
+}
+
+export interface Discount {
+    type: 'percentage' | 'fixed';
+    value: number; // Percent for "percentage", amount in the invoice currency for "fixed"
+}
+
+export interface PaymentTerms {
+    type: 'receipt' | 'net' | 'eom'; // Due on receipt, net days after issue, or days after the end of the issue month
+    days: number; // 0 for "receipt"
+}
+
+export type RoundingMode = 'half-up' | 'half-even'; // half-even is banker's rounding
+export type RoundingScope = 'line' | 'invoice'; // Round tax on every line, or once per tax rate
+
+export interface RoundingPolicy {
+    mode: RoundingMode;
+    scope: RoundingScope;
+}
+
 export interface LineItem {
     id: string;
     description: string;
     quantity: number;
     rate: number;
     amount: number;
+    taxRate?: TaxRate; // Overrides the invoice tax rate when set
+    discount?: Discount; // Already deducted from amount
+}
+
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void';
+
+// One change of an invoice's status, oldest first in Invoice.statusHistory
+export interface StatusChange {
+    from: InvoiceStatus | null; // null for the status the invoice was created with
+    to: InvoiceStatus;
+    changedBy: string; // Who made the change, "system" for automatic changes
+    reason?: string;
+    changedAt: string; // ISO timestamp
 }
 
 export interface Invoice {
@@ -22,17 +60,32 @@ export interface Invoice {
     invoiceNumber: string;
     clientId: string;
     client: Client;
-    status: 'draft' | 'sent' | 'paid' | 'overdue';
+    status: InvoiceStatus;
+    currency?: string; // ISO 4217 code, USD when absent
     issueDate: string;
     dueDate: string;
+    paymentTerms?: PaymentTerms; // Due date is derived from the issue date when set
     lineItems: LineItem[];
+    taxRate?: TaxRate;
+    discount?: Discount; // Applied to the subtotal, before tax
+    rounding?: RoundingPolicy; // Defaults to half-up, rounded once per tax rate
     subtotal: number;
+    discountAmount?: number;
     tax: number;
     total: number;
+    amountPaid?: number; // Sum of recorded payments
+    creditedAmount?: number; // Sum of credit notes issued against the invoice
+    balanceDue?: number; // total - amountPaid - creditedAmount
     notes?: string;
+    statusHistory?: StatusChange[];
+    recurringProfileId?: string; // Recurring profile that generated the invoice
+    recurringPeriod?: string; // Scheduled run date (YYYY-MM-DD) it was generated for
+    quoteId?: string; // Accepted quote the invoice was converted from
     createdAt: string;
 }
 
+const salesTax: TaxRate = { name: 'Sales Tax', rate: 10 };
+
 // Mock Clients
 export const clients: Client[] = [
     {
@@ -128,6 +181,7 @@ export const invoices: Invoice[] = [
             { id: '2', description: 'Web Development - About Page', quantity: 1, rate: 1500, amount: 1500 },
             { id: '3', description: 'SEO Optimization', quantity: 5, rate: 150, amount: 750 },
         ],
+        taxRate: salesTax,
         subtotal: 4750,
         tax: 475,
         total: 5225,
@@ -146,6 +200,7 @@ export const invoices: Invoice[] = [
             { id: '1', description: 'Mobile App Development - Phase 1', quantity: 1, rate: 8000, amount: 8000 },
             { id: '2', description: 'UI/UX Design', quantity: 20, rate: 125, amount: 2500 },
         ],
+        taxRate: salesTax,
         subtotal: 10500,
         tax: 1050,
         total: 11550,
@@ -164,6 +219,7 @@ export const invoices: Invoice[] = [
             { id: '2', description: 'Logo Design', quantity: 1, rate: 1200, amount: 1200 },
             { id: '3', description: 'Business Card Design', quantity: 1, rate: 300, amount: 300 },
         ],
+        taxRate: salesTax,
         subtotal: 5000,
         tax: 500,
         total: 5500,
@@ -182,6 +238,7 @@ export const invoices: Invoice[] = [
             { id: '1', description: 'Legal Website Consultation', quantity: 4, rate: 200, amount: 800 },
             { id: '2', description: 'Content Writing', quantity: 10, rate: 75, amount: 750 },
         ],
+        taxRate: salesTax,
         subtotal: 1550,
         tax: 155,
         total: 1705,
@@ -200,6 +257,7 @@ export const invoices: Invoice[] = [
             { id: '2', description: 'Data Visualization Components', quantity: 8, rate: 350, amount: 2800 },
             { id: '3', description: 'API Integration', quantity: 1, rate: 1500, amount: 1500 },
         ],
+        taxRate: salesTax,
         subtotal: 10300,
         tax: 1030,
         total: 11330,
@@ -218,6 +276,7 @@ export const invoices: Invoice[] = [
             { id: '1', description: 'Cloud Infrastructure Setup', quantity: 1, rate: 4500, amount: 4500 },
             { id: '2', description: 'DevOps Consulting', quantity: 10, rate: 175, amount: 1750 },
         ],
+        taxRate: salesTax,
         subtotal: 6250,
         tax: 625,
         total: 6875,
@@ -236,6 +295,7 @@ export const invoices: Invoice[] = [
             { id: '2', description: 'Video Production', quantity: 3, rate: 800, amount: 2400 },
             { id: '3', description: 'Photography Session', quantity: 2, rate: 450, amount: 900 },
         ],
+        taxRate: salesTax,
         subtotal: 5300,
         tax: 530,
         total: 5830,
@@ -253,6 +313,7 @@ export const invoices: Invoice[] = [
             { id: '1', description: 'Financial Dashboard Development', quantity: 1, rate: 7500, amount: 7500 },
             { id: '2', description: 'Real-time Data Integration', quantity: 1, rate: 2500, amount: 2500 },
         ],
+        taxRate: salesTax,
         subtotal: 10000,
         tax: 1000,
         total: 11000,
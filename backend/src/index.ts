@@ -6,12 +6,33 @@
 
 // Services
 export { storage } from './services/storage';
+export { storageAdapters } from './services/storageAdapters';
+export { storageMigrations } from './services/storageMigrations';
+export { backupService } from './services/backupService';
+export { offlineService } from './services/offlineService';
+export { importService } from './services/importService';
+export { changeFeed } from './services/changeFeed';
+export { liveMerge } from './services/liveMerge';
+export { queryCache } from './services/queryCache';
+export { invoiceQuery } from './services/invoiceQuery';
 export { clientService } from './services/clientService';
 export { invoiceService } from './services/invoiceService';
+export { invoiceStatusService } from './services/invoiceStatusService';
 export { invoiceNumberGenerator } from './services/invoiceNumberGenerator';
 export { metricsService } from './services/metricsService';
 export { recentItemsService } from './services/recentItemsService';
-export { pdfService, generateInvoicePDF, downloadInvoicePDF } from './services/pdfService';
+export { taxService } from './services/taxService';
+export { currencyService } from './services/currencyService';
+export { discountService } from './services/discountService';
+export { paymentTermsService } from './services/paymentTermsService';
+export { money } from './services/money';
+export { paymentService } from './services/paymentService';
+export { paymentGateway } from './services/paymentGateway';
+export { creditNoteService } from './services/creditNoteService';
+export { quoteService } from './services/quoteService';
+export { recurringService } from './services/recurringService';
+export { dates } from './services/dates';
+export { pdfService, generateInvoicePDF, downloadInvoicePDF, generateCreditNotePDF, downloadCreditNotePDF } from './services/pdfService';
 
 // Types
 export * from './types';
@@ -0,0 +1,320 @@
+/**
+ * Backup Service - portable workspace archives
+ *
+ * Exports clients, invoices with their line items, the number counters and
+ * the number format as one versioned JSON document with a SHA-256 checksum.
+ * A backup is restored by merging it into the workspace (clients matched by
+ * email, invoices by number) or by replacing the workspace with it; records
+ * get IDs of the workspace they are restored into.
+ *
+ * Archives, validation and restore plans are shared with the Supabase backup
+ * service; exportLocal() and restoreLocal() work on local storage.
+ */
+
+import type {
+  Client, Invoice, NumberFormat, RestoreMode, RestorePlan, RestorePreview, RestoreResult,
+  RestoreStep, ValidationResult, WorkspaceArchive, WorkspaceData,
+} from '../types';
+import { storage } from './storage';
+import { invoiceNumberGenerator, type NumberSeries } from './invoiceNumberGenerator';
+
+const ARCHIVE_FORMAT = 'invoicey-backup';
+const ARCHIVE_VERSION = 1;
+
+/**
+ * The fields a backup needs of its records
+ */
+type ArchivedClient = { id: string; name: string; email: string };
+type ArchivedInvoice = { id: string; invoiceNumber: string; clientId: string; lineItems: unknown[] };
+
+/**
+ * Generate a unique ID for a restored record
+ */
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * SHA-256 of a text, as hex
+ */
+async function sha256(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Wrap workspace data in a checksummed archive
+ */
+async function createArchive<C, I>(data: WorkspaceData<C, I>, exportedAt: string = new Date().toISOString()): Promise<WorkspaceArchive<C, I>> {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt,
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Validate a parsed backup document
+ * Checks the format, version, checksum and that every invoice's client is in it
+ */
+async function validateArchive(document: unknown): Promise<ValidationResult> {
+  const errors: Record<string, string> = {};
+
+  if (!isRecord(document) || document.format !== ARCHIVE_FORMAT) {
+    return { valid: false, errors: { format: 'This file is not an Invoicey backup' } };
+  }
+  if (typeof document.version !== 'number' || document.version > ARCHIVE_VERSION) {
+    errors.version = 'This backup was made by a newer version of Invoicey';
+  }
+
+  const data = document.data;
+  if (!isRecord(data) || !Array.isArray(data.clients) || !Array.isArray(data.invoices) || !isRecord(data.counters)) {
+    return { valid: false, errors: { ...errors, data: 'The backup has no clients, invoices or counters' } };
+  }
+  if (document.checksum !== await sha256(JSON.stringify(data))) {
+    errors.checksum = 'The backup was changed or damaged since it was exported';
+  }
+
+  const clientIds = new Set<string>();
+  for (const client of data.clients as Partial<ArchivedClient>[]) {
+    if (typeof client?.id !== 'string' || typeof client.name !== 'string' || typeof client.email !== 'string') {
+      errors.clients = 'Every client needs an ID, a name and an email';
+      break;
+    }
+    clientIds.add(client.id);
+  }
+
+  const numbers = new Set<string>();
+  for (const invoice of data.invoices as Partial<ArchivedInvoice>[]) {
+    if (typeof invoice?.id !== 'string' || typeof invoice.invoiceNumber !== 'string' || !Array.isArray(invoice.lineItems)) {
+      errors.invoices = 'Every invoice needs an ID, a number and line items';
+      break;
+    }
+    if (numbers.has(invoice.invoiceNumber)) {
+      errors.invoices = `Invoice number ${invoice.invoiceNumber} is in the backup twice`;
+      break;
+    }
+    numbers.add(invoice.invoiceNumber);
+    if (typeof invoice.clientId !== 'string' || !clientIds.has(invoice.clientId)) {
+      errors.invoices = `The client of invoice ${invoice.invoiceNumber} is not in the backup`;
+      break;
+    }
+  }
+
+  const format = invoiceNumberGenerator.validateFormat(data.numberFormat as NumberFormat);
+  if (!isRecord(data.numberFormat) || !format.valid) {
+    errors.numberFormat = 'The number format of the backup is not valid';
+  }
+
+  return { valid: Object.keys(errors).length === 0, errors };
+}
+
+/**
+ * Parse and validate a backup document
+ */
+async function parseArchive(json: string): Promise<WorkspaceArchive> {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not an Invoicey backup');
+  }
+
+  const validation = await validateArchive(document);
+  if (!validation.valid) {
+    throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+  }
+  return document as WorkspaceArchive;
+}
+
+/**
+ * Pick the counter that is further along: the later period, or the higher
+ * sequence within one period
+ */
+function furthestCounter(current: WorkspaceData['counters'], restored: WorkspaceData['counters']): WorkspaceData['counters'] {
+  const counters: WorkspaceData['counters'] = { ...current };
+  for (const [series, counter] of Object.entries(restored) as [NumberSeries, NonNullable<WorkspaceData['counters'][NumberSeries]>][]) {
+    const existing = counters[series];
+    if (!existing || counter.period > existing.period || (counter.period === existing.period && counter.sequence > existing.sequence)) {
+      counters[series] = counter;
+    }
+  }
+  return counters;
+}
+
+/**
+ * Plan restoring a backup into a workspace
+ * Replacing removes every client and invoice of the workspace first; merging
+ * updates the clients with the same email and the invoices with the same
+ * number, and keeps the workspace's number format.
+ */
+function planRestore<C extends ArchivedClient, I extends ArchivedInvoice>(
+  archive: WorkspaceArchive<C, I>,
+  workspace: WorkspaceData<C, I>,
+  mode: RestoreMode
+): RestorePlan<C, I> {
+  const replace = mode === 'replace';
+  const clients: RestoreStep<C>[] = replace ? workspace.clients.map(client => ({ action: 'remove', record: client, targetId: client.id })) : [];
+  const invoices: RestoreStep<I>[] = replace ? workspace.invoices.map(invoice => ({ action: 'remove', record: invoice, targetId: invoice.id })) : [];
+
+  const clientsByEmail = new Map(replace ? [] : workspace.clients.map(client => [client.email.trim().toLowerCase(), client]));
+  for (const client of archive.data.clients) {
+    const match = clientsByEmail.get(client.email.trim().toLowerCase());
+    clients.push(match ? { action: 'update', record: client, targetId: match.id } : { action: 'create', record: client });
+  }
+
+  const invoicesByNumber = new Map(replace ? [] : workspace.invoices.map(invoice => [invoice.invoiceNumber, invoice]));
+  for (const invoice of archive.data.invoices) {
+    const match = invoicesByNumber.get(invoice.invoiceNumber);
+    invoices.push(match ? { action: 'update', record: invoice, targetId: match.id } : { action: 'create', record: invoice });
+  }
+
+  return {
+    mode,
+    clients,
+    invoices,
+    counters: replace ? archive.data.counters : furthestCounter(workspace.counters, archive.data.counters),
+    numberFormat: replace ? archive.data.numberFormat : workspace.numberFormat,
+  };
+}
+
+/**
+ * Summarize a restore plan for a dry run
+ */
+function previewPlan<C extends ArchivedClient, I extends ArchivedInvoice>(plan: RestorePlan<C, I>, currentFormat: NumberFormat): RestorePreview {
+  const count = (steps: RestoreStep<unknown>[]) => ({
+    create: steps.filter(step => step.action === 'create').length,
+    update: steps.filter(step => step.action === 'update').length,
+    remove: steps.filter(step => step.action === 'remove').length,
+  });
+
+  return {
+    mode: plan.mode,
+    counts: { clients: count(plan.clients), invoices: count(plan.invoices) },
+    entries: [
+      ...plan.clients.map(step => ({ type: 'client' as const, action: step.action, label: `${step.record.name} <${step.record.email}>` })),
+      ...plan.invoices.map(step => ({ type: 'invoice' as const, action: step.action, label: step.record.invoiceNumber })),
+    ],
+    numberFormatChanged: JSON.stringify(plan.numberFormat) !== JSON.stringify(currentFormat),
+  };
+}
+
+/**
+ * Get the local workspace
+ */
+function getLocalData(): WorkspaceData {
+  const counters: WorkspaceData['counters'] = {};
+  for (const series of Object.keys(invoiceNumberGenerator.SERIES) as NumberSeries[]) {
+    const counter = invoiceNumberGenerator.getCounterData(series);
+    if (counter) {
+      counters[series] = { period: counter.period ?? String(counter.year), sequence: counter.sequence };
+    }
+  }
+
+  return {
+    clients: storage.getClients(),
+    invoices: storage.getInvoices(),
+    counters,
+    numberFormat: invoiceNumberGenerator.getFormat(),
+  };
+}
+
+/**
+ * Export the local workspace as a backup
+ */
+function exportLocal(): Promise<WorkspaceArchive> {
+  return createArchive(getLocalData());
+}
+
+/**
+ * Apply a restore plan to local storage
+ * Replacing also removes the payments and credit notes of removed invoices
+ * and the quotes and recurring profiles of removed clients.
+ */
+function applyLocal(plan: RestorePlan): void {
+  const removedClientIds = new Set(plan.clients.filter(step => step.action === 'remove').map(step => step.targetId));
+  const removedInvoiceIds = new Set(plan.invoices.filter(step => step.action === 'remove').map(step => step.targetId));
+
+  storage.setPayments(storage.getPayments().filter(payment => !removedInvoiceIds.has(payment.invoiceId)));
+  storage.setCreditNotes(storage.getCreditNotes().filter(creditNote => !removedInvoiceIds.has(creditNote.invoiceId)));
+  storage.setQuotes(storage.getQuotes().filter(quote => !removedClientIds.has(quote.clientId)));
+  storage.setRecurringProfiles(storage.getRecurringProfiles().filter(profile => !removedClientIds.has(profile.template.clientId)));
+
+  // Backup client IDs -> workspace client IDs
+  const clientIds = new Map<string, string>();
+  let clients = storage.getClients().filter(client => !removedClientIds.has(client.id));
+  for (const step of plan.clients) {
+    if (step.action === 'update' && step.targetId) {
+      const targetId = step.targetId;
+      clients = clients.map(client => (client.id === targetId ? { ...step.record, id: targetId, createdAt: client.createdAt } : client));
+      clientIds.set(step.record.id, targetId);
+    } else if (step.action === 'create') {
+      const id = generateId('client');
+      clients.push({ ...step.record, id });
+      clientIds.set(step.record.id, id);
+    }
+  }
+  storage.setClients(clients);
+
+  const clientsById = new Map(clients.map(client => [client.id, client]));
+  const remap = (invoice: Invoice, id: string): Invoice => {
+    const clientId = clientIds.get(invoice.clientId) ?? invoice.clientId;
+    return { ...invoice, id, clientId, client: clientsById.get(clientId) ?? invoice.client };
+  };
+
+  let invoices = storage.getInvoices().filter(invoice => !removedInvoiceIds.has(invoice.id));
+  for (const step of plan.invoices) {
+    if (step.action === 'update' && step.targetId) {
+      const targetId = step.targetId;
+      invoices = invoices.map(invoice => (invoice.id === targetId ? remap(step.record, targetId) : invoice));
+    } else if (step.action === 'create') {
+      invoices.push(remap(step.record, generateId('invoice')));
+    }
+  }
+  storage.setInvoices(invoices);
+
+  for (const [series, counter] of Object.entries(plan.counters) as [NumberSeries, NonNullable<RestorePlan['counters'][NumberSeries]>][]) {
+    invoiceNumberGenerator.setCounterData(counter, series);
+  }
+  invoiceNumberGenerator.setFormat(plan.numberFormat);
+}
+
+/**
+ * Restore a backup into local storage, or only preview what it would do
+ */
+async function restoreLocal(archive: WorkspaceArchive, mode: RestoreMode, options: { dryRun?: boolean } = {}): Promise<RestoreResult> {
+  const validation = await validateArchive(archive);
+  if (!validation.valid) {
+    throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+  }
+
+  const workspace = getLocalData();
+  const plan = planRestore<Client, Invoice>(archive, workspace, mode);
+  const preview = previewPlan(plan, workspace.numberFormat);
+  if (!options.dryRun) {
+    applyLocal(plan);
+  }
+  return { preview, errors: [] };
+}
+
+export const backupService = {
+  createArchive,
+  validateArchive,
+  parseArchive,
+  planRestore,
+  previewPlan,
+  furthestCounter,
+  getLocalData,
+  exportLocal,
+  restoreLocal,
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+};
+
+export default backupService;
@@ -0,0 +1,130 @@
+/**
+ * Change Feed - observable changes to application data, across tabs
+ *
+ * Listeners in a tab are told about every change to the data: changes made
+ * in the tab itself and changes published by other tabs of the app, which
+ * are sent over a BroadcastChannel. Every change names the tab it came from,
+ * so a listener can tell its own changes from those it still has to apply.
+ *
+ * The storage service emits a change whenever a collection is written, in
+ * this tab or, through storage events, in another one.
+ */
+
+import type { DataChange } from '../types';
+
+const CHANNEL_NAME = 'invoicey_changes';
+
+/**
+ * Origin of changes made in another tab that did not say which
+ */
+const EXTERNAL_ORIGIN = 'external';
+
+type ChangeListener = (change: DataChange) => void;
+type PublishedChange = Omit<DataChange, 'origin' | 'at'>;
+
+/**
+ * Generate an ID for this tab
+ */
+function generateTabId(): string {
+  return `tab_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Create a change feed on a broadcast channel
+ * Without BroadcastChannel, changes stay in the tab they were made in.
+ */
+function createChangeFeed(channelName: string = CHANNEL_NAME) {
+  const tabId = generateTabId();
+  const listeners = new Set<ChangeListener>();
+  let channel: BroadcastChannel | null = null;
+
+  const notify = (change: DataChange) => {
+    for (const listener of listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Change listener failed:', error);
+      }
+    }
+  };
+
+  const getChannel = (): BroadcastChannel | null => {
+    if (!channel && typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(channelName);
+      channel.onmessage = (event: MessageEvent<DataChange>) => notify(event.data);
+    }
+    return channel;
+  };
+
+  /**
+   * Tell the listeners in this tab about a change
+   * Origin defaults to this tab.
+   */
+  const emit = (change: PublishedChange & { origin?: string }): DataChange => {
+    const full: DataChange = { ...change, origin: change.origin ?? tabId, at: new Date().toISOString() };
+    notify(full);
+    return full;
+  };
+
+  return {
+    tabId,
+    emit,
+
+    /**
+     * Call a listener with every change from now on, until the returned
+     * function is called
+     * Listening also starts receiving the changes of other tabs.
+     */
+    subscribe(listener: ChangeListener): () => void {
+      listeners.add(listener);
+      getChannel();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /**
+     * Tell the listeners in this tab and in every other tab about a change
+     * made in this tab
+     */
+    publish(change: PublishedChange): DataChange {
+      const full = emit({ ...change, origin: tabId });
+      try {
+        getChannel()?.postMessage(full);
+      } catch (error) {
+        console.warn('Failed to send change to other tabs:', error);
+      }
+      return full;
+    },
+
+    /**
+     * Check if a change was made in another tab
+     */
+    isExternal(change: DataChange): boolean {
+      return change.origin !== tabId;
+    },
+
+    /**
+     * Stop listening and stop receiving the changes of other tabs
+     */
+    close(): void {
+      listeners.clear();
+      channel?.close();
+      channel = null;
+    },
+  };
+}
+
+export type ChangeFeed = ReturnType<typeof createChangeFeed>;
+
+/**
+ * The change feed of this tab
+ */
+export const changeFeed = {
+  ...createChangeFeed(),
+  createChangeFeed,
+  CHANNEL_NAME,
+  EXTERNAL_ORIGIN,
+};
+
+export default changeFeed;
@@ -5,6 +5,7 @@
  */
 
 import type { Client, ClientInput, ValidationResult } from '../types';
+import { paymentTermsService } from './paymentTermsService';
 import { storage } from './storage';
 
 /**
@@ -51,6 +52,10 @@ function validate(input: ClientInput): ValidationResult {
     errors.email = 'Email is required';
   }
 
+  if (!paymentTermsService.isValid(input.defaultPaymentTerms)) {
+    errors.defaultPaymentTerms = 'Payment terms must have zero or more days';
+  }
+
   return {
     valid: Object.keys(errors).length === 0,
     errors,
@@ -76,6 +81,8 @@ function create(input: ClientInput): Client {
     company: input.company?.trim(),
     phone: input.phone?.trim(),
     address: input.address?.trim(),
+    defaultCurrency: input.defaultCurrency,
+    defaultPaymentTerms: input.defaultPaymentTerms,
     createdAt: getCurrentTimestamp(),
   };
 
@@ -110,6 +117,8 @@ function update(id: string, input: ClientInput): Client {
     company: input.company?.trim(),
     phone: input.phone?.trim(),
     address: input.address?.trim(),
+    defaultCurrency: input.defaultCurrency ?? existingClient.defaultCurrency,
+    defaultPaymentTerms: input.defaultPaymentTerms ?? existingClient.defaultPaymentTerms,
     // Preserve original ID and createdAt
     id: existingClient.id,
     createdAt: existingClient.createdAt,
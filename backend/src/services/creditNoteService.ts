@@ -0,0 +1,216 @@
+/**
+ * Credit Note Service - Corrections to issued invoices
+ *
+ * An issued invoice is never rewritten. Instead a credit note references it,
+ * with its own CN-YYYY-NNN number and negative line items. The amount
+ * credited is added to the invoice's creditedAmount, which reduces its
+ * balance due (and the client's outstanding balance). Whatever is credited
+ * beyond the unpaid balance is a refund owed to the client, and is taken
+ * off revenue in the metrics.
+ *
+ * Tax, rounding and a percentage invoice discount are applied as on the
+ * invoice, so crediting every line of such an invoice credits exactly its
+ * total. A fixed invoice discount is not spread over credited lines.
+ */
+
+import type { CreditNote, CreditNoteInput, Invoice, LineItem, ValidationResult } from '../types';
+import { storage } from './storage';
+import { invoiceNumberGenerator } from './invoiceNumberGenerator';
+import { invoiceService } from './invoiceService';
+import { taxService } from './taxService';
+import { currencyService } from './currencyService';
+import { discountService } from './discountService';
+import { money } from './money';
+import { paymentService } from './paymentService';
+
+/**
+ * Generate a unique ID for a new credit note
+ */
+function generateId(): string {
+  return `credit_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Generate a unique ID for a credit note line
+ */
+function generateLineItemId(): string {
+  return `credit_line_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get current ISO date string (YYYY-MM-DD)
+ */
+function getCurrentDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Get all credit notes from storage
+ */
+function getAll(): CreditNote[] {
+  return storage.getCreditNotes();
+}
+
+/**
+ * Get a credit note by ID
+ */
+function getById(id: string): CreditNote | undefined {
+  return storage.getCreditNotes().find(creditNote => creditNote.id === id);
+}
+
+/**
+ * Get the credit notes of an invoice, oldest first
+ */
+function getByInvoiceId(invoiceId: string): CreditNote[] {
+  return storage.getCreditNotes()
+    .filter(creditNote => creditNote.invoiceId === invoiceId)
+    .sort((a, b) => a.issueDate.localeCompare(b.issueDate) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Amount of an invoice that can still be credited
+ */
+function getCreditableAmount(invoice: Pick<Invoice, 'total' | 'currency' | 'creditedAmount'>): number {
+  const currency = currencyService.getInvoiceCurrency(invoice);
+  const remaining = money.toMinor(invoice.total, currency) - money.toMinor(paymentService.getCreditedAmount(invoice), currency);
+  return money.fromMinor(Math.max(remaining, 0), currency);
+}
+
+/**
+ * Calculate the negative lines and amounts of a credit note
+ * Lines are entered as positive amounts to credit and stored negated
+ */
+function calculate(
+  input: Pick<CreditNoteInput, 'lineItems'>,
+  invoice: Pick<Invoice, 'currency' | 'taxRate' | 'discount' | 'rounding'>
+): Pick<CreditNote, 'lineItems' | 'subtotal' | 'discountAmount' | 'tax' | 'total'> {
+  const currency = currencyService.getInvoiceCurrency(invoice);
+  const rounding = invoice.rounding ?? money.DEFAULT_ROUNDING;
+  const discount = invoice.discount?.type === 'percentage' ? invoice.discount : undefined;
+  const totals = invoiceService.calculateTotals(input.lineItems, invoice.taxRate ?? taxService.NO_TAX, discount, { currency, rounding });
+  const negate = (amount: number) => money.fromMinor(-money.toMinor(amount, currency), currency);
+
+  const lineItems: LineItem[] = input.lineItems.map(item => ({
+    id: generateLineItemId(),
+    description: item.description,
+    quantity: item.quantity,
+    rate: negate(item.rate),
+    amount: negate(discountService.getLineAmount(item, currency, rounding.mode)),
+    taxRate: item.taxRate,
+    discount: item.discount,
+  }));
+
+  return {
+    lineItems,
+    subtotal: negate(totals.subtotal),
+    discountAmount: negate(totals.discountAmount),
+    tax: negate(totals.tax),
+    total: negate(totals.total),
+  };
+}
+
+/**
+ * Validate a credit note against the invoice it corrects
+ */
+function validate(
+  input: CreditNoteInput,
+  invoice: Pick<Invoice, 'status' | 'total' | 'currency' | 'taxRate' | 'discount' | 'rounding' | 'creditedAmount'>
+): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (invoice.status === 'draft') {
+    errors.invoice = 'Only issued invoices can be credited; edit the draft instead';
+  } else if (invoice.status === 'void') {
+    errors.invoice = 'A void invoice cannot be credited';
+  }
+
+  if (!input.issueDate) {
+    errors.issueDate = 'Issue date is required';
+  }
+
+  if (!input.reason || input.reason.trim() === '') {
+    errors.reason = 'Please give a reason for the credit note';
+  }
+
+  if (!input.lineItems || input.lineItems.length === 0) {
+    errors.lineItems = 'At least one line item is required';
+  } else {
+    const invalidItem = input.lineItems.find(item =>
+      !item.description?.trim() || !(item.quantity > 0) || !(item.rate >= 0)
+    );
+    if (invalidItem) {
+      errors.lineItems = 'Each line needs a description, a positive quantity and a rate';
+    } else {
+      const currency = currencyService.getInvoiceCurrency(invoice);
+      const credited = -money.toMinor(calculate(input, invoice).total, currency);
+      const creditable = getCreditableAmount(invoice);
+
+      if (credited <= 0) {
+        errors.lineItems = 'The credit note total must be greater than zero';
+      } else if (credited > money.toMinor(creditable, currency)) {
+        errors.lineItems = `The credit note exceeds the ${currencyService.format(creditable, currency)} left to credit on this invoice`;
+      }
+    }
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+/**
+ * Issue a credit note against an invoice
+ * The invoice's creditedAmount, balance due and status are updated with it
+ */
+function create(invoiceId: string, input: CreditNoteInput): CreditNote {
+  const invoice = storage.getInvoices().find(i => i.id === invoiceId);
+  if (!invoice) {
+    throw new Error(`Invoice with ID "${invoiceId}" not found`);
+  }
+
+  const validation = validate(input, invoice);
+  if (!validation.valid) {
+    throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+  }
+
+  const currency = currencyService.getInvoiceCurrency(invoice);
+  const creditNote: CreditNote = {
+    id: generateId(),
+    creditNoteNumber: invoiceNumberGenerator.generate('creditNote', invoice.client),
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    clientId: invoice.clientId,
+    client: invoice.client,
+    currency,
+    issueDate: input.issueDate,
+    reason: input.reason.trim(),
+    taxRate: invoice.taxRate,
+    discount: invoice.discount?.type === 'percentage' ? invoice.discount : undefined,
+    rounding: invoice.rounding,
+    ...calculate(input, invoice),
+    createdAt: getCurrentDate(),
+  };
+
+  storage.setCreditNotes([...storage.getCreditNotes(), creditNote]);
+
+  const credited = money.toMinor(paymentService.getCreditedAmount(invoice), currency) - money.toMinor(creditNote.total, currency);
+  storage.setInvoices(storage.getInvoices().map(i =>
+    i.id === invoiceId ? { ...i, creditedAmount: money.fromMinor(credited, currency) } : i
+  ));
+  paymentService.syncInvoice(invoiceId, { reason: `Credit note ${creditNote.creditNoteNumber} issued` });
+
+  return creditNote;
+}
+
+export const creditNoteService = {
+  getAll,
+  getById,
+  getByInvoiceId,
+  getCreditableAmount,
+  calculate,
+  validate,
+  create,
+};
+
+export default creditNoteService;
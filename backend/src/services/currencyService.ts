@@ -0,0 +1,46 @@
+/**
+ * Currency Service - Invoice currencies and currency formatting
+ *
+ * Every invoice is issued in a single ISO 4217 currency. Clients carry a
+ * default currency that new invoices for them start with. Invoices stored
+ * before currencies existed are treated as USD.
+ */
+
+const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Currencies offered in the client and invoice editors
+ */
+const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'JPY', 'INR', 'NGN'];
+
+/**
+ * Format an amount in the given currency, e.g. "$1,234.50" or "€1,234.50"
+ */
+function format(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * Get the display symbol for a currency, e.g. "$" for USD or "€" for EUR
+ */
+function getSymbol(currency: string = DEFAULT_CURRENCY): string {
+  const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value ?? currency;
+}
+
+/**
+ * Get the currency of an invoice, falling back to the default for legacy data
+ */
+function getInvoiceCurrency(invoice: { currency?: string }): string {
+  return invoice.currency || DEFAULT_CURRENCY;
+}
+
+export const currencyService = {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  format,
+  getSymbol,
+  getInvoiceCurrency,
+};
+
+export default currencyService;
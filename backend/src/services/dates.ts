@@ -0,0 +1,83 @@
+/**
+ * Dates - Calendar arithmetic on YYYY-MM-DD date strings
+ *
+ * Invoice dates are calendar days without a time zone, so they are parsed
+ * and formatted as UTC dates and never shifted by the local offset. Adding
+ * months keeps the day of the month where possible and otherwise clamps to
+ * the last day (Jan 31 + 1 month = Feb 28).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get current ISO date string (YYYY-MM-DD)
+ */
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Parse a YYYY-MM-DD date as midnight UTC
+ */
+function parse(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Format a date as YYYY-MM-DD in UTC
+ */
+function format(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Add a number of days, negative to go back
+ */
+function addDays(date: string, days: number): string {
+  return format(new Date(parse(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Number of days in a month, month being 0-11
+ */
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Add a number of months, clamping the day to the end of shorter months
+ */
+function addMonths(date: string, months: number): string {
+  const start = parse(date);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const day = Math.min(start.getUTCDate(), getDaysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+  return format(new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), day)));
+}
+
+/**
+ * Last day of the month of a date
+ */
+function endOfMonth(date: string): string {
+  const parsed = parse(date);
+  return format(new Date(Date.UTC(parsed.getUTCFullYear(), parsed.getUTCMonth() + 1, 0)));
+}
+
+/**
+ * Whole days from one date to another, negative when `to` is earlier
+ */
+function daysBetween(from: string, to: string): number {
+  return Math.round((parse(to).getTime() - parse(from).getTime()) / DAY_MS);
+}
+
+export const dates = {
+  today,
+  parse,
+  format,
+  addDays,
+  addMonths,
+  endOfMonth,
+  daysBetween,
+};
+
+export default dates;
@@ -0,0 +1,113 @@
+/**
+ * Discount Service - Line-level and invoice-level discounts
+ *
+ * A discount is either a percentage or a fixed amount in the invoice
+ * currency. Line discounts reduce the line amount; the invoice discount
+ * reduces the subtotal. A discount never exceeds the amount it applies to.
+ */
+
+import type { Discount, LineItemInput, RoundingMode } from '../types';
+import { currencyService } from './currencyService';
+import { money } from './money';
+
+/**
+ * Calculate the discount on an amount in minor units, capped between 0 and the amount
+ */
+function calculateDiscountMinor(
+  amountMinor: number,
+  discount: Discount | undefined,
+  currency?: string,
+  mode?: RoundingMode
+): number {
+  if (!discount || discount.value <= 0 || amountMinor <= 0) {
+    return 0;
+  }
+
+  const value = discount.type === 'percentage'
+    ? money.percentage(amountMinor, Math.min(discount.value, 100), mode)
+    : money.toMinor(discount.value, currency, mode);
+
+  return Math.min(value, amountMinor);
+}
+
+/**
+ * Calculate the discount on an amount, capped between 0 and the amount itself
+ */
+function calculateDiscount(amount: number, discount?: Discount, currency?: string, mode?: RoundingMode): number {
+  const amountMinor = money.toMinor(amount, currency, mode);
+  return money.fromMinor(calculateDiscountMinor(amountMinor, discount, currency, mode), currency);
+}
+
+/**
+ * Calculate a line item amount in minor units: quantity × rate, rounded,
+ * minus the line discount
+ */
+function getLineAmountMinor(
+  item: Pick<LineItemInput, 'quantity' | 'rate' | 'discount'>,
+  currency?: string,
+  mode?: RoundingMode
+): number {
+  const gross = money.multiply(item.rate * 10 ** money.getMinorDigits(currency), item.quantity, mode);
+  return gross - calculateDiscountMinor(gross, item.discount, currency, mode);
+}
+
+/**
+ * Calculate a line item amount: quantity × rate minus the line discount
+ */
+function getLineAmount(
+  item: Pick<LineItemInput, 'quantity' | 'rate' | 'discount'>,
+  currency?: string,
+  mode?: RoundingMode
+): number {
+  return money.fromMinor(getLineAmountMinor(item, currency, mode), currency);
+}
+
+/**
+ * Human readable label, e.g. "10%" or "$50.00"
+ */
+function formatDiscount(discount: Discount, currency?: string): string {
+  return discount.type === 'percentage'
+    ? `${discount.value}%`
+    : currencyService.format(discount.value, currency);
+}
+
+/**
+ * Label for the discount row in invoice totals, e.g. "Discount (10%)"
+ * Fixed discounts are just "Discount" since the row already shows the amount
+ */
+function formatDiscountLabel(discount: Discount): string {
+  return discount.type === 'percentage' ? `Discount (${discount.value}%)` : 'Discount';
+}
+
+/**
+ * Percentages must be within 0-100 and fixed amounts must not be negative
+ */
+function isValid(discount?: Discount): boolean {
+  if (!discount) {
+    return true;
+  }
+  if (!Number.isFinite(discount.value) || discount.value < 0) {
+    return false;
+  }
+  return discount.type !== 'percentage' || discount.value <= 100;
+}
+
+/**
+ * Whether a discount is set and has an effect
+ */
+function hasDiscount(discount?: Discount): discount is Discount {
+  return !!discount && discount.value > 0;
+}
+
+export const discountService = {
+  calculateDiscountMinor,
+  calculateDiscount,
+  getLineAmountMinor,
+  getLineAmount,
+  formatDiscount,
+  formatDiscountLabel,
+  isValid,
+  hasDiscount,
+};
+
+export default discountService;
@@ -0,0 +1,183 @@
+/**
+ * Import Service - moving local data into an account
+ *
+ * Users who started with the local-only app keep their clients and invoices
+ * in local storage. Importing plans how that data goes into their Supabase
+ * account: clients are matched by email, invoices keep their numbers, and the
+ * invoice counter is moved past the highest number imported so new invoices
+ * continue the series. Invoices whose number the account already uses are
+ * skipped when they are the same invoice and reported as conflicts otherwise,
+ * so an import can be run again without creating duplicates.
+ *
+ * The plan is written by the Supabase import service; whether a user imported
+ * or declined is kept here, per user.
+ */
+
+import type {
+  Client, ImportAction, ImportPlan, ImportRecord, ImportReport, ImportStep, Invoice, WorkspaceData,
+} from '../types';
+import { storage } from './storage';
+import { backupService } from './backupService';
+import { invoiceNumberGenerator } from './invoiceNumberGenerator';
+
+const IMPORT_STORAGE_KEY = 'invoicey_account_import';
+
+/**
+ * The fields an import needs of its records
+ */
+type ImportedClient = Pick<Client, 'id' | 'name' | 'email'>;
+type ImportedInvoice = Pick<Invoice, 'id' | 'invoiceNumber' | 'clientId' | 'issueDate' | 'total'>;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Get the local data, or null if there are no clients or invoices to import
+ */
+function getLocalData(): WorkspaceData | null {
+  const data = backupService.getLocalData();
+  return data.clients.length > 0 || data.invoices.length > 0 ? data : null;
+}
+
+/**
+ * Plan importing local data into an account
+ * The account keeps its number format unless it has no invoices yet; then
+ * it takes the local one, so imported and new numbers look alike.
+ */
+function planImport<C extends ImportedClient, I extends ImportedInvoice>(
+  local: WorkspaceData<C, I>,
+  account: WorkspaceData<ImportedClient, ImportedInvoice>
+): ImportPlan<C, I> {
+  const accountClients = new Map(account.clients.map(client => [normalizeEmail(client.email), client]));
+  const localEmails = new Map<string, string>();
+  const clients: ImportStep<C>[] = [];
+
+  for (const client of local.clients) {
+    if (!client.name?.trim() || !client.email?.trim()) {
+      clients.push({ action: 'skip', record: client, reason: 'A client needs a name and an email' });
+      continue;
+    }
+    const email = normalizeEmail(client.email);
+    const match = accountClients.get(email);
+    if (localEmails.has(email)) {
+      clients.push({ action: 'skip', record: client, reason: 'Another local client has the same email; its invoices go to that client' });
+    } else if (match) {
+      clients.push({ action: 'link', record: client, targetId: match.id });
+    } else {
+      clients.push({ action: 'create', record: client });
+    }
+    localEmails.set(email, client.id);
+  }
+
+  const localClientEmails = new Map(local.clients.map(client => [client.id, client.email ? normalizeEmail(client.email) : '']));
+  const accountClientEmails = new Map(account.clients.map(client => [client.id, normalizeEmail(client.email)]));
+  const accountInvoices = new Map(account.invoices.map(invoice => [invoice.invoiceNumber, invoice]));
+  const numbers = new Set<string>();
+  const invoices: ImportStep<I>[] = [];
+  // Invoices whose numbers end up in the account
+  const numbered: I[] = [];
+
+  for (const invoice of local.invoices) {
+    const email = localClientEmails.get(invoice.clientId);
+    const existing = accountInvoices.get(invoice.invoiceNumber);
+    if (!email || !localEmails.has(email)) {
+      invoices.push({ action: 'skip', record: invoice, reason: 'Its client is not imported' });
+    } else if (numbers.has(invoice.invoiceNumber)) {
+      invoices.push({ action: 'conflict', record: invoice, reason: 'Another local invoice has the same number' });
+    } else if (!existing) {
+      invoices.push({ action: 'create', record: invoice });
+      numbered.push(invoice);
+    } else if (accountClientEmails.get(existing.clientId) === email && existing.issueDate === invoice.issueDate && existing.total === invoice.total) {
+      invoices.push({ action: 'skip', record: invoice, reason: 'Already in your account' });
+      numbered.push(invoice);
+    } else {
+      invoices.push({ action: 'conflict', record: invoice, reason: 'Your account has a different invoice with this number' });
+    }
+    numbers.add(invoice.invoiceNumber);
+  }
+
+  const numberFormat = account.invoices.length === 0 ? local.numberFormat : account.numberFormat;
+
+  // Continue the series after the highest number in the account
+  let counters = account.counters.invoice ? { invoice: account.counters.invoice } : {};
+  for (const invoice of numbered) {
+    const sequence = invoiceNumberGenerator.parseSequence(invoice.invoiceNumber, local.numberFormat);
+    if (sequence !== null) {
+      const period = invoiceNumberGenerator.getPeriod(invoice.issueDate, numberFormat);
+      counters = backupService.furthestCounter(counters, { invoice: { period, sequence } });
+    }
+  }
+
+  return {
+    clients,
+    invoices,
+    counters,
+    numberFormat,
+  };
+}
+
+/**
+ * Summarize an import plan, for a preview or a report
+ */
+function summarize<C extends ImportedClient, I extends ImportedInvoice>(
+  plan: ImportPlan<C, I>,
+  accountFormat: WorkspaceData['numberFormat'],
+  errors: string[] = []
+): ImportReport {
+  const count = (steps: ImportStep<unknown>[]) => {
+    const counts: Record<ImportAction, number> = { create: 0, link: 0, skip: 0, conflict: 0 };
+    for (const step of steps) {
+      counts[step.action]++;
+    }
+    return counts;
+  };
+
+  return {
+    counts: { clients: count(plan.clients), invoices: count(plan.invoices) },
+    entries: [
+      ...plan.clients.map(step => ({ type: 'client' as const, action: step.action, label: `${step.record.name} <${step.record.email}>`, reason: step.reason })),
+      ...plan.invoices.map(step => ({ type: 'invoice' as const, action: step.action, label: step.record.invoiceNumber, reason: step.reason })),
+    ],
+    numberFormatChanged: JSON.stringify(plan.numberFormat) !== JSON.stringify(accountFormat),
+    errors,
+  };
+}
+
+/**
+ * Get whether a user imported the local data or declined to
+ * Returns null if the user was not asked yet
+ */
+function getRecord(userId: string): ImportRecord | null {
+  return (storage.get<ImportRecord[]>(IMPORT_STORAGE_KEY) ?? []).find(record => record.userId === userId) ?? null;
+}
+
+/**
+ * Remember that a user imported the local data or declined to
+ */
+function setRecord(userId: string, status: ImportRecord['status']): ImportRecord {
+  const record: ImportRecord = { userId, status, at: new Date().toISOString() };
+  const records = (storage.get<ImportRecord[]>(IMPORT_STORAGE_KEY) ?? []).filter(existing => existing.userId !== userId);
+  storage.set(IMPORT_STORAGE_KEY, [...records, record]);
+  return record;
+}
+
+/**
+ * Check if a user should be offered to import the local data: there is
+ * some, and the user has not imported it or declined to yet
+ */
+function shouldOffer(userId: string): boolean {
+  return getRecord(userId) === null && getLocalData() !== null;
+}
+
+export const importService = {
+  getLocalData,
+  planImport,
+  summarize,
+  getRecord,
+  setRecord,
+  shouldOffer,
+  IMPORT_STORAGE_KEY,
+};
+
+export default importService;
@@ -1,20 +1,67 @@
 /**
  * Invoice Number Generator Service
- * Generates sequential invoice numbers in format INV-YYYY-NNN
- * Persists counter in localStorage and handles year rollover
- * 
+ * Generates sequential document numbers from a configurable template
+ * - invoices: INV-YYYY-NNN by default
+ * - credit notes: CN-YYYY-NNN, a separate series
+ * - quotes: QUO-YYYY-NNN, a separate series
+ * Persists one counter per series in storage and starts it again at 1
+ * when the reset period (year, fiscal year or month) rolls over
+ *
+ * Template tokens:
+ * - {PREFIX}: the prefix of the series, e.g. INV
+ * - {YYYY}, {YY}, {MM}: calendar year and month of the number
+ * - {FY}: fiscal year, named after the calendar year it ends in
+ * - {CLIENT}: a three-character code from the client's company or name
+ * - {SEQ} or {SEQ:n}: the sequence, zero-padded to n digits. Longer
+ *   sequences are never cut, so INV-2026-999 is followed by INV-2026-1000
+ *
  * Requirements: 3.1
  */
 
+import type { Client, NumberFormat, NumberResetPolicy, ValidationResult } from '../types';
+import { dates } from './dates';
 import { storage } from './storage';
 
 const COUNTER_STORAGE_KEY = 'invoicey_invoice_counter_data';
+const CREDIT_NOTE_COUNTER_STORAGE_KEY = 'invoicey_credit_note_counter_data';
+const QUOTE_COUNTER_STORAGE_KEY = 'invoicey_quote_counter_data';
+const FORMAT_STORAGE_KEY = 'invoicey_number_format';
 
 interface CounterData {
-  year: number;
+  period: string;
   sequence: number;
+  /** Counters saved before reset periods hold the year instead */
+  year?: number;
 }
 
+/**
+ * Number series and their prefixes and counters
+ */
+const SERIES = {
+  invoice: { prefix: 'INV', storageKey: COUNTER_STORAGE_KEY },
+  creditNote: { prefix: 'CN', storageKey: CREDIT_NOTE_COUNTER_STORAGE_KEY },
+  quote: { prefix: 'QUO', storageKey: QUOTE_COUNTER_STORAGE_KEY },
+} as const;
+
+export type NumberSeries = keyof typeof SERIES;
+
+const RESET_POLICIES: NumberResetPolicy[] = ['never', 'yearly', 'monthly'];
+
+const TOKENS = ['PREFIX', 'YYYY', 'YY', 'MM', 'FY', 'CLIENT', 'SEQ'];
+
+const TOKEN_PATTERN = /\{([A-Z]+)(?::(\d+))?\}/g;
+
+const MAX_SEQUENCE_WIDTH = 12;
+
+/**
+ * Format used until the user configures one
+ */
+const DEFAULT_NUMBER_FORMAT: NumberFormat = {
+  template: '{PREFIX}-{YYYY}-{SEQ:3}',
+  reset: 'yearly',
+  fiscalYearStartMonth: 1,
+};
+
 /**
  * Get the current year
  */
@@ -23,66 +70,244 @@ function getCurrentYear(): number {
 }
 
 /**
- * Get the stored counter data
- * Returns null if no counter exists
+ * Get the tokens used in a template
+ */
+function getTokens(template: string): { name: string; width?: number }[] {
+  return [...template.matchAll(TOKEN_PATTERN)].map(([, name, width]) => ({
+    name,
+    width: width === undefined ? undefined : Number(width),
+  }));
+}
+
+/**
+ * Validate a number format
+ * Numbers must stay unique: a series that resets needs the period in the
+ * template, and a fiscal year that does not start in January needs {FY}
+ */
+function validateFormat(format: NumberFormat): ValidationResult {
+  const errors: Record<string, string> = {};
+  const tokens = getTokens(format.template);
+  const names = tokens.map((token) => token.name);
+  const unknown = names.filter((name) => !TOKENS.includes(name));
+  const sequence = tokens.filter((token) => token.name === 'SEQ');
+
+  if (!format.template.trim()) {
+    errors.template = 'Template is required';
+  } else if (unknown.length > 0) {
+    errors.template = `Unknown token {${unknown[0]}}`;
+  } else if (sequence.length !== 1) {
+    errors.template = 'Template must contain {SEQ} exactly once';
+  } else if (tokens.some((token) => token.name !== 'SEQ' && token.width !== undefined)) {
+    errors.template = 'Only {SEQ} takes a width';
+  } else if (sequence[0].width !== undefined && (sequence[0].width < 1 || sequence[0].width > MAX_SEQUENCE_WIDTH)) {
+    errors.template = `Sequence width must be between 1 and ${MAX_SEQUENCE_WIDTH}`;
+  } else if (format.reset !== 'never') {
+    const hasYear = format.fiscalYearStartMonth === 1
+      ? names.some((name) => name === 'YYYY' || name === 'YY' || name === 'FY')
+      : names.includes('FY');
+    if (!hasYear) {
+      errors.template = format.fiscalYearStartMonth === 1
+        ? 'A series that resets needs {YYYY}, {YY} or {FY} in the template'
+        : 'A series that resets with the fiscal year needs {FY} in the template';
+    } else if (format.reset === 'monthly' && !names.includes('MM')) {
+      errors.template = 'A series that resets monthly needs {MM} in the template';
+    }
+  }
+
+  if (!RESET_POLICIES.includes(format.reset)) {
+    errors.reset = 'Reset must be never, yearly or monthly';
+  }
+
+  if (!Number.isInteger(format.fiscalYearStartMonth) || format.fiscalYearStartMonth < 1 || format.fiscalYearStartMonth > 12) {
+    errors.fiscalYearStartMonth = 'Fiscal year must start in a month from 1 to 12';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+/**
+ * Get the configured number format
+ */
+function getFormat(): NumberFormat {
+  return storage.get<NumberFormat>(FORMAT_STORAGE_KEY) ?? DEFAULT_NUMBER_FORMAT;
+}
+
+/**
+ * Save the number format
+ * Throws if the format is invalid
+ */
+function setFormat(format: NumberFormat): NumberFormat {
+  const validation = validateFormat(format);
+  if (!validation.valid) {
+    throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+  }
+
+  const saved = { ...format, template: format.template.trim() };
+  storage.set(FORMAT_STORAGE_KEY, saved);
+  return saved;
+}
+
+/**
+ * Get the fiscal year of a date, named after the calendar year it ends in
+ * With a fiscal year starting in April, 2026-03-31 is in FY2026 and
+ * 2026-04-01 in FY2027.
  */
-function getCounterData(): CounterData | null {
-  return storage.get<CounterData>(COUNTER_STORAGE_KEY);
+function getFiscalYear(date: string, fiscalYearStartMonth: number): number {
+  const [year, month] = date.split('-').map(Number);
+  return fiscalYearStartMonth > 1 && month >= fiscalYearStartMonth ? year + 1 : year;
 }
 
 /**
- * Save counter data to storage
+ * Get the reset period a date falls in: the fiscal year, the month, or
+ * the same empty period for series that never reset
  */
-function setCounterData(data: CounterData): void {
-  storage.set(COUNTER_STORAGE_KEY, data);
+function getPeriod(date: string, format: NumberFormat): string {
+  switch (format.reset) {
+    case 'never':
+      return '';
+    case 'yearly':
+      return String(getFiscalYear(date, format.fiscalYearStartMonth));
+    case 'monthly':
+      return date.slice(0, 7);
+  }
 }
 
 /**
- * Get the next sequence number, handling year rollover
- * If the stored year differs from current year, reset sequence to 1
+ * Get the three-character code of a client for the {CLIENT} token
  */
-function getNextSequence(): number {
-  const currentYear = getCurrentYear();
-  const counterData = getCounterData();
+function getClientCode(client?: Pick<Client, 'name' | 'company'>): string {
+  const letters = (client?.company || client?.name || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return letters.slice(0, 3) || 'XXX';
+}
 
-  if (!counterData) {
-    // First invoice ever - start at 1
+/**
+ * Get the sequence that follows a counter in a period
+ * A new period starts again at 1. A series that never resets keeps counting
+ * on from its last number, also after switching from a reset policy.
+ */
+function nextSequence(counter: Pick<CounterData, 'period' | 'sequence' | 'year'> | null, period: string): number {
+  if (!counter) {
+    // First document ever - start at 1
     return 1;
   }
 
-  if (counterData.year !== currentYear) {
-    // Year rollover - reset sequence to 1
+  const counterPeriod = counter.period ?? String(counter.year);
+  if (period !== '' && counterPeriod !== period) {
+    // Period rollover - reset sequence to 1
     return 1;
   }
 
-  // Same year - increment sequence
-  return counterData.sequence + 1;
+  return counter.sequence + 1;
 }
 
 /**
- * Generate a new invoice number in format INV-YYYY-NNN
- * Automatically increments and persists the counter
+ * Fill in the tokens of a format's template
  */
-function generate(): string {
-  const currentYear = getCurrentYear();
-  const sequence = getNextSequence();
+function formatNumber(
+  format: NumberFormat,
+  values: { prefix: string; sequence: number; date: string; client?: Pick<Client, 'name' | 'company'> }
+): string {
+  const [year, month] = values.date.split('-');
 
-  // Persist the new counter state
-  setCounterData({
-    year: currentYear,
-    sequence: sequence,
+  return format.template.replace(TOKEN_PATTERN, (token, name: string, width?: string) => {
+    switch (name) {
+      case 'PREFIX':
+        return values.prefix;
+      case 'YYYY':
+        return year;
+      case 'YY':
+        return year.slice(-2);
+      case 'MM':
+        return month;
+      case 'FY':
+        return String(getFiscalYear(values.date, format.fiscalYearStartMonth));
+      case 'CLIENT':
+        return getClientCode(values.client);
+      case 'SEQ':
+        return String(values.sequence).padStart(width === undefined ? 1 : Number(width), '0');
+      default:
+        return token;
+    }
   });
+}
 
-  // Format: INV-YYYY-NNN (zero-padded to 3 digits)
-  const paddedSequence = String(sequence).padStart(3, '0');
-  return `INV-${currentYear}-${paddedSequence}`;
+/**
+ * Read the sequence back from a number made with a format
+ * Returns null if the number does not follow the format's template
+ */
+function parseSequence(number: string, format: NumberFormat, series: NumberSeries = 'invoice'): number | null {
+  const patterns: Record<string, string> = {
+    PREFIX: SERIES[series].prefix,
+    YYYY: '\\d{4}',
+    YY: '\\d{2}',
+    MM: '\\d{2}',
+    FY: '\\d{4}',
+    CLIENT: '[A-Z0-9]{1,3}',
+    SEQ: '(\\d+)',
+  };
+
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  let pattern = '';
+  let last = 0;
+  for (const match of format.template.matchAll(TOKEN_PATTERN)) {
+    pattern += escape(format.template.slice(last, match.index)) + (patterns[match[1]] ?? escape(match[0]));
+    last = (match.index ?? 0) + match[0].length;
+  }
+  pattern += escape(format.template.slice(last));
+
+  const sequence = new RegExp(`^${pattern}$`).exec(number.trim())?.[1];
+  return sequence === undefined ? null : Number(sequence);
 }
 
 /**
- * Reset the counter (useful for testing)
+ * Get the stored counter data of a series
+ * Returns null if no counter exists
+ */
+function getCounterData(series: NumberSeries = 'invoice'): CounterData | null {
+  return storage.get<CounterData>(SERIES[series].storageKey);
+}
+
+/**
+ * Save counter data of a series to storage
+ */
+function setCounterData(data: CounterData, series: NumberSeries = 'invoice'): void {
+  storage.set(SERIES[series].storageKey, data);
+}
+
+/**
+ * Get the next sequence number of a series on a date, handling period rollover
+ */
+function getNextSequence(series: NumberSeries = 'invoice', date: string = dates.today()): number {
+  return nextSequence(getCounterData(series), getPeriod(date, getFormat()));
+}
+
+/**
+ * Generate a new number from the configured template
+ * Automatically increments and persists the counter of the series
+ */
+function generate(series: NumberSeries = 'invoice', client?: Pick<Client, 'name' | 'company'>): string {
+  const date = dates.today();
+  const format = getFormat();
+  const period = getPeriod(date, format);
+  const sequence = nextSequence(getCounterData(series), period);
+
+  // Persist the new counter state
+  setCounterData({ period, sequence }, series);
+
+  return formatNumber(format, { prefix: SERIES[series].prefix, sequence, date, client });
+}
+
+/**
+ * Reset the counters of all series and the number format (useful for testing)
  */
 function reset(): void {
-  storage.remove(COUNTER_STORAGE_KEY);
+  for (const { storageKey } of Object.values(SERIES)) {
+    storage.remove(storageKey);
+  }
+  storage.remove(FORMAT_STORAGE_KEY);
 }
 
 export const invoiceNumberGenerator = {
@@ -90,10 +315,24 @@ export const invoiceNumberGenerator = {
   getCurrentYear,
   getNextSequence,
   reset,
+  validateFormat,
+  getFormat,
+  setFormat,
+  getFiscalYear,
+  getPeriod,
+  getClientCode,
+  nextSequence,
+  formatNumber,
+  parseSequence,
+  DEFAULT_NUMBER_FORMAT,
+  SERIES,
   // Expose for testing
   getCounterData,
   setCounterData,
   COUNTER_STORAGE_KEY,
+  CREDIT_NOTE_COUNTER_STORAGE_KEY,
+  QUOTE_COUNTER_STORAGE_KEY,
+  FORMAT_STORAGE_KEY,
 };
 
 export default invoiceNumberGenerator;
@@ -0,0 +1,275 @@
+/**
+ * Invoice Query - sorting, filtering and paging of the invoice list
+ *
+ * A query is kept in the URL of the invoice list, so it can be linked to
+ * and survives a reload; only what differs from the default is written.
+ *
+ * Pages are loaded by keyset: a cursor holds the sort value and ID of the
+ * invoice its page starts after, or ends before, together with the query it
+ * was made for. Invoices added or deleted between pages do not shift them.
+ * A cursor used with another query, e.g. after the sort changed, starts
+ * over at the first page.
+ *
+ * Text is compared code unit by code unit, and client names without regard
+ * to case, as the invoice_list view sorts them on the server.
+ */
+
+import type { InvoicePage, InvoiceQuery, InvoiceSortKey, InvoiceStatus, InvoiceStatusCounts, SortDirection } from '../types';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+const SORT_KEYS: InvoiceSortKey[] = ['number', 'client', 'issueDate', 'dueDate', 'total', 'status'];
+const STATUSES: InvoiceStatus[] = ['draft', 'sent', 'partially_paid', 'paid', 'overdue', 'void'];
+
+const DEFAULT_QUERY: InvoiceQuery = {
+  sort: 'issueDate',
+  direction: 'desc',
+  status: 'all',
+  search: '',
+  pageSize: DEFAULT_PAGE_SIZE,
+};
+
+interface QueryableInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: InvoiceStatus;
+  issueDate: string;
+  dueDate: string;
+  total: number;
+  client?: { name: string; company?: string };
+}
+
+/**
+ * Where a page starts: after the invoice of the key for the next page,
+ * before it for the previous one
+ */
+interface CursorKey {
+  value: string | number;
+  id: string;
+  direction: 'next' | 'previous';
+}
+
+/**
+ * Get the direction a column is sorted in when first sorted on
+ * Dates and amounts start with the latest and largest.
+ */
+function defaultDirection(sort: InvoiceSortKey): SortDirection {
+  return sort === 'issueDate' || sort === 'dueDate' || sort === 'total' ? 'desc' : 'asc';
+}
+
+/**
+ * Read a query from URL search parameters
+ * Values that are missing or not valid are left at their defaults.
+ */
+function fromSearchParams(params: URLSearchParams): InvoiceQuery {
+  const sort = params.get('sort') as InvoiceSortKey | null;
+  const direction = params.get('dir');
+  const status = params.get('status') as InvoiceStatus | null;
+  const pageSize = Number(params.get('size'));
+  const validSort = sort && SORT_KEYS.includes(sort) ? sort : DEFAULT_QUERY.sort;
+
+  return {
+    sort: validSort,
+    direction: direction === 'asc' || direction === 'desc' ? direction : defaultDirection(validSort),
+    status: status && STATUSES.includes(status) ? status : 'all',
+    search: params.get('q')?.trim() ?? '',
+    pageSize: Number.isInteger(pageSize) && pageSize > 0 ? Math.min(pageSize, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+    cursor: params.get('cursor') || undefined,
+  };
+}
+
+/**
+ * Write a query as URL search parameters, leaving out its defaults
+ */
+function toSearchParams(query: InvoiceQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.sort !== DEFAULT_QUERY.sort) params.set('sort', query.sort);
+  if (query.direction !== defaultDirection(query.sort)) params.set('dir', query.direction);
+  if (query.status !== 'all') params.set('status', query.status);
+  if (query.search) params.set('q', query.search);
+  if (query.pageSize !== DEFAULT_PAGE_SIZE) params.set('size', String(query.pageSize));
+  if (query.cursor) params.set('cursor', query.cursor);
+  return params;
+}
+
+/**
+ * Sort a query on a column, or reverse it when already sorted on it
+ * The query starts over at the first page.
+ */
+function toggleSort(query: InvoiceQuery, sort: InvoiceSortKey): InvoiceQuery {
+  const direction = query.sort === sort
+    ? (query.direction === 'asc' ? 'desc' : 'asc')
+    : defaultDirection(sort);
+  return { ...query, sort, direction, cursor: undefined };
+}
+
+/**
+ * Identify the list a query pages through, whatever its page
+ */
+function listKey(query: InvoiceQuery): string {
+  return JSON.stringify([query.sort, query.direction, query.status, query.search, query.pageSize]);
+}
+
+/**
+ * Compare two strings code unit by code unit
+ */
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Get the value an invoice is sorted on
+ */
+function sortValue(invoice: QueryableInvoice, sort: InvoiceSortKey): string | number {
+  switch (sort) {
+    case 'number':
+      return invoice.invoiceNumber;
+    case 'client':
+      return (invoice.client?.name ?? '').toLowerCase();
+    case 'issueDate':
+      return invoice.issueDate;
+    case 'dueDate':
+      return invoice.dueDate;
+    case 'total':
+      return invoice.total;
+    case 'status':
+      return invoice.status;
+  }
+}
+
+/**
+ * Compare two sort values, ascending
+ */
+function compareValues(a: string | number, b: string | number): number {
+  return typeof a === 'number' && typeof b === 'number' ? a - b : compareText(String(a), String(b));
+}
+
+/**
+ * Compare an invoice with a cursor key in the order of a query
+ * Invoices that sort the same are ordered by ID, as on the server.
+ */
+function compareToKey(invoice: QueryableInvoice, key: Pick<CursorKey, 'value' | 'id'>, query: InvoiceQuery): number {
+  const sign = query.direction === 'asc' ? 1 : -1;
+  return sign * compareValues(sortValue(invoice, query.sort), key.value) || compareText(invoice.id, key.id);
+}
+
+/**
+ * Create the cursor of the page of a query after or before an invoice
+ */
+function encodeCursor(query: InvoiceQuery, invoice: QueryableInvoice, direction: CursorKey['direction']): string {
+  const key: CursorKey = { value: sortValue(invoice, query.sort), id: invoice.id, direction };
+  return btoa(encodeURIComponent(JSON.stringify({ ...key, list: listKey(query) })))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Read the key of a query's cursor
+ * Cursors that cannot be read, or were made for another query, give none:
+ * the first page is loaded.
+ */
+function decodeCursor(query: InvoiceQuery): CursorKey | undefined {
+  if (!query.cursor) return undefined;
+  try {
+    const decoded = JSON.parse(decodeURIComponent(atob(query.cursor.replace(/-/g, '+').replace(/_/g, '/'))));
+    const valid = decoded.list === listKey(query) &&
+      (decoded.direction === 'next' || decoded.direction === 'previous') &&
+      typeof decoded.id === 'string' &&
+      (typeof decoded.value === 'string' || typeof decoded.value === 'number');
+    return valid ? { value: decoded.value, id: decoded.id, direction: decoded.direction } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Make a page of a query, with the cursors of the pages around it
+ */
+function toPage<T extends QueryableInvoice>(
+  items: T[],
+  query: InvoiceQuery,
+  position: { start: number; total: number; hasPrevious: boolean; hasNext: boolean }
+): InvoicePage<T> {
+  const first = items[0];
+  const last = items[items.length - 1];
+  return {
+    items,
+    total: position.total,
+    start: position.start,
+    nextCursor: position.hasNext && last ? encodeCursor(query, last, 'next') : undefined,
+    previousCursor: position.hasPrevious && first ? encodeCursor(query, first, 'previous') : undefined,
+  };
+}
+
+/**
+ * Check if an invoice is on the status filter and search of a query
+ */
+function matches(invoice: QueryableInvoice, query: InvoiceQuery): boolean {
+  const search = query.search.toLowerCase();
+  return (query.status === 'all' || invoice.status === query.status) &&
+    (!search ||
+      invoice.invoiceNumber.toLowerCase().includes(search) ||
+      (invoice.client?.name.toLowerCase().includes(search) ?? false) ||
+      (invoice.client?.company?.toLowerCase().includes(search) ?? false));
+}
+
+/**
+ * Get a page of a query from invoices already loaded, e.g. while offline
+ * A next page past the end, e.g. after invoices were deleted, starts over;
+ * a previous page that reaches the start is the first page.
+ */
+function paginate<T extends QueryableInvoice>(invoices: T[], query: InvoiceQuery): InvoicePage<T> {
+  const sorted = invoices
+    .filter(invoice => matches(invoice, query))
+    .sort((a, b) => compareToKey(a, { value: sortValue(b, query.sort), id: b.id }, query));
+
+  const key = decodeCursor(query);
+  let start = 0;
+  if (key?.direction === 'next') {
+    const after = sorted.findIndex(invoice => compareToKey(invoice, key, query) > 0);
+    start = after === -1 ? 0 : after;
+  } else if (key?.direction === 'previous') {
+    const before = sorted.filter(invoice => compareToKey(invoice, key, query) < 0).length;
+    start = Math.max(0, before - query.pageSize);
+  }
+
+  return toPage(sorted.slice(start, start + query.pageSize), query, {
+    start,
+    total: sorted.length,
+    hasPrevious: start > 0,
+    hasNext: start + query.pageSize < sorted.length,
+  });
+}
+
+/**
+ * Count invoices by status, e.g. while offline
+ */
+function countByStatus(invoices: QueryableInvoice[]): InvoiceStatusCounts {
+  const counts = Object.fromEntries([['all', invoices.length], ...STATUSES.map(status => [status, 0])]) as InvoiceStatusCounts;
+  for (const invoice of invoices) {
+    counts[invoice.status]++;
+  }
+  return counts;
+}
+
+export const invoiceQuery = {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  SORT_KEYS,
+  STATUSES,
+  DEFAULT_QUERY,
+  defaultDirection,
+  fromSearchParams,
+  toSearchParams,
+  toggleSort,
+  sortValue,
+  encodeCursor,
+  decodeCursor,
+  toPage,
+  paginate,
+  countByStatus,
+};
+
+export default invoiceQuery;
@@ -4,9 +4,17 @@
  * Requirements: 3.2, 3.6, 3.7, 4.2, 4.3, 7.1, 7.2, 7.3, 8.1, 8.2, 10.1, 10.2, 11.2, 12.1, 16.2
  */
 
-import type { Client, Invoice, LineItem, InvoiceInput, LineItemInput, ValidationResult, InvoiceStatus } from '../types';
+import type { Client, Invoice, LineItem, InvoiceInput, LineItemInput, ValidationResult, TaxRate, Discount, InvoiceTotals, TotalsOptions, PaymentMethod, StatusChangeInput } from '../types';
 import { storage } from './storage';
 import { invoiceNumberGenerator } from './invoiceNumberGenerator';
+import { taxService } from './taxService';
+import { currencyService } from './currencyService';
+import { discountService } from './discountService';
+import { money } from './money';
+import { paymentService } from './paymentService';
+import { invoiceStatusService } from './invoiceStatusService';
+import { dates } from './dates';
+import { paymentTermsService } from './paymentTermsService';
 
 /**
  * Generate a unique ID for a new invoice
@@ -34,26 +42,33 @@ function getCurrentDate(): string {
  * Requirements: 3.2, 11.2, 12.1
  * 
  * Property 8: Invoice Totals Calculation
- * - subtotal = sum of (quantity × rate) for all line items
- * - tax = subtotal × (taxRate / 100)
- * - total = subtotal + tax
+ * - subtotal = sum of line amounts, each (quantity × rate) rounded minus its line discount
+ * - discountAmount = invoice discount applied to the subtotal
+ * - tax = sum over each tax rate group of (discounted group amount × rate / 100),
+ *   where a line item's own taxRate overrides the invoice taxRate
+ * - total = subtotal - discountAmount + tax
+ * All sums are exact: amounts are added as integer minor units, so the line
+ * amounts always add up to the subtotal.
  */
-function calculateTotals(lineItems: LineItemInput[], taxRate: number = 10): {
-  subtotal: number;
-  tax: number;
-  total: number;
-} {
-  const subtotal = lineItems.reduce((sum, item) => {
-    return sum + (item.quantity * item.rate);
-  }, 0);
-
-  const tax = subtotal * (taxRate / 100);
-  const total = subtotal + tax;
+function calculateTotals(
+  lineItems: LineItemInput[],
+  taxRate: TaxRate = taxService.NO_TAX,
+  discount?: Discount,
+  options: TotalsOptions = {}
+): InvoiceTotals {
+  const { currency, rounding = money.DEFAULT_ROUNDING } = options;
+  const subtotal = money.sum(lineItems.map(item => discountService.getLineAmountMinor(item, currency, rounding.mode)));
+  const discountAmount = discountService.calculateDiscountMinor(subtotal, discount, currency, rounding.mode);
+  const taxBreakdown = taxService.calculateBreakdown(lineItems, taxRate, discount, { currency, rounding });
+  const tax = money.sum(taxBreakdown.map(entry => money.toMinor(entry.tax, currency)));
+  const total = subtotal - discountAmount + tax;
 
   return {
-    subtotal: Math.round(subtotal * 100) / 100,
-    tax: Math.round(tax * 100) / 100,
-    total: Math.round(total * 100) / 100,
+    subtotal: money.fromMinor(subtotal, currency),
+    discountAmount: money.fromMinor(discountAmount, currency),
+    tax: money.fromMinor(tax, currency),
+    total: money.fromMinor(total, currency),
+    taxBreakdown,
   };
 }
 
@@ -97,9 +112,21 @@ function validate(input: InvoiceInput): ValidationResult {
     );
     if (!hasValidLineItem) {
       errors.lineItems = 'At least one line item must have a description';
+    } else if (!input.lineItems.every(item => discountService.isValid(item.discount))) {
+      errors.lineItems = 'Line item discounts must be between 0 and 100% or a positive amount';
     }
   }
 
+  if (!discountService.isValid(input.discount)) {
+    errors.discount = 'Discount must be between 0 and 100% or a positive amount';
+  }
+
+  if (!paymentTermsService.isValid(input.paymentTerms)) {
+    errors.paymentTerms = 'Payment terms must have zero or more days';
+  } else if (!input.paymentTerms && !input.dueDate) {
+    errors.dueDate = 'Due date is required';
+  }
+
   return {
     valid: Object.keys(errors).length === 0,
     errors,
@@ -109,13 +136,15 @@ function validate(input: InvoiceInput): ValidationResult {
 /**
  * Convert LineItemInput to LineItem with calculated amount
  */
-function createLineItem(input: LineItemInput): LineItem {
+function createLineItem(input: LineItemInput, options: TotalsOptions): LineItem {
   return {
     id: generateLineItemId(),
     description: input.description,
     quantity: input.quantity,
     rate: input.rate,
-    amount: Math.round(input.quantity * input.rate * 100) / 100,
+    amount: discountService.getLineAmount(input, options.currency, options.rounding?.mode),
+    taxRate: input.taxRate,
+    discount: input.discount,
   };
 }
 
@@ -123,7 +152,7 @@ function createLineItem(input: LineItemInput): LineItem {
  * Create a new invoice
  * Requirements: 3.2, 3.3, 3.4
  */
-function create(input: InvoiceInput, clients: Client[]): Invoice {
+function create(input: InvoiceInput, clients: Client[], change: StatusChangeInput = {}): Invoice {
   const validation = validate(input);
   if (!validation.valid) {
     throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
@@ -136,22 +165,40 @@ function create(input: InvoiceInput, clients: Client[]): Invoice {
   }
 
   const invoices = storage.getInvoices();
-  const lineItems = input.lineItems.map(createLineItem);
-  const totals = calculateTotals(input.lineItems);
+  const currency = input.currency ?? client.defaultCurrency ?? currencyService.DEFAULT_CURRENCY;
+  const options: TotalsOptions = { currency, rounding: input.rounding };
+  const lineItems = input.lineItems.map(item => createLineItem(item, options));
+  const taxRate = input.taxRate ?? taxService.NO_TAX;
+  const totals = calculateTotals(input.lineItems, taxRate, input.discount, options);
+  const status = input.status || 'draft';
+  const statusHistory = invoiceStatusService.initialHistory(status, change);
 
   const newInvoice: Invoice = {
     id: generateId(),
-    invoiceNumber: invoiceNumberGenerator.generate(),
+    invoiceNumber: invoiceNumberGenerator.generate('invoice', client),
     clientId: input.clientId,
     client: client,
-    status: input.status || 'draft',
+    status: status,
+    currency: currency,
     issueDate: input.issueDate,
-    dueDate: input.dueDate,
+    dueDate: paymentTermsService.resolveDueDate(input.issueDate, input.dueDate, input.paymentTerms),
+    paymentTerms: input.paymentTerms,
     lineItems: lineItems,
+    taxRate: taxRate,
+    discount: input.discount,
+    rounding: input.rounding,
     subtotal: totals.subtotal,
+    discountAmount: totals.discountAmount,
     tax: totals.tax,
     total: totals.total,
+    // An invoice created as paid was settled outside the payments ledger
+    amountPaid: status === 'paid' ? totals.total : 0,
+    balanceDue: status === 'paid' ? 0 : totals.total,
     notes: input.notes,
+    statusHistory,
+    recurringProfileId: input.recurringProfileId,
+    recurringPeriod: input.recurringPeriod,
+    quoteId: input.quoteId,
     createdAt: getCurrentDate(),
   };
 
@@ -165,8 +212,10 @@ function create(input: InvoiceInput, clients: Client[]): Invoice {
 /**
  * Update an existing invoice
  * Requirements: 3.5
+ * A status in the input must be reachable from the current status, and
+ * cannot be a payment status: those follow from the payments ledger
  */
-function update(id: string, input: InvoiceInput, clients: Client[]): Invoice {
+function update(id: string, input: InvoiceInput, clients: Client[], change: StatusChangeInput = {}): Invoice {
   const validation = validate(input);
   if (!validation.valid) {
     throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
@@ -186,18 +235,42 @@ function update(id: string, input: InvoiceInput, clients: Client[]): Invoice {
   }
 
   const existingInvoice = invoices[index];
-  const lineItems = input.lineItems.map(createLineItem);
-  const totals = calculateTotals(input.lineItems);
+  if (existingInvoice.status === 'void') {
+    throw new Error('A void invoice cannot be edited');
+  }
 
-  const updatedInvoice: Invoice = {
+  const currency = input.currency ?? existingInvoice.currency;
+  const rounding = input.rounding ?? existingInvoice.rounding;
+  const options: TotalsOptions = { currency, rounding };
+  const lineItems = input.lineItems.map(item => createLineItem(item, options));
+  const taxRate = input.taxRate ?? existingInvoice.taxRate ?? taxService.NO_TAX;
+  const totals = calculateTotals(input.lineItems, taxRate, input.discount, options);
+
+  // Credit notes refer to the amounts as issued; corrections need another credit note
+  if (paymentService.getCreditedAmount(existingInvoice) > 0
+    && (totals.total !== existingInvoice.total || currency !== existingInvoice.currency)) {
+    throw new Error('The amounts of an invoice with credit notes cannot be changed; issue a credit note instead');
+  }
+
+  const status = input.status || existingInvoice.status;
+  invoiceStatusService.assertEditableStatus(existingInvoice.status, status);
+
+  // Amount paid, balance due and payment status follow the recalculated total
+  const recalculated: Invoice = paymentService.applyPayments({
     ...existingInvoice,
     clientId: input.clientId,
     client: client,
-    status: input.status || existingInvoice.status,
+    status: status,
+    currency: currency,
     issueDate: input.issueDate,
-    dueDate: input.dueDate,
+    dueDate: paymentTermsService.resolveDueDate(input.issueDate, input.dueDate, input.paymentTerms),
+    paymentTerms: input.paymentTerms,
     lineItems: lineItems,
+    taxRate: taxRate,
+    discount: input.discount,
+    rounding: rounding,
     subtotal: totals.subtotal,
+    discountAmount: totals.discountAmount,
     tax: totals.tax,
     total: totals.total,
     notes: input.notes,
@@ -205,7 +278,12 @@ function update(id: string, input: InvoiceInput, clients: Client[]): Invoice {
     id: existingInvoice.id,
     invoiceNumber: existingInvoice.invoiceNumber,
     createdAt: existingInvoice.createdAt,
-  };
+  }, paymentService.getByInvoiceId(id));
+  const updatedInvoice = invoiceStatusService.changeStatus(
+    { ...recalculated, status: existingInvoice.status },
+    recalculated.status,
+    change
+  );
 
   invoices[index] = updatedInvoice;
   storage.setInvoices(invoices);
@@ -227,8 +305,13 @@ function deleteInvoice(id: string): void {
     throw new Error(`Invoice with ID "${id}" not found`);
   }
 
+  if (storage.getCreditNotes().some(creditNote => creditNote.invoiceId === id)) {
+    throw new Error('An invoice with credit notes cannot be deleted');
+  }
+
   invoices.splice(index, 1);
   storage.setInvoices(invoices);
+  paymentService.deleteByInvoiceId(id);
 }
 
 /**
@@ -273,8 +356,50 @@ function filterByStatus(status: string, invoices: Invoice[]): Invoice[] {
  * Requirements: 4.3, 16.2
  * 
  * Property 12: Mark as Paid Updates Status
+ * - The remaining balance is recorded as a payment received today,
+ *   which moves the invoice to "paid"
+ */
+function markAsPaid(id: string, method: PaymentMethod = 'other'): Invoice {
+  const invoice = storage.getInvoices().find(i => i.id === id);
+
+  if (!invoice) {
+    throw new Error(`Invoice with ID "${id}" not found`);
+  }
+
+  const balanceDue = paymentService.getBalanceDue(invoice);
+  if (balanceDue <= 0) {
+    return invoice;
+  }
+
+  return paymentService.record(id, { amount: balanceDue, date: getCurrentDate(), method });
+}
+
+/**
+ * Outstanding balance of a client per currency: what the client still owes
+ * on issued invoices, less refunds owed to them on credit notes
+ */
+function getClientBalance(clientId: string, invoices: Invoice[] = getAll()): Record<string, number> {
+  const balances: Record<string, number> = {};
+
+  for (const invoice of invoices) {
+    if (invoice.clientId !== clientId || invoice.status === 'draft' || invoice.status === 'void') continue;
+    const currency = currencyService.getInvoiceCurrency(invoice);
+    balances[currency] = (balances[currency] ?? 0)
+      + money.toMinor(paymentService.getBalanceDue(invoice), currency)
+      - money.toMinor(paymentService.getRefundDue(invoice), currency);
+  }
+
+  return Object.fromEntries(
+    Object.entries(balances).map(([currency, minor]) => [currency, money.fromMinor(minor, currency)])
+  );
+}
+
+/**
+ * Mark an invoice as sent
+ * Requirements: 3.4
+ * Only drafts can be sent; an invoice that is already sent is returned as is
  */
-function markAsPaid(id: string): Invoice {
+function markAsSent(id: string, change: StatusChangeInput = {}): Invoice {
   const invoices = storage.getInvoices();
   const index = invoices.findIndex(invoice => invoice.id === id);
 
@@ -282,11 +407,7 @@ function markAsPaid(id: string): Invoice {
     throw new Error(`Invoice with ID "${id}" not found`);
   }
 
-  const invoice = invoices[index];
-  const updatedInvoice: Invoice = {
-    ...invoice,
-    status: 'paid',
-  };
+  const updatedInvoice = invoiceStatusService.changeStatus(invoices[index], 'sent', { reason: 'Invoice sent', ...change });
 
   invoices[index] = updatedInvoice;
   storage.setInvoices(invoices);
@@ -295,10 +416,12 @@ function markAsPaid(id: string): Invoice {
 }
 
 /**
- * Mark an invoice as sent
- * Requirements: 3.4
+ * Void an invoice sent by mistake
+ * The invoice keeps its number and record, but no longer counts as owed.
+ * A reason is required, and invoices with payments must have them removed
+ * or refunded first.
  */
-function markAsSent(id: string): Invoice {
+function voidInvoice(id: string, reason: string, change: StatusChangeInput = {}): Invoice {
   const invoices = storage.getInvoices();
   const index = invoices.findIndex(invoice => invoice.id === id);
 
@@ -306,11 +429,20 @@ function markAsSent(id: string): Invoice {
     throw new Error(`Invoice with ID "${id}" not found`);
   }
 
+  if (!reason || reason.trim() === '') {
+    throw new Error('Please give a reason for voiding the invoice');
+  }
+
   const invoice = invoices[index];
-  const updatedInvoice: Invoice = {
-    ...invoice,
-    status: 'sent',
-  };
+  if (invoice.status !== 'void' && paymentService.getAmountPaid(invoice) > 0) {
+    throw new Error('An invoice with payments cannot be voided; remove or refund its payments first');
+  }
+
+  const updatedInvoice = invoiceStatusService.changeStatus(
+    { ...invoice, balanceDue: 0 },
+    'void',
+    { ...change, reason: reason.trim() }
+  );
 
   invoices[index] = updatedInvoice;
   storage.setInvoices(invoices);
@@ -323,7 +455,7 @@ function markAsSent(id: string): Invoice {
  * Requirements: 4.2, 10.1, 10.2
  * 
  * Property 11: Overdue Detection
- * - Invoices with status "sent" and dueDate before today become "overdue"
+ * - Invoices with status "sent" or "partially_paid" and dueDate before today become "overdue"
  * - Other statuses or future due dates remain unchanged
  */
 function checkOverdue(invoices: Invoice[]): Invoice[] {
@@ -331,13 +463,13 @@ function checkOverdue(invoices: Invoice[]): Invoice[] {
   let hasChanges = false;
 
   const updatedInvoices = invoices.map(invoice => {
-    // Only check "sent" invoices
-    if (invoice.status === 'sent' && invoice.dueDate < today) {
+    // Only check invoices that are still awaiting payment
+    if ((invoice.status === 'sent' || invoice.status === 'partially_paid') && invoice.dueDate < today) {
       hasChanges = true;
-      return {
-        ...invoice,
-        status: 'overdue' as InvoiceStatus,
-      };
+      return invoiceStatusService.changeStatus(invoice, 'overdue', {
+        changedBy: invoiceStatusService.SYSTEM_ACTOR,
+        reason: `Not paid by the due date of ${invoice.dueDate}`,
+      });
     }
     return invoice;
   });
@@ -358,7 +490,8 @@ function checkOverdue(invoices: Invoice[]): Invoice[] {
  * - New invoice number
  * - Same clientId and lineItems
  * - Status is "draft"
- * - issueDate is today
+ * - issueDate is today, dueDate follows the original payment terms, or keeps
+ *   the original payment period when it has none
  * - Unique ID
  */
 function duplicate(id: string, clients: Client[]): Invoice {
@@ -384,21 +517,35 @@ function duplicate(id: string, clients: Client[]): Invoice {
     quantity: item.quantity,
     rate: item.rate,
     amount: item.amount,
+    taxRate: item.taxRate,
+    discount: item.discount,
   }));
 
   const newInvoice: Invoice = {
     id: generateId(),
-    invoiceNumber: invoiceNumberGenerator.generate(),
+    invoiceNumber: invoiceNumberGenerator.generate('invoice', client),
     clientId: original.clientId,
     client: client,
     status: 'draft',
+    currency: original.currency,
     issueDate: today,
-    dueDate: original.dueDate, // Keep original due date offset could be calculated, but keeping simple
+    // Due the same number of days after issue as the original
+    dueDate: original.paymentTerms
+      ? paymentTermsService.getDueDate(today, original.paymentTerms)
+      : dates.addDays(today, dates.daysBetween(original.issueDate, original.dueDate)),
+    paymentTerms: original.paymentTerms,
     lineItems: newLineItems,
+    taxRate: original.taxRate,
+    discount: original.discount,
+    rounding: original.rounding,
     subtotal: original.subtotal,
+    discountAmount: original.discountAmount,
     tax: original.tax,
     total: original.total,
+    amountPaid: 0,
+    balanceDue: original.total,
     notes: original.notes,
+    statusHistory: invoiceStatusService.initialHistory('draft', { reason: `Duplicated from ${original.invoiceNumber}` }),
     createdAt: today,
   };
 
@@ -423,6 +570,7 @@ export const invoiceService = {
   // Status management
   markAsPaid,
   markAsSent,
+  void: voidInvoice,
   checkOverdue,
   
   // Duplication
@@ -431,6 +579,9 @@ export const invoiceService = {
   // Search and filtering
   search,
   filterByStatus,
+
+  // Balances
+  getClientBalance,
 };
 
 export default invoiceService;
@@ -0,0 +1,175 @@
+/**
+ * Invoice Status Service - Allowed status transitions and status history
+ *
+ * Every status change of an invoice goes through the transition table below,
+ * whether it is made by the user (sending an invoice) or follows from the
+ * payments ledger (a payment settling it, a refund reopening it). Each change
+ * is appended to the invoice's statusHistory with who made it and why.
+ *
+ * Drafts can only be sent, settled or voided; an issued invoice never returns
+ * to draft. A void invoice keeps its number and record but is final.
+ */
+
+import type { Invoice, InvoiceStatus, StatusChange, StatusChangeInput } from '../types';
+
+/**
+ * Actor recorded for changes the user makes in the local app
+ */
+const DEFAULT_ACTOR = 'user';
+
+/**
+ * Actor recorded for automatic changes, such as an invoice becoming overdue
+ */
+const SYSTEM_ACTOR = 'system';
+
+/**
+ * Statuses an invoice can be created with
+ */
+const INITIAL_STATUSES: InvoiceStatus[] = ['draft', 'sent', 'paid'];
+
+/**
+ * Statuses each status can change to
+ * Moving back from "paid" or "partially_paid" only happens when payments are
+ * removed or refunded. Paid invoices are corrected with credit notes, not voided.
+ */
+const STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent', 'paid', 'void'],
+  sent: ['partially_paid', 'paid', 'overdue', 'void'],
+  partially_paid: ['sent', 'paid', 'overdue', 'void'],
+  overdue: ['partially_paid', 'paid', 'void'],
+  paid: ['sent', 'partially_paid'],
+  void: [],
+};
+
+/**
+ * Statuses that follow from the payments ledger and cannot be set by an edit
+ */
+const PAYMENT_STATUSES: InvoiceStatus[] = ['partially_paid', 'paid'];
+
+/**
+ * Display labels of the statuses
+ */
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+  void: 'Void',
+};
+
+/**
+ * Get the statuses an invoice can move to from its current status
+ */
+function getAllowedTransitions(from: InvoiceStatus): InvoiceStatus[] {
+  return STATUS_TRANSITIONS[from] ?? [];
+}
+
+/**
+ * Check if a status change is allowed
+ * Keeping the same status is always allowed
+ */
+function canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return from === to || getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Throw if a status change is not allowed
+ */
+function assertTransition(from: InvoiceStatus, to: InvoiceStatus): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`Cannot change invoice status from "${STATUS_LABELS[from]}" to "${STATUS_LABELS[to]}"`);
+  }
+}
+
+/**
+ * Throw if an edit of an invoice cannot set a status
+ * Payment statuses are only reached by recording payments; keeping the
+ * current status is allowed.
+ */
+function assertEditableStatus(from: InvoiceStatus, to: InvoiceStatus): void {
+  if (from !== to && PAYMENT_STATUSES.includes(to)) {
+    throw new Error(`An invoice becomes "${STATUS_LABELS[to]}" by recording payments`);
+  }
+  assertTransition(from, to);
+}
+
+/**
+ * Throw if an invoice cannot be created with a status
+ */
+function assertInitialStatus(status: InvoiceStatus): void {
+  if (!INITIAL_STATUSES.includes(status)) {
+    throw new Error(`An invoice cannot be created as "${STATUS_LABELS[status]}"`);
+  }
+}
+
+/**
+ * Create a status history entry timestamped now
+ */
+function createEntry(from: InvoiceStatus | null, to: InvoiceStatus, change: StatusChangeInput = {}): StatusChange {
+  return {
+    from,
+    to,
+    changedBy: change.changedBy || DEFAULT_ACTOR,
+    reason: change.reason?.trim() || undefined,
+    changedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Start the status history of a new invoice
+ */
+function initialHistory(status: InvoiceStatus, change: StatusChangeInput = {}): StatusChange[] {
+  assertInitialStatus(status);
+  return [createEntry(null, status, { reason: 'Invoice created', ...change })];
+}
+
+/**
+ * Reason an invoice was voided, from its status history
+ */
+function getVoidReason(invoice: Pick<Invoice, 'status' | 'statusHistory'>): string | undefined {
+  if (invoice.status !== 'void') return undefined;
+  return [...(invoice.statusHistory ?? [])].reverse().find(entry => entry.to === 'void')?.reason;
+}
+
+/**
+ * Move an invoice to another status and record the change in its history
+ * Returns the invoice unchanged when the status stays the same
+ */
+function changeStatus<T extends Pick<Invoice, 'status' | 'statusHistory'>>(
+  invoice: T,
+  to: InvoiceStatus,
+  change: StatusChangeInput = {}
+): T {
+  if (invoice.status === to) {
+    return invoice;
+  }
+
+  assertTransition(invoice.status, to);
+
+  return {
+    ...invoice,
+    status: to,
+    statusHistory: [...(invoice.statusHistory ?? []), createEntry(invoice.status, to, change)],
+  };
+}
+
+export const invoiceStatusService = {
+  DEFAULT_ACTOR,
+  SYSTEM_ACTOR,
+  INITIAL_STATUSES,
+  PAYMENT_STATUSES,
+  STATUS_TRANSITIONS,
+  STATUS_LABELS,
+  getAllowedTransitions,
+  canTransition,
+  assertTransition,
+  assertEditableStatus,
+  assertInitialStatus,
+  createEntry,
+  initialHistory,
+  getVoidReason,
+  changeStatus,
+};
+
+export default invoiceStatusService;
@@ -0,0 +1,68 @@
+/**
+ * JSON File Storage - storage adapter for Node
+ *
+ * Keeps all entries in one JSON object in a file, so the services can run in
+ * scripts and servers. Every write replaces the file through a temporary
+ * file, so a crash never leaves it half-written. Not exported from the
+ * backend index: it needs node:fs.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { StorageAdapter } from '../types';
+
+/**
+ * Read the entries of a storage file; a missing file has none
+ */
+function readEntries(path: string): Record<string, string> {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  try {
+    const entries = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+    if (entries && typeof entries === 'object' && !Array.isArray(entries)) {
+      return entries as Record<string, string>;
+    }
+  } catch {
+    // Reported below
+  }
+
+  // Starting empty would overwrite the file with the next write
+  throw new Error(`Storage file "${path}" does not contain a JSON object`);
+}
+
+/**
+ * Open an adapter on a JSON file, created with the first write
+ */
+function open(path: string): StorageAdapter {
+  const entries = new Map(Object.entries(readEntries(path)));
+
+  const save = () => {
+    mkdirSync(dirname(path), { recursive: true });
+    const temporaryPath = `${path}.tmp`;
+    writeFileSync(temporaryPath, JSON.stringify(Object.fromEntries(entries)));
+    renameSync(temporaryPath, path);
+  };
+
+  return {
+    name: 'jsonFile',
+    isAvailable: () => true,
+    getItem: (key) => entries.get(key) ?? null,
+    setItem(key, value) {
+      entries.set(key, value);
+      save();
+    },
+    removeItem(key) {
+      if (entries.delete(key)) save();
+    },
+    keys: () => [...entries.keys()],
+    flush: async () => {},
+  };
+}
+
+export const jsonFileStorage = {
+  open,
+};
+
+export default jsonFileStorage;
@@ -0,0 +1,206 @@
+/**
+ * Live Merge - row changes from the server merged into the data shown
+ *
+ * Inserts, updates and deletes of clients, invoices and line items are
+ * applied to the lists already loaded, one change at a time, instead of
+ * loading everything again. A row only carries its own columns: an invoice
+ * keeps its line items, status history and client as shown, and line items
+ * are merged into their invoice.
+ *
+ * The server also sends back the changes made here. A change that brings
+ * an invoice version which is not shown yet is reported as external, so it
+ * can be pointed out as changed elsewhere; versions older than the one
+ * shown are ignored.
+ */
+
+import type { LiveChange, LiveChangeSource, LiveStore } from '../types';
+
+/**
+ * How long an invoice changed elsewhere is shown as recently changed
+ */
+const RECENT_FOR_MS = 15 * 60 * 1000;
+
+interface LiveRecord {
+  id: string;
+  updatedAt?: string;
+}
+
+interface LiveInvoice<C, L extends LiveRecord> extends LiveRecord {
+  clientId: string;
+  client?: C;
+  lineItems: L[];
+  statusHistory?: unknown[];
+}
+
+/**
+ * Read a version (updated_at) as microseconds since the epoch
+ * Realtime and the REST API write timestamps differently, and both keep
+ * microseconds that Date drops.
+ */
+function versionTime(version: string): number {
+  const normalized = version.trim().replace(' ', 'T').replace(/([+-]\d{2})$/, '$1:00');
+  const fraction = /\.(\d+)/.exec(normalized)?.[1] ?? '';
+  return Date.parse(normalized) * 1000 + Number(fraction.padEnd(6, '0').slice(3, 6));
+}
+
+/**
+ * Check if a record is an older version than the one shown
+ */
+function isBehind(record: LiveRecord, current: LiveRecord): boolean {
+  if (!record.updatedAt || !current.updatedAt) return false;
+  return versionTime(record.updatedAt) < versionTime(current.updatedAt);
+}
+
+/**
+ * Replace a record in a list, or add it at the front
+ */
+function upsert<T extends LiveRecord>(records: T[], record: T): T[] {
+  return records.some(r => r.id === record.id)
+    ? records.map(r => r.id === record.id ? record : r)
+    : [record, ...records];
+}
+
+/**
+ * Apply a change to the clients
+ */
+function applyToClients<C extends LiveRecord>(clients: C[], change: LiveChange): C[] {
+  if (change.table !== 'clients') return clients;
+  if (change.type === 'DELETE') {
+    return clients.filter(c => c.id !== change.id);
+  }
+
+  const client = change.record as C | undefined;
+  const current = clients.find(c => c.id === change.id);
+  if (!client || (current && isBehind(client, current))) return clients;
+  return upsert(clients, client);
+}
+
+/**
+ * Apply a line item change to the invoice it belongs to
+ * A deleted line item that does not name its invoice is looked up.
+ */
+function applyToLineItems<C, L extends LiveRecord, I extends LiveInvoice<C, L>>(invoices: I[], change: LiveChange): I[] {
+  const invoiceId = change.invoiceId
+    ?? invoices.find(inv => inv.lineItems.some(item => item.id === change.id))?.id;
+  if (!invoiceId) return invoices;
+
+  return invoices.map(inv => {
+    if (inv.id !== invoiceId) return inv;
+    if (change.type === 'DELETE') {
+      return { ...inv, lineItems: inv.lineItems.filter(item => item.id !== change.id) };
+    }
+    const item = change.record as L | undefined;
+    if (!item) return inv;
+    // Line items are inserted in order; new ones go last
+    const lineItems = inv.lineItems.some(existing => existing.id === item.id)
+      ? inv.lineItems.map(existing => existing.id === item.id ? item : existing)
+      : [...inv.lineItems, item];
+    return { ...inv, lineItems };
+  });
+}
+
+/**
+ * Apply a change to the invoices
+ * Client changes update the client shown on their invoices; a new invoice
+ * gets its client from the clients given.
+ */
+function applyToInvoices<C extends LiveRecord, L extends LiveRecord, I extends LiveInvoice<C, L>>(
+  invoices: I[],
+  change: LiveChange,
+  clients: C[]
+): I[] {
+  switch (change.table) {
+    case 'clients': {
+      const client = change.record as C | undefined;
+      if (change.type === 'DELETE' || !client) return invoices;
+      return invoices.map(inv => inv.clientId === client.id ? { ...inv, client } : inv);
+    }
+    case 'line_items':
+      return applyToLineItems<C, L, I>(invoices, change);
+    case 'invoices': {
+      if (change.type === 'DELETE') {
+        return invoices.filter(inv => inv.id !== change.id);
+      }
+
+      const invoice = change.record as I | undefined;
+      const current = invoices.find(inv => inv.id === change.id);
+      if (!invoice || (current && isBehind(invoice, current))) return invoices;
+
+      // The row has none of what is kept in other tables
+      return upsert(invoices, {
+        ...invoice,
+        client: clients.find(c => c.id === invoice.clientId) ?? (current?.clientId === invoice.clientId ? current.client : undefined),
+        lineItems: current?.lineItems ?? invoice.lineItems,
+        statusHistory: current?.statusHistory ?? invoice.statusHistory,
+      });
+    }
+  }
+}
+
+/**
+ * Check if a change brings a version of an invoice that is not shown yet
+ * That is an invoice not shown at all, or a newer version of one.
+ */
+function isNewVersion<I extends LiveRecord>(invoices: I[], change: LiveChange): boolean {
+  if (change.table !== 'invoices' || change.type === 'DELETE' || !change.record) return false;
+
+  const invoice = change.record as LiveRecord;
+  const current = invoices.find(inv => inv.id === change.id);
+  if (!current) return true;
+  if (!invoice.updatedAt || !current.updatedAt) return false;
+  return versionTime(invoice.updatedAt) > versionTime(current.updatedAt);
+}
+
+/**
+ * Merge the changes of a source into a store, until the returned function
+ * is called
+ */
+function connect<C extends LiveRecord, L extends LiveRecord, I extends LiveInvoice<C, L>>(
+  source: LiveChangeSource,
+  store: LiveStore<C, I>
+): () => void {
+  return source.subscribe(change => {
+    const external = isNewVersion(store.getInvoices(), change);
+    store.setClients(clients => applyToClients(clients, change));
+    store.setInvoices(invoices => applyToInvoices<C, L, I>(invoices, change, store.getClients()));
+    store.merged(change, external);
+  });
+}
+
+/**
+ * Mark an invoice as recently changed
+ */
+function markRecent(recent: Record<string, string>, id: string, at: string = new Date().toISOString()): Record<string, string> {
+  return { ...recent, [id]: at };
+}
+
+/**
+ * Remove an invoice's recently changed mark
+ */
+function clearRecent(recent: Record<string, string>, id: string): Record<string, string> {
+  if (!(id in recent)) return recent;
+  const { [id]: _removed, ...rest } = recent;
+  return rest;
+}
+
+/**
+ * Remove the marks of invoices changed longer ago than they are shown
+ */
+function pruneRecent(recent: Record<string, string>, now: number = Date.now()): Record<string, string> {
+  const kept = Object.entries(recent).filter(([, at]) => now - Date.parse(at) < RECENT_FOR_MS);
+  return kept.length === Object.keys(recent).length ? recent : Object.fromEntries(kept);
+}
+
+export const liveMerge = {
+  RECENT_FOR_MS,
+  versionTime,
+  applyToClients,
+  applyToInvoices,
+  isNewVersion,
+  connect,
+  markRecent,
+  clearRecent,
+  pruneRecent,
+};
+
+export default liveMerge;
@@ -4,88 +4,206 @@
  * Requirements: 5.1, 5.2, 5.3, 5.4
  * 
  * Property 13: Metrics Calculation
- * - totalRevenue = sum of total for all invoices with status "paid"
- * - pendingAmount = sum of total for all invoices with status "sent"
- * - overdueAmount = sum of total for all invoices with status "overdue"
+ * - Amounts are grouped by invoice currency and never added across currencies
+ * - totalRevenue = sum of amountPaid over all invoices, i.e. money actually received,
+ *   plus creditAdjustment
+ * - creditAdjustment = minus the refunds owed on credit notes, i.e. the part of
+ *   credit notes beyond the unpaid balance (the rest only reduces balanceDue)
+ * - pendingAmount = sum of balanceDue for invoices with status "sent" or "partially_paid"
+ * - overdueAmount = sum of balanceDue for invoices with status "overdue"
+ * - Void invoices count towards neither, and are counted separately
+ * - The top-level amounts are those of the primary currency (the one with the most invoices)
  * - totalClients = count of clients
- * - paidInvoices, pendingInvoices, overdueInvoices, draftInvoices = counts by status
+ * - paidInvoices, pendingInvoices, partiallyPaidInvoices, overdueInvoices, draftInvoices, voidInvoices = counts by status
+ * - Amounts are summed in integer minor units, so totals never drift by a cent
  */
 
-import type { Invoice, Client, Metrics } from '../types';
+import type { Invoice, Client, Metrics, CurrencyAmounts, InvoiceStatus, InvoiceStatusCounts } from '../types';
+import { currencyService } from './currencyService';
+import { money } from './money';
+import { paymentService } from './paymentService';
 
 /**
- * Calculate all dashboard metrics from invoices and clients
- * Requirements: 5.1, 5.2, 5.3, 5.4
+ * The invoice fields needed to calculate metrics
  */
-function calculate(invoices: Invoice[], clients: Client[]): Metrics {
-  // Initialize counters
-  let totalRevenue = 0;
-  let pendingAmount = 0;
-  let overdueAmount = 0;
+export type MetricsInvoice = Pick<Invoice, 'status' | 'total' | 'currency' | 'amountPaid' | 'balanceDue' | 'creditedAmount'>;
+
+/**
+ * The summed amounts of the invoices with one currency and status
+ */
+export interface MetricsTotals {
+  currency: string;
+  status: InvoiceStatus;
+  invoiceCount: number;
+  amountPaid: number;
+  balanceDue: number;
+  refundDue: number;
+}
+
+/**
+ * Convert the minor unit sums of a currency group back to major units
+ */
+function fromMinorAmounts(amounts: CurrencyAmounts): CurrencyAmounts {
+  return {
+    ...amounts,
+    totalRevenue: money.fromMinor(amounts.totalRevenue, amounts.currency),
+    creditAdjustment: money.fromMinor(amounts.creditAdjustment, amounts.currency),
+    pendingAmount: money.fromMinor(amounts.pendingAmount, amounts.currency),
+    overdueAmount: money.fromMinor(amounts.overdueAmount, amounts.currency),
+  };
+}
+
+/**
+ * Calculate metrics from the summed amounts of invoices by currency and
+ * status, and a client count
+ * Shared by the local services and the Supabase-backed metrics, whose
+ * amounts are summed on the server
+ */
+function summarizeTotals(totals: MetricsTotals[], totalClients: number): Metrics {
+  const amounts = new Map<string, CurrencyAmounts>();
   let paidInvoices = 0;
   let pendingInvoices = 0;
+  let partiallyPaidInvoices = 0;
   let overdueInvoices = 0;
   let draftInvoices = 0;
+  let voidInvoices = 0;
+
+  // Process each group of invoices
+  for (const group of totals) {
+    const currency = group.currency || currencyService.DEFAULT_CURRENCY;
+    const amountPaid = money.toMinor(group.amountPaid, currency);
+    const balanceDue = money.toMinor(group.balanceDue, currency);
+    const refundDue = money.toMinor(group.refundDue, currency);
+    let entry = amounts.get(currency);
+    if (!entry) {
+      entry = { currency, totalRevenue: 0, creditAdjustment: 0, pendingAmount: 0, overdueAmount: 0, invoiceCount: 0 };
+      amounts.set(currency, entry);
+    }
+    entry.invoiceCount += group.invoiceCount;
+
+    // Requirement 5.1: totalRevenue from money received, including partial payments,
+    // less refunds owed on credit notes
+    entry.totalRevenue += amountPaid - refundDue;
+    entry.creditAdjustment -= refundDue;
 
-  // Process each invoice
-  for (const invoice of invoices) {
-    switch (invoice.status) {
+    switch (group.status) {
       case 'paid':
-        // Requirement 5.1: totalRevenue from paid invoices
-        totalRevenue += invoice.total;
-        paidInvoices++;
+        paidInvoices += group.invoiceCount;
         break;
       case 'sent':
         // Requirement 5.2: pendingAmount from sent invoices
-        pendingAmount += invoice.total;
-        pendingInvoices++;
+        entry.pendingAmount += balanceDue;
+        pendingInvoices += group.invoiceCount;
+        break;
+      case 'partially_paid':
+        entry.pendingAmount += balanceDue;
+        partiallyPaidInvoices += group.invoiceCount;
         break;
       case 'overdue':
         // Requirement 5.3: overdueAmount from overdue invoices
-        overdueAmount += invoice.total;
-        overdueInvoices++;
+        entry.overdueAmount += balanceDue;
+        overdueInvoices += group.invoiceCount;
         break;
       case 'draft':
-        draftInvoices++;
+        draftInvoices += group.invoiceCount;
+        break;
+      case 'void':
+        voidInvoices += group.invoiceCount;
         break;
     }
   }
 
+  // Most used currency first; ties keep the order currencies were first seen
+  const amountsByCurrency = [...amounts.values()]
+    .map(fromMinorAmounts)
+    .sort((a, b) => b.invoiceCount - a.invoiceCount);
+  const primary = amountsByCurrency[0];
+
   return {
-    // Requirement 5.1: Total revenue from paid invoices
-    totalRevenue: Math.round(totalRevenue * 100) / 100,
+    currency: primary?.currency ?? currencyService.DEFAULT_CURRENCY,
+    // Requirement 5.1: Total revenue received
+    totalRevenue: primary?.totalRevenue ?? 0,
+    creditAdjustment: primary?.creditAdjustment ?? 0,
     // Requirement 5.2: Pending amount from sent invoices
-    pendingAmount: Math.round(pendingAmount * 100) / 100,
+    pendingAmount: primary?.pendingAmount ?? 0,
     // Requirement 5.3: Overdue amount from overdue invoices
-    overdueAmount: Math.round(overdueAmount * 100) / 100,
+    overdueAmount: primary?.overdueAmount ?? 0,
     // Requirement 5.4: Count of clients
-    totalClients: clients.length,
+    totalClients,
     // Requirement 5.4: Invoice counts by status
     paidInvoices,
     pendingInvoices,
+    partiallyPaidInvoices,
     overdueInvoices,
     draftInvoices,
+    voidInvoices,
+    amountsByCurrency,
   };
 }
 
+/**
+ * Calculate metrics from invoice amounts and a client count
+ */
+function summarize(invoices: MetricsInvoice[], totalClients: number): Metrics {
+  return summarizeTotals(invoices.map(invoice => ({
+    currency: currencyService.getInvoiceCurrency(invoice),
+    status: invoice.status,
+    invoiceCount: 1,
+    amountPaid: paymentService.getAmountPaid(invoice),
+    balanceDue: paymentService.getBalanceDue(invoice),
+    refundDue: paymentService.getRefundDue(invoice),
+  })), totalClients);
+}
+
+/**
+ * The number of invoices with each status, and in all, from metrics
+ */
+function toStatusCounts(metrics: Metrics): InvoiceStatusCounts {
+  const counts = {
+    draft: metrics.draftInvoices,
+    sent: metrics.pendingInvoices,
+    partially_paid: metrics.partiallyPaidInvoices,
+    paid: metrics.paidInvoices,
+    overdue: metrics.overdueInvoices,
+    void: metrics.voidInvoices,
+  };
+  return { all: Object.values(counts).reduce((sum, count) => sum + count, 0), ...counts };
+}
+
+/**
+ * Calculate all dashboard metrics from invoices and clients
+ * Requirements: 5.1, 5.2, 5.3, 5.4
+ */
+function calculate(invoices: Invoice[], clients: Client[]): Metrics {
+  return summarize(invoices, clients.length);
+}
+
 /**
  * Get empty metrics (useful for initial state)
  */
 function getEmptyMetrics(): Metrics {
   return {
+    currency: currencyService.DEFAULT_CURRENCY,
     totalRevenue: 0,
+    creditAdjustment: 0,
     pendingAmount: 0,
     overdueAmount: 0,
     totalClients: 0,
     paidInvoices: 0,
     pendingInvoices: 0,
+    partiallyPaidInvoices: 0,
     overdueInvoices: 0,
     draftInvoices: 0,
+    voidInvoices: 0,
+    amountsByCurrency: [],
   };
 }
 
 export const metricsService = {
   calculate,
+  summarize,
+  summarizeTotals,
+  toStatusCounts,
   getEmptyMetrics,
 };
 
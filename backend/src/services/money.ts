@@ -0,0 +1,135 @@
+/**
+ * Money - Exact arithmetic on amounts in integer minor units
+ *
+ * Amounts are stored and displayed in major units (e.g. 12.34 dollars), but
+ * every calculation converts them to integer minor units (1234 cents) first,
+ * so sums of many lines or invoices never drift by a cent. Fractional minor
+ * units (from quantities, percentages and tax rates) are only produced by
+ * `multiply` and are rounded immediately with an explicit rounding mode.
+ */
+
+import type { RoundingMode, RoundingPolicy } from '../types';
+import { currencyService } from './currencyService';
+
+/**
+ * Default rounding: halves round up, tax is rounded once per rate group
+ */
+const DEFAULT_ROUNDING: RoundingPolicy = { mode: 'half-up', scope: 'invoice' };
+
+/**
+ * Number of minor unit digits of a currency, e.g. 2 for USD and 0 for JPY
+ */
+function getMinorDigits(currency: string = currencyService.DEFAULT_CURRENCY): number {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Round a fractional number of minor units to an integer
+ * Values are first cut to 15 significant digits so that binary noise such as
+ * 1.005 * 100 = 100.49999999999999 is treated as the intended 100.5
+ */
+function round(value: number, mode: RoundingMode = DEFAULT_ROUNDING.mode): number {
+  const normalized = Number(value.toPrecision(15));
+  const floor = Math.floor(normalized);
+  const fraction = normalized - floor;
+
+  if (Math.abs(fraction - 0.5) > 1e-9) {
+    return Math.round(normalized);
+  }
+
+  if (mode === 'half-even') {
+    return floor % 2 === 0 ? floor : floor + 1;
+  }
+  // Half-up rounds away from zero
+  return normalized >= 0 ? floor + 1 : floor;
+}
+
+/**
+ * Convert an amount in major units to integer minor units
+ */
+function toMinor(amount: number, currency?: string, mode?: RoundingMode): number {
+  return round(amount * 10 ** getMinorDigits(currency), mode);
+}
+
+/**
+ * Convert integer minor units back to an amount in major units
+ */
+function fromMinor(minor: number, currency?: string): number {
+  return minor / 10 ** getMinorDigits(currency);
+}
+
+/**
+ * Multiply minor units by a factor (a quantity or a rate) and round the result
+ */
+function multiply(minor: number, factor: number, mode?: RoundingMode): number {
+  return round(minor * factor, mode);
+}
+
+/**
+ * Percentage of minor units, e.g. percentage(1999, 20) = 400
+ */
+function percentage(minor: number, percent: number, mode?: RoundingMode): number {
+  return round((minor * percent) / 100, mode);
+}
+
+/**
+ * Sum of minor units
+ */
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Split minor units in proportion to weights, so that the parts add up exactly
+ * to the total. Remainders go to the parts with the largest fractional share,
+ * earlier parts first on ties.
+ */
+function allocate(total: number, weights: number[]): number[] {
+  const weightTotal = sum(weights);
+  if (weights.length === 0) {
+    return [];
+  }
+  if (weightTotal === 0) {
+    return weights.map((_, index) => (index === 0 ? total : 0));
+  }
+
+  const sign = total < 0 ? -1 : 1;
+  const absolute = Math.abs(total);
+  const exact = weights.map(weight => (absolute * weight) / weightTotal);
+  const parts = exact.map(Math.floor);
+  let remainder = absolute - sum(parts);
+
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (const { index } of order) {
+    if (remainder <= 0) break;
+    parts[index]++;
+    remainder--;
+  }
+
+  return parts.map(part => part * sign);
+}
+
+/**
+ * Format integer minor units, e.g. format(123450, 'USD') = "$1,234.50"
+ */
+function format(minor: number, currency?: string): string {
+  return currencyService.format(fromMinor(minor, currency), currency);
+}
+
+export const money = {
+  DEFAULT_ROUNDING,
+  getMinorDigits,
+  round,
+  toMinor,
+  fromMinor,
+  multiply,
+  percentage,
+  sum,
+  allocate,
+  format,
+};
+
+export default money;
@@ -0,0 +1,464 @@
+/**
+ * Offline Service - read cache and outbox for a remote backend
+ *
+ * While the server cannot be reached, the app reads the last snapshot of the
+ * data it loaded and queues its changes in an outbox kept in storage, so
+ * they survive a reload. When the connection returns the outbox is replayed
+ * in order. Records created offline get a temporary ID until their create is
+ * synced; the ID the server assigns then replaces it in the queued changes.
+ * The temporary ID holds the ID the record is created with on the server,
+ * so a create that is sent again is rejected as a duplicate there.
+ *
+ * A change to a record that was changed on the server after the change was
+ * based on it is resolved by updated_at: when the change was made later, it
+ * is sent again and overwrites the server's; otherwise it waits as a conflict
+ * until the user retries or discards it.
+ *
+ * The outbox is shared by every tab. One tab at a time replays it, holding
+ * the 'invoicey-outbox' Web Lock, which the browser releases when the tab
+ * closes. Where Web Locks are not supported, a lease in storage stands in
+ * for it; the tab renews the lease on a timer while it sends, and the lease
+ * of a tab that closed mid-replay runs out.
+ */
+
+import type { OfflineSnapshot, OutboxEntity, OutboxEntry, OutboxReplayResult, OutboxSent, OutboxStatus, OutboxTransport } from '../types';
+import { storage } from './storage';
+
+const OUTBOX_STORAGE_KEY = 'invoicey_outbox';
+const SNAPSHOT_STORAGE_KEY = 'invoicey_offline_snapshot';
+const REPLAY_LEASE_STORAGE_KEY = 'invoicey_outbox_lease';
+const REPLAY_LEASE_MS = 60_000;
+const REPLAY_LOCK_NAME = 'invoicey-outbox';
+const TEMP_ID_PREFIX = 'temp_';
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Changes that need the user before they sync again
+ */
+const HELD_STATUSES: OutboxStatus[] = ['failed', 'conflict'];
+
+/**
+ * Which status a record shows when it has several queued changes
+ */
+const STATUS_PRIORITY: Record<OutboxStatus, number> = { pending: 0, syncing: 1, failed: 2, conflict: 3 };
+
+type QueuedChange = Pick<OutboxEntry, 'userId' | 'entity' | 'operation' | 'targetId' | 'args' | 'record' | 'baseVersion'>;
+
+/**
+ * The tab replaying the outbox, until when
+ */
+interface ReplayLease {
+  owner: string;
+  expiresAt: number;
+}
+
+/**
+ * Thrown when the outbox could not be written, e.g. because the storage is
+ * full; the change it was given was not kept
+ */
+export class OutboxStorageError extends Error {
+  readonly reason: unknown;
+
+  constructor(reason: unknown) {
+    super('This change could not be saved for syncing later because the browser storage is full or unavailable.');
+    this.name = 'OutboxStorageError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Identifies this tab as the holder of the replay lease
+ */
+const leaseOwner = `replay_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Generate a unique ID for an outbox entry
+ */
+function generateId(): string {
+  return `outbox_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Generate a temporary ID for a record created offline
+ */
+function createTempId(entity: OutboxEntity): string {
+  return `${TEMP_ID_PREFIX}${entity}_${crypto.randomUUID()}`;
+}
+
+/**
+ * Get the ID a record created offline is created with on the server
+ * Returns undefined for temporary IDs queued before they held one.
+ */
+function getCreateId(tempId: string): string | undefined {
+  return tempId.match(UUID_PATTERN)?.[0];
+}
+
+/**
+ * Check if an ID is a temporary ID, not yet known to the server
+ */
+function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+function readAll(): OutboxEntry[] {
+  return storage.get<OutboxEntry[]>(OUTBOX_STORAGE_KEY) ?? [];
+}
+
+function writeAll(entries: OutboxEntry[]): void {
+  if (entries.length === 0) {
+    storage.remove(OUTBOX_STORAGE_KEY);
+    return;
+  }
+
+  try {
+    storage.setRequired(OUTBOX_STORAGE_KEY, entries);
+  } catch (error) {
+    throw new OutboxStorageError(error);
+  }
+}
+
+/**
+ * Get the queued changes of a user, oldest first
+ */
+function getEntries(userId: string): OutboxEntry[] {
+  return readAll().filter(entry => entry.userId === userId);
+}
+
+/**
+ * Queue a change
+ * Deleting a record that was created offline drops its queued changes
+ * instead, so it never reaches the server; null is returned then.
+ * Throws an OutboxStorageError when the change could not be kept.
+ */
+function enqueue(change: QueuedChange): OutboxEntry | null {
+  if (change.operation === 'delete' && isTempId(change.targetId)) {
+    writeAll(readAll().filter(entry => entry.targetId !== change.targetId));
+    return null;
+  }
+
+  const entry: OutboxEntry = {
+    ...change,
+    id: generateId(),
+    queuedAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+  };
+  writeAll([...readAll(), entry]);
+  return entry;
+}
+
+function updateEntry(id: string, changes: Partial<OutboxEntry>): void {
+  writeAll(readAll().map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+}
+
+/**
+ * Drop a queued change
+ * Dropping the create of a record drops its later changes as well
+ */
+function discard(id: string): void {
+  const entries = readAll();
+  const discarded = entries.find(entry => entry.id === id);
+  if (!discarded) return;
+
+  const dropsRecord = isTempId(discarded.targetId) && discarded.operation === 'create';
+  writeAll(entries.filter(entry => entry.id !== id && !(dropsRecord && entry.targetId === discarded.targetId)));
+}
+
+/**
+ * Queue a failed or conflicting change again
+ * With force it is sent without its base version and overwrites the server's
+ */
+function retry(id: string, force = false): void {
+  updateEntry(id, { status: 'pending', error: undefined, force });
+}
+
+/**
+ * Replace an ID in a value, deeply
+ */
+function replaceId(value: unknown, from: string, to: string): unknown {
+  if (value === from) return to;
+  if (Array.isArray(value)) return value.map(item => replaceId(item, from, to));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceId(item, from, to)]));
+  }
+  return value;
+}
+
+/**
+ * Replace the temporary ID of a record with the ID the server assigned,
+ * in the records and arguments of all queued changes
+ */
+function remapId(tempId: string, id: string): void {
+  writeAll(readAll().map(entry => ({
+    ...entry,
+    targetId: entry.targetId === tempId ? id : entry.targetId,
+    args: replaceId(entry.args, tempId, id) as unknown[],
+    record: replaceId(entry.record, tempId, id),
+  })));
+}
+
+/**
+ * Base the later changes of a record on the version a synced change left,
+ * as they were made on top of it
+ */
+function rebase(sent: OutboxSent): void {
+  if (!sent.version) return;
+  writeAll(readAll().map(entry => (entry.targetId === sent.id ? { ...entry, baseVersion: sent.version } : entry)));
+}
+
+/**
+ * Get the sync status of every record with queued changes, by record ID
+ */
+function getStatuses(userId: string): Record<string, OutboxStatus> {
+  const statuses: Record<string, OutboxStatus> = {};
+  for (const entry of getEntries(userId)) {
+    const current = statuses[entry.targetId];
+    if (!current || STATUS_PRIORITY[entry.status] > STATUS_PRIORITY[current]) {
+      statuses[entry.targetId] = entry.status;
+    }
+  }
+  return statuses;
+}
+
+/**
+ * Show the queued changes of an entity on records loaded from the server
+ * or the snapshot: changed records are replaced by their queued version,
+ * created ones added and deleted ones left out
+ */
+function applyPending<R extends { id: string }>(records: R[], entity: OutboxEntity, userId: string): R[] {
+  let result = records;
+  for (const entry of getEntries(userId)) {
+    if (entry.entity !== entity) continue;
+    if (entry.operation === 'delete') {
+      result = result.filter(record => record.id !== entry.targetId);
+    } else if (entry.record) {
+      const record = entry.record as R;
+      result = result.some(existing => existing.id === entry.targetId)
+        ? result.map(existing => (existing.id === entry.targetId ? record : existing))
+        : [record, ...result];
+    }
+  }
+  return result;
+}
+
+/**
+ * Check if a change is about, or refers to, one of the given records
+ */
+function refersTo(entry: OutboxEntry, ids: Set<string>): boolean {
+  if (ids.has(entry.targetId)) return true;
+  const args = JSON.stringify(entry.args);
+  return [...ids].some(id => args.includes(JSON.stringify(id)));
+}
+
+/**
+ * Send a change, overwriting the server's version when the change was
+ * made after it
+ */
+async function sendResolved(entry: OutboxEntry, transport: OutboxTransport): Promise<OutboxSent | void> {
+  try {
+    return await transport.send(entry);
+  } catch (error) {
+    const serverVersion = transport.getConflictVersion(error);
+    if (!entry.force && serverVersion && Date.parse(entry.queuedAt) > Date.parse(serverVersion)) {
+      return transport.send({ ...entry, force: true });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Queue again the changes a replay left syncing
+ * Called once the lock is taken: no other replay is sending then, so these
+ * were left by a tab that closed mid-replay.
+ */
+function requeueSyncing(): void {
+  const entries = readAll();
+  if (entries.some(entry => entry.status === 'syncing')) {
+    writeAll(entries.map(entry => (entry.status === 'syncing' ? { ...entry, status: 'pending' } : entry)));
+  }
+}
+
+/**
+ * Take or renew the replay lease
+ * Returns false while another tab holds it.
+ */
+function acquireLease(): boolean {
+  const lease = storage.get<ReplayLease>(REPLAY_LEASE_STORAGE_KEY);
+  const now = Date.now();
+  if (lease && lease.expiresAt > now && lease.owner !== leaseOwner) {
+    return false;
+  }
+
+  if (!lease || lease.expiresAt <= now) {
+    requeueSyncing();
+  }
+  storage.set<ReplayLease>(REPLAY_LEASE_STORAGE_KEY, { owner: leaseOwner, expiresAt: now + REPLAY_LEASE_MS });
+  return true;
+}
+
+function holdsLease(): boolean {
+  const lease = storage.get<ReplayLease>(REPLAY_LEASE_STORAGE_KEY);
+  return lease?.owner === leaseOwner && lease.expiresAt > Date.now();
+}
+
+function releaseLease(): void {
+  if (storage.get<ReplayLease>(REPLAY_LEASE_STORAGE_KEY)?.owner === leaseOwner) {
+    storage.remove(REPLAY_LEASE_STORAGE_KEY);
+  }
+}
+
+/**
+ * Run a replay while this tab holds the outbox lock
+ * Resolves null without running it while another tab holds the lock. The
+ * replay is given a check that tells whether the lock is still held: a
+ * storage lease can be lost when its renewals are delayed.
+ */
+async function withReplayLock<T>(run: (isHeld: () => boolean) => Promise<T>): Promise<T | null> {
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+  if (locks) {
+    return locks.request(REPLAY_LOCK_NAME, { ifAvailable: true }, async (lock) => {
+      if (!lock) return null;
+      requeueSyncing();
+      return run(() => true);
+    });
+  }
+
+  if (!acquireLease()) {
+    return null;
+  }
+  // Renew the lease while a change is in flight, however long it takes
+  const renewal = setInterval(acquireLease, REPLAY_LEASE_MS / 4);
+  try {
+    return await run(holdsLease);
+  } finally {
+    clearInterval(renewal);
+    releaseLease();
+  }
+}
+
+async function replayEntries(userId: string, transport: OutboxTransport): Promise<OutboxReplayResult> {
+  const result: OutboxReplayResult = { synced: 0, failed: 0, conflicts: 0, remaining: 0, offline: false };
+  // Records with a change that did not sync; their later changes wait for it
+  const held = new Set<string>();
+
+  await withReplayLock(isHeld => sendEntries(userId, transport, result, held, isHeld));
+
+  result.remaining = getEntries(userId).length;
+  return result;
+}
+
+async function sendEntries(userId: string, transport: OutboxTransport, result: OutboxReplayResult, held: Set<string>, isHeld: () => boolean): Promise<void> {
+  for (const { id } of getEntries(userId)) {
+    // A tab that lost the lock leaves the rest to the tab that took it
+    if (!isHeld()) break;
+
+    // Read again: syncing a create remaps the IDs of later changes
+    const entry = readAll().find(queued => queued.id === id);
+    if (!entry) continue;
+    // A change another replay is sending waits for it, as do later ones
+    if (entry.status === 'syncing' || HELD_STATUSES.includes(entry.status) || refersTo(entry, held)) {
+      held.add(entry.targetId);
+      continue;
+    }
+
+    updateEntry(id, { status: 'syncing', attempts: entry.attempts + 1 });
+    try {
+      const sent = await sendResolved(entry, transport);
+      writeAll(readAll().filter(queued => queued.id !== id));
+      if (sent) {
+        if (sent.id !== entry.targetId) {
+          remapId(entry.targetId, sent.id);
+        }
+        rebase(sent);
+      }
+      result.synced++;
+    } catch (error) {
+      if (transport.isNetworkError(error)) {
+        updateEntry(id, { status: 'pending' });
+        result.offline = true;
+        break;
+      }
+
+      const conflict = transport.getConflictVersion(error) !== undefined;
+      updateEntry(id, {
+        status: conflict ? 'conflict' : 'failed',
+        error: conflict
+          ? 'Changed by someone else after this change was made'
+          : error instanceof Error ? error.message : 'The change was rejected',
+      });
+      held.add(entry.targetId);
+      if (conflict) {
+        result.conflicts++;
+      } else {
+        result.failed++;
+      }
+    }
+  }
+}
+
+let replaying: Promise<OutboxReplayResult> | null = null;
+
+/**
+ * Send the queued changes of a user in order
+ * Stops at the first change that cannot reach the server; changes the
+ * server rejects are held with their error, and so are later changes to
+ * the same record. A replay already running in this tab is joined instead
+ * of started again; while another tab replays, nothing is sent.
+ */
+function replay(userId: string, transport: OutboxTransport): Promise<OutboxReplayResult> {
+  if (!replaying) {
+    replaying = replayEntries(userId, transport).finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+/**
+ * Keep the data last loaded from the server
+ */
+function saveSnapshot<T>(userId: string, data: T): void {
+  storage.set<OfflineSnapshot<T>>(SNAPSHOT_STORAGE_KEY, { userId, savedAt: new Date().toISOString(), data });
+}
+
+/**
+ * Get the data last loaded from the server for a user
+ * Returns null if none was kept for this user
+ */
+function getSnapshot<T>(userId: string): OfflineSnapshot<T> | null {
+  const snapshot = storage.get<OfflineSnapshot<T>>(SNAPSHOT_STORAGE_KEY);
+  return snapshot?.userId === userId ? snapshot : null;
+}
+
+/**
+ * Remove the outbox and snapshot (useful for testing)
+ */
+function reset(): void {
+  storage.remove(OUTBOX_STORAGE_KEY);
+  storage.remove(SNAPSHOT_STORAGE_KEY);
+  storage.remove(REPLAY_LEASE_STORAGE_KEY);
+}
+
+export const offlineService = {
+  createTempId,
+  getCreateId,
+  isTempId,
+  enqueue,
+  getEntries,
+  getStatuses,
+  applyPending,
+  discard,
+  retry,
+  remapId,
+  replay,
+  saveSnapshot,
+  getSnapshot,
+  reset,
+  OUTBOX_STORAGE_KEY,
+  SNAPSHOT_STORAGE_KEY,
+  REPLAY_LEASE_STORAGE_KEY,
+  REPLAY_LEASE_MS,
+  REPLAY_LOCK_NAME,
+};
+
+export default offlineService;
@@ -0,0 +1,365 @@
+/**
+ * Payment Gateway - Online card payments through a pluggable provider
+ *
+ * The Pay Now flow talks to a PaymentProvider:
+ * 1. createIntent for the balance due of the invoice
+ * 2. confirm with the card details; the provider may ask for 3-D Secure
+ *    authentication first ("requires_action"), then confirm completes it
+ * 3. only a "succeeded" intent writes a payment to the ledger, so the
+ *    invoice status changes only when the provider has taken the money
+ *
+ * Webhooks and refunds settle the ledger the same way. Settling is
+ * idempotent: the payment is recorded with the intent ID as its reference,
+ * and intent IDs are unique across sessions and tabs. A payment the
+ * provider took but the ledger could not record is reported with an
+ * UnrecordedPaymentError, so it can be reconciled.
+ *
+ * The default provider is a deterministic local mock whose outcome depends
+ * on the card number only (see MOCK_CARDS).
+ */
+
+import type {
+  CardDetails,
+  Invoice,
+  PaymentInput,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  ValidationResult,
+} from '../types';
+import { storage } from './storage';
+import { money } from './money';
+import { currencyService } from './currencyService';
+import { paymentService } from './paymentService';
+
+/**
+ * Thrown when the provider took a payment that could not be recorded in the
+ * ledger; the intent has to be reconciled with its invoice
+ */
+export class UnrecordedPaymentError extends Error {
+  readonly intent: PaymentIntent;
+  readonly reason: unknown;
+
+  constructor(intent: PaymentIntent, reason: unknown) {
+    super(`The payment was taken but could not be recorded on the invoice. Keep reference ${intent.id} to reconcile it.`);
+    this.name = 'UnrecordedPaymentError';
+    this.intent = intent;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Test cards of the mock provider; any other valid card succeeds
+ */
+const MOCK_CARDS = {
+  success: '4242424242424242',
+  declined: '4000000000000002',
+  insufficientFunds: '4000000000009995',
+  authenticate: '4000000000003220',
+  authenticateDeclined: '4000008400001629',
+} as const;
+
+const DECLINE_REASONS: Record<string, string> = {
+  [MOCK_CARDS.declined]: 'Your card was declined.',
+  [MOCK_CARDS.insufficientFunds]: 'Your card has insufficient funds.',
+  [MOCK_CARDS.authenticateDeclined]: 'Your card was declined after authentication.',
+};
+
+/**
+ * Get current ISO date string (YYYY-MM-DD)
+ */
+function getCurrentDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Digits of a card number without spaces or dashes
+ */
+function normalizeCardNumber(number: string): string {
+  return number.replace(/[\s-]/g, '');
+}
+
+/**
+ * Luhn checksum used by all card numbers
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Validate card details before they are sent to the provider
+ */
+function validateCard(card: CardDetails, today: Date = new Date()): ValidationResult {
+  const errors: Record<string, string> = {};
+  const number = normalizeCardNumber(card.number);
+
+  if (!/^\d{12,19}$/.test(number) || !passesLuhn(number)) {
+    errors.number = 'Please enter a valid card number';
+  }
+
+  const expiry = card.expiry.match(/^\s*(\d{1,2})\s*\/\s*(\d{2})\s*$/);
+  const month = expiry ? Number(expiry[1]) : 0;
+  if (!expiry || month < 1 || month > 12) {
+    errors.expiry = 'Please enter the expiry date as MM / YY';
+  } else if (2000 + Number(expiry[2]) < today.getFullYear()
+    || (2000 + Number(expiry[2]) === today.getFullYear() && month < today.getMonth() + 1)) {
+    errors.expiry = 'Your card has expired';
+  }
+
+  if (!/^\d{3,4}$/.test(card.cvc.trim())) {
+    errors.cvc = 'Please enter the 3 or 4 digit security code';
+  }
+
+  if (!card.name.trim()) {
+    errors.name = 'Name on card is required';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+/**
+ * Local payment provider for development and demos
+ * Intents are kept in local storage so refunds keep working after a reload.
+ * The outcome is decided by the card number:
+ * - MOCK_CARDS.declined / insufficientFunds: declined at once
+ * - MOCK_CARDS.authenticate: requires 3-D Secure, then succeeds
+ * - MOCK_CARDS.authenticateDeclined: requires 3-D Secure, then is declined
+ * - any other card: succeeds
+ */
+function createMockProvider(): PaymentProvider {
+  const name = 'mock';
+
+  const find = (intentId: string): PaymentIntent => {
+    const intent = storage.getPaymentIntents().find(i => i.id === intentId);
+    if (!intent) {
+      throw new Error(`Payment intent with ID "${intentId}" not found`);
+    }
+    return intent;
+  };
+
+  const save = (intent: PaymentIntent, changes: Partial<PaymentIntent>): PaymentIntent => {
+    const updated = { ...intent, ...changes, updatedAt: new Date().toISOString() };
+    storage.setPaymentIntents(storage.getPaymentIntents().map(i => (i.id === intent.id ? updated : i)));
+    return updated;
+  };
+
+  return {
+    name,
+
+    async createIntent({ invoiceId, amount, currency }) {
+      if (!Number.isInteger(amount) || amount <= 0) {
+        throw new Error('Payment amount must be greater than zero');
+      }
+
+      const intents = storage.getPaymentIntents();
+      const now = new Date().toISOString();
+      const intent: PaymentIntent = {
+        id: `pi_${name}_${crypto.randomUUID()}`,
+        provider: name,
+        invoiceId,
+        amount,
+        currency,
+        status: 'requires_payment_method',
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      storage.setPaymentIntents([...intents, intent]);
+      return intent;
+    },
+
+    async confirm(intentId, card) {
+      const intent = find(intentId);
+
+      if (intent.status === 'requires_action') {
+        // The customer completed 3-D Secure; the card decides whether the bank approves
+        const reason = intent.cardLast4 === MOCK_CARDS.authenticateDeclined.slice(-4)
+          ? DECLINE_REASONS[MOCK_CARDS.authenticateDeclined]
+          : undefined;
+        return save(intent, reason ? { status: 'failed', failureReason: reason } : { status: 'succeeded', failureReason: undefined });
+      }
+
+      if (intent.status !== 'requires_payment_method' && intent.status !== 'failed') {
+        throw new Error(`Payment intent is already ${intent.status}`);
+      }
+
+      if (!card) {
+        throw new Error('Card details are required');
+      }
+
+      const number = normalizeCardNumber(card.number);
+      const cardLast4 = number.slice(-4);
+
+      if (number === MOCK_CARDS.authenticate || number === MOCK_CARDS.authenticateDeclined) {
+        return save(intent, { status: 'requires_action', cardLast4, failureReason: undefined });
+      }
+      if (DECLINE_REASONS[number]) {
+        return save(intent, { status: 'failed', cardLast4, failureReason: DECLINE_REASONS[number] });
+      }
+      return save(intent, { status: 'succeeded', cardLast4, failureReason: undefined });
+    },
+
+    async handleWebhook(event) {
+      const intent = find(event.intentId);
+
+      switch (event.type) {
+        case 'payment_intent.succeeded':
+          return intent.status === 'succeeded' ? intent : save(intent, { status: 'succeeded', failureReason: undefined });
+        case 'payment_intent.payment_failed':
+          return save(intent, { status: 'failed', failureReason: event.failureReason ?? 'Your card was declined.' });
+        case 'charge.refunded':
+          return save(intent, { status: 'refunded' });
+        default:
+          throw new Error(`Unsupported webhook event "${(event as PaymentWebhookEvent).type}"`);
+      }
+    },
+
+    async refund(intentId) {
+      const intent = find(intentId);
+      if (intent.status !== 'succeeded') {
+        throw new Error('Only succeeded payments can be refunded');
+      }
+      return save(intent, { status: 'refunded' });
+    },
+  };
+}
+
+let provider: PaymentProvider = createMockProvider();
+
+/**
+ * Payment provider used by the Pay Now flow
+ */
+function getProvider(): PaymentProvider {
+  return provider;
+}
+
+/**
+ * Replace the payment provider, e.g. with a Stripe implementation at startup
+ */
+function setProvider(next: PaymentProvider): void {
+  provider = next;
+}
+
+/**
+ * Amount of an invoice that can be paid online, in minor units
+ */
+function getPayableAmount(invoice: Pick<Invoice, 'status' | 'total' | 'currency' | 'amountPaid' | 'balanceDue'>): number {
+  if (invoice.status === 'draft' || invoice.status === 'paid') {
+    return 0;
+  }
+  const currency = currencyService.getInvoiceCurrency(invoice);
+  return money.toMinor(paymentService.getBalanceDue(invoice), currency);
+}
+
+/**
+ * Ledger entry for a succeeded intent
+ */
+function toPaymentInput(intent: PaymentIntent): PaymentInput {
+  return {
+    amount: money.fromMinor(intent.amount, intent.currency),
+    date: getCurrentDate(),
+    method: 'card',
+    reference: intent.id,
+  };
+}
+
+/**
+ * Bring the local ledger in line with an intent: record a succeeded intent
+ * once, and remove the payment of a refunded one
+ */
+function settle(intent: PaymentIntent): PaymentIntent {
+  const findRecorded = () => paymentService.getByInvoiceId(intent.invoiceId).find(p => p.reference === intent.id);
+  const recorded = findRecorded();
+
+  if (intent.status === 'succeeded' && !recorded) {
+    try {
+      paymentService.record(intent.invoiceId, toPaymentInput(intent));
+    } catch (error) {
+      // Recorded in the meantime, e.g. by a webhook for the same intent
+      if (!findRecorded()) {
+        throw new UnrecordedPaymentError(intent, error);
+      }
+    }
+  } else if (intent.status === 'refunded' && recorded) {
+    paymentService.delete(recorded.id);
+  }
+
+  return intent;
+}
+
+/**
+ * Start paying the balance due of an invoice
+ */
+async function startPayment(invoiceId: string): Promise<PaymentIntent> {
+  const invoice = storage.getInvoices().find(i => i.id === invoiceId);
+  if (!invoice) {
+    throw new Error(`Invoice with ID "${invoiceId}" not found`);
+  }
+
+  const amount = getPayableAmount(invoice);
+  if (amount <= 0) {
+    throw new Error('This invoice has nothing left to pay');
+  }
+
+  return provider.createIntent({ invoiceId, amount, currency: currencyService.getInvoiceCurrency(invoice) });
+}
+
+/**
+ * Confirm a payment with card details, or complete 3-D Secure when called
+ * again without them
+ */
+async function confirmPayment(intentId: string, card?: CardDetails): Promise<PaymentIntent> {
+  if (card) {
+    const validation = validateCard(card);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+    }
+  }
+  return settle(await provider.confirm(intentId, card));
+}
+
+/**
+ * Apply a provider webhook to the ledger
+ */
+async function handleWebhook(event: PaymentWebhookEvent): Promise<PaymentIntent> {
+  return settle(await provider.handleWebhook(event));
+}
+
+/**
+ * Refund an online payment and remove it from the ledger
+ */
+async function refundPayment(paymentId: string): Promise<PaymentIntent> {
+  const payment = paymentService.getAll().find(p => p.id === paymentId);
+  if (!payment?.reference || payment.method !== 'card') {
+    throw new Error('Only online card payments can be refunded');
+  }
+  return settle(await provider.refund(payment.reference));
+}
+
+export const paymentGateway = {
+  MOCK_CARDS,
+  validateCard,
+  createMockProvider,
+  getProvider,
+  setProvider,
+  getPayableAmount,
+  toPaymentInput,
+  startPayment,
+  confirmPayment,
+  handleWebhook,
+  refundPayment,
+};
+
+export default paymentGateway;
@@ -0,0 +1,279 @@
+/**
+ * Payment Service - Payments ledger and balance due
+ *
+ * Every payment received against an invoice is recorded with its amount,
+ * date, method and reference. The invoice keeps the running amountPaid and
+ * balanceDue, and its status follows from them:
+ * - no payments: status is left as is ("partially_paid" falls back to "sent")
+ * - some of the total paid: "partially_paid" (an overdue invoice stays "overdue")
+ * - the total paid: "paid"
+ * A void invoice takes no payments and has nothing left to pay.
+ *
+ * Credit notes issued against the invoice (creditedAmount) reduce the
+ * balance due like payments do. Whatever is paid or credited beyond the
+ * total is a refund owed to the client.
+ *
+ * Status changes that follow from the ledger are recorded in the invoice's
+ * status history.
+ */
+
+import type { Invoice, InvoiceStatus, Payment, PaymentInput, PaymentMethod, StatusChangeInput, ValidationResult } from '../types';
+import { storage } from './storage';
+import { money } from './money';
+import { currencyService } from './currencyService';
+import { invoiceStatusService } from './invoiceStatusService';
+
+/**
+ * Payment methods and their display labels
+ */
+const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  bank_transfer: 'Bank transfer',
+  card: 'Card',
+  cash: 'Cash',
+  check: 'Check',
+  other: 'Other',
+};
+
+/**
+ * Generate a unique ID for a new payment
+ */
+function generateId(): string {
+  return `payment_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get current ISO date string (YYYY-MM-DD)
+ */
+function getCurrentDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Get all payments from storage
+ */
+function getAll(): Payment[] {
+  return storage.getPayments();
+}
+
+/**
+ * Get the payments of an invoice, oldest first
+ */
+function getByInvoiceId(invoiceId: string): Payment[] {
+  return storage.getPayments()
+    .filter(payment => payment.invoiceId === invoiceId)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Amount received for an invoice
+ * Invoices stored before the payments ledger existed count as fully paid
+ * when their status is "paid"
+ */
+function getAmountPaid(invoice: Pick<Invoice, 'status' | 'total' | 'amountPaid'>): number {
+  return invoice.amountPaid ?? (invoice.status === 'paid' ? invoice.total : 0);
+}
+
+/**
+ * Amount credited to an invoice by credit notes
+ */
+function getCreditedAmount(invoice: Pick<Invoice, 'creditedAmount'>): number {
+  return invoice.creditedAmount ?? 0;
+}
+
+/**
+ * Amount still owed on an invoice
+ */
+function getBalanceDue(invoice: Pick<Invoice, 'status' | 'total' | 'currency' | 'amountPaid' | 'balanceDue' | 'creditedAmount'>): number {
+  if (invoice.status === 'void') {
+    return 0;
+  }
+  if (invoice.balanceDue !== undefined) {
+    return invoice.balanceDue;
+  }
+  const currency = currencyService.getInvoiceCurrency(invoice);
+  const balance = money.toMinor(invoice.total, currency)
+    - money.toMinor(getAmountPaid(invoice), currency)
+    - money.toMinor(getCreditedAmount(invoice), currency);
+  return money.fromMinor(Math.max(balance, 0), currency);
+}
+
+/**
+ * Amount owed back to the client, when payments and credit notes together
+ * exceed the invoice total
+ */
+function getRefundDue(invoice: Pick<Invoice, 'status' | 'total' | 'currency' | 'amountPaid' | 'creditedAmount'>): number {
+  const currency = currencyService.getInvoiceCurrency(invoice);
+  const excess = money.toMinor(getAmountPaid(invoice), currency)
+    + money.toMinor(getCreditedAmount(invoice), currency)
+    - money.toMinor(invoice.total, currency);
+  return money.fromMinor(Math.max(excess, 0), currency);
+}
+
+/**
+ * Derive the invoice status from the amounts paid and credited
+ */
+function deriveStatus(status: InvoiceStatus, totalMinor: number, paidMinor: number, creditedMinor = 0): InvoiceStatus {
+  if (paidMinor + creditedMinor > 0 && paidMinor + creditedMinor >= totalMinor) {
+    return 'paid';
+  }
+  if (paidMinor <= 0) {
+    return status === 'partially_paid' ? 'sent' : status;
+  }
+  return status === 'overdue' ? 'overdue' : 'partially_paid';
+}
+
+/**
+ * Update amountPaid, balanceDue and status of an invoice from its payments
+ * A "paid" invoice without any payments was settled outside the ledger and
+ * stays fully paid
+ */
+function applyPayments<T extends Pick<Invoice, 'status' | 'total' | 'currency' | 'amountPaid' | 'balanceDue' | 'creditedAmount'>>(
+  invoice: T,
+  payments: Pick<Payment, 'amount'>[]
+): T {
+  const currency = currencyService.getInvoiceCurrency(invoice);
+  const total = money.toMinor(invoice.total, currency);
+  const credited = money.toMinor(getCreditedAmount(invoice), currency);
+  const paid = payments.length === 0 && invoice.status === 'paid'
+    ? money.toMinor(getAmountPaid(invoice), currency)
+    : money.sum(payments.map(payment => money.toMinor(payment.amount, currency)));
+
+  return {
+    ...invoice,
+    amountPaid: money.fromMinor(paid, currency),
+    balanceDue: invoice.status === 'void' ? 0 : money.fromMinor(Math.max(total - paid - credited, 0), currency),
+    status: deriveStatus(invoice.status, total, paid, credited),
+  };
+}
+
+/**
+ * Validate a payment against the invoice it pays
+ */
+function validate(
+  input: PaymentInput,
+  invoice: Pick<Invoice, 'status' | 'total' | 'currency' | 'amountPaid' | 'balanceDue' | 'creditedAmount'>
+): ValidationResult {
+  const errors: Record<string, string> = {};
+  const currency = currencyService.getInvoiceCurrency(invoice);
+
+  if (invoice.status === 'void') {
+    errors.amount = 'A void invoice cannot be paid';
+  } else if (!Number.isFinite(input.amount) || money.toMinor(input.amount, currency) <= 0) {
+    errors.amount = 'Payment amount must be greater than zero';
+  } else if (money.toMinor(input.amount, currency) > money.toMinor(getBalanceDue(invoice), currency)) {
+    errors.amount = `Payment exceeds the balance due of ${currencyService.format(getBalanceDue(invoice), currency)}`;
+  }
+
+  if (!input.date) {
+    errors.date = 'Payment date is required';
+  }
+
+  if (!(input.method in PAYMENT_METHODS)) {
+    errors.method = 'Please select a payment method';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+/**
+ * Save the invoice with amounts and status recalculated from its payments
+ * A status change is recorded in the invoice's history with the given reason
+ */
+function syncInvoice(invoiceId: string, change: StatusChangeInput = {}, reopen = false): Invoice {
+  const invoices = storage.getInvoices();
+  const index = invoices.findIndex(invoice => invoice.id === invoiceId);
+
+  if (index === -1) {
+    throw new Error(`Invoice with ID "${invoiceId}" not found`);
+  }
+
+  const existing = invoices[index];
+  const payments = getByInvoiceId(invoiceId);
+  const invoice = reopen && payments.length === 0 && existing.status === 'paid'
+    ? { ...existing, status: 'sent' as InvoiceStatus }
+    : existing;
+  const updated = applyPayments(invoice, payments);
+
+  invoices[index] = invoiceStatusService.changeStatus({ ...updated, status: existing.status }, updated.status, change);
+  storage.setInvoices(invoices);
+
+  return invoices[index];
+}
+
+/**
+ * Record a payment against an invoice
+ * Returns the updated invoice
+ */
+function record(invoiceId: string, input: PaymentInput): Invoice {
+  const invoice = storage.getInvoices().find(i => i.id === invoiceId);
+  if (!invoice) {
+    throw new Error(`Invoice with ID "${invoiceId}" not found`);
+  }
+
+  const validation = validate(input, invoice);
+  if (!validation.valid) {
+    throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+  }
+
+  const payment: Payment = {
+    id: generateId(),
+    invoiceId,
+    amount: input.amount,
+    date: input.date,
+    method: input.method,
+    reference: input.reference?.trim() || undefined,
+    createdAt: getCurrentDate(),
+  };
+
+  storage.setPayments([...storage.getPayments(), payment]);
+
+  const currency = currencyService.getInvoiceCurrency(invoice);
+  return syncInvoice(invoiceId, { reason: `Payment of ${currencyService.format(payment.amount, currency)} recorded` });
+}
+
+/**
+ * Delete a recorded payment
+ * An invoice whose last payment is removed is reopened as "sent"
+ * Returns the updated invoice
+ */
+function deletePayment(id: string): Invoice {
+  const payments = storage.getPayments();
+  const payment = payments.find(p => p.id === id);
+
+  if (!payment) {
+    throw new Error(`Payment with ID "${id}" not found`);
+  }
+
+  storage.setPayments(payments.filter(p => p.id !== id));
+
+  return syncInvoice(payment.invoiceId, { reason: 'Payment removed' }, true);
+}
+
+/**
+ * Delete all payments of an invoice, used when the invoice itself is deleted
+ */
+function deleteByInvoiceId(invoiceId: string): void {
+  storage.setPayments(storage.getPayments().filter(p => p.invoiceId !== invoiceId));
+}
+
+export const paymentService = {
+  PAYMENT_METHODS,
+  getAll,
+  getByInvoiceId,
+  getAmountPaid,
+  getCreditedAmount,
+  getBalanceDue,
+  getRefundDue,
+  deriveStatus,
+  applyPayments,
+  validate,
+  syncInvoice,
+  record,
+  delete: deletePayment,
+  deleteByInvoiceId,
+};
+
+export default paymentService;
@@ -0,0 +1,102 @@
+/**
+ * Payment Terms Service - Named terms that set an invoice's due date
+ *
+ * Terms are due on receipt, net N days after the issue date, or N days after
+ * the end of the issue month (EOM). The due date is always derived from the
+ * issue date, so it moves with it. Clients can have default terms for their
+ * new invoices; invoices without terms keep a due date picked by hand.
+ */
+
+import type { Client, PaymentTerms } from '../types';
+import { dates } from './dates';
+
+/**
+ * Terms offered when creating an invoice
+ */
+const PAYMENT_TERMS_PRESETS: PaymentTerms[] = [
+  { type: 'receipt', days: 0 },
+  { type: 'net', days: 7 },
+  { type: 'net', days: 15 },
+  { type: 'net', days: 30 },
+  { type: 'net', days: 60 },
+  { type: 'eom', days: 0 },
+  { type: 'eom', days: 15 },
+  { type: 'eom', days: 30 },
+];
+
+/**
+ * Terms of new invoices for clients without default terms
+ */
+const DEFAULT_PAYMENT_TERMS: PaymentTerms = { type: 'net', days: 30 };
+
+/**
+ * Check if two terms are the same
+ */
+function isSameTerms(a?: PaymentTerms, b?: PaymentTerms): boolean {
+  if (!a || !b) return a === b;
+  return a.type === b.type && (a.type === 'receipt' || a.days === b.days);
+}
+
+/**
+ * Check that terms have a whole, non-negative number of days
+ */
+function isValid(terms?: PaymentTerms): boolean {
+  if (!terms) return true;
+  return ['receipt', 'net', 'eom'].includes(terms.type) && Number.isInteger(terms.days) && terms.days >= 0;
+}
+
+/**
+ * Calculate the due date of an invoice issued on a date
+ */
+function getDueDate(issueDate: string, terms: PaymentTerms): string {
+  switch (terms.type) {
+    case 'receipt':
+      return issueDate;
+    case 'net':
+      return dates.addDays(issueDate, terms.days);
+    case 'eom':
+      return dates.addDays(dates.endOfMonth(issueDate), terms.days);
+  }
+}
+
+/**
+ * Format terms for display, e.g. "Net 30" or "End of month + 15 days"
+ */
+function formatTerms(terms: PaymentTerms): string {
+  switch (terms.type) {
+    case 'receipt':
+      return 'Due on receipt';
+    case 'net':
+      return `Net ${terms.days}`;
+    case 'eom':
+      return terms.days > 0 ? `End of month + ${terms.days} days` : 'End of month';
+  }
+}
+
+/**
+ * Terms for a new invoice to a client
+ */
+function getClientTerms(client?: Pick<Client, 'defaultPaymentTerms'>): PaymentTerms {
+  return client?.defaultPaymentTerms ?? DEFAULT_PAYMENT_TERMS;
+}
+
+/**
+ * Resolve the due date of an invoice: from its terms when it has them,
+ * otherwise the date picked by hand
+ */
+function resolveDueDate(issueDate: string, dueDate: string, terms?: PaymentTerms): string {
+  return terms ? getDueDate(issueDate, terms) : dueDate;
+}
+
+export const paymentTermsService = {
+  PAYMENT_TERMS_PRESETS,
+  DEFAULT_PAYMENT_TERMS,
+  isSameTerms,
+  isValid,
+  getDueDate,
+  formatTerms,
+  getClientTerms,
+  resolveDueDate,
+};
+
+export default paymentTermsService;
@@ -1,6 +1,12 @@
 // src/services/pdfService.ts
-import { jsPDF } from 'jspdf';
-import type { Invoice } from '../types';
+import { jsPDF, GState } from 'jspdf';
+import type { CreditNote, Invoice } from '../types';
+import { taxService } from './taxService';
+import { discountService } from './discountService';
+import { currencyService } from './currencyService';
+import { money } from './money';
+import { invoiceStatusService } from './invoiceStatusService';
+import { paymentTermsService } from './paymentTermsService';
 
 // Company info (same as in ShareableInvoice)
 const COMPANY_INFO = {
@@ -10,10 +16,6 @@ const COMPANY_INFO = {
   address: '100 Main Street, Suite 200, San Francisco, CA 94105',
 };
 
-// Format currency
-const formatCurrency = (amount: number): string =>
-  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
-
 // Format date
 const formatDate = (date: string): string =>
   new Intl.DateTimeFormat('en-US', { month: 'long', day: 'numeric', year: 'numeric' }).format(
@@ -40,6 +42,9 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   const margin = 20;
   const contentWidth = pageWidth - margin * 2;
   let y = margin;
+  const currency = currencyService.getInvoiceCurrency(invoice);
+  // Stored amounts are shown at the exact minor unit precision of the currency
+  const formatCurrency = (amount: number): string => money.format(money.toMinor(amount, currency), currency);
 
   // Helper to add text with color
   const setTextColor = (color: string) => {
@@ -87,8 +92,10 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   const statusColors: Record<string, string> = {
     paid: '#10b981',
     sent: '#3b82f6',
+    partially_paid: '#f59e0b',
     overdue: '#ef4444',
     draft: '#64748b',
+    void: '#64748b',
   };
   const statusColor = statusColors[invoice.status] || COLORS.textLight;
   doc.setFontSize(10);
@@ -97,7 +104,7 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   const statusG = parseInt(statusColor.slice(3, 5), 16);
   const statusB = parseInt(statusColor.slice(5, 7), 16);
   doc.setTextColor(statusR, statusG, statusB);
-  doc.text(invoice.status.toUpperCase(), pageWidth - margin, y - 5, { align: 'right' });
+  doc.text(invoice.status.replace('_', ' ').toUpperCase(), pageWidth - margin, y - 5, { align: 'right' });
 
   y += 15;
 
@@ -158,6 +165,14 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   doc.setFont('helvetica', invoice.status === 'overdue' ? 'bold' : 'normal');
   doc.text(formatDate(invoice.dueDate), pageWidth - margin - 50, y - 8);
 
+  // Payment terms under the due date
+  if (invoice.paymentTerms) {
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    setTextColor(COLORS.textLight);
+    doc.text(`Terms: ${paymentTermsService.formatTerms(invoice.paymentTerms)}`, pageWidth - margin - 50, y - 3);
+  }
+
   y += 10;
 
   // Divider line
@@ -216,9 +231,16 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
     setTextColor(COLORS.text);
     xPos = margin + 4;
     
-    // Description (may need to wrap)
-    const descLines = doc.splitTextToSize(item.description, colWidths.description - 8);
+    // Description (may need to wrap), followed by the line discount if any
+    const descLines: string[] = doc.splitTextToSize(item.description, colWidths.description - 8);
     doc.text(descLines, xPos, y);
+    if (discountService.hasDiscount(item.discount)) {
+      setTextColor(COLORS.textLight);
+      doc.setFontSize(8);
+      doc.text(`Less ${discountService.formatDiscount(item.discount, currency)} discount`, xPos, y + descLines.length * 5);
+      doc.setFontSize(9);
+      descLines.push('');
+    }
     
     xPos += colWidths.description;
     setTextColor(COLORS.textLight);
@@ -255,12 +277,25 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
 
   y += 6;
 
-  setTextColor(COLORS.textLight);
-  doc.text('Tax', totalsX, y);
-  setTextColor(COLORS.text);
-  doc.text(formatCurrency(invoice.tax), pageWidth - margin, y, { align: 'right' });
+  // Invoice discount, applied before tax
+  if (discountService.hasDiscount(invoice.discount) && invoice.discountAmount) {
+    setTextColor(COLORS.textLight);
+    doc.text(discountService.formatDiscountLabel(invoice.discount), totalsX, y);
+    setTextColor(COLORS.text);
+    doc.text(`-${formatCurrency(invoice.discountAmount)}`, pageWidth - margin, y, { align: 'right' });
+    y += 6;
+  }
 
-  y += 4;
+  // One tax row per rate group
+  taxService.getInvoiceBreakdown(invoice).forEach((entry) => {
+    setTextColor(COLORS.textLight);
+    doc.text(taxService.formatTaxRateLabel(entry), totalsX, y);
+    setTextColor(COLORS.text);
+    doc.text(formatCurrency(entry.tax), pageWidth - margin, y, { align: 'right' });
+    y += 6;
+  });
+
+  y -= 2;
 
   // Total divider
   doc.setDrawColor(226, 232, 240);
@@ -275,6 +310,30 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   doc.setFontSize(14);
   doc.text(formatCurrency(invoice.total), pageWidth - margin, y, { align: 'right' });
 
+  // Credit notes and payments received, when the balance differs from the total
+  if (invoice.creditedAmount || invoice.amountPaid) {
+    y += 8;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    if (invoice.creditedAmount) {
+      setTextColor(COLORS.textLight);
+      doc.text('Credited', totalsX, y);
+      setTextColor(COLORS.text);
+      doc.text(`-${formatCurrency(invoice.creditedAmount)}`, pageWidth - margin, y, { align: 'right' });
+      y += 6;
+    }
+    if (invoice.amountPaid) {
+      setTextColor(COLORS.textLight);
+      doc.text('Amount paid', totalsX, y);
+      setTextColor(COLORS.text);
+      doc.text(`-${formatCurrency(invoice.amountPaid)}`, pageWidth - margin, y, { align: 'right' });
+      y += 6;
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.text('Balance due', totalsX, y);
+    doc.text(formatCurrency(invoice.balanceDue ?? 0), pageWidth - margin, y, { align: 'right' });
+  }
+
   y += 15;
 
   // ===== NOTES SECTION =====
@@ -320,7 +379,27 @@ export function generateInvoicePDF(invoice: Invoice): Blob {
   doc.setFontSize(9);
   doc.setFont('helvetica', 'normal');
   setTextColor(COLORS.textLight);
-  doc.text('Thank you for your business!', pageWidth / 2, y, { align: 'center' });
+  if (invoice.status === 'void') {
+    const voidReason = invoiceStatusService.getVoidReason(invoice);
+    doc.text(`This invoice has been voided${voidReason ? `: ${voidReason}` : ''}`, pageWidth / 2, y, { align: 'center' });
+  } else {
+    doc.text('Thank you for your business!', pageWidth / 2, y, { align: 'center' });
+  }
+
+  // ===== VOID WATERMARK =====
+  // Drawn last and translucent, so it sits over the content without hiding it
+  if (invoice.status === 'void') {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    doc.saveGraphicsState();
+    doc.setGState(new GState({ opacity: 0.15 }));
+    doc.setFontSize(140);
+    doc.setFont('helvetica', 'bold');
+    setTextColor('#ef4444');
+    // Rotated text is not aligned by jsPDF, so start half its width down and left of the centre
+    const offset = doc.getTextWidth('VOID') / 2 / Math.SQRT2;
+    doc.text('VOID', pageWidth / 2 - offset, pageHeight / 2 + offset, { angle: 45 });
+    doc.restoreGraphicsState();
+  }
 
   // Return as Blob
   return doc.output('blob');
@@ -348,8 +427,246 @@ export async function downloadInvoicePDF(invoice: Invoice): Promise<void> {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Generate a PDF for a credit note
+ * Laid out like an invoice, but headed CREDIT NOTE with a reference to the
+ * credited invoice, the reason for the credit and negative amounts
+ * @param creditNote - The credit note to generate PDF for
+ * @returns Blob containing the PDF data
+ */
+export function generateCreditNotePDF(creditNote: CreditNote): Blob {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 20;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+  const currency = creditNote.currency;
+  const formatCurrency = (amount: number): string => money.format(money.toMinor(amount, currency), currency);
+  const accent = '#e11d48'; // rose-600
+
+  const setTextColor = (color: string) => {
+    const r = parseInt(color.slice(1, 3), 16);
+    const g = parseInt(color.slice(3, 5), 16);
+    const b = parseInt(color.slice(5, 7), 16);
+    doc.setTextColor(r, g, b);
+  };
+
+  // ===== HEADER SECTION =====
+  doc.setFillColor(225, 29, 72); // rose-600
+  doc.rect(margin, y, 12, 12, 'F');
+
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  setTextColor(COLORS.text);
+  doc.text(COMPANY_INFO.name, margin + 16, y + 9);
+
+  doc.setFontSize(10);
+  setTextColor(accent);
+  doc.text('CREDIT NOTE', pageWidth - margin, y + 4, { align: 'right' });
+
+  doc.setFontSize(16);
+  setTextColor(COLORS.text);
+  doc.text(creditNote.creditNoteNumber, pageWidth - margin, y + 12, { align: 'right' });
+
+  y += 20;
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  setTextColor(COLORS.textLight);
+  doc.text(COMPANY_INFO.email, margin, y);
+  doc.text(`Credit for invoice ${creditNote.invoiceNumber}`, pageWidth - margin, y, { align: 'right' });
+  y += 5;
+  doc.text(COMPANY_INFO.phone, margin, y);
+  y += 5;
+  doc.text(COMPANY_INFO.address, margin, y);
+
+  y += 10;
+  doc.setDrawColor(226, 232, 240);
+  doc.setLineWidth(0.5);
+  doc.line(margin, y, pageWidth - margin, y);
+  y += 10;
+
+  // ===== CREDITED TO SECTION =====
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  setTextColor(COLORS.textLight);
+  doc.text('CREDITED TO', margin, y);
+  doc.text('ISSUE DATE', pageWidth - margin - 50, y);
+  doc.text('ORIGINAL INVOICE', pageWidth - margin - 50, y + 20);
+
+  y += 6;
+
+  doc.setFontSize(11);
+  setTextColor(COLORS.text);
+  doc.text(creditNote.client.name, margin, y);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(formatDate(creditNote.issueDate), pageWidth - margin - 50, y);
+  doc.text(creditNote.invoiceNumber, pageWidth - margin - 50, y + 20);
+
+  y += 5;
+  doc.setFontSize(9);
+  setTextColor(COLORS.textLight);
+  if (creditNote.client.company) {
+    doc.text(creditNote.client.company, margin, y);
+    y += 4;
+  }
+  doc.text(creditNote.client.email, margin, y);
+  y += 4;
+  if (creditNote.client.address) {
+    const addressLines = doc.splitTextToSize(creditNote.client.address, 80);
+    doc.text(addressLines, margin, y);
+    y += addressLines.length * 4;
+  }
+
+  y += 12;
+
+  // ===== REASON =====
+  const reasonLines: string[] = doc.splitTextToSize(creditNote.reason, contentWidth - 16);
+  const reasonHeight = reasonLines.length * 5 + 14;
+  doc.setFillColor(255, 241, 242); // rose-50
+  doc.rect(margin, y, contentWidth, reasonHeight, 'F');
+  y += 7;
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  setTextColor(accent);
+  doc.text('REASON FOR CREDIT', margin + 8, y);
+  y += 5;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  setTextColor(COLORS.text);
+  doc.text(reasonLines, margin + 8, y);
+  y += reasonHeight - 4;
+
+  // ===== LINE ITEMS TABLE =====
+  const colWidths = {
+    description: contentWidth * 0.5,
+    qty: contentWidth * 0.12,
+    rate: contentWidth * 0.19,
+    amount: contentWidth * 0.19,
+  };
+
+  doc.setFillColor(248, 250, 252); // slate-50
+  doc.rect(margin, y - 4, contentWidth, 10, 'F');
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  setTextColor(COLORS.textLight);
+
+  let xPos = margin + 4;
+  doc.text('CREDITED ITEM', xPos, y + 2);
+  xPos += colWidths.description;
+  doc.text('QTY', xPos, y + 2, { align: 'center' });
+  xPos += colWidths.qty;
+  doc.text('RATE', xPos + colWidths.rate - 4, y + 2, { align: 'right' });
+  xPos += colWidths.rate;
+  doc.text('AMOUNT', xPos + colWidths.amount - 4, y + 2, { align: 'right' });
+
+  y += 10;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+
+  creditNote.lineItems.forEach((item) => {
+    if (y > 260) {
+      doc.addPage();
+      y = margin;
+    }
+
+    xPos = margin + 4;
+    setTextColor(COLORS.text);
+    const descLines: string[] = doc.splitTextToSize(item.description, colWidths.description - 8);
+    doc.text(descLines, xPos, y);
+
+    xPos += colWidths.description;
+    setTextColor(COLORS.textLight);
+    doc.text(item.quantity.toString(), xPos, y, { align: 'center' });
+    xPos += colWidths.qty;
+    doc.text(formatCurrency(item.rate), xPos + colWidths.rate - 4, y, { align: 'right' });
+    xPos += colWidths.rate;
+    setTextColor(accent);
+    doc.setFont('helvetica', 'bold');
+    doc.text(formatCurrency(item.amount), xPos + colWidths.amount - 4, y, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+
+    y += Math.max(descLines.length * 5, 8);
+    doc.setDrawColor(241, 245, 249); // slate-100
+    doc.line(margin, y, pageWidth - margin, y);
+    y += 4;
+  });
+
+  y += 6;
+
+  // ===== TOTALS SECTION =====
+  const totalsX = pageWidth - margin - 80;
+  const totalsRow = (label: string, amount: number) => {
+    setTextColor(COLORS.textLight);
+    doc.text(label, totalsX, y);
+    setTextColor(COLORS.text);
+    doc.text(formatCurrency(amount), pageWidth - margin, y, { align: 'right' });
+    y += 6;
+  };
+
+  totalsRow('Subtotal', creditNote.subtotal);
+  if (creditNote.discount && creditNote.discountAmount) {
+    totalsRow(discountService.formatDiscountLabel(creditNote.discount), -creditNote.discountAmount);
+  }
+  // Lines with their own tax rates are summed into a single tax row
+  const singleRate = creditNote.taxRate && creditNote.lineItems.every(item => !item.taxRate);
+  totalsRow(singleRate && creditNote.taxRate ? taxService.formatTaxRateLabel(creditNote.taxRate) : 'Tax', creditNote.tax);
+
+  y -= 2;
+  doc.setDrawColor(226, 232, 240);
+  doc.line(totalsX, y, pageWidth - margin, y);
+  y += 6;
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  setTextColor(COLORS.text);
+  doc.text('Total credited', totalsX, y);
+  doc.setFontSize(14);
+  setTextColor(accent);
+  doc.text(formatCurrency(creditNote.total), pageWidth - margin, y, { align: 'right' });
+
+  // ===== FOOTER =====
+  y += 20;
+  doc.setDrawColor(226, 232, 240);
+  doc.line(margin, y, pageWidth - margin, y);
+  y += 8;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  setTextColor(COLORS.textLight);
+  doc.text(`This credit note reduces the balance of invoice ${creditNote.invoiceNumber}.`, pageWidth / 2, y, { align: 'center' });
+
+  return doc.output('blob');
+}
+
+/**
+ * Trigger a browser download of a PDF blob
+ */
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download a credit note as PDF
+ * @param creditNote - The credit note to download
+ */
+export async function downloadCreditNotePDF(creditNote: CreditNote): Promise<void> {
+  downloadBlob(generateCreditNotePDF(creditNote), `${creditNote.creditNoteNumber}.pdf`);
+}
+
 // Export the PDF service interface
 export const pdfService = {
   generateInvoicePDF,
   downloadInvoicePDF,
+  generateCreditNotePDF,
+  downloadCreditNotePDF,
 };
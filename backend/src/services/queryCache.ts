@@ -0,0 +1,392 @@
+/**
+ * Query Cache - normalized client-side cache of query results
+ *
+ * Records are kept once, by entity and ID; a query keeps the IDs of the
+ * records it returned, so a record updated through one query is up to date
+ * in every other query that returned it. Queries that return anything else,
+ * such as settings, keep their value as it is.
+ *
+ * Results older than the stale time are still served, and fetched again in
+ * the background (stale-while-revalidate). Fetches of a query that is
+ * already being fetched share its request. Changes can be applied
+ * optimistically, before the request they stand for is done, and rolled
+ * back when it fails.
+ */
+
+/**
+ * How long query results are served without fetching them again
+ */
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+type CacheRecord = { id: string };
+type Update<T> = T | ((current: T) => T);
+
+interface CachedQuery {
+  // Entity of the records a list query returned, by ID; value queries keep their value
+  entity?: string;
+  ids?: string[];
+  value?: unknown;
+  // Unset until fetched
+  fetchedAt?: number;
+  stale: boolean;
+  // Writes to the query and its records, to tell if a fetch result is outdated
+  writes: number;
+}
+
+interface CacheOptions {
+  staleTime?: number;
+  now?: () => number;
+}
+
+interface FetchOptions {
+  // Entity of the records the query returns, for list queries
+  entity?: string;
+  // Fetch again, also when the cached result is fresh
+  force?: boolean;
+}
+
+/**
+ * Check if two lists of IDs are the same
+ */
+function sameIds(a: string[] | undefined, b: string[] | undefined): boolean {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+  return a.every((id, index) => id === b[index]);
+}
+
+/**
+ * Create an empty query cache
+ */
+function createQueryCache(options: CacheOptions = {}) {
+  const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+  const now = options.now ?? Date.now;
+
+  let records = new Map<string, Map<string, CacheRecord>>();
+  let queries = new Map<string, CachedQuery>();
+  const requests = new Map<string, Promise<unknown>>();
+  const listeners = new Set<() => void>();
+  let version = 0;
+  // Moves on when the cache is cleared, so earlier fetches are not kept
+  let generation = 0;
+  // Lists resolved from their IDs since the last change
+  let resolved = new Map<string, unknown>();
+  // Values before the optimistic change being applied, by entity/ID or query key
+  let journal: { records: Map<string, CacheRecord | undefined>; queries: Map<string, string[] | undefined> } | null = null;
+
+  const changed = () => {
+    version++;
+    resolved = new Map();
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const recordsOf = (entity: string): Map<string, CacheRecord> => {
+    let entityRecords = records.get(entity);
+    if (!entityRecords) {
+      entityRecords = new Map();
+      records.set(entity, entityRecords);
+    }
+    return entityRecords;
+  };
+
+  const journalKey = (entity: string, id: string) => `${entity}/${id}`;
+
+  const fromJournalKey = (key: string): [string, string] => {
+    const separator = key.indexOf('/');
+    return [key.slice(0, separator), key.slice(separator + 1)];
+  };
+
+  const writeRecord = (entity: string, id: string, record: CacheRecord | undefined) => {
+    const entityRecords = recordsOf(entity);
+    const recordKey = journalKey(entity, id);
+    if (journal && !journal.records.has(recordKey)) {
+      journal.records.set(recordKey, entityRecords.get(id));
+    }
+    if (record) {
+      entityRecords.set(id, record);
+    } else {
+      entityRecords.delete(id);
+    }
+    for (const query of queries.values()) {
+      if (query.entity === entity) {
+        query.writes++;
+      }
+    }
+  };
+
+  const writeIds = (key: string, query: CachedQuery, ids: string[]) => {
+    if (journal && !journal.queries.has(key)) {
+      journal.queries.set(key, query.ids);
+    }
+    query.ids = ids;
+    query.writes++;
+  };
+
+  const isReferenced = (entity: string, id: string): boolean => {
+    for (const query of queries.values()) {
+      if (query.entity === entity && query.ids?.includes(id)) return true;
+    }
+    return false;
+  };
+
+  const isStale = (key: string): boolean => {
+    const query = queries.get(key);
+    return !query || query.stale || query.fetchedAt === undefined || now() - query.fetchedAt >= staleTime;
+  };
+
+  const read = <T>(key: string): T | undefined => {
+    const query = queries.get(key);
+    if (!query) return undefined;
+    if (!query.entity) return query.value as T;
+
+    if (!resolved.has(key)) {
+      const entityRecords = recordsOf(query.entity);
+      resolved.set(key, (query.ids ?? []).flatMap(id => entityRecords.get(id) ?? []));
+    }
+    return resolved.get(key) as T;
+  };
+
+  const getQuery = (key: string, entity?: string): CachedQuery => {
+    let query = queries.get(key);
+    if (!query) {
+      query = { entity, ids: entity ? [] : undefined, stale: true, writes: 0 };
+      queries.set(key, query);
+    }
+    return query;
+  };
+
+  /**
+   * Keep the records of a list query, and drop those no query returns anymore
+   */
+  const storeList = (key: string, entity: string, list: CacheRecord[]) => {
+    const query = getQuery(key, entity);
+    const previous = query.ids ?? [];
+    for (const record of list) {
+      if (recordsOf(entity).get(record.id) !== record) {
+        writeRecord(entity, record.id, record);
+      }
+    }
+    const ids = list.map(record => record.id);
+    if (!sameIds(previous, ids)) {
+      writeIds(key, query, ids);
+    }
+    for (const id of previous) {
+      if (!ids.includes(id) && !isReferenced(entity, id)) {
+        writeRecord(entity, id, undefined);
+      }
+    }
+  };
+
+  const store = (key: string, result: unknown, entity?: string) => {
+    if (entity) {
+      storeList(key, entity, result as CacheRecord[]);
+    } else {
+      const query = getQuery(key);
+      query.value = result;
+      query.writes++;
+    }
+    const query = getQuery(key, entity);
+    query.fetchedAt = now();
+    query.stale = false;
+  };
+
+  /**
+   * Fetch a query, or join the fetch of it under way
+   * A result is not kept when the query already had one and it was changed
+   * while fetching; it is marked stale instead, to be fetched again.
+   */
+  const request = <T>(key: string, fetcher: () => Promise<T>, entity?: string): Promise<T> => {
+    const pending = requests.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const writes = queries.get(key)?.writes ?? 0;
+    const started = generation;
+    const promise = fetcher()
+      .then(result => {
+        const query = queries.get(key);
+        if (started === generation && (!query || query.fetchedAt === undefined || query.writes === writes)) {
+          store(key, result, entity);
+          changed();
+          return read<T>(key) as T;
+        }
+        if (query && started === generation) {
+          query.stale = true;
+        }
+        return result;
+      })
+      .finally(() => {
+        requests.delete(key);
+      });
+    requests.set(key, promise);
+    return promise;
+  };
+
+  return {
+    /**
+     * Call a listener after every change to the cache, until the returned
+     * function is called
+     */
+    subscribe(listener: () => void): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /**
+     * Get a number that changes with every change to the cache
+     */
+    getVersion(): number {
+      return version;
+    },
+
+    /**
+     * Check if a query has a result
+     */
+    has(key: string): boolean {
+      return queries.has(key);
+    },
+
+    /**
+     * Check if a query has no result, or one that should be fetched again
+     */
+    isStale,
+
+    /**
+     * Get the result of a query
+     * A list query's records are the same arrays until the cache changes.
+     */
+    read,
+
+    /**
+     * Get a record by entity and ID
+     */
+    getRecord<T extends CacheRecord>(entity: string, id: string): T | undefined {
+      return records.get(entity)?.get(id) as T | undefined;
+    },
+
+    /**
+     * Get the result of a query, fetching it when needed
+     * A fresh result is returned as it is. A stale one is returned too, and
+     * fetched again in the background; without a result, or with force, the
+     * fetch is waited for.
+     */
+    fetch<T>(key: string, fetcher: () => Promise<T>, fetchOptions: FetchOptions = {}): Promise<T> {
+      const cached = queries.has(key);
+      if (cached && !fetchOptions.force && !isStale(key)) {
+        return Promise.resolve(read<T>(key) as T);
+      }
+
+      const fetched = request(key, fetcher, fetchOptions.entity);
+      if (cached && !fetchOptions.force) {
+        fetched.catch(error => console.warn(`Failed to revalidate ${key}:`, error));
+        return Promise.resolve(read<T>(key) as T);
+      }
+      return fetched;
+    },
+
+    /**
+     * Set the records of a list query
+     */
+    setList<R extends CacheRecord>(key: string, entity: string, update: Update<R[]>): void {
+      const list = typeof update === 'function' ? update(read<R[]>(key) ?? []) : update;
+      storeList(key, entity, list);
+      changed();
+    },
+
+    /**
+     * Set the value of a query
+     */
+    setValue<T>(key: string, value: T): void {
+      const query = getQuery(key);
+      query.value = value;
+      query.writes++;
+      changed();
+    },
+
+    /**
+     * Remove a record from every query that returned it
+     */
+    remove(entity: string, id: string): void {
+      for (const [key, query] of queries) {
+        if (query.entity === entity && query.ids?.includes(id)) {
+          writeIds(key, query, query.ids.filter(queryId => queryId !== id));
+        }
+      }
+      writeRecord(entity, id, undefined);
+      changed();
+    },
+
+    /**
+     * Mark a query, or all of them, to be fetched again when next used
+     */
+    invalidate(key?: string): void {
+      for (const [queryKey, query] of queries) {
+        if (key === undefined || queryKey === key) {
+          query.stale = true;
+        }
+      }
+    },
+
+    /**
+     * Apply a change before it is made on the server
+     * Returns a function that rolls the change back. Records and queries the
+     * change touched are restored to their values before it, unless they
+     * were changed again since.
+     */
+    optimistic(apply: () => void): () => void {
+      const outer = journal;
+      journal = { records: new Map(), queries: new Map() };
+      const applied = journal;
+      try {
+        apply();
+      } finally {
+        journal = outer;
+      }
+
+      // What the change wrote, to tell if it was changed again
+      const written = new Map([...applied.records.keys()].map(key => {
+        const [entity, id] = fromJournalKey(key);
+        return [key, records.get(entity)?.get(id)];
+      }));
+      const writtenIds = new Map([...applied.queries.keys()].map(key => [key, queries.get(key)?.ids]));
+
+      return () => {
+        for (const [key, before] of applied.records) {
+          const [entity, id] = fromJournalKey(key);
+          if (records.get(entity)?.get(id) === written.get(key)) {
+            writeRecord(entity, id, before);
+          }
+        }
+        for (const [key, before] of applied.queries) {
+          const query = queries.get(key);
+          if (query && query.ids === writtenIds.get(key) && before) {
+            writeIds(key, query, before);
+          }
+        }
+        changed();
+      };
+    },
+
+    /**
+     * Forget all queries and records
+     */
+    clear(): void {
+      records = new Map();
+      queries = new Map();
+      requests.clear();
+      generation++;
+      changed();
+    },
+  };
+}
+
+export type QueryCache = ReturnType<typeof createQueryCache>;
+
+export const queryCache = {
+  createQueryCache,
+  DEFAULT_STALE_TIME,
+};
+
+export default queryCache;
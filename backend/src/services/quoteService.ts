@@ -0,0 +1,428 @@
+/**
+ * Quote Service - Estimates sent before work starts
+ *
+ * A quote has the same client, line items, tax, discount and rounding as an
+ * invoice, and its amounts are calculated by the invoice service, but it is
+ * numbered in its own QUO-YYYY-NNN series and is never owed. The client
+ * accepts or declines a sent quote on its public page until its expiry date;
+ * after that it expires. An accepted quote is converted in one step into a
+ * draft invoice that refers back to it.
+ */
+
+import type { Client, Invoice, LineItem, Quote, QuoteInput, QuoteResponse, QuoteStatus, StatusChangeInput, TotalsOptions, ValidationResult } from '../types';
+import { storage } from './storage';
+import { invoiceNumberGenerator } from './invoiceNumberGenerator';
+import { invoiceService } from './invoiceService';
+import { taxService } from './taxService';
+import { currencyService } from './currencyService';
+import { discountService } from './discountService';
+import { dates } from './dates';
+import { paymentTermsService } from './paymentTermsService';
+
+/**
+ * Statuses each quote status can change to
+ * An expired quote can be sent again with a later expiry date
+ */
+const QUOTE_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ['sent'],
+  sent: ['accepted', 'declined', 'expired'],
+  expired: ['sent'],
+  accepted: [],
+  declined: [],
+};
+
+/**
+ * Display labels of the quote statuses
+ */
+const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+};
+
+/**
+ * Generate a unique ID for a new quote
+ */
+function generateId(): string {
+  return `quote_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Generate a unique ID for a quote line
+ */
+function generateLineItemId(): string {
+  return `quote_line_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get all quotes from storage
+ */
+function getAll(): Quote[] {
+  return storage.getQuotes();
+}
+
+/**
+ * Get a quote by ID
+ */
+function getById(id: string): Quote | undefined {
+  return storage.getQuotes().find(quote => quote.id === id);
+}
+
+/**
+ * Check if a quote can move from one status to another
+ * Keeping the same status is always allowed
+ */
+function canTransition(from: QuoteStatus, to: QuoteStatus): boolean {
+  return from === to || QUOTE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw if a quote cannot move from one status to another
+ */
+function assertTransition(from: QuoteStatus, to: QuoteStatus): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`Cannot change quote status from "${QUOTE_STATUS_LABELS[from]}" to "${QUOTE_STATUS_LABELS[to]}"`);
+  }
+}
+
+/**
+ * Check if a sent quote is past its expiry date
+ */
+function isExpired(quote: Pick<Quote, 'status' | 'expiryDate'>, today: string = dates.today()): boolean {
+  return quote.status === 'sent' && quote.expiryDate < today;
+}
+
+/**
+ * Calculate the lines and amounts of a quote
+ */
+function calculate(input: Pick<QuoteInput, 'lineItems' | 'taxRate' | 'discount'>, options: TotalsOptions): Pick<Quote, 'lineItems' | 'subtotal' | 'discountAmount' | 'tax' | 'total'> {
+  const totals = invoiceService.calculateTotals(input.lineItems, input.taxRate ?? taxService.NO_TAX, input.discount, options);
+  const lineItems: LineItem[] = input.lineItems.map(item => ({
+    id: generateLineItemId(),
+    description: item.description,
+    quantity: item.quantity,
+    rate: item.rate,
+    amount: discountService.getLineAmount(item, options.currency, options.rounding?.mode),
+    taxRate: item.taxRate,
+    discount: item.discount,
+  }));
+
+  return {
+    lineItems,
+    subtotal: totals.subtotal,
+    discountAmount: totals.discountAmount,
+    tax: totals.tax,
+    total: totals.total,
+  };
+}
+
+/**
+ * Validate quote input
+ * Client and line items are checked like an invoice's
+ */
+function validate(input: QuoteInput): ValidationResult {
+  const { errors } = invoiceService.validate({ ...input, dueDate: input.expiryDate, status: undefined });
+
+  if (!input.issueDate) {
+    errors.issueDate = 'Issue date is required';
+  }
+
+  if (!input.expiryDate) {
+    errors.expiryDate = 'Expiry date is required';
+  } else if (input.issueDate && input.expiryDate < input.issueDate) {
+    errors.expiryDate = 'Expiry date must be on or after the issue date';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+/**
+ * Create a new quote, as a draft or sent
+ */
+function create(input: QuoteInput, clients: Client[]): Quote {
+  const validation = validate(input);
+  if (!validation.valid) {
+    throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+  }
+
+  const status = input.status || 'draft';
+  if (status !== 'draft' && status !== 'sent') {
+    throw new Error(`A quote cannot be created as "${QUOTE_STATUS_LABELS[status]}"`);
+  }
+
+  const client = clients.find(c => c.id === input.clientId);
+  if (!client) {
+    throw new Error(`Client with ID "${input.clientId}" not found`);
+  }
+
+  const currency = input.currency ?? client.defaultCurrency ?? currencyService.DEFAULT_CURRENCY;
+  const newQuote: Quote = {
+    id: generateId(),
+    quoteNumber: invoiceNumberGenerator.generate('quote', client),
+    clientId: input.clientId,
+    client,
+    status,
+    currency,
+    issueDate: input.issueDate,
+    expiryDate: input.expiryDate,
+    taxRate: input.taxRate ?? taxService.NO_TAX,
+    discount: input.discount,
+    rounding: input.rounding,
+    ...calculate(input, { currency, rounding: input.rounding }),
+    notes: input.notes,
+    createdAt: dates.today(),
+  };
+
+  storage.setQuotes([...storage.getQuotes(), newQuote]);
+
+  return newQuote;
+}
+
+/**
+ * Update a quote that has not been answered yet
+ * Sending an expired quote again requires an expiry date that has not passed
+ */
+function update(id: string, input: QuoteInput, clients: Client[]): Quote {
+  const validation = validate(input);
+  if (!validation.valid) {
+    throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+  }
+
+  const quotes = storage.getQuotes();
+  const index = quotes.findIndex(quote => quote.id === id);
+
+  if (index === -1) {
+    throw new Error(`Quote with ID "${id}" not found`);
+  }
+
+  const existingQuote = quotes[index];
+  if (existingQuote.status === 'accepted' || existingQuote.status === 'declined') {
+    throw new Error(`A quote that was ${existingQuote.status} cannot be edited`);
+  }
+
+  const client = clients.find(c => c.id === input.clientId);
+  if (!client) {
+    throw new Error(`Client with ID "${input.clientId}" not found`);
+  }
+
+  const status = input.status || existingQuote.status;
+  assertTransition(existingQuote.status, status);
+  if (status === 'sent' && isExpired({ status, expiryDate: input.expiryDate })) {
+    throw new Error('Choose an expiry date in the future to send this quote');
+  }
+
+  const currency = input.currency ?? existingQuote.currency;
+  const rounding = input.rounding ?? existingQuote.rounding;
+  const updatedQuote: Quote = {
+    ...existingQuote,
+    clientId: input.clientId,
+    client,
+    status,
+    currency,
+    issueDate: input.issueDate,
+    expiryDate: input.expiryDate,
+    taxRate: input.taxRate ?? existingQuote.taxRate ?? taxService.NO_TAX,
+    discount: input.discount,
+    rounding,
+    ...calculate({ ...input, taxRate: input.taxRate ?? existingQuote.taxRate }, { currency, rounding }),
+    notes: input.notes,
+  };
+
+  quotes[index] = updatedQuote;
+  storage.setQuotes(quotes);
+
+  return updatedQuote;
+}
+
+/**
+ * Delete a quote
+ * Quotes converted into an invoice are kept as its origin
+ */
+function deleteQuote(id: string): void {
+  const quotes = storage.getQuotes();
+  const index = quotes.findIndex(quote => quote.id === id);
+
+  if (index === -1) {
+    throw new Error(`Quote with ID "${id}" not found`);
+  }
+
+  if (quotes[index].invoiceId) {
+    throw new Error('A quote that was converted into an invoice cannot be deleted');
+  }
+
+  quotes.splice(index, 1);
+  storage.setQuotes(quotes);
+}
+
+/**
+ * Change the status of a stored quote
+ */
+function setStatus(id: string, status: QuoteStatus, changes: Partial<Quote> = {}): Quote {
+  const quotes = storage.getQuotes();
+  const index = quotes.findIndex(quote => quote.id === id);
+
+  if (index === -1) {
+    throw new Error(`Quote with ID "${id}" not found`);
+  }
+
+  assertTransition(quotes[index].status, status);
+  quotes[index] = { ...quotes[index], ...changes, status };
+  storage.setQuotes(quotes);
+
+  return quotes[index];
+}
+
+/**
+ * Mark a draft quote as sent to the client
+ */
+function markAsSent(id: string): Quote {
+  const quote = getById(id);
+  if (quote && isExpired({ status: 'sent', expiryDate: quote.expiryDate })) {
+    throw new Error('Choose an expiry date in the future to send this quote');
+  }
+  return setStatus(id, 'sent');
+}
+
+/**
+ * Record the client's answer to a sent quote
+ * A quote past its expiry date is marked expired and can no longer be answered
+ */
+function respond(id: string, status: 'accepted' | 'declined', response: QuoteResponse): Quote {
+  const quote = getById(id);
+
+  if (!quote) {
+    throw new Error(`Quote with ID "${id}" not found`);
+  }
+
+  if (isExpired(quote)) {
+    setStatus(id, 'expired');
+    throw new Error(`This quote expired on ${quote.expiryDate}`);
+  }
+
+  if (quote.status !== 'sent') {
+    throw new Error(`This quote has already been ${QUOTE_STATUS_LABELS[quote.status].toLowerCase()}`);
+  }
+
+  if (!response.name || response.name.trim() === '') {
+    throw new Error(`Validation failed: ${JSON.stringify({ name: 'Please enter your name' })}`);
+  }
+
+  return setStatus(id, status, {
+    respondedAt: new Date().toISOString(),
+    respondedBy: response.name.trim(),
+    declineReason: status === 'declined' ? response.reason?.trim() || undefined : undefined,
+  });
+}
+
+/**
+ * Accept a sent quote on behalf of the client
+ */
+function accept(id: string, response: QuoteResponse): Quote {
+  return respond(id, 'accepted', response);
+}
+
+/**
+ * Decline a sent quote, optionally with a reason
+ */
+function decline(id: string, response: QuoteResponse): Quote {
+  return respond(id, 'declined', response);
+}
+
+/**
+ * Mark sent quotes past their expiry date as expired
+ */
+function checkExpired(quotes: Quote[] = getAll()): Quote[] {
+  let hasChanges = false;
+
+  const updatedQuotes = quotes.map(quote => {
+    if (isExpired(quote)) {
+      hasChanges = true;
+      return { ...quote, status: 'expired' as const };
+    }
+    return quote;
+  });
+
+  if (hasChanges) {
+    storage.setQuotes(updatedQuotes);
+  }
+
+  return updatedQuotes;
+}
+
+/**
+ * Create a draft invoice from an accepted quote and link the two
+ * A quote the client agreed to outside the app can be converted while sent;
+ * it is accepted on the user's behalf.
+ */
+function convertToInvoice(id: string, clients: Client[], change: StatusChangeInput = {}): Invoice {
+  const quote = getById(id);
+
+  if (!quote) {
+    throw new Error(`Quote with ID "${id}" not found`);
+  }
+
+  if (quote.invoiceId) {
+    throw new Error('This quote has already been converted into an invoice');
+  }
+
+  if (quote.status === 'sent') {
+    accept(id, { name: change.changedBy || 'user' });
+  } else if (quote.status !== 'accepted') {
+    throw new Error('Only accepted quotes can be converted into an invoice');
+  }
+
+  // The invoice is due on the client's current default terms
+  const today = dates.today();
+  const paymentTerms = paymentTermsService.getClientTerms(clients.find(c => c.id === quote.clientId) ?? quote.client);
+  const invoice = invoiceService.create({
+    clientId: quote.clientId,
+    issueDate: today,
+    dueDate: paymentTermsService.getDueDate(today, paymentTerms),
+    paymentTerms,
+    currency: quote.currency,
+    lineItems: quote.lineItems.map(({ description, quantity, rate, taxRate, discount }) => ({ description, quantity, rate, taxRate, discount })),
+    taxRate: quote.taxRate,
+    discount: quote.discount,
+    rounding: quote.rounding,
+    notes: quote.notes,
+    status: 'draft',
+    quoteId: quote.id,
+  }, clients, { reason: `Converted from quote ${quote.quoteNumber}`, ...change });
+
+  storage.setQuotes(storage.getQuotes().map(q => q.id === id ? { ...q, invoiceId: invoice.id } : q));
+
+  return invoice;
+}
+
+export const quoteService = {
+  QUOTE_TRANSITIONS,
+  QUOTE_STATUS_LABELS,
+
+  // CRUD operations
+  getAll,
+  getById,
+  create,
+  update,
+  delete: deleteQuote,
+  validate,
+  calculate,
+
+  // Status management
+  canTransition,
+  assertTransition,
+  isExpired,
+  markAsSent,
+  accept,
+  decline,
+  checkExpired,
+
+  // Conversion
+  convertToInvoice,
+};
+
+export default quoteService;
@@ -0,0 +1,431 @@
+/**
+ * Recurring Service - Invoices issued on a schedule
+ *
+ * A recurring profile holds a template invoice and a schedule: a frequency,
+ * a start date and optionally an end date or a number of runs. Run dates are
+ * always counted from the start date (the 31st stays the 31st, or the last
+ * day of shorter months) rather than from the previous run.
+ *
+ * The generator issues every run that is due up to a date, so runs missed
+ * while the app was closed are caught up on the next start. It is safe to
+ * call repeatedly: the profile's runCount is the cursor of generated runs,
+ * and each invoice records the run date it was generated for, so a run is
+ * never issued twice even if saving the profile failed after the invoice.
+ *
+ * Line descriptions and notes may contain placeholders for the period an
+ * invoice bills, e.g. "Retainer {{month}} {{year}}" becomes "Retainer
+ * October 2026". The period runs from the run date to the day before the next.
+ */
+
+import type { Client, Invoice, InvoiceInput, RecurringInterval, RecurringProfile, RecurringProfileInput, RecurringRunResult, RecurringTemplate, StatusChangeInput, ValidationResult } from '../types';
+import { storage } from './storage';
+import { invoiceService } from './invoiceService';
+import { invoiceStatusService } from './invoiceStatusService';
+import { dates } from './dates';
+
+/**
+ * Intervals of the preset frequencies
+ */
+const FREQUENCY_INTERVALS: Record<Exclude<RecurringProfile['frequency'], 'custom'>, RecurringInterval> = {
+  weekly: { count: 1, unit: 'week' },
+  monthly: { count: 1, unit: 'month' },
+  quarterly: { count: 3, unit: 'month' },
+};
+
+/**
+ * Placeholders available in line descriptions and notes
+ */
+const PLACEHOLDERS = ['date', 'month', 'year', 'quarter', 'period_start', 'period_end'] as const;
+
+/**
+ * Generate a unique ID for a new recurring profile
+ */
+function generateId(): string {
+  return `recurring_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get all recurring profiles from storage
+ */
+function getAll(): RecurringProfile[] {
+  return storage.getRecurringProfiles();
+}
+
+/**
+ * Get a recurring profile by ID
+ */
+function getById(id: string): RecurringProfile | undefined {
+  return storage.getRecurringProfiles().find(profile => profile.id === id);
+}
+
+/**
+ * Get the invoices generated by a profile, oldest run first
+ */
+function getInvoices(profileId: string, invoices: Invoice[] = storage.getInvoices()): Invoice[] {
+  return invoices
+    .filter(invoice => invoice.recurringProfileId === profileId)
+    .sort((a, b) => (a.recurringPeriod ?? '').localeCompare(b.recurringPeriod ?? ''));
+}
+
+/**
+ * Interval between the runs of a profile
+ */
+function getInterval(profile: Pick<RecurringProfile, 'frequency' | 'interval'>): RecurringInterval {
+  if (profile.frequency === 'custom') {
+    return profile.interval ?? FREQUENCY_INTERVALS.monthly;
+  }
+  return FREQUENCY_INTERVALS[profile.frequency];
+}
+
+/**
+ * Date of a run, counting the first run (on the start date) as 0
+ */
+function getRunDate(profile: Pick<RecurringProfile, 'frequency' | 'interval' | 'startDate'>, run: number): string {
+  const { count, unit } = getInterval(profile);
+
+  switch (unit) {
+    case 'day':
+      return dates.addDays(profile.startDate, run * count);
+    case 'week':
+      return dates.addDays(profile.startDate, run * count * 7);
+    case 'month':
+      return dates.addMonths(profile.startDate, run * count);
+  }
+}
+
+/**
+ * Check if a run is part of the schedule, i.e. before the end date and run limit
+ */
+function isScheduled(profile: Pick<RecurringProfile, 'frequency' | 'interval' | 'startDate' | 'endDate' | 'maxRuns'>, run: number): boolean {
+  if (profile.maxRuns !== undefined && run >= profile.maxRuns) {
+    return false;
+  }
+  return !profile.endDate || getRunDate(profile, run) <= profile.endDate;
+}
+
+/**
+ * Date of the next run to generate, or null once the schedule has ended
+ */
+function getNextRunDate(profile: Pick<RecurringProfile, 'frequency' | 'interval' | 'startDate' | 'endDate' | 'maxRuns' | 'runCount'>): string | null {
+  return isScheduled(profile, profile.runCount) ? getRunDate(profile, profile.runCount) : null;
+}
+
+/**
+ * Period billed by a run: from its run date to the day before the next run
+ */
+function getPeriod(profile: Pick<RecurringProfile, 'frequency' | 'interval' | 'startDate'>, run: number): { start: string; end: string } {
+  return {
+    start: getRunDate(profile, run),
+    end: dates.addDays(getRunDate(profile, run + 1), -1),
+  };
+}
+
+/**
+ * Replace period placeholders such as {{month}} in a text
+ * Unknown placeholders are left as they are
+ */
+function renderPlaceholders(text: string, period: { start: string; end: string }): string {
+  const start = dates.parse(period.start);
+  const formatDate = (date: string) =>
+    new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }).format(dates.parse(date));
+  const values: Record<(typeof PLACEHOLDERS)[number], string> = {
+    date: formatDate(period.start),
+    month: new Intl.DateTimeFormat('en-US', { month: 'long', timeZone: 'UTC' }).format(start),
+    year: String(start.getUTCFullYear()),
+    quarter: `Q${Math.floor(start.getUTCMonth() / 3) + 1}`,
+    period_start: formatDate(period.start),
+    period_end: formatDate(period.end),
+  };
+
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    values[name.toLowerCase() as keyof typeof values] ?? placeholder
+  );
+}
+
+/**
+ * Build a recurring template from an existing invoice
+ */
+function templateFromInvoice(
+  invoice: Pick<Invoice, 'clientId' | 'currency' | 'lineItems' | 'taxRate' | 'discount' | 'rounding' | 'notes' | 'issueDate' | 'dueDate' | 'paymentTerms'>
+): RecurringTemplate {
+  return {
+    clientId: invoice.clientId,
+    currency: invoice.currency,
+    lineItems: invoice.lineItems.map(item => ({
+      description: item.description,
+      quantity: item.quantity,
+      rate: item.rate,
+      taxRate: item.taxRate,
+      discount: item.discount,
+    })),
+    taxRate: invoice.taxRate,
+    discount: invoice.discount,
+    rounding: invoice.rounding,
+    notes: invoice.notes,
+    dueInDays: Math.max(dates.daysBetween(invoice.issueDate, invoice.dueDate), 0),
+    paymentTerms: invoice.paymentTerms,
+  };
+}
+
+/**
+ * Validate recurring profile input
+ */
+function validate(input: RecurringProfileInput): ValidationResult {
+  const errors: Record<string, string> = {};
+
+  if (!input.name || input.name.trim() === '') {
+    errors.name = 'Name is required';
+  }
+
+  if (!input.template?.clientId) {
+    errors.clientId = 'Please select a client';
+  }
+
+  if (!input.template?.lineItems?.some(item => item.description && item.description.trim() !== '')) {
+    errors.lineItems = 'At least one line item must have a description';
+  }
+
+  if (!Number.isInteger(input.template?.dueInDays) || input.template.dueInDays < 0) {
+    errors.dueInDays = 'Days until due must be zero or more';
+  }
+
+  if (input.frequency === 'custom' && (!input.interval || !Number.isInteger(input.interval.count) || input.interval.count < 1)) {
+    errors.interval = 'Repeat every must be a whole number of at least 1';
+  }
+
+  if (!input.startDate) {
+    errors.startDate = 'Start date is required';
+  } else if (input.endDate && input.endDate < input.startDate) {
+    errors.endDate = 'End date must be on or after the start date';
+  }
+
+  if (input.maxRuns !== undefined && (!Number.isInteger(input.maxRuns) || input.maxRuns < 1)) {
+    errors.maxRuns = 'Number of invoices must be at least 1';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+/**
+ * Create a new recurring profile
+ * Nothing is generated until the generator runs
+ */
+function create(input: RecurringProfileInput): RecurringProfile {
+  const validation = validate(input);
+  if (!validation.valid) {
+    throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+  }
+
+  const profiles = storage.getRecurringProfiles();
+  const schedule = {
+    frequency: input.frequency,
+    interval: input.frequency === 'custom' ? input.interval : undefined,
+    startDate: input.startDate,
+    endDate: input.endDate || undefined,
+    maxRuns: input.maxRuns,
+  };
+
+  const newProfile: RecurringProfile = {
+    id: generateId(),
+    name: input.name.trim(),
+    template: input.template,
+    ...schedule,
+    autoSend: input.autoSend ?? false,
+    active: input.active ?? true,
+    runCount: 0,
+    nextRunDate: getNextRunDate({ ...schedule, runCount: 0 }),
+    createdAt: dates.today(),
+  };
+
+  profiles.push(newProfile);
+  storage.setRecurringProfiles(profiles);
+
+  return newProfile;
+}
+
+/**
+ * Update a recurring profile
+ * Runs already generated are kept; changing the start date or frequency
+ * after the first run only moves the runs still to come.
+ */
+function update(id: string, input: RecurringProfileInput): RecurringProfile {
+  const validation = validate(input);
+  if (!validation.valid) {
+    throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+  }
+
+  const profiles = storage.getRecurringProfiles();
+  const index = profiles.findIndex(profile => profile.id === id);
+
+  if (index === -1) {
+    throw new Error(`Recurring profile with ID "${id}" not found`);
+  }
+
+  const existingProfile = profiles[index];
+  const updatedProfile: RecurringProfile = {
+    ...existingProfile,
+    name: input.name.trim(),
+    template: input.template,
+    frequency: input.frequency,
+    interval: input.frequency === 'custom' ? input.interval : undefined,
+    startDate: input.startDate,
+    endDate: input.endDate || undefined,
+    maxRuns: input.maxRuns,
+    autoSend: input.autoSend ?? existingProfile.autoSend,
+    active: input.active ?? existingProfile.active,
+  };
+  updatedProfile.nextRunDate = getNextRunDate(updatedProfile);
+
+  profiles[index] = updatedProfile;
+  storage.setRecurringProfiles(profiles);
+
+  return updatedProfile;
+}
+
+/**
+ * Pause or resume a recurring profile
+ * A resumed profile catches up on the runs missed while it was paused
+ */
+function setActive(id: string, active: boolean): RecurringProfile {
+  const profiles = storage.getRecurringProfiles();
+  const index = profiles.findIndex(profile => profile.id === id);
+
+  if (index === -1) {
+    throw new Error(`Recurring profile with ID "${id}" not found`);
+  }
+
+  profiles[index] = { ...profiles[index], active };
+  storage.setRecurringProfiles(profiles);
+
+  return profiles[index];
+}
+
+/**
+ * Delete a recurring profile
+ * Invoices it generated are kept
+ */
+function deleteProfile(id: string): void {
+  const profiles = storage.getRecurringProfiles();
+  const index = profiles.findIndex(profile => profile.id === id);
+
+  if (index === -1) {
+    throw new Error(`Recurring profile with ID "${id}" not found`);
+  }
+
+  profiles.splice(index, 1);
+  storage.setRecurringProfiles(profiles);
+}
+
+/**
+ * Invoice to issue for one run of a profile, with its placeholders filled in
+ */
+function getRunInvoiceInput(profile: RecurringProfile, run: number): InvoiceInput {
+  const period = getPeriod(profile, run);
+  const { dueInDays, lineItems, notes, ...template } = profile.template;
+
+  return {
+    ...template,
+    issueDate: period.start,
+    dueDate: dates.addDays(period.start, dueInDays),
+    lineItems: lineItems.map(item => ({ ...item, description: renderPlaceholders(item.description, period) })),
+    notes: notes ? renderPlaceholders(notes, period) : undefined,
+    status: profile.autoSend ? 'sent' : 'draft',
+    recurringProfileId: profile.id,
+    recurringPeriod: period.start,
+  };
+}
+
+/**
+ * Status change recorded on invoices issued by a profile
+ */
+function getRunStatusChange(profile: Pick<RecurringProfile, 'name'>): StatusChangeInput {
+  return {
+    changedBy: invoiceStatusService.SYSTEM_ACTOR,
+    reason: `Generated by recurring profile "${profile.name}"`,
+  };
+}
+
+/**
+ * Generate every run of a profile that is due on or before a date
+ */
+function generateForProfile(id: string, clients: Client[], until: string = dates.today()): RecurringRunResult {
+  const profile = getById(id);
+
+  if (!profile) {
+    throw new Error(`Recurring profile with ID "${id}" not found`);
+  }
+
+  const invoices: Invoice[] = [];
+  if (!profile.active) {
+    return { profileId: id, invoices };
+  }
+
+  const existing = getInvoices(id);
+  let current = profile;
+
+  while (isScheduled(current, current.runCount) && getRunDate(current, current.runCount) <= until) {
+    const runDate = getRunDate(current, current.runCount);
+
+    if (!existing.some(invoice => invoice.recurringPeriod === runDate)) {
+      invoices.push(invoiceService.create(getRunInvoiceInput(current, current.runCount), clients, getRunStatusChange(current)));
+    }
+
+    current = { ...current, runCount: current.runCount + 1, lastRunDate: runDate };
+    current.nextRunDate = getNextRunDate(current);
+
+    const profiles = storage.getRecurringProfiles();
+    storage.setRecurringProfiles(profiles.map(profile => profile.id === id ? current : profile));
+  }
+
+  return { profileId: id, invoices };
+}
+
+/**
+ * Generate every run of all active profiles that is due on or before a date
+ * A profile that fails (e.g. its client was deleted) does not stop the others.
+ */
+function generateDue(clients: Client[], until: string = dates.today()): RecurringRunResult[] {
+  return getAll()
+    .filter(profile => profile.active)
+    .map(profile => {
+      try {
+        return generateForProfile(profile.id, clients, until);
+      } catch (error) {
+        console.error(`Recurring profile "${profile.name}" failed:`, error);
+        return { profileId: profile.id, invoices: [] };
+      }
+    });
+}
+
+export const recurringService = {
+  PLACEHOLDERS,
+
+  // CRUD operations
+  getAll,
+  getById,
+  getInvoices,
+  create,
+  update,
+  setActive,
+  delete: deleteProfile,
+  validate,
+  templateFromInvoice,
+
+  // Schedule
+  getInterval,
+  getRunDate,
+  getNextRunDate,
+  getPeriod,
+  renderPlaceholders,
+
+  // Generation
+  getRunInvoiceInput,
+  getRunStatusChange,
+  generateForProfile,
+  generateDue,
+};
+
+export default recurringService;
@@ -1,44 +1,120 @@
 /**
- * Storage Service - localStorage wrapper with typed operations
- * Handles data persistence for clients, invoices, and invoice counter
+ * Storage Service - typed operations on a pluggable storage adapter
+ * Handles data persistence for clients, invoices, payments, credit notes, quotes and recurring profiles
  * 
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5
+ * 
+ * Runs on localStorage until init() or setAdapter() selects another adapter
+ * at startup (see storageAdapters and jsonFileStorage). Stored data is
+ * migrated to the current schema version when it is first read or written.
+ *
+ * Writing a collection emits a reload change on the change feed; so does a
+ * collection written by another tab, seen through storage events.
  */
 
-import type { Client, Invoice } from '../types';
+import type { ChangeEntity, Client, CreditNote, Invoice, Payment, PaymentIntent, Quote, RecurringProfile, StorageAdapter, StorageMigrationReport } from '../types';
+import { storageAdapters } from './storageAdapters';
+import { storageMigrations } from './storageMigrations';
+import { changeFeed } from './changeFeed';
 
 const STORAGE_KEYS = {
   CLIENTS: 'invoicey_clients',
   INVOICES: 'invoicey_invoices',
-  INVOICE_COUNTER: 'invoicey_invoice_counter',
+  PAYMENTS: 'invoicey_payments',
+  PAYMENT_INTENTS: 'invoicey_payment_intents',
+  CREDIT_NOTES: 'invoicey_credit_notes',
+  QUOTES: 'invoicey_quotes',
+  RECURRING_PROFILES: 'invoicey_recurring_profiles',
 } as const;
 
+/**
+ * What the collections hold, for the change feed
+ */
+const KEY_ENTITIES: Record<string, ChangeEntity> = {
+  [STORAGE_KEYS.CLIENTS]: 'client',
+  [STORAGE_KEYS.INVOICES]: 'invoice',
+  [STORAGE_KEYS.PAYMENTS]: 'payment',
+  [STORAGE_KEYS.PAYMENT_INTENTS]: 'paymentIntent',
+  [STORAGE_KEYS.CREDIT_NOTES]: 'creditNote',
+  [STORAGE_KEYS.QUOTES]: 'quote',
+  [STORAGE_KEYS.RECURRING_PROFILES]: 'recurringProfile',
+};
+
+let adapter: StorageAdapter = storageAdapters.createLocalStorage();
+let migrationReport: StorageMigrationReport | null = null;
+
+/**
+ * Use an adapter from now on
+ */
+function setAdapter(next: StorageAdapter): void {
+  adapter = next;
+  migrationReport = null;
+}
+
+/**
+ * Get the adapter in use
+ */
+function getAdapter(): StorageAdapter {
+  return adapter;
+}
+
+/**
+ * Select the adapter at startup: the given one, or the default for the
+ * environment. Adapters that load asynchronously are ready once this resolves.
+ */
+async function init(next?: StorageAdapter | Promise<StorageAdapter>): Promise<StorageAdapter> {
+  setAdapter(await (next ?? storageAdapters.selectDefault()));
+  migrate();
+  return adapter;
+}
+
+/**
+ * Migrate the stored data to the current schema version, once per adapter
+ * A failed migration is logged and reported; the data is left as it was and
+ * is still read and written.
+ */
+function migrate(): StorageMigrationReport {
+  if (!migrationReport) {
+    try {
+      migrationReport = storageMigrations.run(adapter);
+    } catch (error) {
+      migrationReport = { fromVersion: 0, toVersion: 0, applied: [], errors: [error instanceof Error ? error.message : String(error)] };
+    }
+    if (migrationReport.errors.length > 0) {
+      console.error(`Failed to migrate stored data from version ${migrationReport.fromVersion}:`, migrationReport.errors);
+    }
+  }
+  return migrationReport;
+}
+
+/**
+ * Check if the adapter in use can store data
+ */
+function isAvailable(): boolean {
+  return adapter.isAvailable();
+}
+
 /**
  * Check if localStorage is available
  */
 function isLocalStorageAvailable(): boolean {
-  try {
-    const testKey = '__storage_test__';
-    window.localStorage.setItem(testKey, testKey);
-    window.localStorage.removeItem(testKey);
-    return true;
-  } catch {
-    return false;
-  }
+  return storageAdapters.createLocalStorage().isAvailable();
 }
 
 /**
  * Generic get operation with JSON deserialization
- * Returns null if key doesn't exist or localStorage is unavailable
+ * Returns null if key doesn't exist or storage is unavailable
  */
 function get<T>(key: string): T | null {
-  if (!isLocalStorageAvailable()) {
-    console.warn('localStorage is not available');
+  if (!adapter.isAvailable()) {
+    console.warn(`${adapter.name} storage is not available`);
     return null;
   }
 
+  migrate();
+
   try {
-    const item = window.localStorage.getItem(key);
+    const item = adapter.getItem(key);
     if (item === null) {
       return null;
     }
@@ -51,38 +127,86 @@ function get<T>(key: string): T | null {
 
 /**
  * Generic set operation with JSON serialization
- * Persists data immediately to localStorage
+ * Persists data immediately, or in the background for asynchronous adapters
  */
 function set<T>(key: string, value: T): void {
-  if (!isLocalStorageAvailable()) {
-    console.warn('localStorage is not available');
+  if (!adapter.isAvailable()) {
+    console.warn(`${adapter.name} storage is not available`);
     return;
   }
 
+  migrate();
+
   try {
     const serialized = JSON.stringify(value);
-    window.localStorage.setItem(key, serialized);
+    adapter.setItem(key, serialized);
+    emitChange(key);
   } catch (error) {
     console.warn(`Failed to store data for key "${key}":`, error);
   }
 }
 
 /**
- * Remove a key from localStorage
+ * Store data that must not be lost, such as changes queued offline
+ * Unlike set, throws when the data cannot be stored, e.g. when the
+ * storage is full or not available.
+ */
+function setRequired<T>(key: string, value: T): void {
+  if (!adapter.isAvailable()) {
+    throw new Error(`${adapter.name} storage is not available`);
+  }
+
+  migrate();
+
+  adapter.setItem(key, JSON.stringify(value));
+  emitChange(key);
+}
+
+/**
+ * Remove a key from storage
  */
 function remove(key: string): void {
-  if (!isLocalStorageAvailable()) {
-    console.warn('localStorage is not available');
+  if (!adapter.isAvailable()) {
+    console.warn(`${adapter.name} storage is not available`);
     return;
   }
 
+  migrate();
+
   try {
-    window.localStorage.removeItem(key);
+    adapter.removeItem(key);
+    emitChange(key);
   } catch (error) {
     console.warn(`Failed to remove key "${key}":`, error);
   }
 }
 
+/**
+ * Tell the change feed that a collection was written
+ */
+function emitChange(key: string, origin?: string): void {
+  const entity = KEY_ENTITIES[key];
+  if (entity) {
+    changeFeed.emit({ entity, type: 'reload', origin });
+  }
+}
+
+/**
+ * Handle a storage event: localStorage written by another tab
+ * A cleared localStorage reloads every collection.
+ */
+function handleStorageEvent(key: string | null): void {
+  if (adapter.name !== 'localStorage') return;
+
+  for (const written of key === null ? Object.keys(KEY_ENTITIES) : [key]) {
+    emitChange(written, changeFeed.EXTERNAL_ORIGIN);
+  }
+}
+
+if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+  window.addEventListener('storage', event => handleStorageEvent(event.key));
+}
+
 /**
  * Get all clients from storage
  * Returns empty array if no clients exist or storage is unavailable
@@ -118,19 +242,82 @@ function setInvoices(invoices: Invoice[]): void {
 }
 
 /**
- * Get the current invoice counter
- * Returns 0 if no counter exists (for new installations)
+ * Get all payments from storage
+ * Returns empty array if no payments exist or storage is unavailable
+ */
+function getPayments(): Payment[] {
+  const payments = get<Payment[]>(STORAGE_KEYS.PAYMENTS);
+  return payments ?? [];
+}
+
+/**
+ * Save payments to storage
+ */
+function setPayments(payments: Payment[]): void {
+  set(STORAGE_KEYS.PAYMENTS, payments);
+}
+
+/**
+ * Get the payment intents of the local mock payment provider
+ */
+function getPaymentIntents(): PaymentIntent[] {
+  const intents = get<PaymentIntent[]>(STORAGE_KEYS.PAYMENT_INTENTS);
+  return intents ?? [];
+}
+
+/**
+ * Save the payment intents of the local mock payment provider
  */
-function getInvoiceCounter(): number {
-  const counter = get<number>(STORAGE_KEYS.INVOICE_COUNTER);
-  return counter ?? 0;
+function setPaymentIntents(intents: PaymentIntent[]): void {
+  set(STORAGE_KEYS.PAYMENT_INTENTS, intents);
 }
 
 /**
- * Save the invoice counter
+ * Get all credit notes from storage
+ * Returns empty array if no credit notes exist or storage is unavailable
  */
-function setInvoiceCounter(counter: number): void {
-  set(STORAGE_KEYS.INVOICE_COUNTER, counter);
+function getCreditNotes(): CreditNote[] {
+  const creditNotes = get<CreditNote[]>(STORAGE_KEYS.CREDIT_NOTES);
+  return creditNotes ?? [];
+}
+
+/**
+ * Save credit notes to storage
+ */
+function setCreditNotes(creditNotes: CreditNote[]): void {
+  set(STORAGE_KEYS.CREDIT_NOTES, creditNotes);
+}
+
+/**
+ * Get all quotes from storage
+ * Returns empty array if no quotes exist or storage is unavailable
+ */
+function getQuotes(): Quote[] {
+  const quotes = get<Quote[]>(STORAGE_KEYS.QUOTES);
+  return quotes ?? [];
+}
+
+/**
+ * Save quotes to storage
+ */
+function setQuotes(quotes: Quote[]): void {
+  set(STORAGE_KEYS.QUOTES, quotes);
+}
+
+/**
+ * Get all recurring invoice profiles from storage
+ * Returns empty array if no profiles exist or storage is unavailable
+ */
+function getRecurringProfiles(): RecurringProfile[] {
+  const profiles = get<RecurringProfile[]>(STORAGE_KEYS.RECURRING_PROFILES);
+  return profiles ?? [];
+}
+
+/**
+ * Save recurring invoice profiles to storage
+ */
+function setRecurringProfiles(profiles: RecurringProfile[]): void {
+  set(STORAGE_KEYS.RECURRING_PROFILES, profiles);
 }
 
 /**
@@ -140,13 +327,18 @@ function setInvoiceCounter(counter: number): void {
 function clearAll(): void {
   remove(STORAGE_KEYS.CLIENTS);
   remove(STORAGE_KEYS.INVOICES);
-  remove(STORAGE_KEYS.INVOICE_COUNTER);
+  remove(STORAGE_KEYS.PAYMENTS);
+  remove(STORAGE_KEYS.PAYMENT_INTENTS);
+  remove(STORAGE_KEYS.CREDIT_NOTES);
+  remove(STORAGE_KEYS.QUOTES);
+  remove(STORAGE_KEYS.RECURRING_PROFILES);
 }
 
 export const storage = {
   // Generic operations
   get,
   set,
+  setRequired,
   remove,
   
   // Typed operations for app data
@@ -154,15 +346,32 @@ export const storage = {
   setClients,
   getInvoices,
   setInvoices,
-  getInvoiceCounter,
-  setInvoiceCounter,
+  getPayments,
+  setPayments,
+  getPaymentIntents,
+  setPaymentIntents,
+  getCreditNotes,
+  setCreditNotes,
+  getQuotes,
+  setQuotes,
+  getRecurringProfiles,
+  setRecurringProfiles,
   
   // Utility
   clearAll,
+  isAvailable,
   isLocalStorageAvailable,
+
+  // Adapters
+  init,
+  setAdapter,
+  getAdapter,
+  migrate,
+  flush: () => adapter.flush(),
   
-  // Export keys for testing
+  // Export keys and events for testing
   STORAGE_KEYS,
+  handleStorageEvent,
 };
 
 export default storage;
@@ -0,0 +1,163 @@
+/**
+ * Storage Adapters - the persistence layers the storage service runs on
+ *
+ * localStorage for browsers, memory for tests and scripts, and IndexedDB for
+ * workers and larger data sets. The JSON file adapter for Node lives in
+ * jsonFileStorage.ts, so browser bundles do not pull in node:fs.
+ */
+
+import type { StorageAdapter } from '../types';
+
+const TEST_KEY = '__storage_test__';
+
+const INDEXED_DB = {
+  DATABASE: 'invoicey',
+  STORE: 'entries',
+} as const;
+
+/**
+ * The part of the Web Storage API the localStorage adapter uses
+ */
+type WebStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'>;
+
+/**
+ * Adapter on window.localStorage
+ * The storage is looked up on every call, so a replaced window.localStorage
+ * (as in tests) is picked up.
+ */
+function createLocalStorage(getStorage: () => WebStorage = () => window.localStorage): StorageAdapter {
+  return {
+    name: 'localStorage',
+    isAvailable() {
+      try {
+        const webStorage = getStorage();
+        webStorage.setItem(TEST_KEY, TEST_KEY);
+        webStorage.removeItem(TEST_KEY);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    getItem: (key) => getStorage().getItem(key),
+    setItem: (key, value) => getStorage().setItem(key, value),
+    removeItem: (key) => getStorage().removeItem(key),
+    keys() {
+      const webStorage = getStorage();
+      const keys: string[] = [];
+      for (let index = 0; index < webStorage.length; index++) {
+        const key = webStorage.key(index);
+        if (key !== null) keys.push(key);
+      }
+      return keys;
+    },
+    flush: async () => {},
+  };
+}
+
+/**
+ * Adapter that keeps everything in memory, optionally starting from entries
+ */
+function createMemory(entries: Record<string, string> = {}): StorageAdapter {
+  const store = new Map(Object.entries(entries));
+
+  return {
+    name: 'memory',
+    isAvailable: () => true,
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => { store.set(key, value); },
+    removeItem: (key) => { store.delete(key); },
+    keys: () => [...store.keys()],
+    flush: async () => {},
+  };
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function request<T>(idbRequest: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    idbRequest.onsuccess = () => resolve(idbRequest.result);
+    idbRequest.onerror = () => reject(idbRequest.error);
+  });
+}
+
+/**
+ * Open an adapter on an IndexedDB object store
+ * All entries are read when opening; writes update them in memory at once
+ * and are written to the database in the order they were made.
+ */
+async function openIndexedDB(options: { databaseName?: string; factory?: IDBFactory } = {}): Promise<StorageAdapter> {
+  const factory = options.factory ?? globalThis.indexedDB;
+  if (!factory) {
+    throw new Error('IndexedDB is not available');
+  }
+
+  const opening = factory.open(options.databaseName ?? INDEXED_DB.DATABASE, 1);
+  opening.onupgradeneeded = () => {
+    opening.result.createObjectStore(INDEXED_DB.STORE);
+  };
+  const db = await request(opening);
+
+  const store = db.transaction(INDEXED_DB.STORE, 'readonly').objectStore(INDEXED_DB.STORE);
+  const [keys, values] = await Promise.all([request(store.getAllKeys()), request(store.getAll())]);
+  const entries = new Map(keys.map((key, index) => [String(key), String(values[index])]));
+
+  // Readwrite transactions on one store run in the order they were created
+  let pending: Promise<void> = Promise.resolve();
+  const write = (apply: (objectStore: IDBObjectStore) => void) => {
+    const transaction = db.transaction(INDEXED_DB.STORE, 'readwrite');
+    apply(transaction.objectStore(INDEXED_DB.STORE));
+    const done = new Promise<void>((resolve) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = transaction.onabort = () => {
+        console.warn('Failed to write to IndexedDB:', transaction.error);
+        resolve();
+      };
+    });
+    pending = pending.then(() => done);
+  };
+
+  return {
+    name: 'indexedDB',
+    isAvailable: () => true,
+    getItem: (key) => entries.get(key) ?? null,
+    setItem(key, value) {
+      entries.set(key, value);
+      write((objectStore) => objectStore.put(value, key));
+    },
+    removeItem(key) {
+      entries.delete(key);
+      write((objectStore) => objectStore.delete(key));
+    },
+    keys: () => [...entries.keys()],
+    flush: () => pending,
+  };
+}
+
+/**
+ * Pick the adapter for the current environment: localStorage where there is
+ * one, IndexedDB where only that exists (e.g. workers), memory otherwise
+ */
+async function selectDefault(): Promise<StorageAdapter> {
+  const localStorageAdapter = createLocalStorage();
+  if (typeof window !== 'undefined' && localStorageAdapter.isAvailable()) {
+    return localStorageAdapter;
+  }
+  if (typeof globalThis.indexedDB !== 'undefined') {
+    try {
+      return await openIndexedDB();
+    } catch (error) {
+      console.warn('Failed to open IndexedDB, keeping data in memory:', error);
+    }
+  }
+  return createMemory();
+}
+
+export const storageAdapters = {
+  createLocalStorage,
+  createMemory,
+  openIndexedDB,
+  selectDefault,
+};
+
+export default storageAdapters;
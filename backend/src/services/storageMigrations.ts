@@ -0,0 +1,294 @@
+/**
+ * Storage Migrations - versioned upgrades of locally stored data
+ *
+ * The stored data carries a schema version. When data of an older version is
+ * loaded, the migrations after it run in order on a copy of every invoicey_*
+ * key. The original values are backed up under a backup key first, and the
+ * migrated data is validated before anything is written; a failed run leaves
+ * the data as it was and reports why. Data that cannot be backed up, e.g.
+ * because the storage is full, is not migrated.
+ */
+
+import type { StorageAdapter, StorageMigrationReport } from '../types';
+import { currencyService } from './currencyService';
+import { taxService } from './taxService';
+
+const KEY_PREFIX = 'invoicey_';
+const SCHEMA_VERSION_KEY = 'invoicey_schema_version';
+const BACKUP_KEY_PREFIX = 'invoicey_backup_v';
+
+/**
+ * Stored data by key, parsed from JSON
+ */
+type StoredData = Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+type StoredRecord = Record<string, unknown>;
+
+const COUNTER_KEYS = ['invoicey_invoice_counter_data', 'invoicey_credit_note_counter_data', 'invoicey_quote_counter_data'];
+
+/**
+ * Counter of the storage service that was never used to number invoices;
+ * the number generator keeps its counters under COUNTER_KEYS
+ */
+const LEGACY_INVOICE_COUNTER_KEY = 'invoicey_invoice_counter';
+
+/**
+ * Message of a thrown error
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isRecord(value: unknown): value is StoredRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Apply a change to every record of a stored list, keeping other values as they are
+ */
+function mapList(data: StoredData, key: string, change: (record: StoredRecord) => StoredRecord): StoredData {
+  const list = data[key];
+  if (!Array.isArray(list)) return data;
+  return { ...data, [key]: list.map(item => (isRecord(item) ? change(item) : item)) };
+}
+
+/**
+ * Ordered migrations; the last version is the current schema version
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill in the invoice fields added since the first release',
+    migrate: (data) => mapList(data, 'invoicey_invoices', (invoice) => {
+      const total = Number(invoice.total ?? 0);
+      const subtotal = Number(invoice.subtotal ?? 0);
+      const tax = Number(invoice.tax ?? 0);
+      // The first release charged a fixed rate; keep it so edits recalculate the same tax
+      const taxRate = invoice.taxRate ?? (tax > 0 && subtotal > 0
+        ? { name: 'Tax', rate: Math.round((tax / subtotal) * 10000) / 100 }
+        : taxService.NO_TAX);
+      const amountPaid = Number(invoice.amountPaid ?? (invoice.status === 'paid' ? total : 0));
+      const creditedAmount = Number(invoice.creditedAmount ?? 0);
+
+      return {
+        ...invoice,
+        currency: invoice.currency ?? currencyService.DEFAULT_CURRENCY,
+        taxRate,
+        amountPaid,
+        creditedAmount,
+        balanceDue: invoice.balanceDue ?? (invoice.status === 'void' ? 0 : Math.max(total - amountPaid - creditedAmount, 0)),
+        statusHistory: invoice.statusHistory ?? [],
+      };
+    }),
+  },
+  {
+    version: 2,
+    description: 'Keep one counter per number series',
+    migrate: (data) => {
+      const migrated = { ...data };
+
+      // Counters saved before reset periods hold the year
+      for (const key of COUNTER_KEYS) {
+        const counter = migrated[key];
+        if (isRecord(counter) && counter.period === undefined && typeof counter.year === 'number') {
+          migrated[key] = { period: String(counter.year), sequence: counter.sequence };
+        }
+      }
+
+      // The storage service's own counter only counts on from the generator's
+      const legacy = migrated[LEGACY_INVOICE_COUNTER_KEY];
+      if (typeof legacy === 'number' && legacy > 0 && migrated[COUNTER_KEYS[0]] === undefined) {
+        migrated[COUNTER_KEYS[0]] = { period: String(new Date().getFullYear()), sequence: legacy };
+      }
+      delete migrated[LEGACY_INVOICE_COUNTER_KEY];
+
+      return migrated;
+    },
+  },
+];
+
+const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Check migrated data against the current schema
+ * Returns one message per problem found
+ */
+function validate(data: StoredData): string[] {
+  const errors: string[] = [];
+
+  const lists: [string, string[]][] = [
+    ['invoicey_clients', ['id', 'name', 'email']],
+    ['invoicey_invoices', ['id', 'invoiceNumber', 'clientId', 'status', 'currency', 'lineItems', 'total', 'taxRate']],
+  ];
+  for (const [key, required] of lists) {
+    const list = data[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) {
+      errors.push(`${key}: expected a list`);
+      continue;
+    }
+    list.forEach((item, index) => {
+      const missing = isRecord(item) ? required.filter(field => item[field] === undefined || item[field] === null) : required;
+      if (missing.length > 0) {
+        errors.push(`${key}[${index}]: missing ${missing.join(', ')}`);
+      }
+    });
+  }
+
+  for (const key of COUNTER_KEYS) {
+    const counter = data[key];
+    if (counter !== undefined && !(isRecord(counter) && typeof counter.period === 'string' && typeof counter.sequence === 'number')) {
+      errors.push(`${key}: expected a period and a sequence`);
+    }
+  }
+  if (data[LEGACY_INVOICE_COUNTER_KEY] !== undefined) {
+    errors.push(`${LEGACY_INVOICE_COUNTER_KEY}: should have been merged into ${COUNTER_KEYS[0]}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Get the schema version of stored data
+ * Data without a version predates versioning
+ */
+function getVersion(adapter: StorageAdapter): number {
+  const version = Number(adapter.getItem(SCHEMA_VERSION_KEY));
+  return Number.isInteger(version) && version > 0 ? version : 0;
+}
+
+/**
+ * Keys holding application data, without the version and backups
+ */
+function getDataKeys(adapter: StorageAdapter): string[] {
+  return adapter.keys().filter(key =>
+    key.startsWith(KEY_PREFIX) && key !== SCHEMA_VERSION_KEY && !key.startsWith(BACKUP_KEY_PREFIX)
+  );
+}
+
+/**
+ * Migrate the data of an adapter to the current schema version
+ */
+function run(adapter: StorageAdapter): StorageMigrationReport {
+  const fromVersion = getVersion(adapter);
+  const report: StorageMigrationReport = { fromVersion, toVersion: fromVersion, applied: [], errors: [] };
+  const pending = MIGRATIONS.filter(migration => migration.version > fromVersion);
+  if (pending.length === 0) {
+    return report;
+  }
+
+  const keys = getDataKeys(adapter);
+  if (keys.length === 0) {
+    // Nothing stored yet: new data is written in the current shape
+    adapter.setItem(SCHEMA_VERSION_KEY, String(SCHEMA_VERSION));
+    return { ...report, toVersion: SCHEMA_VERSION };
+  }
+
+  const raw: Record<string, string> = {};
+  let data: StoredData = {};
+  for (const key of keys) {
+    const value = adapter.getItem(key);
+    if (value === null) continue;
+    raw[key] = value;
+    try {
+      data[key] = JSON.parse(value);
+    } catch {
+      report.errors.push(`${key}: stored data is not valid JSON`);
+    }
+  }
+  if (report.errors.length > 0) {
+    return report;
+  }
+
+  const backupKey = `${BACKUP_KEY_PREFIX}${fromVersion}`;
+  try {
+    adapter.setItem(backupKey, JSON.stringify(raw));
+  } catch (error) {
+    // Without a backup the old data is kept as it is
+    report.errors.push(`The stored data could not be backed up under ${backupKey}: ${getErrorMessage(error)}`);
+    return report;
+  }
+  report.backupKey = backupKey;
+
+  for (const migration of pending) {
+    try {
+      data = migration.migrate(data);
+    } catch (error) {
+      report.errors.push(`Migration ${migration.version} (${migration.description}) failed: ${getErrorMessage(error)}`);
+      return report;
+    }
+  }
+
+  report.errors.push(...validate(data));
+  if (report.errors.length > 0) {
+    return report;
+  }
+
+  try {
+    for (const key of keys) {
+      if (!(key in data)) {
+        adapter.removeItem(key);
+      }
+    }
+    for (const [key, value] of Object.entries(data)) {
+      const serialized = JSON.stringify(value);
+      if (raw[key] !== serialized) {
+        adapter.setItem(key, serialized);
+      }
+    }
+    adapter.setItem(SCHEMA_VERSION_KEY, String(SCHEMA_VERSION));
+  } catch (error) {
+    // Put back the keys already written, so the data stays at its old version
+    report.errors.push(`The migrated data could not be stored: ${getErrorMessage(error)}`);
+    try {
+      restoreBackup(adapter, fromVersion);
+    } catch (restoreError) {
+      report.errors.push(`The data could not be restored from ${backupKey}: ${getErrorMessage(restoreError)}`);
+    }
+    return report;
+  }
+
+  return { ...report, toVersion: SCHEMA_VERSION, applied: pending.map(migration => migration.version) };
+}
+
+/**
+ * Put the data of a backup back, at the version it was taken at
+ */
+function restoreBackup(adapter: StorageAdapter, version: number): boolean {
+  const backup = adapter.getItem(`${BACKUP_KEY_PREFIX}${version}`);
+  if (backup === null) {
+    return false;
+  }
+
+  const raw = JSON.parse(backup) as Record<string, string>;
+  for (const key of getDataKeys(adapter)) {
+    if (!(key in raw)) adapter.removeItem(key);
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    adapter.setItem(key, value);
+  }
+  if (version > 0) {
+    adapter.setItem(SCHEMA_VERSION_KEY, String(version));
+  } else {
+    adapter.removeItem(SCHEMA_VERSION_KEY);
+  }
+  return true;
+}
+
+export const storageMigrations = {
+  run,
+  validate,
+  getVersion,
+  restoreBackup,
+  SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  BACKUP_KEY_PREFIX,
+};
+
+export default storageMigrations;
@@ -0,0 +1,129 @@
+/**
+ * Tax Service - Named tax rates and per-rate tax breakdowns
+ *
+ * Each invoice carries a default tax rate, and any line item may override it
+ * with its own rate. Tax is calculated per rate group so that an invoice
+ * mixing e.g. "VAT 20%" and "Exempt" lines shows one tax row per rate.
+ * Tax is always calculated on amounts after line and invoice discounts.
+ */
+
+import type { Discount, Invoice, LineItemInput, TaxRate, TaxBreakdownEntry, TotalsOptions } from '../types';
+import { discountService } from './discountService';
+import { money } from './money';
+
+/**
+ * Default rate for invoices that have no tax configured
+ */
+const NO_TAX: TaxRate = { name: 'No Tax', rate: 0 };
+
+/**
+ * Commonly used named rates offered in the editor
+ */
+const TAX_RATE_PRESETS: TaxRate[] = [
+  NO_TAX,
+  { name: 'Exempt', rate: 0 },
+  { name: 'GST', rate: 5 },
+  { name: 'Reduced VAT', rate: 5 },
+  { name: 'Sales Tax', rate: 10 },
+  { name: 'VAT', rate: 20 },
+];
+
+/**
+ * Two rates are the same when both the name and the percentage match
+ */
+function isSameTaxRate(a: TaxRate, b: TaxRate): boolean {
+  return a.name === b.name && a.rate === b.rate;
+}
+
+/**
+ * Human readable label, e.g. "VAT (20%)"
+ */
+function formatTaxRateLabel(taxRate: TaxRate): string {
+  return `${taxRate.name} (${taxRate.rate}%)`;
+}
+
+/**
+ * Get the rate that applies to a line item: its own override, or the invoice rate
+ */
+function resolveTaxRate(item: Pick<LineItemInput, 'taxRate'>, invoiceTaxRate: TaxRate): TaxRate {
+  return item.taxRate ?? invoiceTaxRate;
+}
+
+/**
+ * Group line items by their effective tax rate and calculate the tax per group
+ * Groups are returned in the order their rate first appears on the invoice
+ *
+ * The invoice discount is spread over the lines in proportion to their
+ * amounts, so each group is taxed on its share of the discounted subtotal.
+ * All amounts are calculated in minor units; with the "line" rounding scope
+ * tax is rounded per line, otherwise once per group.
+ */
+function calculateBreakdown(
+  lineItems: Pick<LineItemInput, 'quantity' | 'rate' | 'taxRate' | 'discount'>[],
+  invoiceTaxRate: TaxRate = NO_TAX,
+  invoiceDiscount?: Discount,
+  options: TotalsOptions = {}
+): TaxBreakdownEntry[] {
+  const { currency, rounding = money.DEFAULT_ROUNDING } = options;
+  const lineAmounts = lineItems.map(item => discountService.getLineAmountMinor(item, currency, rounding.mode));
+  const subtotal = money.sum(lineAmounts);
+  const discount = discountService.calculateDiscountMinor(subtotal, invoiceDiscount, currency, rounding.mode);
+  const discountShares = money.allocate(discount, lineAmounts);
+
+  const groups: { taxRate: TaxRate; taxable: number; lineTax: number }[] = [];
+
+  lineItems.forEach((item, index) => {
+    const taxRate = resolveTaxRate(item, invoiceTaxRate);
+    let group = groups.find(g => isSameTaxRate(g.taxRate, taxRate));
+    if (!group) {
+      group = { taxRate, taxable: 0, lineTax: 0 };
+      groups.push(group);
+    }
+    const taxable = lineAmounts[index] - discountShares[index];
+    group.taxable += taxable;
+    group.lineTax += money.percentage(taxable, taxRate.rate, rounding.mode);
+  });
+
+  return groups.map(group => ({
+    name: group.taxRate.name,
+    rate: group.taxRate.rate,
+    taxableAmount: money.fromMinor(group.taxable, currency),
+    tax: money.fromMinor(
+      rounding.scope === 'line' ? group.lineTax : money.percentage(group.taxable, group.taxRate.rate, rounding.mode),
+      currency
+    ),
+  }));
+}
+
+/**
+ * Get the tax breakdown for a saved invoice
+ * Invoices stored before tax rates existed only have a single tax amount,
+ * which is shown as one "Tax" row
+ */
+function getInvoiceBreakdown(
+  invoice: Pick<Invoice, 'lineItems' | 'taxRate' | 'discount' | 'rounding' | 'currency' | 'subtotal' | 'tax'>
+): TaxBreakdownEntry[] {
+  const hasRates = invoice.taxRate !== undefined || invoice.lineItems.some(item => item.taxRate);
+
+  if (!hasRates) {
+    const rate = invoice.subtotal ? Math.round((invoice.tax / invoice.subtotal) * 10000) / 100 : 0;
+    return [{ name: 'Tax', rate, taxableAmount: invoice.subtotal, tax: invoice.tax }];
+  }
+
+  return calculateBreakdown(invoice.lineItems, invoice.taxRate, invoice.discount, {
+    currency: invoice.currency,
+    rounding: invoice.rounding,
+  });
+}
+
+export const taxService = {
+  NO_TAX,
+  TAX_RATE_PRESETS,
+  isSameTaxRate,
+  formatTaxRateLabel,
+  resolveTaxRate,
+  calculateBreakdown,
+  getInvoiceBreakdown,
+};
+
+export default taxService;
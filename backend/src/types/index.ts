@@ -1,19 +1,220 @@
 // Re-export types from mockData for cleaner imports
-export type { Client, LineItem, Invoice } from '../data/mockData';
+import type { Client, LineItem, Invoice, InvoiceStatus, TaxRate, Discount, RoundingPolicy, PaymentTerms } from '../data/mockData';
+export type { Client, LineItem, Invoice, InvoiceStatus, StatusChange, TaxRate, Discount, RoundingMode, RoundingScope, RoundingPolicy, PaymentTerms } from '../data/mockData';
 
 // Additional types for the application
 
-export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue';
+/**
+ * Who changes an invoice status and why, recorded in its status history
+ */
+export interface StatusChangeInput {
+  changedBy?: string;
+  reason?: string;
+}
+
+export type PaymentMethod = 'bank_transfer' | 'card' | 'cash' | 'check' | 'other';
+
+/**
+ * Money received against an invoice, in the invoice currency
+ */
+export interface Payment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  date: string; // YYYY-MM-DD the money arrived
+  method: PaymentMethod;
+  reference?: string; // e.g. bank transaction or check number
+  createdAt: string;
+}
+
+export interface PaymentInput {
+  amount: number;
+  date: string;
+  method: PaymentMethod;
+  reference?: string;
+}
+
+/**
+ * A correction to an issued invoice, with its own number series
+ * Line items, subtotal, tax and total are negative: the amount credited to
+ * the client. The original invoice is never changed apart from its
+ * creditedAmount, which reduces its balance due.
+ */
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  clientId: string;
+  client: Client;
+  currency: string;
+  issueDate: string;
+  reason: string;
+  lineItems: LineItem[];
+  taxRate?: TaxRate;
+  discount?: Discount;
+  rounding?: RoundingPolicy;
+  subtotal: number;
+  discountAmount: number;
+  tax: number;
+  total: number;
+  createdAt: string;
+}
+
+/**
+ * Status of a quote
+ * - draft: being prepared, not yet shown to the client
+ * - sent: waiting for the client to accept or decline
+ * - accepted / declined: answered by the client
+ * - expired: not answered before its expiry date
+ */
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired';
+
+/**
+ * An estimate sent before work starts, with its own number series
+ * Amounts are calculated exactly like an invoice's. An accepted quote is
+ * converted into a draft invoice, which is linked both ways.
+ */
+export interface Quote {
+  id: string;
+  quoteNumber: string;
+  clientId: string;
+  client: Client;
+  status: QuoteStatus;
+  currency?: string;
+  issueDate: string;
+  expiryDate: string; // Last day the quote can be accepted
+  lineItems: LineItem[];
+  taxRate?: TaxRate;
+  discount?: Discount;
+  rounding?: RoundingPolicy;
+  subtotal: number;
+  discountAmount?: number;
+  tax: number;
+  total: number;
+  notes?: string;
+  respondedAt?: string; // ISO timestamp of acceptance or decline
+  respondedBy?: string; // Name the client accepted or declined with
+  declineReason?: string;
+  invoiceId?: string; // Invoice the quote was converted into
+  createdAt: string;
+}
+
+export interface QuoteInput {
+  clientId: string;
+  issueDate: string;
+  expiryDate: string;
+  currency?: string;
+  lineItems: LineItemInput[];
+  taxRate?: TaxRate;
+  discount?: Discount;
+  rounding?: RoundingPolicy;
+  notes?: string;
+  status?: QuoteStatus;
+}
+
+/**
+ * A client's answer to a quote on the public acceptance page
+ */
+export interface QuoteResponse {
+  name: string;
+  reason?: string; // Why the quote was declined
+}
+
+/**
+ * Lines to credit are entered with positive quantities and rates
+ */
+export interface CreditNoteInput {
+  issueDate: string;
+  reason: string;
+  lineItems: LineItemInput[];
+}
+
+/**
+ * State of an online payment at the payment provider
+ * - requires_payment_method: created, waiting for card details
+ * - requires_action: the customer must authenticate (3-D Secure)
+ * - succeeded: money captured, a payment is recorded against the invoice
+ * - failed: declined, the customer may confirm again with another card
+ * - refunded: money returned, the recorded payment is removed
+ */
+export type PaymentIntentStatus = 'requires_payment_method' | 'requires_action' | 'succeeded' | 'failed' | 'refunded';
+
+/**
+ * An attempt to collect an amount for an invoice through a payment provider
+ */
+export interface PaymentIntent {
+  id: string;
+  provider: string;
+  invoiceId: string;
+  amount: number; // Minor units of currency
+  currency: string;
+  status: PaymentIntentStatus;
+  cardLast4?: string;
+  failureReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Card details entered in the Pay Now form
+ */
+export interface CardDetails {
+  number: string;
+  expiry: string; // MM / YY
+  cvc: string;
+  name: string;
+}
+
+export type PaymentWebhookEventType = 'payment_intent.succeeded' | 'payment_intent.payment_failed' | 'charge.refunded';
+
+/**
+ * Notification sent by a payment provider when an intent changes outside the checkout flow
+ */
+export interface PaymentWebhookEvent {
+  type: PaymentWebhookEventType;
+  intentId: string;
+  failureReason?: string;
+}
+
+/**
+ * A payment provider such as Stripe; the app only talks to providers through this interface
+ */
+export interface PaymentProvider {
+  name: string;
+  createIntent(input: { invoiceId: string; amount: number; currency: string }): Promise<PaymentIntent>;
+  confirm(intentId: string, card?: CardDetails): Promise<PaymentIntent>;
+  handleWebhook(event: PaymentWebhookEvent): Promise<PaymentIntent>;
+  refund(intentId: string): Promise<PaymentIntent>;
+}
+
+/**
+ * Invoice amounts for a single currency
+ * Amounts in different currencies are never added together
+ */
+export interface CurrencyAmounts {
+  currency: string;
+  totalRevenue: number;
+  creditAdjustment: number; // Credit notes refunded out of revenue, zero or negative
+  pendingAmount: number;
+  overdueAmount: number;
+  invoiceCount: number;
+}
 
 export interface Metrics {
+  currency: string; // Primary currency that the amount fields below are in
   totalRevenue: number;
+  creditAdjustment: number;
   pendingAmount: number;
   overdueAmount: number;
   totalClients: number;
   paidInvoices: number;
   pendingInvoices: number;
+  partiallyPaidInvoices: number;
   overdueInvoices: number;
   draftInvoices: number;
+  voidInvoices: number;
+  amountsByCurrency: CurrencyAmounts[];
 }
 
 export interface ValidationResult {
@@ -27,19 +228,482 @@ export interface ClientInput {
   company?: string;
   phone?: string;
   address?: string;
+  defaultCurrency?: string;
+  defaultPaymentTerms?: PaymentTerms;
 }
 
 export interface LineItemInput {
   description: string;
   quantity: number;
   rate: number;
+  taxRate?: TaxRate;
+  discount?: Discount;
+}
+
+/**
+ * Tax owed for all line items sharing the same named rate
+ */
+export interface TaxBreakdownEntry {
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+/**
+ * Options for calculating invoice amounts
+ */
+export interface TotalsOptions {
+  currency?: string; // Determines the number of minor units, e.g. 2 for USD, 0 for JPY
+  rounding?: RoundingPolicy;
+}
+
+/**
+ * Calculated invoice amounts
+ * - subtotal = sum of line amounts (after line discounts)
+ * - discountAmount = invoice-level discount on the subtotal
+ * - tax = sum of taxBreakdown, calculated on the discounted amounts
+ * - total = subtotal - discountAmount + tax
+ */
+export interface InvoiceTotals {
+  subtotal: number;
+  discountAmount: number;
+  tax: number;
+  total: number;
+  taxBreakdown: TaxBreakdownEntry[];
 }
 
 export interface InvoiceInput {
   clientId: string;
   issueDate: string;
-  dueDate: string;
+  dueDate: string; // Ignored when paymentTerms are set
+  paymentTerms?: PaymentTerms;
+  currency?: string;
   lineItems: LineItemInput[];
+  taxRate?: TaxRate;
+  discount?: Discount;
+  rounding?: RoundingPolicy;
   notes?: string;
   status?: InvoiceStatus;
+  recurringProfileId?: string; // Set by the recurring invoice generator
+  recurringPeriod?: string;
+  quoteId?: string; // Set when converting a quote
+}
+
+/**
+ * How often a recurring profile issues an invoice
+ * "custom" repeats every RecurringInterval.count days, weeks or months
+ */
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'custom';
+
+export interface RecurringInterval {
+  count: number;
+  unit: 'day' | 'week' | 'month';
+}
+
+/**
+ * Invoice issued on every run of a recurring profile
+ * Line descriptions and notes may contain period placeholders such as {{month}}
+ */
+export interface RecurringTemplate {
+  clientId: string;
+  currency?: string;
+  lineItems: LineItemInput[];
+  taxRate?: TaxRate;
+  discount?: Discount;
+  rounding?: RoundingPolicy;
+  notes?: string;
+  dueInDays: number; // Days from the issue date to the due date
+  paymentTerms?: PaymentTerms; // Replaces dueInDays when set
+}
+
+/**
+ * A schedule that issues a copy of its template invoice on every run date
+ * The schedule ends after endDate or after maxRuns invoices, whichever comes first.
+ */
+export interface RecurringProfile {
+  id: string;
+  name: string;
+  template: RecurringTemplate;
+  frequency: RecurringFrequency;
+  interval?: RecurringInterval; // Only for "custom"
+  startDate: string; // First run date
+  endDate?: string; // No runs after this date
+  maxRuns?: number;
+  autoSend: boolean; // Issue invoices as sent instead of draft
+  active: boolean; // Paused profiles generate nothing
+  runCount: number; // Run dates generated so far
+  lastRunDate?: string;
+  nextRunDate: string | null; // null once the schedule has ended
+  createdAt: string;
+}
+
+export interface RecurringProfileInput {
+  name: string;
+  template: RecurringTemplate;
+  frequency: RecurringFrequency;
+  interval?: RecurringInterval;
+  startDate: string;
+  endDate?: string;
+  maxRuns?: number;
+  autoSend?: boolean;
+  active?: boolean;
+}
+
+/**
+ * Invoices generated for a profile by one run of the generator
+ */
+export interface RecurringRunResult {
+  profileId: string;
+  invoices: Invoice[];
+}
+
+/**
+ * When a number series starts again at 1
+ */
+export type NumberResetPolicy = 'never' | 'yearly' | 'monthly';
+
+/**
+ * How document numbers are formatted and when their series reset
+ * Yearly resets follow the fiscal year.
+ */
+export interface NumberFormat {
+  template: string; // e.g. "{PREFIX}-{YYYY}-{SEQ:3}"
+  reset: NumberResetPolicy;
+  fiscalYearStartMonth: number; // 1-12, 1 for calendar years
+}
+
+/**
+ * Key-value persistence the storage service is built on
+ * Reads and writes are synchronous; adapters backed by an asynchronous
+ * store keep its contents in memory and write them through in the
+ * background, resolving flush() once every write has been persisted.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  isAvailable(): boolean;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+  flush(): Promise<void>;
+}
+
+/**
+ * Outcome of migrating stored data to the current schema version
+ * With errors, the data was left at fromVersion.
+ */
+export interface StorageMigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[]; // Versions migrated to, in order
+  backupKey?: string; // Key holding the data as it was before migrating
+  errors: string[];
+}
+
+/**
+ * Position of a number series: the last sequence used and its period
+ */
+export interface NumberCounter {
+  period: string;
+  sequence: number;
+}
+
+/**
+ * Everything a workspace backup holds
+ * Generic so that the Supabase services can archive their own record types.
+ */
+export interface WorkspaceData<C = Client, I = Invoice> {
+  clients: C[];
+  invoices: I[]; // With their line items
+  counters: Partial<Record<'invoice' | 'creditNote' | 'quote', NumberCounter>>;
+  numberFormat: NumberFormat;
+}
+
+/**
+ * A portable, versioned workspace backup
+ * The checksum is the SHA-256 of the JSON of data.
+ */
+export interface WorkspaceArchive<C = Client, I = Invoice> {
+  format: 'invoicey-backup';
+  version: number;
+  exportedAt: string;
+  checksum: string;
+  data: WorkspaceData<C, I>;
+}
+
+/**
+ * Merge adds and updates records; replace removes everything else first
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+export type RestoreAction = 'create' | 'update' | 'remove';
+
+/**
+ * One record a restore creates, updates or removes
+ * targetId is the record in the workspace that is updated or removed.
+ */
+export interface RestoreStep<T> {
+  action: RestoreAction;
+  record: T;
+  targetId?: string;
+}
+
+/**
+ * What a restore does, in the order it does it
+ */
+export interface RestorePlan<C = Client, I = Invoice> {
+  mode: RestoreMode;
+  clients: RestoreStep<C>[];
+  invoices: RestoreStep<I>[];
+  counters: WorkspaceData<C, I>['counters'];
+  numberFormat: NumberFormat;
+}
+
+/**
+ * Summary of a restore plan for a dry run
+ */
+export interface RestorePreview {
+  mode: RestoreMode;
+  counts: Record<'clients' | 'invoices', Record<RestoreAction, number>>;
+  entries: { type: 'client' | 'invoice'; action: RestoreAction; label: string }[];
+  numberFormatChanged: boolean;
+}
+
+/**
+ * Outcome of a restore; records that could not be restored are listed in errors
+ */
+export interface RestoreResult {
+  preview: RestorePreview;
+  errors: string[];
+}
+
+/**
+ * What importing local data into an account does with a record
+ * - create: added to the account
+ * - link: a client already in the account (same email); its invoices are added to it
+ * - skip: left out, e.g. already imported
+ * - conflict: left out because the account has a different record with its number
+ */
+export type ImportAction = 'create' | 'link' | 'skip' | 'conflict';
+
+/**
+ * One local record an import handles
+ * targetId is the account record a client is linked to.
+ */
+export interface ImportStep<T> {
+  action: ImportAction;
+  record: T;
+  targetId?: string;
+  reason?: string;
+}
+
+/**
+ * What an import of local data does, in the order it does it
+ */
+export interface ImportPlan<C = Client, I = Invoice> {
+  clients: ImportStep<C>[];
+  invoices: ImportStep<I>[];
+  counters: WorkspaceData<C, I>['counters'];
+  numberFormat: NumberFormat;
+}
+
+/**
+ * Summary of an import, previewed or done; records that could not be
+ * imported are listed in errors
+ */
+export interface ImportReport {
+  counts: Record<'clients' | 'invoices', Record<ImportAction, number>>;
+  entries: { type: 'client' | 'invoice'; action: ImportAction; label: string; reason?: string }[];
+  numberFormatChanged: boolean;
+  errors: string[];
+}
+
+/**
+ * Whether a user imported the local data, or chose not to
+ */
+export interface ImportRecord {
+  userId: string;
+  status: 'imported' | 'dismissed';
+  at: string;
+}
+
+/**
+ * Kinds of data a change can be about
+ */
+export type ChangeEntity =
+  | 'client' | 'invoice' | 'payment' | 'paymentIntent' | 'creditNote' | 'quote' | 'recurringProfile'
+  | 'metrics' | 'numberFormat';
+
+/**
+ * What happened to the data
+ * - create, update, remove: one record, given by id (and record, unless removed)
+ * - reload: the records of the entity changed as a whole; read them again
+ */
+export type ChangeType = 'create' | 'update' | 'remove' | 'reload';
+
+/**
+ * A change to application data, as observed in this tab or sent from another
+ */
+export interface DataChange<T = unknown> {
+  entity: ChangeEntity;
+  type: ChangeType;
+  id?: string;
+  record?: T;
+  // The tab that made the change
+  origin: string;
+  at: string;
+}
+
+/**
+ * Sync state of a change made while offline
+ * - pending: waiting to be sent
+ * - syncing: being sent
+ * - failed: rejected by the server, e.g. by validation
+ * - conflict: the record changed on the server after the change was made
+ */
+export type OutboxStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+export type OutboxEntity = 'client' | 'invoice';
+
+/**
+ * A change queued to be sent to the server
+ * targetId is the record changed, a temporary ID until the record's queued
+ * create is synced. record is the record as shown while the change is
+ * queued; deletes have none. baseVersion is the updatedAt the change was
+ * made on.
+ */
+export interface OutboxEntry<R = unknown> {
+  id: string;
+  userId: string;
+  entity: OutboxEntity;
+  operation: string;
+  targetId: string;
+  args: unknown[];
+  record?: R;
+  baseVersion?: string;
+  queuedAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  // Send without the base version, overwriting newer changes on the server
+  force?: boolean;
+  error?: string;
+}
+
+export interface OutboxReplayResult {
+  synced: number;
+  failed: number;
+  conflicts: number;
+  remaining: number;
+  // Replay stopped because the server could not be reached
+  offline: boolean;
+}
+
+/**
+ * A record as the server has it after a change was sent
+ * A create that was queued with a temporary ID gets the server's ID.
+ */
+export interface OutboxSent {
+  id: string;
+  version?: string;
+}
+
+/**
+ * How an outbox replay reaches the server
+ */
+export interface OutboxTransport {
+  // Send a change; resolves with the record's ID and version after it, if it still exists
+  send: (entry: OutboxEntry) => Promise<OutboxSent | void>;
+  // Whether an error means the server could not be reached
+  isNetworkError: (error: unknown) => boolean;
+  // The server's version (updated_at) of the record when an error is a version conflict
+  getConflictVersion: (error: unknown) => string | undefined;
 }
+
+/**
+ * The last workspace data loaded from the server, read while offline
+ */
+export interface OfflineSnapshot<T> {
+  userId: string;
+  savedAt: string;
+  data: T;
+}
+
+/**
+ * Tables whose row changes are merged into the data shown
+ */
+export type LiveTable = 'clients' | 'invoices' | 'line_items';
+
+/**
+ * A row inserted, updated or deleted on the server, read as a record
+ * Deletes may carry no more than the row's ID. Line item changes name their
+ * invoice, except deletes that do not say.
+ */
+export interface LiveChange<R = unknown> {
+  table: LiveTable;
+  type: 'INSERT' | 'UPDATE' | 'DELETE';
+  id: string;
+  record?: R;
+  invoiceId?: string;
+}
+
+/**
+ * Where row changes come from, e.g. a Supabase Realtime channel
+ */
+export interface LiveChangeSource {
+  // Call a listener with every change from now on, until the returned function is called
+  subscribe: (listener: (change: LiveChange) => void) => () => void;
+}
+
+/**
+ * The data row changes are merged into
+ * Lists are updated with functions of their current value; merged is
+ * called after each change, with external set when it brought a version of
+ * an invoice that was not shown yet.
+ */
+export interface LiveStore<C, I> {
+  getClients: () => C[];
+  getInvoices: () => I[];
+  setClients: (update: (clients: C[]) => C[]) => void;
+  setInvoices: (update: (invoices: I[]) => I[]) => void;
+  merged: (change: LiveChange, external: boolean) => void;
+}
+
+/**
+ * Invoice list columns that can be sorted on
+ */
+export type InvoiceSortKey = 'number' | 'client' | 'issueDate' | 'dueDate' | 'total' | 'status';
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * A page of the invoice list to load
+ * search matches the invoice number and the client's name and company.
+ * cursor is where the page starts, as returned with a page of the same
+ * query; without one the first page is loaded.
+ */
+export interface InvoiceQuery {
+  sort: InvoiceSortKey;
+  direction: SortDirection;
+  status: InvoiceStatus | 'all';
+  search: string;
+  pageSize: number;
+  cursor?: string;
+}
+
+/**
+ * A page of the invoice list
+ * start is the position of the first invoice in the whole list.
+ */
+export interface InvoicePage<T = Invoice> {
+  items: T[];
+  total: number;
+  start: number;
+  nextCursor?: string;
+  previousCursor?: string;
+}
+
+/**
+ * The number of invoices with each status, and in all
+ */
+export type InvoiceStatusCounts = Record<InvoiceStatus | 'all', number>;
@@ -0,0 +1,138 @@
+/**
+ * Money Tests
+ * Exact minor unit arithmetic and rounding rules used by invoice totals and metrics
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { money } from '../src/services/money';
+import { storage } from '../src/services/storage';
+import { invoiceService } from '../src/services/invoiceService';
+import { metricsService } from '../src/services/metricsService';
+import type { Client, Invoice, LineItemInput } from '../src/types';
+
+// Mock localStorage for Node.js environment
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => { store[key] = value; },
+    removeItem: (key: string) => { delete store[key]; },
+    clear: () => { store = {}; },
+  };
+})();
+
+beforeEach(() => {
+  localStorageMock.clear();
+  Object.defineProperty(globalThis, 'window', {
+    value: { localStorage: localStorageMock },
+    writable: true,
+  });
+});
+
+/**
+ * Small deterministic pseudo random generator so failures are reproducible
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+describe('Money', () => {
+  it('should convert between major and minor units', () => {
+    expect(money.toMinor(12.34)).toBe(1234);
+    expect(money.toMinor(1.005)).toBe(101);
+    expect(money.fromMinor(1234)).toBe(12.34);
+    expect(money.toMinor(1500, 'JPY')).toBe(1500);
+    expect(money.getMinorDigits('JPY')).toBe(0);
+  });
+
+  it('should round halves up or to even', () => {
+    expect(money.round(2.5, 'half-up')).toBe(3);
+    expect(money.round(-2.5, 'half-up')).toBe(-3);
+    expect(money.round(2.5, 'half-even')).toBe(2);
+    expect(money.round(3.5, 'half-even')).toBe(4);
+    expect(money.round(2.4999, 'half-even')).toBe(2);
+    expect(money.round(2.51, 'half-even')).toBe(3);
+  });
+
+  it('should allocate amounts so the parts add up exactly', () => {
+    expect(money.allocate(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(money.allocate(-100, [1, 1, 1])).toEqual([-34, -33, -33]);
+    expect(money.allocate(5, [0, 0])).toEqual([5, 0]);
+    expect(money.sum(money.allocate(1001, [3, 7, 11, 13]))).toBe(1001);
+  });
+
+  it('should not drift when adding many small amounts', () => {
+    const lineItems = Array.from({ length: 3 }, () => ({ description: 'Item', quantity: 1, rate: 0.1 }));
+    expect(invoiceService.calculateTotals(lineItems).subtotal).toBe(0.3);
+  });
+});
+
+describe('Invoice totals rounding', () => {
+  const lineItems: LineItemInput[] = [
+    { description: 'A', quantity: 1, rate: 0.05 },
+    { description: 'B', quantity: 1, rate: 0.05 },
+    { description: 'C', quantity: 1, rate: 0.05 },
+  ];
+  const taxRate = { name: 'Sales Tax', rate: 10 };
+
+  it('should round tax once per rate by default', () => {
+    expect(invoiceService.calculateTotals(lineItems, taxRate).tax).toBe(0.02);
+  });
+
+  it('should round tax per line when asked', () => {
+    const totals = invoiceService.calculateTotals(lineItems, taxRate, undefined, {
+      rounding: { mode: 'half-up', scope: 'line' },
+    });
+    expect(totals.tax).toBe(0.03);
+  });
+
+  it('should apply banker\'s rounding', () => {
+    const totals = invoiceService.calculateTotals(lineItems, taxRate, undefined, {
+      rounding: { mode: 'half-even', scope: 'line' },
+    });
+    expect(totals.tax).toBe(0);
+  });
+
+  it('should always add line amounts up to the subtotal exactly', () => {
+    const client: Client = { id: 'client_1', name: 'Test', email: 'test@example.com', createdAt: '2026-01-01' };
+    const random = createRandom(42);
+
+    for (let run = 0; run < 200; run++) {
+      const input = {
+        clientId: client.id,
+        issueDate: '2026-01-01',
+        dueDate: '2026-01-31',
+        lineItems: Array.from({ length: 1 + Math.floor(random() * 12) }, (_, index) => ({
+          description: `Line ${index + 1}`,
+          quantity: 1 + Math.floor(random() * 7) + (random() < 0.3 ? 0.5 : 0),
+          rate: Math.round(random() * 100000) / 1000,
+          discount: random() < 0.3 ? { type: 'percentage' as const, value: Math.round(random() * 333) / 10 } : undefined,
+        })),
+        taxRate: { name: 'VAT', rate: 17.5 },
+        discount: random() < 0.5 ? { type: 'percentage' as const, value: 7.5 } : undefined,
+        rounding: { mode: random() < 0.5 ? 'half-up' as const : 'half-even' as const, scope: 'line' as const },
+      };
+
+      const invoice = invoiceService.create(input, [client]);
+      const lineTotal = money.sum(invoice.lineItems.map(item => money.toMinor(item.amount)));
+      const breakdown = invoiceService.calculateTotals(input.lineItems, input.taxRate, input.discount, input).taxBreakdown;
+
+      expect(lineTotal).toBe(money.toMinor(invoice.subtotal));
+      expect(money.sum(breakdown.map(entry => money.toMinor(entry.taxableAmount))))
+        .toBe(money.toMinor(invoice.subtotal) - money.toMinor(invoice.discountAmount ?? 0));
+      expect(money.toMinor(invoice.total))
+        .toBe(money.toMinor(invoice.subtotal) - money.toMinor(invoice.discountAmount ?? 0) + money.toMinor(invoice.tax));
+    }
+
+    storage.clearAll();
+  });
+
+  it('should add invoice totals exactly in metrics', () => {
+    const invoices = Array.from({ length: 10 }, () => ({ status: 'paid', total: 0.1, currency: 'USD' })) as Invoice[];
+    expect(metricsService.calculate(invoices, []).totalRevenue).toBe(1);
+  });
+});
@@ -5,14 +5,31 @@
  * This is a checkpoint test to ensure all service implementations are functional
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { storage } from '../src/services/storage';
+import { storageAdapters } from '../src/services/storageAdapters';
+import { storageMigrations } from '../src/services/storageMigrations';
 import { clientService } from '../src/services/clientService';
 import { invoiceService } from '../src/services/invoiceService';
 import { invoiceNumberGenerator } from '../src/services/invoiceNumberGenerator';
 import { metricsService } from '../src/services/metricsService';
 import { recentItemsService } from '../src/services/recentItemsService';
-import type { Client, Invoice } from '../src/types';
+import { paymentService } from '../src/services/paymentService';
+import { paymentGateway, UnrecordedPaymentError } from '../src/services/paymentGateway';
+import { creditNoteService } from '../src/services/creditNoteService';
+import { invoiceStatusService } from '../src/services/invoiceStatusService';
+import { quoteService } from '../src/services/quoteService';
+import { recurringService } from '../src/services/recurringService';
+import { paymentTermsService } from '../src/services/paymentTermsService';
+import { dates } from '../src/services/dates';
+import { backupService } from '../src/services/backupService';
+import { offlineService, OutboxStorageError } from '../src/services/offlineService';
+import { importService } from '../src/services/importService';
+import { changeFeed } from '../src/services/changeFeed';
+import { liveMerge } from '../src/services/liveMerge';
+import { queryCache } from '../src/services/queryCache';
+import { invoiceQuery } from '../src/services/invoiceQuery';
+import type { Client, DataChange, Invoice, LiveChange, LiveChangeSource, OutboxEntry, OutboxTransport } from '../src/types';
 
 // Mock localStorage for Node.js environment
 const localStorageMock = (() => {
@@ -62,6 +79,87 @@ describe('Storage Service', () => {
   });
 });
 
+describe('Storage Migrations', () => {
+  // Data as stored by the first release: no currency, tax rate or payments, and two invoice counters
+  const firstRelease = () => storageAdapters.createMemory({
+    invoicey_invoices: JSON.stringify([{
+      id: 'inv-1', invoiceNumber: 'INV-2026-003', clientId: '1', client: { id: '1', name: 'Sarah Chen', email: 'sarah@acmecorp.com', createdAt: '2026-01-01' },
+      status: 'paid', issueDate: '2026-01-02', dueDate: '2026-02-01',
+      lineItems: [{ id: '1', description: 'Design', quantity: 1, rate: 100, amount: 100 }],
+      subtotal: 100, tax: 10, total: 110, createdAt: '2026-01-02',
+    }]),
+    invoicey_invoice_counter: '5',
+    invoicey_invoice_counter_data: JSON.stringify({ year: 2026, sequence: 3 }),
+  });
+
+  it('should migrate first-release data in order and back it up', () => {
+    const adapter = firstRelease();
+    const report = storageMigrations.run(adapter);
+
+    expect(report).toEqual({ fromVersion: 0, toVersion: storageMigrations.SCHEMA_VERSION, applied: [1, 2], backupKey: 'invoicey_backup_v0', errors: [] });
+    const [invoice] = JSON.parse(adapter.getItem('invoicey_invoices')!);
+    expect(invoice).toMatchObject({ currency: 'USD', taxRate: { name: 'Tax', rate: 10 }, amountPaid: 110, balanceDue: 0, statusHistory: [] });
+    expect(JSON.parse(adapter.getItem('invoicey_invoice_counter_data')!)).toEqual({ period: '2026', sequence: 3 });
+    expect(adapter.getItem('invoicey_invoice_counter')).toBeNull();
+    expect(storageMigrations.getVersion(adapter)).toBe(storageMigrations.SCHEMA_VERSION);
+
+    // Migrated data is left alone; the backup brings the old data back
+    expect(storageMigrations.run(adapter).applied).toEqual([]);
+    expect(storageMigrations.restoreBackup(adapter, 0)).toBe(true);
+    expect(adapter.getItem('invoicey_invoice_counter')).toBe('5');
+    expect(storageMigrations.getVersion(adapter)).toBe(0);
+  });
+
+  it('should report data it cannot migrate and leave it unchanged', () => {
+    const adapter = storageAdapters.createMemory({ invoicey_invoices: '{"id":"inv-1"}', invoicey_clients: '[{"id":"1"}]' });
+    const report = storageMigrations.run(adapter);
+
+    expect(report.toVersion).toBe(0);
+    expect(report.errors).toEqual(['invoicey_clients[0]: missing name, email', 'invoicey_invoices: expected a list']);
+    expect(adapter.getItem('invoicey_invoices')).toBe('{"id":"inv-1"}');
+    expect(storageMigrations.getVersion(adapter)).toBe(0);
+
+    const corrupt = storageAdapters.createMemory({ invoicey_clients: '[{' });
+    expect(storageMigrations.run(corrupt).errors).toEqual(['invoicey_clients: stored data is not valid JSON']);
+  });
+
+  it('should keep the old data when it cannot be backed up', async () => {
+    const adapter = firstRelease();
+    const setItem = adapter.setItem.bind(adapter);
+    adapter.setItem = (key, value) => {
+      if (key.startsWith(storageMigrations.BACKUP_KEY_PREFIX)) {
+        throw new Error('The quota has been exceeded.');
+      }
+      setItem(key, value);
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await storage.init(adapter);
+    expect(storage.migrate()).toMatchObject({
+      toVersion: 0,
+      applied: [],
+      errors: ['The stored data could not be backed up under invoicey_backup_v0: The quota has been exceeded.'],
+    });
+    expect(adapter.getItem('invoicey_invoice_counter')).toBe('5');
+    expect(storageMigrations.getVersion(adapter)).toBe(0);
+
+    // Reads and writes go on with the data as it was
+    expect(storage.getInvoices()[0].id).toBe('inv-1');
+    storage.setClients([]);
+    expect(storage.getClients()).toEqual([]);
+    storage.setAdapter(storageAdapters.createLocalStorage());
+    vi.restoreAllMocks();
+  });
+
+  it('should migrate when the storage service first loads data', async () => {
+    const adapter = firstRelease();
+    await storage.init(adapter);
+    expect(storage.migrate().applied).toEqual([1, 2]);
+    expect(storage.getInvoices()[0].currency).toBe('USD');
+    storage.setAdapter(storageAdapters.createLocalStorage());
+  });
+});
+
 describe('Client Service', () => {
   beforeEach(() => {
     storage.clearAll();
@@ -147,6 +245,59 @@ describe('Invoice Number Generator', () => {
     
     expect(secondNum).toBe(firstNum + 1);
   });
+
+  it('should keep counting past 999', () => {
+    const currentYear = new Date().getFullYear();
+    invoiceNumberGenerator.setCounterData({ period: String(currentYear), sequence: 999 });
+
+    expect(invoiceNumberGenerator.generate()).toBe(`INV-${currentYear}-1000`);
+  });
+
+  it('should fill in template tokens', () => {
+    const format = { template: '{PREFIX}/{FY}/{MM}/{CLIENT}/{SEQ:5}', reset: 'monthly' as const, fiscalYearStartMonth: 4 };
+    const client = { name: 'Jane Doe', company: 'Acme Inc' };
+
+    expect(invoiceNumberGenerator.formatNumber(format, { prefix: 'INV', sequence: 42, date: '2026-04-01', client }))
+      .toBe('INV/2027/04/ACM/00042');
+    expect(invoiceNumberGenerator.getFiscalYear('2026-03-31', 4)).toBe(2026);
+    expect(invoiceNumberGenerator.getPeriod('2026-04-01', format)).toBe('2026-04');
+  });
+
+  it('should reset per period and never reset when configured so', () => {
+    expect(invoiceNumberGenerator.nextSequence({ period: '2026', sequence: 7 }, '2026')).toBe(8);
+    expect(invoiceNumberGenerator.nextSequence({ period: '2026', sequence: 7 }, '2027')).toBe(1);
+    expect(invoiceNumberGenerator.nextSequence({ period: '2026', sequence: 7 }, '')).toBe(8);
+    // Counters saved before reset periods hold the year
+    storage.set(invoiceNumberGenerator.COUNTER_STORAGE_KEY, { year: new Date().getFullYear(), sequence: 7 });
+    expect(invoiceNumberGenerator.getNextSequence()).toBe(8);
+
+    invoiceNumberGenerator.setFormat({ template: '{PREFIX}-{SEQ:4}', reset: 'never', fiscalYearStartMonth: 1 });
+    invoiceNumberGenerator.setCounterData({ period: '2020', sequence: 41 });
+    expect(invoiceNumberGenerator.generate()).toBe('INV-0042');
+  });
+
+  it('should reject templates that would repeat numbers', () => {
+    const invalid = [
+      { template: '{PREFIX}-{SEQ}', reset: 'yearly' as const, fiscalYearStartMonth: 1 },
+      { template: '{PREFIX}-{YYYY}-{SEQ}', reset: 'yearly' as const, fiscalYearStartMonth: 4 },
+      { template: '{PREFIX}-{YYYY}-{SEQ}', reset: 'monthly' as const, fiscalYearStartMonth: 1 },
+      { template: '{PREFIX}-{YEAR}-{SEQ}', reset: 'never' as const, fiscalYearStartMonth: 1 },
+      { template: '{PREFIX}-{YYYY}', reset: 'never' as const, fiscalYearStartMonth: 1 },
+    ];
+
+    for (const format of invalid) {
+      expect(invoiceNumberGenerator.validateFormat(format).valid).toBe(false);
+    }
+    expect(() => invoiceNumberGenerator.setFormat(invalid[0])).toThrow('Validation failed');
+  });
+
+  it('should read the sequence back from a number', () => {
+    const format = { template: '{PREFIX}/{CLIENT}.{YY}-{SEQ:3}', reset: 'yearly' as const, fiscalYearStartMonth: 1 };
+    expect(invoiceNumberGenerator.parseSequence('INV/ACM.26-042', format)).toBe(42);
+    expect(invoiceNumberGenerator.parseSequence('CN/ACM.26-007', format, 'creditNote')).toBe(7);
+    expect(invoiceNumberGenerator.parseSequence('INV-ACM.26-042', format)).toBeNull();
+    expect(invoiceNumberGenerator.parseSequence('Pending', invoiceNumberGenerator.DEFAULT_NUMBER_FORMAT)).toBeNull();
+  });
 });
 
 
@@ -170,13 +321,73 @@ describe('Invoice Service', () => {
       { description: 'Item 2', quantity: 1, rate: 50 },
     ];
     
-    const totals = invoiceService.calculateTotals(lineItems, 10);
+    const totals = invoiceService.calculateTotals(lineItems, { name: 'Sales Tax', rate: 10 });
     
     expect(totals.subtotal).toBe(250);
     expect(totals.tax).toBe(25);
     expect(totals.total).toBe(275);
   });
 
+  it('should break tax down by rate with per-line overrides', () => {
+    const lineItems = [
+      { description: 'Consulting', quantity: 2, rate: 100 },
+      { description: 'Books', quantity: 1, rate: 50, taxRate: { name: 'Exempt', rate: 0 } },
+      { description: 'Support', quantity: 1, rate: 100 },
+    ];
+
+    const totals = invoiceService.calculateTotals(lineItems, { name: 'VAT', rate: 20 });
+
+    expect(totals.taxBreakdown).toEqual([
+      { name: 'VAT', rate: 20, taxableAmount: 300, tax: 60 },
+      { name: 'Exempt', rate: 0, taxableAmount: 50, tax: 0 },
+    ]);
+    expect(totals.tax).toBe(60);
+    expect(totals.total).toBe(410);
+  });
+
+  it('should apply line and invoice discounts before tax', () => {
+    const lineItems = [
+      { description: 'Design', quantity: 2, rate: 100, discount: { type: 'percentage' as const, value: 10 } },
+      { description: 'Hosting', quantity: 1, rate: 50, discount: { type: 'fixed' as const, value: 20 } },
+    ];
+
+    const totals = invoiceService.calculateTotals(
+      lineItems,
+      { name: 'Sales Tax', rate: 10 },
+      { type: 'fixed', value: 21 }
+    );
+
+    // Lines: 180 + 30 = 210, less 21 = 189 taxable, 10% tax
+    expect(totals.subtotal).toBe(210);
+    expect(totals.discountAmount).toBe(21);
+    expect(totals.tax).toBe(18.9);
+    expect(totals.total).toBe(207.9);
+  });
+
+  it('should never discount more than the amount', () => {
+    const totals = invoiceService.calculateTotals(
+      [{ description: 'Item', quantity: 1, rate: 40, discount: { type: 'fixed', value: 100 } }],
+      { name: 'VAT', rate: 20 }
+    );
+    expect(totals.subtotal).toBe(0);
+    expect(totals.total).toBe(0);
+
+    const result = invoiceService.validate({
+      clientId: 'client_1',
+      issueDate: '2026-01-01',
+      dueDate: '2026-01-31',
+      lineItems: [{ description: 'Item', quantity: 1, rate: 40 }],
+      discount: { type: 'percentage', value: 150 },
+    });
+    expect(result.errors.discount).toBeDefined();
+  });
+
+  it('should default to no tax when no rate is given', () => {
+    const totals = invoiceService.calculateTotals([{ description: 'Item', quantity: 1, rate: 100 }]);
+    expect(totals.tax).toBe(0);
+    expect(totals.total).toBe(100);
+  });
+
   it('should validate invoice input - requires client', () => {
     const result = invoiceService.validate({
       clientId: '',
@@ -214,6 +425,20 @@ describe('Invoice Service', () => {
     expect(invoice.subtotal).toBe(200);
   });
 
+  it('should default the invoice currency to the client currency', () => {
+    const euroClient: Client = { ...mockClient, id: 'client_eur', defaultCurrency: 'EUR' };
+    const input = {
+      clientId: 'client_eur',
+      issueDate: '2026-01-01',
+      dueDate: '2026-01-31',
+      lineItems: [{ description: 'Test Item', quantity: 1, rate: 100 }],
+    };
+
+    expect(invoiceService.create(input, [euroClient]).currency).toBe('EUR');
+    expect(invoiceService.create({ ...input, currency: 'GBP' }, [euroClient]).currency).toBe('GBP');
+    expect(invoiceService.create({ ...input, clientId: 'client_1' }, [mockClient]).currency).toBe('USD');
+  });
+
   it('should mark invoice as paid', () => {
     const invoice = invoiceService.create({
       clientId: 'client_1',
@@ -296,9 +521,539 @@ describe('Invoice Service', () => {
     expect(duplicate.clientId).toBe(original.clientId);
     expect(duplicate.status).toBe('draft');
     expect(duplicate.lineItems).toHaveLength(original.lineItems.length);
+    expect(dates.daysBetween(duplicate.issueDate, duplicate.dueDate)).toBe(30);
+  });
+});
+
+describe('Payment Terms Service', () => {
+  const mockClient: Client = {
+    id: 'client_1',
+    name: 'Test Client',
+    email: 'test@example.com',
+    createdAt: '2026-01-01',
+    defaultPaymentTerms: { type: 'eom', days: 15 },
+  };
+
+  beforeEach(() => {
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+    storage.setClients([mockClient]);
+  });
+
+  it('should derive due dates from terms', () => {
+    expect(paymentTermsService.getDueDate('2026-01-15', { type: 'receipt', days: 0 })).toBe('2026-01-15');
+    expect(paymentTermsService.getDueDate('2026-01-15', { type: 'net', days: 30 })).toBe('2026-02-14');
+    expect(paymentTermsService.getDueDate('2026-01-15', { type: 'eom', days: 0 })).toBe('2026-01-31');
+    expect(paymentTermsService.getDueDate('2026-01-15', { type: 'eom', days: 15 })).toBe('2026-02-15');
+    expect(paymentTermsService.formatTerms({ type: 'eom', days: 15 })).toBe('End of month + 15 days');
+    expect(paymentTermsService.getClientTerms(mockClient)).toEqual({ type: 'eom', days: 15 });
+  });
+
+  it('should set and recalculate the due date of invoices with terms', () => {
+    const original = invoiceService.create({
+      clientId: 'client_1',
+      issueDate: '2026-01-15',
+      dueDate: '',
+      paymentTerms: { type: 'net', days: 7 },
+      lineItems: [{ description: 'Test', quantity: 1, rate: 100 }],
+    }, [mockClient]);
+
+    expect(original.dueDate).toBe('2026-01-22');
+    expect(original.paymentTerms).toEqual({ type: 'net', days: 7 });
+
+    const duplicate = invoiceService.duplicate(original.id, [mockClient]);
+    expect(duplicate.paymentTerms).toEqual({ type: 'net', days: 7 });
+    expect(duplicate.dueDate).toBe(dates.addDays(duplicate.issueDate, 7));
+
+    expect(() => invoiceService.create({
+      clientId: 'client_1',
+      issueDate: '2026-01-15',
+      dueDate: '',
+      paymentTerms: { type: 'net', days: -1 },
+      lineItems: [{ description: 'Test', quantity: 1, rate: 100 }],
+    }, [mockClient])).toThrow('Validation failed');
+  });
+});
+
+describe('Invoice Status Service', () => {
+  const mockClient: Client = {
+    id: 'client_1',
+    name: 'Test Client',
+    email: 'test@example.com',
+    createdAt: '2026-01-01',
+  };
+
+  const invoiceInput = {
+    clientId: 'client_1',
+    issueDate: '2026-01-01',
+    dueDate: '2020-01-31',
+    lineItems: [{ description: 'Work', quantity: 1, rate: 100 }],
+  };
+
+  beforeEach(() => {
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+    storage.setClients([mockClient]);
+  });
+
+  it('should only allow transitions in the table', () => {
+    expect(invoiceStatusService.canTransition('draft', 'sent')).toBe(true);
+    expect(invoiceStatusService.canTransition('overdue', 'paid')).toBe(true);
+    expect(invoiceStatusService.canTransition('paid', 'draft')).toBe(false);
+    expect(invoiceStatusService.canTransition('overdue', 'sent')).toBe(false);
+    expect(() => invoiceService.create({ ...invoiceInput, status: 'overdue' }, [mockClient])).toThrow();
+  });
+
+  it('should reject moving an issued invoice back to draft or resending it', () => {
+    const invoice = invoiceService.create({ ...invoiceInput, status: 'sent' }, [mockClient]);
+    invoiceService.markAsPaid(invoice.id);
+
+    expect(() => invoiceService.update(invoice.id, { ...invoiceInput, status: 'draft' }, [mockClient])).toThrow('Cannot change invoice status');
+    expect(invoiceService.getById(invoice.id)?.status).toBe('paid');
+
+    const overdue = invoiceService.create({ ...invoiceInput, status: 'sent' }, [mockClient]);
+    invoiceService.checkOverdue(invoiceService.getAll());
+    expect(() => invoiceService.markAsSent(overdue.id)).toThrow('Cannot change invoice status');
+  });
+
+  it('should only reach payment statuses through the payments ledger', () => {
+    const invoice = invoiceService.create({ ...invoiceInput, status: 'sent' }, [mockClient]);
+
+    expect(() => invoiceService.update(invoice.id, { ...invoiceInput, status: 'paid' }, [mockClient])).toThrow('by recording payments');
+    expect(() => invoiceService.update(invoice.id, { ...invoiceInput, status: 'partially_paid' }, [mockClient])).toThrow('by recording payments');
+    expect(invoiceService.getById(invoice.id)).toMatchObject({ status: 'sent', amountPaid: 0, balanceDue: 100 });
+
+    // A paid invoice keeps its status when edited
+    invoiceService.markAsPaid(invoice.id);
+    expect(invoiceService.update(invoice.id, { ...invoiceInput, notes: 'Thanks', status: 'paid' }, [mockClient])).toMatchObject({ status: 'paid', amountPaid: 100, balanceDue: 0 });
+  });
+
+  it('should record who changed the status, from which status and why', () => {
+    const invoice = invoiceService.create(invoiceInput, [mockClient], { changedBy: 'ada@example.com' });
+    invoiceService.markAsSent(invoice.id, { changedBy: 'ada@example.com' });
+    invoiceService.checkOverdue(invoiceService.getAll());
+    paymentService.record(invoice.id, { amount: 100, date: '2026-02-01', method: 'cash' });
+
+    const history = invoiceService.getById(invoice.id)?.statusHistory ?? [];
+    expect(history.map(entry => [entry.from, entry.to, entry.changedBy])).toEqual([
+      [null, 'draft', 'ada@example.com'],
+      ['draft', 'sent', 'ada@example.com'],
+      ['sent', 'overdue', 'system'],
+      ['overdue', 'paid', 'user'],
+    ]);
+    expect(history[3].reason).toBe('Payment of $100.00 recorded');
+    expect(history.every(entry => !Number.isNaN(Date.parse(entry.changedAt)))).toBe(true);
+  });
+
+  it('should void an invoice with a reason and keep it out of pending and overdue totals', () => {
+    const invoice = invoiceService.create({ ...invoiceInput, status: 'sent' }, [mockClient]);
+    invoiceService.checkOverdue(invoiceService.getAll());
+
+    expect(() => invoiceService.void(invoice.id, ' ')).toThrow('reason');
+
+    const voided = invoiceService.void(invoice.id, 'Sent to the wrong client');
+    expect(voided).toMatchObject({ status: 'void', invoiceNumber: invoice.invoiceNumber, balanceDue: 0 });
+    expect(invoiceStatusService.getVoidReason(voided)).toBe('Sent to the wrong client');
+    expect(() => paymentService.record(invoice.id, { amount: 10, date: '2026-02-01', method: 'cash' })).toThrow();
+    expect(() => invoiceService.markAsSent(invoice.id)).toThrow('Cannot change invoice status');
+
+    const metrics = metricsService.calculate(invoiceService.getAll(), [mockClient]);
+    expect(metrics).toMatchObject({ pendingAmount: 0, overdueAmount: 0, overdueInvoices: 0, voidInvoices: 1 });
+  });
+
+  it('should not void an invoice with payments', () => {
+    const invoice = invoiceService.create({ ...invoiceInput, status: 'sent' }, [mockClient]);
+    paymentService.record(invoice.id, { amount: 10, date: '2026-02-01', method: 'cash' });
+
+    expect(() => invoiceService.void(invoice.id, 'Duplicate')).toThrow('payments');
+    expect(invoiceService.getById(invoice.id)?.status).toBe('partially_paid');
+  });
+});
+
+describe('Payment Service', () => {
+  const mockClient: Client = {
+    id: 'client_1',
+    name: 'Test Client',
+    email: 'test@example.com',
+    createdAt: '2026-01-01',
+  };
+
+  const createSentInvoice = () => invoiceService.create({
+    clientId: 'client_1',
+    issueDate: '2026-01-01',
+    dueDate: '2099-01-31',
+    lineItems: [{ description: 'Work', quantity: 1, rate: 100 }],
+    status: 'sent',
+  }, [mockClient]);
+
+  beforeEach(() => {
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+    storage.setClients([mockClient]);
+  });
+
+  it('should derive partially paid and paid from recorded payments', () => {
+    const invoice = createSentInvoice();
+
+    const partial = paymentService.record(invoice.id, { amount: 40, date: '2026-01-10', method: 'bank_transfer', reference: 'TX-1' });
+    expect(partial.status).toBe('partially_paid');
+    expect(partial.amountPaid).toBe(40);
+    expect(partial.balanceDue).toBe(60);
+
+    const paid = paymentService.record(invoice.id, { amount: 60, date: '2026-01-20', method: 'card' });
+    expect(paid.status).toBe('paid');
+    expect(paid.balanceDue).toBe(0);
+    expect(paymentService.getByInvoiceId(invoice.id).map(p => p.reference)).toEqual(['TX-1', undefined]);
+  });
+
+  it('should reject payments above the balance due', () => {
+    const invoice = createSentInvoice();
+    expect(() => paymentService.record(invoice.id, { amount: 100.01, date: '2026-01-10', method: 'cash' })).toThrow();
+    expect(paymentService.getAll()).toHaveLength(0);
+  });
+
+  it('should reopen an invoice when its payments are removed', () => {
+    const invoice = createSentInvoice();
+    invoiceService.markAsPaid(invoice.id);
+
+    const [payment] = paymentService.getByInvoiceId(invoice.id);
+    expect(payment.amount).toBe(100);
+
+    const reopened = paymentService.delete(payment.id);
+    expect(reopened.status).toBe('sent');
+    expect(reopened.balanceDue).toBe(100);
+  });
+
+  it('should count only money received as revenue', () => {
+    const invoice = createSentInvoice();
+    paymentService.record(invoice.id, { amount: 25, date: '2026-01-10', method: 'cash' });
+
+    const metrics = metricsService.calculate(invoiceService.getAll(), [mockClient]);
+    expect(metrics.totalRevenue).toBe(25);
+    expect(metrics.pendingAmount).toBe(75);
+    expect(metrics.partiallyPaidInvoices).toBe(1);
+  });
+});
+
+describe('Payment Gateway', () => {
+  const mockClient: Client = {
+    id: 'client_1',
+    name: 'Test Client',
+    email: 'test@example.com',
+    createdAt: '2026-01-01',
+  };
+
+  const card = (number: string) => ({ number, expiry: '12 / 99', cvc: '123', name: 'Test Client' });
+
+  const createSentInvoice = () => invoiceService.create({
+    clientId: 'client_1',
+    issueDate: '2026-01-01',
+    dueDate: '2099-01-31',
+    lineItems: [{ description: 'Work', quantity: 1, rate: 100 }],
+    status: 'sent',
+  }, [mockClient]);
+
+  beforeEach(() => {
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+    storage.setClients([mockClient]);
+  });
+
+  it('should record a payment only when the provider confirms it', async () => {
+    const invoice = createSentInvoice();
+    const intent = await paymentGateway.startPayment(invoice.id);
+    expect(intent.amount).toBe(10000);
+    expect(invoiceService.getById(invoice.id)?.status).toBe('sent');
+
+    const confirmed = await paymentGateway.confirmPayment(intent.id, card(paymentGateway.MOCK_CARDS.success));
+    expect(confirmed.status).toBe('succeeded');
+    expect(invoiceService.getById(invoice.id)?.status).toBe('paid');
+    expect(paymentService.getByInvoiceId(invoice.id)).toMatchObject([{ amount: 100, method: 'card', reference: intent.id }]);
+
+    // A late webhook for the same intent does not record it twice
+    await paymentGateway.handleWebhook({ type: 'payment_intent.succeeded', intentId: intent.id });
+    expect(paymentService.getByInvoiceId(invoice.id)).toHaveLength(1);
+  });
+
+  it('should record a new intent after earlier intents were cleared', async () => {
+    const invoice = createSentInvoice();
+    const first = await paymentGateway.startPayment(invoice.id);
+    storage.setPaymentIntents([]);
+    const second = await paymentGateway.startPayment(invoice.id);
+    expect(second.id).not.toBe(first.id);
+
+    // A payment with a settled intent's ID on another invoice does not count
+    const other = createSentInvoice();
+    paymentService.record(other.id, { amount: 1, date: '2026-01-02', method: 'card', reference: second.id });
+    await paymentGateway.confirmPayment(second.id, card(paymentGateway.MOCK_CARDS.success));
+    expect(invoiceService.getById(invoice.id)?.status).toBe('paid');
+  });
+
+  it('should report a payment the provider took but the ledger could not record', async () => {
+    const invoice = createSentInvoice();
+    const intent = await paymentGateway.startPayment(invoice.id);
+    invoiceService.delete(invoice.id);
+
+    const confirming = paymentGateway.confirmPayment(intent.id, card(paymentGateway.MOCK_CARDS.success));
+    await expect(confirming).rejects.toBeInstanceOf(UnrecordedPaymentError);
+    await expect(confirming).rejects.toMatchObject({ intent: { id: intent.id, status: 'succeeded' } });
+  });
+
+  it('should leave the invoice unpaid when the card is declined', async () => {
+    const invoice = createSentInvoice();
+    const intent = await paymentGateway.startPayment(invoice.id);
+
+    const declined = await paymentGateway.confirmPayment(intent.id, card(paymentGateway.MOCK_CARDS.insufficientFunds));
+    expect(declined.status).toBe('failed');
+    expect(declined.failureReason).toContain('insufficient funds');
+    expect(invoiceService.getById(invoice.id)?.status).toBe('sent');
+    expect(paymentService.getAll()).toHaveLength(0);
+
+    await expect(paymentGateway.confirmPayment(intent.id, card('4242 4242 4242 4241'))).rejects.toThrow('Validation failed');
+  });
+
+  it('should wait for 3-D Secure before recording the payment', async () => {
+    const invoice = createSentInvoice();
+    const intent = await paymentGateway.startPayment(invoice.id);
+
+    const pending = await paymentGateway.confirmPayment(intent.id, card(paymentGateway.MOCK_CARDS.authenticate));
+    expect(pending.status).toBe('requires_action');
+    expect(paymentService.getAll()).toHaveLength(0);
+
+    const completed = await paymentGateway.confirmPayment(intent.id);
+    expect(completed.status).toBe('succeeded');
+    expect(invoiceService.getById(invoice.id)?.status).toBe('paid');
+  });
+
+  it('should refund a card payment and reopen the invoice', async () => {
+    const invoice = createSentInvoice();
+    paymentService.record(invoice.id, { amount: 30, date: '2026-01-10', method: 'cash' });
+
+    const intent = await paymentGateway.startPayment(invoice.id);
+    expect(intent.amount).toBe(7000);
+    await paymentGateway.confirmPayment(intent.id, card(paymentGateway.MOCK_CARDS.success));
+
+    const cardPayment = paymentService.getByInvoiceId(invoice.id).find(p => p.method === 'card')!;
+    const refunded = await paymentGateway.refundPayment(cardPayment.id);
+    expect(refunded.status).toBe('refunded');
+    expect(invoiceService.getById(invoice.id)).toMatchObject({ status: 'partially_paid', balanceDue: 70 });
+  });
+});
+
+describe('Credit Note Service', () => {
+  const mockClient: Client = {
+    id: 'client_1',
+    name: 'Test Client',
+    email: 'test@example.com',
+    createdAt: '2026-01-01',
+  };
+
+  const invoiceInput = {
+    clientId: 'client_1',
+    issueDate: '2026-01-01',
+    dueDate: '2099-01-31',
+    lineItems: [
+      { description: 'Design', quantity: 1, rate: 60 },
+      { description: 'Hosting', quantity: 2, rate: 20 },
+    ],
+    taxRate: { name: 'VAT', rate: 10 },
+    status: 'sent' as const,
+  };
+
+  const creditInput = {
+    issueDate: '2026-02-01',
+    reason: 'Hosting was not used',
+    lineItems: [{ description: 'Hosting', quantity: 1, rate: 20 }],
+  };
+
+  beforeEach(() => {
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+    storage.setClients([mockClient]);
+  });
+
+  it('should issue a numbered credit note with negative lines that reduces the balance due', () => {
+    const invoice = invoiceService.create(invoiceInput, [mockClient]);
+    const creditNote = creditNoteService.create(invoice.id, creditInput);
+
+    expect(creditNote.creditNoteNumber).toMatch(/^CN-\d{4}-001$/);
+    expect(creditNote.invoiceNumber).toBe(invoice.invoiceNumber);
+    expect(creditNote.lineItems[0]).toMatchObject({ quantity: 1, rate: -20, amount: -20 });
+    expect(creditNote).toMatchObject({ subtotal: -20, tax: -2, total: -22 });
+
+    const updated = invoiceService.getById(invoice.id)!;
+    expect(updated.total).toBe(110);
+    expect(updated.creditedAmount).toBe(22);
+    expect(updated.balanceDue).toBe(88);
+    expect(invoiceService.getClientBalance('client_1')).toEqual({ USD: 88 });
+
+    // The invoice series is not affected
+    expect(invoiceService.create(invoiceInput, [mockClient]).invoiceNumber).toMatch(/-002$/);
+  });
+
+  it('should count credit notes on paid invoices as negative revenue', () => {
+    const invoice = invoiceService.create(invoiceInput, [mockClient]);
+    invoiceService.markAsPaid(invoice.id);
+    creditNoteService.create(invoice.id, creditInput);
+
+    const metrics = metricsService.calculate(invoiceService.getAll(), [mockClient]);
+    expect(metrics.totalRevenue).toBe(88);
+    expect(metrics.creditAdjustment).toBe(-22);
+    expect(invoiceService.getClientBalance('client_1')).toEqual({ USD: -22 });
+  });
+
+  it('should not credit drafts or more than the invoice total', () => {
+    const draft = invoiceService.create({ ...invoiceInput, status: 'draft' }, [mockClient]);
+    expect(() => creditNoteService.create(draft.id, creditInput)).toThrow('Validation failed');
+
+    const invoice = invoiceService.create(invoiceInput, [mockClient]);
+    creditNoteService.create(invoice.id, { ...creditInput, lineItems: invoiceInput.lineItems });
+    expect(invoiceService.getById(invoice.id)).toMatchObject({ status: 'paid', balanceDue: 0, creditedAmount: 110 });
+    expect(() => creditNoteService.create(invoice.id, creditInput)).toThrow('Validation failed');
+  });
+
+  it('should keep credited invoices from being rewritten or deleted', () => {
+    const invoice = invoiceService.create(invoiceInput, [mockClient]);
+    creditNoteService.create(invoice.id, creditInput);
+
+    expect(() => invoiceService.update(invoice.id, { ...invoiceInput, lineItems: [{ description: 'Design', quantity: 1, rate: 10 }] }, [mockClient])).toThrow();
+    expect(invoiceService.update(invoice.id, { ...invoiceInput, notes: 'Thanks' }, [mockClient]).balanceDue).toBe(88);
+    expect(() => invoiceService.delete(invoice.id)).toThrow();
+  });
+});
+
+describe('Quote Service', () => {
+  const mockClient: Client = {
+    id: 'client_1',
+    name: 'Test Client',
+    email: 'test@example.com',
+    createdAt: '2026-01-01',
+  };
+
+  const quoteInput = {
+    clientId: 'client_1',
+    issueDate: '2026-01-01',
+    expiryDate: '2099-01-31',
+    lineItems: [{ description: 'Website redesign', quantity: 1, rate: 1000 }],
+    taxRate: { name: 'VAT', rate: 10 },
+    status: 'sent' as const,
+  };
+
+  beforeEach(() => {
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+    storage.setClients([mockClient]);
+  });
+
+  it('should number quotes in their own series and calculate them like invoices', () => {
+    const quote = quoteService.create(quoteInput, [mockClient]);
+
+    expect(quote.quoteNumber).toMatch(/^QUO-\d{4}-001$/);
+    expect(quote).toMatchObject({ status: 'sent', subtotal: 1000, tax: 100, total: 1100 });
+    expect(invoiceService.create({ ...quoteInput, dueDate: '2099-01-31', status: 'draft' }, [mockClient]).invoiceNumber).toMatch(/^INV-\d{4}-001$/);
+  });
+
+  it('should convert an accepted quote into a linked draft invoice once', () => {
+    const quote = quoteService.create(quoteInput, [mockClient]);
+    expect(quoteService.accept(quote.id, { name: 'Jane Client' })).toMatchObject({ status: 'accepted', respondedBy: 'Jane Client' });
+
+    const invoice = quoteService.convertToInvoice(quote.id, [mockClient]);
+    expect(invoice).toMatchObject({ status: 'draft', quoteId: quote.id, total: 1100 });
+    expect(invoice.lineItems[0].description).toBe('Website redesign');
+    expect(quoteService.getById(quote.id)?.invoiceId).toBe(invoice.id);
+    expect(() => quoteService.convertToInvoice(quote.id, [mockClient])).toThrow('already been converted');
+    expect(() => quoteService.delete(quote.id)).toThrow();
+  });
+
+  it('should expire sent quotes that were not answered in time', () => {
+    const quote = quoteService.create({ ...quoteInput, expiryDate: '2026-01-15' }, [mockClient]);
+
+    expect(() => quoteService.accept(quote.id, { name: 'Jane Client' })).toThrow('expired');
+    expect(quoteService.getById(quote.id)?.status).toBe('expired');
+    expect(() => quoteService.convertToInvoice(quote.id, [mockClient])).toThrow('Only accepted quotes');
+
+    // Sending it again needs a new expiry date
+    expect(() => quoteService.update(quote.id, { ...quoteInput, expiryDate: '2026-01-15' }, [mockClient])).toThrow('expiry date in the future');
+    expect(quoteService.update(quote.id, quoteInput, [mockClient]).status).toBe('sent');
+  });
+
+  it('should only accept or decline sent quotes', () => {
+    const draft = quoteService.create({ ...quoteInput, status: 'draft' }, [mockClient]);
+    expect(() => quoteService.accept(draft.id, { name: 'Jane Client' })).toThrow();
+
+    quoteService.markAsSent(draft.id);
+    expect(quoteService.decline(draft.id, { name: 'Jane Client', reason: 'Too expensive' })).toMatchObject({ status: 'declined', declineReason: 'Too expensive' });
+    expect(() => quoteService.accept(draft.id, { name: 'Jane Client' })).toThrow('already been declined');
   });
 });
 
+describe('Recurring Service', () => {
+  const mockClient: Client = {
+    id: 'client_1',
+    name: 'Test Client',
+    email: 'test@example.com',
+    createdAt: '2026-01-01',
+  };
+
+  const profileInput = {
+    name: 'Monthly retainer',
+    template: {
+      clientId: 'client_1',
+      lineItems: [{ description: 'Retainer {{month}} {{year}}', quantity: 1, rate: 500 }],
+      dueInDays: 14,
+    },
+    frequency: 'monthly' as const,
+    startDate: '2026-01-31',
+  };
+
+  beforeEach(() => {
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+    storage.setClients([mockClient]);
+  });
+
+  it('should catch up on every missed run exactly once', () => {
+    const profile = recurringService.create(profileInput);
+
+    const [result] = recurringService.generateDue([mockClient], '2026-04-15');
+    expect(result.invoices.map(invoice => invoice.issueDate)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+    expect(result.invoices[1]).toMatchObject({ status: 'draft', dueDate: '2026-03-14', recurringProfileId: profile.id });
+    expect(result.invoices[1].lineItems[0].description).toBe('Retainer February 2026');
+
+    // Running again generates nothing new, the next run follows on
+    expect(recurringService.generateDue([mockClient], '2026-04-15')[0].invoices).toHaveLength(0);
+    expect(recurringService.generateDue([mockClient], '2026-04-30')[0].invoices.map(invoice => invoice.issueDate)).toEqual(['2026-04-30']);
+    expect(recurringService.getById(profile.id)).toMatchObject({ runCount: 4, lastRunDate: '2026-04-30', nextRunDate: '2026-05-31' });
+    expect(invoiceService.getAll()).toHaveLength(4);
+  });
+
+  it('should not issue a run twice when its invoice exists but the profile was not saved', () => {
+    const profile = recurringService.create(profileInput);
+    recurringService.generateDue([mockClient], '2026-01-31');
+    storage.setRecurringProfiles([{ ...recurringService.getById(profile.id)!, runCount: 0 }]);
+
+    expect(recurringService.generateDue([mockClient], '2026-02-28')[0].invoices.map(invoice => invoice.recurringPeriod)).toEqual(['2026-02-28']);
+    expect(invoiceService.getAll()).toHaveLength(2);
+  });
+
+  it('should stop after the run limit and send automatically', () => {
+    const profile = recurringService.create({ ...profileInput, frequency: 'custom', interval: { count: 2, unit: 'week' }, startDate: '2026-01-05', maxRuns: 3, autoSend: true });
+
+    const [result] = recurringService.generateDue([mockClient], '2026-12-31');
+    expect(result.invoices.map(invoice => invoice.issueDate)).toEqual(['2026-01-05', '2026-01-19', '2026-02-02']);
+    expect(result.invoices.every(invoice => invoice.status === 'sent')).toBe(true);
+    expect(result.invoices[0].statusHistory?.[0]).toMatchObject({ changedBy: 'system' });
+    expect(recurringService.getById(profile.id)?.nextRunDate).toBeNull();
+  });
+
+  it('should skip paused profiles until they are resumed', () => {
+    const profile = recurringService.create({ ...profileInput, active: false });
+    expect(recurringService.generateDue([mockClient], '2026-03-31')[0]).toBeUndefined();
+
+    recurringService.setActive(profile.id, true);
+    expect(recurringService.generateDue([mockClient], '2026-03-31')[0].invoices).toHaveLength(3);
+  });
+});
 
 describe('Metrics Service', () => {
   it('should calculate metrics correctly', () => {
@@ -346,6 +1101,54 @@ describe('Metrics Service', () => {
     expect(metrics.draftInvoices).toBe(1);
   });
 
+  it('should keep amounts in different currencies apart', () => {
+    const client: Client = { id: '1', name: 'Client 1', email: 'c1@example.com', createdAt: '2026-01-01' };
+    const base = {
+      clientId: '1', client, issueDate: '2026-01-01', dueDate: '2026-01-31',
+      lineItems: [], subtotal: 0, tax: 0, createdAt: '2026-01-01',
+    };
+    const invoices: Invoice[] = [
+      { ...base, id: 'inv1', invoiceNumber: 'INV-2026-001', status: 'paid', currency: 'EUR', total: 100 },
+      { ...base, id: 'inv2', invoiceNumber: 'INV-2026-002', status: 'paid', currency: 'EUR', total: 50 },
+      { ...base, id: 'inv3', invoiceNumber: 'INV-2026-003', status: 'paid', currency: 'USD', total: 1000 },
+      { ...base, id: 'inv4', invoiceNumber: 'INV-2026-004', status: 'sent', total: 20 },
+    ];
+
+    const metrics = metricsService.calculate(invoices, [client]);
+
+    expect(metrics.currency).toBe('EUR');
+    expect(metrics.totalRevenue).toBe(150);
+    expect(metrics.paidInvoices).toBe(3);
+    expect(metrics.amountsByCurrency).toEqual([
+      { currency: 'EUR', totalRevenue: 150, creditAdjustment: 0, pendingAmount: 0, overdueAmount: 0, invoiceCount: 2 },
+      { currency: 'USD', totalRevenue: 1000, creditAdjustment: 0, pendingAmount: 20, overdueAmount: 0, invoiceCount: 2 },
+    ]);
+  });
+
+  it('should calculate the same metrics from amounts summed by currency and status', () => {
+    const client: Client = { id: '1', name: 'Client 1', email: 'c1@example.com', createdAt: '2026-01-01' };
+    const base = {
+      clientId: '1', client, issueDate: '2026-01-01', dueDate: '2026-01-31',
+      lineItems: [], subtotal: 0, tax: 0, createdAt: '2026-01-01', currency: 'EUR',
+    };
+    const invoices: Invoice[] = [
+      { ...base, id: 'inv1', invoiceNumber: 'INV-2026-001', status: 'paid', total: 100.1, amountPaid: 100.1, balanceDue: 0 },
+      { ...base, id: 'inv2', invoiceNumber: 'INV-2026-002', status: 'paid', total: 50, amountPaid: 50, creditedAmount: 20, balanceDue: 0 },
+      { ...base, id: 'inv3', invoiceNumber: 'INV-2026-003', status: 'sent', total: 30.2, amountPaid: 0, balanceDue: 30.2 },
+      { ...base, id: 'inv4', invoiceNumber: 'INV-2026-004', status: 'sent', total: 10, amountPaid: 0, balanceDue: 10 },
+    ];
+
+    // As invoice_metrics() returns them
+    const metrics = metricsService.summarizeTotals([
+      { currency: 'EUR', status: 'paid', invoiceCount: 2, amountPaid: 150.1, balanceDue: 0, refundDue: 20 },
+      { currency: 'EUR', status: 'sent', invoiceCount: 2, amountPaid: 0, balanceDue: 40.2, refundDue: 0 },
+    ], 1);
+
+    expect(metrics).toEqual(metricsService.calculate(invoices, [client]));
+    expect(metrics).toMatchObject({ totalRevenue: 130.1, creditAdjustment: -20, pendingAmount: 40.2, paidInvoices: 2, pendingInvoices: 2 });
+    expect(metricsService.toStatusCounts(metrics)).toEqual({ all: 4, draft: 0, sent: 2, partially_paid: 0, paid: 2, overdue: 0, void: 0 });
+  });
+
   it('should return empty metrics for empty data', () => {
     const metrics = metricsService.calculate([], []);
     expect(metrics.totalRevenue).toBe(0);
@@ -421,3 +1224,698 @@ describe('Recent Items Service', () => {
     expect(recent).toHaveLength(4);
   });
 });
+
+describe('Backup Service', () => {
+  const lineItems = [{ description: 'Design', quantity: 2, rate: 100 }];
+
+  beforeEach(() => {
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+  });
+
+  it('should restore an exported workspace in replace mode', async () => {
+    const client = clientService.create({ name: 'Backup Client', email: 'backup@example.com' });
+    const invoice = invoiceService.create({ clientId: client.id, issueDate: '2026-01-01', dueDate: '2026-01-31', lineItems }, [client]);
+    const archive = await backupService.exportLocal();
+    expect(archive).toMatchObject({ format: 'invoicey-backup', version: 1 });
+
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+    clientService.create({ name: 'Other Client', email: 'other@example.com' });
+
+    const result = await backupService.restoreLocal(archive, 'replace');
+    expect(result.preview.counts.clients).toEqual({ create: 1, update: 0, remove: 1 });
+
+    const [restoredClient] = storage.getClients();
+    const [restoredInvoice] = storage.getInvoices();
+    expect(storage.getClients()).toHaveLength(1);
+    expect(restoredClient.email).toBe('backup@example.com');
+    expect(restoredInvoice).toMatchObject({ invoiceNumber: invoice.invoiceNumber, clientId: restoredClient.id, total: 200 });
+    expect(invoiceNumberGenerator.getCounterData()?.sequence).toBe(1);
+  });
+
+  it('should preview a merge and match clients by email and invoices by number', async () => {
+    const client = clientService.create({ name: 'Merge Client', email: 'merge@example.com' });
+    const first = invoiceService.create({ clientId: client.id, issueDate: '2026-01-01', dueDate: '2026-01-31', lineItems }, [client]);
+    invoiceService.create({ clientId: client.id, issueDate: '2026-01-02', dueDate: '2026-02-01', lineItems }, [client]);
+    const archive = await backupService.exportLocal();
+
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+    const existing = clientService.create({ name: 'Renamed', email: 'MERGE@example.com' });
+    invoiceService.create({ clientId: existing.id, issueDate: '2026-01-01', dueDate: '2026-01-31', lineItems }, [existing]);
+
+    const dryRun = await backupService.restoreLocal(archive, 'merge', { dryRun: true });
+    expect(dryRun.preview.counts).toEqual({
+      clients: { create: 0, update: 1, remove: 0 },
+      invoices: { create: 1, update: 1, remove: 0 },
+    });
+    expect(storage.getClients()[0].name).toBe('Renamed');
+
+    await backupService.restoreLocal(archive, 'merge');
+    const invoices = storage.getInvoices();
+    expect(storage.getClients()).toEqual([expect.objectContaining({ id: existing.id, name: 'Merge Client' })]);
+    expect(invoices).toHaveLength(2);
+    expect(invoices.every(invoice => invoice.clientId === existing.id)).toBe(true);
+    expect(invoices.some(invoice => invoice.id === first.id)).toBe(false);
+    expect(invoiceNumberGenerator.getCounterData()?.sequence).toBe(2);
+  });
+
+  it('should reject a backup that was changed after export', async () => {
+    clientService.create({ name: 'Tampered', email: 'tampered@example.com' });
+    const archive = await backupService.exportLocal();
+    const changed = JSON.stringify({ ...archive, data: { ...archive.data, clients: [] } });
+
+    await expect(backupService.parseArchive(changed)).rejects.toThrow('checksum');
+    await expect(backupService.parseArchive('not json')).rejects.toThrow('not an Invoicey backup');
+    await expect(backupService.parseArchive(JSON.stringify(archive))).resolves.toEqual(archive);
+  });
+});
+
+describe('Offline Service', () => {
+  const userId = 'user_1';
+
+  class ConflictError extends Error {
+    constructor(readonly serverVersion: string) {
+      super('Version conflict');
+    }
+  }
+
+  // Records what was sent; creates get server IDs
+  const createTransport = (fail: (entry: OutboxEntry) => Error | undefined = () => undefined) => {
+    const sent: OutboxEntry[] = [];
+    const transport: OutboxTransport = {
+      send: async (entry) => {
+        const error = fail(entry);
+        if (error) throw error;
+        sent.push(entry);
+        if (entry.operation === 'delete') return undefined;
+        return { id: entry.operation === 'create' ? `server_${sent.length}` : entry.targetId, version: `2026-06-0${sent.length}T00:00:00Z` };
+      },
+      isNetworkError: (error) => error instanceof TypeError,
+      getConflictVersion: (error) => (error instanceof ConflictError ? error.serverVersion : undefined),
+    };
+    return { transport, sent };
+  };
+
+  beforeEach(() => {
+    offlineService.reset();
+  });
+
+  it('should replay queued changes in order and remap temporary IDs', async () => {
+    const clientId = offlineService.createTempId('client');
+    const invoiceId = offlineService.createTempId('invoice');
+    offlineService.enqueue({ userId, entity: 'client', operation: 'create', targetId: clientId, args: [{ name: 'Offline' }], record: { id: clientId } });
+    offlineService.enqueue({ userId, entity: 'invoice', operation: 'create', targetId: invoiceId, args: [{ clientId }], record: { id: invoiceId, clientId } });
+    offlineService.enqueue({ userId, entity: 'invoice', operation: 'markAsPaid', targetId: invoiceId, args: [] });
+    offlineService.enqueue({ userId: 'user_2', entity: 'client', operation: 'delete', targetId: 'client_9', args: [] });
+
+    const { transport, sent } = createTransport();
+    const result = await offlineService.replay(userId, transport);
+
+    expect(result).toEqual({ synced: 3, failed: 0, conflicts: 0, remaining: 0, offline: false });
+    expect(sent[1].args).toEqual([{ clientId: 'server_1' }]);
+    expect(sent[2]).toMatchObject({ targetId: 'server_2', baseVersion: '2026-06-02T00:00:00Z' });
+    expect(offlineService.getEntries('user_2')).toHaveLength(1);
+  });
+
+  it('should create records queued offline with the ID their temporary ID holds', () => {
+    const clientId = offlineService.createTempId('client');
+    const id = offlineService.getCreateId(clientId);
+
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    expect(clientId).toBe(`temp_client_${id}`);
+    expect(offlineService.getCreateId(offlineService.createTempId('client'))).not.toBe(id);
+    // Queued before temporary IDs held one: created with an ID the server assigns
+    expect(offlineService.getCreateId('temp_client_1760000000000_abc1234')).toBeUndefined();
+  });
+
+  it('should keep changes queued while offline and hold changes after a rejected one', async () => {
+    offlineService.enqueue({ userId, entity: 'client', operation: 'update', targetId: 'client_1', args: [{ name: '' }] });
+    offlineService.enqueue({ userId, entity: 'client', operation: 'delete', targetId: 'client_1', args: [] });
+    offlineService.enqueue({ userId, entity: 'invoice', operation: 'markAsSent', targetId: 'invoice_1', args: [] });
+
+    const offline = createTransport(() => new TypeError('Failed to fetch'));
+    expect(await offlineService.replay(userId, offline.transport)).toMatchObject({ synced: 0, remaining: 3, offline: true });
+    expect(offlineService.getStatuses(userId)).toEqual({ client_1: 'pending', invoice_1: 'pending' });
+
+    const rejecting = createTransport((entry) => (entry.operation === 'update' ? new Error('Name is required') : undefined));
+    expect(await offlineService.replay(userId, rejecting.transport)).toMatchObject({ synced: 1, failed: 1, remaining: 2 });
+    expect(rejecting.sent.map(entry => entry.operation)).toEqual(['markAsSent']);
+
+    const [failed] = offlineService.getEntries(userId);
+    expect(failed).toMatchObject({ status: 'failed', error: 'Name is required', attempts: 2 });
+    offlineService.discard(failed.id);
+    expect(offlineService.getStatuses(userId)).toEqual({ client_1: 'pending' });
+  });
+
+  it('should resolve version conflicts by updated_at', async () => {
+    offlineService.enqueue({ userId, entity: 'client', operation: 'update', targetId: 'client_1', args: [{}], baseVersion: '2026-01-01T00:00:00Z' });
+    offlineService.enqueue({ userId, entity: 'client', operation: 'update', targetId: 'client_2', args: [{}], baseVersion: '2026-01-01T00:00:00Z' });
+
+    // The server changed client_1 before and client_2 after the changes were queued
+    const { transport, sent } = createTransport((entry) => {
+      if (entry.force) return undefined;
+      return new ConflictError(entry.targetId === 'client_1' ? '2026-01-02T00:00:00Z' : '2999-01-01T00:00:00Z');
+    });
+    const result = await offlineService.replay(userId, transport);
+
+    expect(result).toMatchObject({ synced: 1, conflicts: 1, remaining: 1 });
+    expect(sent).toEqual([expect.objectContaining({ targetId: 'client_1', force: true })]);
+
+    const [conflict] = offlineService.getEntries(userId);
+    expect(conflict).toMatchObject({ targetId: 'client_2', status: 'conflict' });
+    offlineService.retry(conflict.id, true);
+    expect(await offlineService.replay(userId, transport)).toMatchObject({ synced: 1, remaining: 0 });
+  });
+
+  // A transport whose sends wait until the test lets them through
+  const createSlowTransport = () => {
+    const { transport, sent } = createTransport();
+    let release = () => {};
+    const released = new Promise<void>(resolve => { release = resolve; });
+    let started = () => {};
+    const sending = new Promise<void>(resolve => { started = resolve; });
+    const send: OutboxTransport['send'] = async (entry) => {
+      started();
+      await released;
+      return transport.send(entry);
+    };
+    return { transport: { ...transport, send }, sent, sending, release };
+  };
+
+  // Another tab has its own copy of the service over the same localStorage
+  const openOtherTab = async () => {
+    vi.resetModules();
+    return (await import('../src/services/offlineService')).offlineService;
+  };
+
+  it('should send each queued change once while another tab holds the outbox lock', async () => {
+    const held = new Set<string>();
+    const locks = {
+      request: async (name: string, _options: LockOptions, callback: (lock: Lock | null) => Promise<unknown>) => {
+        if (held.has(name)) return callback(null);
+        held.add(name);
+        try {
+          return await callback({ name, mode: 'exclusive' });
+        } finally {
+          held.delete(name);
+        }
+      },
+    };
+    vi.stubGlobal('navigator', { locks });
+    const otherTab = await openOtherTab();
+
+    // A change left syncing by a tab that closed is sent again
+    offlineService.enqueue({ userId, entity: 'client', operation: 'delete', targetId: 'client_1', args: [] });
+    const [orphan] = offlineService.getEntries(userId);
+    storage.set(offlineService.OUTBOX_STORAGE_KEY, [{ ...orphan, status: 'syncing' }]);
+    offlineService.enqueue({ userId, entity: 'client', operation: 'delete', targetId: 'client_2', args: [] });
+
+    const slow = createSlowTransport();
+    const replaying = offlineService.replay(userId, slow.transport);
+    await slow.sending;
+    expect(held.has(offlineService.REPLAY_LOCK_NAME)).toBe(true);
+
+    const other = createTransport();
+    expect(await otherTab.replay(userId, other.transport)).toMatchObject({ synced: 0, remaining: 2 });
+    expect(other.sent).toEqual([]);
+
+    slow.release();
+    expect(await replaying).toMatchObject({ synced: 2, remaining: 0 });
+    expect(slow.sent.map(entry => entry.targetId)).toEqual(['client_1', 'client_2']);
+    vi.unstubAllGlobals();
+  });
+
+  it('should renew the storage lease while a change is in flight without Web Locks', async () => {
+    vi.useFakeTimers();
+    const otherTab = await openOtherTab();
+    offlineService.enqueue({ userId, entity: 'client', operation: 'delete', targetId: 'client_1', args: [] });
+
+    // The send takes longer than the lease lasts
+    const slow = createSlowTransport();
+    const replaying = offlineService.replay(userId, slow.transport);
+    await slow.sending;
+    vi.advanceTimersByTime(offlineService.REPLAY_LEASE_MS * 2);
+
+    const other = createTransport();
+    expect(await otherTab.replay(userId, other.transport)).toMatchObject({ synced: 0, remaining: 1 });
+    expect(other.sent).toEqual([]);
+
+    slow.release();
+    expect(await replaying).toMatchObject({ synced: 1, remaining: 0 });
+    expect(storage.get(offlineService.REPLAY_LEASE_STORAGE_KEY)).toBeNull();
+    vi.useRealTimers();
+
+    // A change left syncing by a tab that closed is sent once its lease runs out
+    offlineService.enqueue({ userId, entity: 'client', operation: 'delete', targetId: 'client_2', args: [] });
+    const [orphan] = offlineService.getEntries(userId);
+    storage.set(offlineService.OUTBOX_STORAGE_KEY, [{ ...orphan, status: 'syncing' }]);
+    storage.set(offlineService.REPLAY_LEASE_STORAGE_KEY, { owner: 'closed_tab', expiresAt: Date.now() - 1 });
+    expect(await otherTab.replay(userId, other.transport)).toMatchObject({ synced: 1, remaining: 0 });
+  });
+
+  it('should report a change the outbox could not keep', () => {
+    const adapter = storageAdapters.createMemory();
+    const setItem = adapter.setItem.bind(adapter);
+    let full = false;
+    adapter.setItem = (key, value) => {
+      if (full) throw new Error('The quota has been exceeded.');
+      setItem(key, value);
+    };
+    storage.setAdapter(adapter);
+
+    offlineService.enqueue({ userId, entity: 'client', operation: 'delete', targetId: 'client_1', args: [] });
+    full = true;
+    expect(() => offlineService.enqueue({ userId, entity: 'client', operation: 'delete', targetId: 'client_2', args: [] }))
+      .toThrow(OutboxStorageError);
+    expect(offlineService.getEntries(userId).map(entry => entry.targetId)).toEqual(['client_1']);
+    storage.setAdapter(storageAdapters.createLocalStorage());
+  });
+
+  it('should show queued changes on loaded records', () => {
+    const clientId = offlineService.createTempId('client');
+    offlineService.enqueue({ userId, entity: 'client', operation: 'create', targetId: clientId, args: [], record: { id: clientId, name: 'New' } });
+    offlineService.enqueue({ userId, entity: 'client', operation: 'update', targetId: 'client_1', args: [], record: { id: 'client_1', name: 'Renamed' } });
+    offlineService.enqueue({ userId, entity: 'client', operation: 'delete', targetId: 'client_2', args: [] });
+
+    const loaded = [{ id: 'client_1', name: 'Old' }, { id: 'client_2', name: 'Deleted' }];
+    expect(offlineService.applyPending(loaded, 'client', userId)).toEqual([
+      { id: clientId, name: 'New' },
+      { id: 'client_1', name: 'Renamed' },
+    ]);
+
+    // A record deleted before it was synced never reaches the server
+    expect(offlineService.enqueue({ userId, entity: 'client', operation: 'delete', targetId: clientId, args: [] })).toBeNull();
+    expect(offlineService.getEntries(userId).map(entry => entry.targetId)).toEqual(['client_1', 'client_2']);
+
+    offlineService.saveSnapshot(userId, { clients: loaded });
+    expect(offlineService.getSnapshot(userId)?.data).toEqual({ clients: loaded });
+    expect(offlineService.getSnapshot('user_2')).toBeNull();
+  });
+});
+
+describe('Import Service', () => {
+  const lineItems = [{ description: 'Design', quantity: 2, rate: 100 }];
+  const format = invoiceNumberGenerator.DEFAULT_NUMBER_FORMAT;
+
+  beforeEach(() => {
+    storage.clearAll();
+    invoiceNumberGenerator.reset();
+  });
+
+  it('should plan an import that keeps numbers and moves the counter past them', () => {
+    expect(importService.getLocalData()).toBeNull();
+
+    const client = clientService.create({ name: 'Local Client', email: 'local@example.com' });
+    const invoices = [1, 2, 3].map(day => invoiceService.create({ clientId: client.id, issueDate: `2026-01-0${day}`, dueDate: '2026-01-31', lineItems }, [client]));
+    const local = importService.getLocalData();
+    expect(local?.invoices).toHaveLength(3);
+
+    const account = { clients: [], invoices: [], counters: {}, numberFormat: { ...format, reset: 'never' as const } };
+    const plan = importService.planImport(local!, account);
+    expect(plan.clients.map(step => step.action)).toEqual(['create']);
+    expect(plan.invoices.map(step => step.record.invoiceNumber)).toEqual(invoices.map(invoice => invoice.invoiceNumber));
+    // An empty account takes the local number format
+    expect(plan.numberFormat).toEqual(format);
+    expect(plan.counters.invoice).toEqual({ period: '2026', sequence: 3 });
+
+    const report = importService.summarize(plan, account.numberFormat);
+    expect(report.counts.invoices).toEqual({ create: 3, link: 0, skip: 0, conflict: 0 });
+    expect(report.numberFormatChanged).toBe(true);
+  });
+
+  it('should skip what was imported before and report conflicting numbers', () => {
+    const client = clientService.create({ name: 'Local Client', email: 'local@example.com' });
+    clientService.create({ name: 'Same Email', email: 'LOCAL@example.com ' });
+    const [imported, clashing, added] = [1, 2, 3].map(day => invoiceService.create({ clientId: client.id, issueDate: `2026-01-0${day}`, dueDate: '2026-01-31', lineItems }, [client]));
+    const local = importService.getLocalData()!;
+
+    const accountClient = { ...client, id: 'account_client' };
+    const account = {
+      clients: [accountClient],
+      invoices: [
+        { ...imported, id: 'account_1', clientId: accountClient.id },
+        { ...clashing, id: 'account_2', clientId: accountClient.id, total: 999 },
+      ],
+      counters: { invoice: { period: '2026', sequence: 2 } },
+      numberFormat: format,
+    };
+
+    const plan = importService.planImport(local, account);
+    expect(plan.clients.map(step => [step.action, step.targetId])).toEqual([['link', 'account_client'], ['skip', undefined]]);
+    expect(plan.invoices.map(step => step.action)).toEqual(['skip', 'conflict', 'create']);
+    expect(plan.invoices[0].reason).toBe('Already in your account');
+    expect(plan.invoices[2].record.id).toBe(added.id);
+    expect(plan.counters.invoice).toEqual({ period: '2026', sequence: 3 });
+
+    expect(importService.shouldOffer('user_1')).toBe(true);
+    importService.setRecord('user_1', 'dismissed');
+    expect(importService.shouldOffer('user_1')).toBe(false);
+    expect(importService.shouldOffer('user_2')).toBe(true);
+    expect(importService.getRecord('user_1')?.status).toBe('dismissed');
+  });
+});
+
+describe('Change Feed', () => {
+  beforeEach(() => {
+    storage.clearAll();
+  });
+
+  it('should emit a reload when a collection is written in this tab', () => {
+    const changes: DataChange[] = [];
+    const unsubscribe = changeFeed.subscribe(change => changes.push(change));
+
+    clientService.create({ name: 'Feed Client', email: 'feed@example.com' });
+    storage.set('invoicey_unrelated', true);
+    unsubscribe();
+    storage.setInvoices([]);
+
+    expect(changes).toEqual([expect.objectContaining({ entity: 'client', type: 'reload', origin: changeFeed.tabId })]);
+    expect(changeFeed.isExternal(changes[0])).toBe(false);
+  });
+
+  it('should emit changes other tabs made to localStorage', () => {
+    const changes: DataChange[] = [];
+    const unsubscribe = changeFeed.subscribe(change => changes.push(change));
+
+    storage.handleStorageEvent(storage.STORAGE_KEYS.INVOICES);
+    storage.handleStorageEvent('invoicey_unrelated');
+    expect(changes).toEqual([expect.objectContaining({ entity: 'invoice', type: 'reload', origin: changeFeed.EXTERNAL_ORIGIN })]);
+    expect(changeFeed.isExternal(changes[0])).toBe(true);
+
+    // Cleared by another tab
+    storage.handleStorageEvent(null);
+    expect(changes).toHaveLength(1 + Object.keys(storage.STORAGE_KEYS).length);
+    unsubscribe();
+  });
+
+  it('should send published changes to the other tabs', async () => {
+    const thisTab = changeFeed.createChangeFeed('invoicey_changes_test');
+    const otherTab = changeFeed.createChangeFeed('invoicey_changes_test');
+    const local: DataChange[] = [];
+    thisTab.subscribe(change => local.push(change));
+
+    try {
+      const received = new Promise<DataChange>(resolve => otherTab.subscribe(resolve));
+      const published = thisTab.publish({ entity: 'invoice', type: 'update', id: 'invoice_1', record: { id: 'invoice_1', status: 'paid' } });
+
+      expect(local).toEqual([published]);
+      const change = await received;
+      expect(change).toEqual(published);
+      expect(otherTab.isExternal(change)).toBe(true);
+      expect(thisTab.isExternal(change)).toBe(false);
+    } finally {
+      thisTab.close();
+      otherTab.close();
+    }
+  });
+});
+
+describe('Live Merge', () => {
+  type LiveInvoice = Invoice & { updatedAt: string };
+
+  // A change source fed by the test
+  const createSource = () => {
+    const listeners = new Set<(change: LiveChange) => void>();
+    const source: LiveChangeSource = {
+      subscribe(listener) {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+      },
+    };
+    return { source, emit: (change: LiveChange) => listeners.forEach(listener => listener(change)) };
+  };
+
+  const createStore = (clients: Client[], invoices: LiveInvoice[]) => {
+    const state = { clients, invoices, external: [] as string[] };
+    const connect = (source: LiveChangeSource) => liveMerge.connect<Client, Invoice['lineItems'][number], LiveInvoice>(source, {
+      getClients: () => state.clients,
+      getInvoices: () => state.invoices,
+      setClients: update => { state.clients = update(state.clients); },
+      setInvoices: update => { state.invoices = update(state.invoices); },
+      merged: (change, external) => { if (external) state.external.push(change.id); },
+    });
+    return { state, connect };
+  };
+
+  const client: Client = { id: 'client_1', name: 'Live Client', email: 'live@example.com', createdAt: '2026-01-01' };
+  const invoice: LiveInvoice = {
+    id: 'invoice_1',
+    invoiceNumber: 'INV-2026-001',
+    clientId: 'client_1',
+    client,
+    status: 'sent',
+    issueDate: '2026-01-01',
+    dueDate: '2026-01-31',
+    lineItems: [{ id: 'item_1', description: 'Design', quantity: 1, rate: 100, amount: 100 }],
+    subtotal: 100,
+    tax: 0,
+    total: 100,
+    statusHistory: [{ from: null, to: 'sent', changedBy: 'user', changedAt: '2026-01-01T00:00:00Z' }],
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T10:00:00.000001+00:00',
+  };
+
+  it('should merge inserts, updates and deletes from a change source', () => {
+    const { source, emit } = createSource();
+    const { state, connect } = createStore([client], [invoice]);
+    const disconnect = connect(source);
+
+    // Paid elsewhere: the row has no line items, history or client
+    const row = { ...invoice, status: 'paid' as const, amountPaid: 100, balanceDue: 0, lineItems: [], statusHistory: [], client: undefined as unknown as Client, updatedAt: '2026-01-01 10:05:00.5+00' };
+    emit({ table: 'invoices', type: 'UPDATE', id: invoice.id, record: row });
+    expect(state.invoices[0]).toMatchObject({ status: 'paid', client, lineItems: invoice.lineItems, statusHistory: invoice.statusHistory });
+
+    emit({ table: 'line_items', type: 'INSERT', id: 'item_2', invoiceId: invoice.id, record: { id: 'item_2', description: 'Build', quantity: 2, rate: 50, amount: 100 } });
+    emit({ table: 'line_items', type: 'DELETE', id: 'item_1' });
+    expect(state.invoices[0].lineItems.map(item => item.id)).toEqual(['item_2']);
+
+    emit({ table: 'clients', type: 'UPDATE', id: client.id, record: { ...client, name: 'Renamed Client' } });
+    expect(state.clients[0].name).toBe('Renamed Client');
+    expect(state.invoices[0].client.name).toBe('Renamed Client');
+
+    const other: Client = { ...client, id: 'client_2', email: 'other@example.com' };
+    emit({ table: 'clients', type: 'INSERT', id: other.id, record: other });
+    emit({ table: 'invoices', type: 'INSERT', id: 'invoice_2', record: { ...row, id: 'invoice_2', clientId: other.id, status: 'sent', amountPaid: 0, balanceDue: 100 } });
+    expect(state.invoices.map(inv => inv.id)).toEqual(['invoice_2', 'invoice_1']);
+    expect(state.invoices[0].client).toEqual(other);
+
+    const metrics = metricsService.summarize(state.invoices, state.clients.length);
+    expect(metrics).toMatchObject({ totalClients: 2, paidInvoices: 1, pendingInvoices: 1, totalRevenue: 100, pendingAmount: 100 });
+
+    emit({ table: 'invoices', type: 'DELETE', id: 'invoice_2' });
+    emit({ table: 'clients', type: 'DELETE', id: other.id });
+    expect(state.invoices.map(inv => inv.id)).toEqual(['invoice_1']);
+    expect(state.clients).toHaveLength(1);
+
+    disconnect();
+    emit({ table: 'invoices', type: 'DELETE', id: invoice.id });
+    expect(state.invoices).toHaveLength(1);
+  });
+
+  it('should report only invoice versions that are not shown yet as external', () => {
+    const { source, emit } = createSource();
+    const { state, connect } = createStore([client], [invoice]);
+    connect(source);
+
+    // The echo of a change made here, and an outdated version
+    emit({ table: 'invoices', type: 'UPDATE', id: invoice.id, record: { ...invoice, updatedAt: '2026-01-01 10:00:00.000001+00' } });
+    emit({ table: 'invoices', type: 'UPDATE', id: invoice.id, record: { ...invoice, status: 'draft', updatedAt: '2026-01-01T09:00:00+00:00' } });
+    expect(state.invoices[0].status).toBe('sent');
+    expect(state.external).toEqual([]);
+
+    // One microsecond later is a newer version
+    emit({ table: 'invoices', type: 'UPDATE', id: invoice.id, record: { ...invoice, notes: 'Changed', updatedAt: '2026-01-01T10:00:00.000002+00:00' } });
+    emit({ table: 'line_items', type: 'UPDATE', id: 'item_1', invoiceId: invoice.id, record: { ...invoice.lineItems[0], quantity: 2, amount: 200 } });
+    expect(state.invoices[0].notes).toBe('Changed');
+    expect(state.invoices[0].lineItems[0].amount).toBe(200);
+    expect(state.external).toEqual([invoice.id]);
+  });
+
+  it('should show invoices as recently changed for a while', () => {
+    const now = Date.parse('2026-01-01T12:00:00Z');
+    let recent = liveMerge.markRecent({}, 'invoice_1', new Date(now - liveMerge.RECENT_FOR_MS).toISOString());
+    recent = liveMerge.markRecent(recent, 'invoice_2', new Date(now - 1000).toISOString());
+    recent = liveMerge.markRecent(recent, 'invoice_3', new Date(now).toISOString());
+
+    expect(Object.keys(liveMerge.pruneRecent(recent, now))).toEqual(['invoice_2', 'invoice_3']);
+    expect(Object.keys(liveMerge.clearRecent(recent, 'invoice_2'))).toEqual(['invoice_1', 'invoice_3']);
+    expect(liveMerge.clearRecent(recent, 'invoice_4')).toBe(recent);
+  });
+});
+
+describe('Query Cache', () => {
+  type Row = { id: string; name: string };
+
+  const a: Row = { id: 'a', name: 'A' };
+  const b: Row = { id: 'b', name: 'B' };
+
+  it('should keep a record once for every query that returned it', async () => {
+    const cache = queryCache.createQueryCache();
+    await cache.fetch('all', async () => [a, b], { entity: 'row' });
+    await cache.fetch('first', async () => [a], { entity: 'row' });
+
+    cache.setList<Row>('first', 'row', rows => rows.map(row => ({ ...row, name: 'Renamed' })));
+    expect(cache.read<Row[]>('all')).toEqual([{ id: 'a', name: 'Renamed' }, b]);
+    expect(cache.read('all')).toBe(cache.read('all'));
+
+    cache.remove('row', 'a');
+    expect(cache.read<Row[]>('all')).toEqual([b]);
+    expect(cache.read<Row[]>('first')).toEqual([]);
+    expect(cache.getRecord('row', 'a')).toBeUndefined();
+  });
+
+  it('should share fetches under way and serve stale results while fetching again', async () => {
+    let time = 0;
+    const cache = queryCache.createQueryCache({ staleTime: 1000, now: () => time });
+    let calls = 0;
+    const fetcher = async () => {
+      calls++;
+      return calls === 1 ? [a] : [a, b];
+    };
+
+    const [first, second] = await Promise.all([
+      cache.fetch('rows', fetcher, { entity: 'row' }),
+      cache.fetch('rows', fetcher, { entity: 'row' }),
+    ]);
+    expect(calls).toBe(1);
+    expect(first).toEqual([a]);
+    expect(second).toEqual([a]);
+
+    // Fresh: not fetched again
+    await cache.fetch('rows', fetcher, { entity: 'row' });
+    expect(calls).toBe(1);
+
+    // Stale: served as it is, and updated in the background
+    time = 1000;
+    const changes: number[] = [];
+    cache.subscribe(() => changes.push(cache.getVersion()));
+    expect(await cache.fetch('rows', fetcher, { entity: 'row' })).toEqual([a]);
+    expect(calls).toBe(2);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(cache.read<Row[]>('rows')).toEqual([a, b]);
+    expect(changes).toHaveLength(1);
+    expect(cache.isStale('rows')).toBe(false);
+  });
+
+  it('should roll back optimistic changes, except what changed since', async () => {
+    const cache = queryCache.createQueryCache();
+    await cache.fetch('rows', async () => [a, b], { entity: 'row' });
+    await cache.fetch('settings', async () => ({ theme: 'light' }));
+
+    const rollback = cache.optimistic(() => {
+      cache.setList<Row>('rows', 'row', rows => rows.map(row => row.id === 'a' ? { ...row, name: 'Optimistic' } : row));
+      cache.remove('row', 'b');
+    });
+    expect(cache.read<Row[]>('rows')).toEqual([{ id: 'a', name: 'Optimistic' }]);
+
+    // Changed again by someone else before the request failed
+    const changedSince: Row = { id: 'a', name: 'From the server' };
+    cache.setList<Row>('rows', 'row', rows => rows.map(row => row.id === 'a' ? changedSince : row));
+
+    rollback();
+    expect(cache.read<Row[]>('rows')).toEqual([changedSince, b]);
+    expect(cache.read('settings')).toEqual({ theme: 'light' });
+  });
+
+  it('should not keep a fetch result when the query changed while fetching', async () => {
+    let time = 0;
+    const cache = queryCache.createQueryCache({ staleTime: 1000, now: () => time });
+    await cache.fetch('rows', async () => [a], { entity: 'row' });
+
+    let resolve: (rows: Row[]) => void = () => {};
+    const fetched = cache.fetch('rows', () => new Promise<Row[]>(r => { resolve = r; }), { entity: 'row', force: true });
+    cache.setList<Row>('rows', 'row', rows => [b, ...rows]);
+    resolve([a]);
+
+    expect(await fetched).toEqual([a]);
+    expect(cache.read<Row[]>('rows')).toEqual([b, a]);
+    expect(cache.isStale('rows')).toBe(true);
+
+    // Fetches from before the cache was cleared are not kept either
+    time = 2000;
+    const late = cache.fetch('rows', () => new Promise<Row[]>(r => { resolve = r; }), { entity: 'row', force: true });
+    cache.clear();
+    resolve([a]);
+    await late;
+    expect(cache.has('rows')).toBe(false);
+  });
+});
+
+describe('Invoice Query', () => {
+  const invoice = (id: string, invoiceNumber: string, total: number, clientName: string) => ({
+    id,
+    invoiceNumber,
+    total,
+    status: 'sent' as const,
+    issueDate: '2026-01-01',
+    dueDate: '2026-01-31',
+    client: { name: clientName },
+  });
+
+  const list = [
+    invoice('1', 'INV-010', 300, 'Beta'),
+    invoice('2', 'INV-002', 100, 'Alpha'),
+    invoice('3', 'INV-001', 200, 'Gamma'),
+  ];
+
+  it('should read a query from the URL and write back only what differs from the default', () => {
+    const query = invoiceQuery.fromSearchParams(new URLSearchParams('sort=total&status=paid&q=%20acme%20&size=500&dir=sideways'));
+    expect(query).toEqual({ sort: 'total', direction: 'desc', status: 'paid', search: 'acme', pageSize: invoiceQuery.MAX_PAGE_SIZE, cursor: undefined });
+    expect(invoiceQuery.toSearchParams(query).toString()).toBe('sort=total&status=paid&q=acme&size=100');
+
+    expect(invoiceQuery.fromSearchParams(new URLSearchParams('sort=unknown&status=lost'))).toEqual({ ...invoiceQuery.DEFAULT_QUERY, cursor: undefined });
+    expect(invoiceQuery.toSearchParams(invoiceQuery.DEFAULT_QUERY).toString()).toBe('');
+  });
+
+  it('should reverse the sort on the same column and start over at the first page', () => {
+    const query = { ...invoiceQuery.DEFAULT_QUERY, sort: 'client' as const, direction: 'asc' as const, cursor: 'abc' };
+    expect(invoiceQuery.toggleSort(query, 'client')).toMatchObject({ direction: 'desc', cursor: undefined });
+    expect(invoiceQuery.toggleSort(query, 'dueDate')).toMatchObject({ sort: 'dueDate', direction: 'desc' });
+  });
+
+  it('should page through invoices with cursors that only apply to their query', () => {
+    const query = { ...invoiceQuery.DEFAULT_QUERY, sort: 'number' as const, direction: 'asc' as const, pageSize: 2 };
+    const first = invoiceQuery.paginate(list, query);
+    expect(first.items.map(i => i.invoiceNumber)).toEqual(['INV-001', 'INV-002']);
+    expect(first.total).toBe(3);
+    expect(first.previousCursor).toBeUndefined();
+
+    const second = invoiceQuery.paginate(list, { ...query, cursor: first.nextCursor });
+    expect(second.items.map(i => i.invoiceNumber)).toEqual(['INV-010']);
+    expect(second.start).toBe(2);
+    expect(second.nextCursor).toBeUndefined();
+    expect(invoiceQuery.paginate(list, { ...query, cursor: second.previousCursor })).toMatchObject({ start: 0, items: first.items });
+
+    // The same cursor with another sort starts over
+    expect(invoiceQuery.decodeCursor({ ...query, direction: 'desc', cursor: first.nextCursor })).toBeUndefined();
+    expect(invoiceQuery.decodeCursor({ ...query, cursor: 'not a cursor' })).toBeUndefined();
+  });
+
+  it('should keep pages in place when invoices are added or deleted between them', () => {
+    const query = { ...invoiceQuery.DEFAULT_QUERY, sort: 'total' as const, direction: 'desc' as const, pageSize: 2 };
+    const first = invoiceQuery.paginate(list, query);
+    expect(first.items.map(i => i.id)).toEqual(['1', '3']);
+
+    // One invoice of the first page deleted and one added before it
+    const changed = [...list.slice(1), invoice('4', 'INV-011', 400, 'Delta')];
+    const second = invoiceQuery.paginate(changed, { ...query, cursor: first.nextCursor });
+    expect(second.items.map(i => i.id)).toEqual(['2']);
+    expect(second.start).toBe(2);
+
+    // Text sorts code unit by code unit, as on the server; client names without case
+    const mixed = [invoice('5', 'inv-1', 0, 'alpha'), invoice('6', 'INV-2', 0, 'Beta')];
+    expect(invoiceQuery.paginate(mixed, { ...query, sort: 'number', direction: 'asc' }).items.map(i => i.id)).toEqual(['6', '5']);
+    expect(invoiceQuery.paginate(mixed, { ...query, sort: 'client', direction: 'asc' }).items.map(i => i.id)).toEqual(['5', '6']);
+  });
+
+  it('should filter on status and search the number and client name', () => {
+    const query = { ...invoiceQuery.DEFAULT_QUERY, sort: 'client' as const, direction: 'asc' as const };
+    expect(invoiceQuery.paginate(list, query).items.map(i => i.client.name)).toEqual(['Alpha', 'Beta', 'Gamma']);
+    expect(invoiceQuery.paginate(list, { ...query, search: 'gam' }).items.map(i => i.id)).toEqual(['3']);
+    expect(invoiceQuery.paginate(list, { ...query, search: '01' }).items.map(i => i.id)).toEqual(['1', '3']);
+    expect(invoiceQuery.paginate(list, { ...query, status: 'paid' }).total).toBe(0);
+    expect(invoiceQuery.countByStatus(list)).toMatchObject({ all: 3, sent: 3, paid: 0 });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Storage Adapter Contract Tests
+ * Every adapter the storage service can run on must pass the same suite
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IDBFactory } from 'fake-indexeddb';
+import { storage } from '../src/services/storage';
+import { storageAdapters } from '../src/services/storageAdapters';
+import { jsonFileStorage } from '../src/services/jsonFileStorage';
+import { clientService } from '../src/services/clientService';
+import { invoiceNumberGenerator } from '../src/services/invoiceNumberGenerator';
+import type { StorageAdapter } from '../src/types';
+
+/**
+ * In-memory stand-in for window.localStorage
+ */
+function createWebStorage() {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+}
+
+interface AdapterFixture {
+  // Opens the adapter; called again to reopen the same data
+  open: () => Promise<StorageAdapter>;
+  cleanup?: () => void;
+}
+
+const ADAPTERS: { name: string; persistent: boolean; setup: () => AdapterFixture }[] = [
+  {
+    name: 'localStorage',
+    persistent: true,
+    setup: () => {
+      const webStorage = createWebStorage();
+      return { open: async () => storageAdapters.createLocalStorage(() => webStorage) };
+    },
+  },
+  {
+    name: 'memory',
+    persistent: false,
+    setup: () => ({ open: async () => storageAdapters.createMemory() }),
+  },
+  {
+    name: 'indexedDB',
+    persistent: true,
+    setup: () => {
+      const factory = new IDBFactory();
+      return { open: () => storageAdapters.openIndexedDB({ factory }) };
+    },
+  },
+  {
+    name: 'jsonFile',
+    persistent: true,
+    setup: () => {
+      const directory = mkdtempSync(join(tmpdir(), 'invoicey-'));
+      return {
+        open: async () => jsonFileStorage.open(join(directory, 'data', 'storage.json')),
+        cleanup: () => rmSync(directory, { recursive: true, force: true }),
+      };
+    },
+  },
+];
+
+describe.each(ADAPTERS)('Storage Adapter: $name', ({ persistent, setup }) => {
+  let fixture: AdapterFixture;
+  let adapter: StorageAdapter;
+
+  beforeEach(async () => {
+    fixture = setup();
+    adapter = await fixture.open();
+  });
+
+  afterEach(() => {
+    storage.setAdapter(storageAdapters.createLocalStorage());
+    fixture.cleanup?.();
+  });
+
+  it('should be available', () => {
+    expect(adapter.isAvailable()).toBe(true);
+  });
+
+  it('should return null for non-existent keys', () => {
+    expect(adapter.getItem('missing')).toBeNull();
+  });
+
+  it('should store, overwrite and remove values', () => {
+    adapter.setItem('key', 'first');
+    expect(adapter.getItem('key')).toBe('first');
+
+    adapter.setItem('key', 'second');
+    expect(adapter.getItem('key')).toBe('second');
+
+    adapter.removeItem('key');
+    adapter.removeItem('missing');
+    expect(adapter.getItem('key')).toBeNull();
+  });
+
+  it('should list its keys', () => {
+    adapter.setItem('a', '1');
+    adapter.setItem('b', '2');
+    adapter.removeItem('a');
+    expect(adapter.keys()).toEqual(['b']);
+  });
+
+  it.skipIf(!persistent)('should keep its data when opened again', async () => {
+    adapter.setItem('kept', 'yes');
+    adapter.setItem('removed', 'yes');
+    adapter.removeItem('removed');
+    await adapter.flush();
+
+    const reopened = await fixture.open();
+    expect(reopened.getItem('kept')).toBe('yes');
+    expect(reopened.getItem('removed')).toBeNull();
+  });
+
+  it('should run the services', async () => {
+    storage.setAdapter(adapter);
+    const client = clientService.create({ name: 'Adapter Client', email: 'adapter@example.com' });
+    const number = invoiceNumberGenerator.generate();
+    await storage.flush();
+
+    expect(clientService.getById(client.id)?.name).toBe('Adapter Client');
+    expect(JSON.parse(adapter.getItem(storage.STORAGE_KEYS.CLIENTS) ?? '[]')).toHaveLength(1);
+    expect(invoiceNumberGenerator.generate()).not.toBe(number);
+  });
+});
+
+describe('Storage Adapter Selection', () => {
+  afterEach(() => {
+    storage.setAdapter(storageAdapters.createLocalStorage());
+  });
+
+  it('should use the adapter selected at startup', async () => {
+    const adapter = storageAdapters.createMemory({ invoicey_clients: '[]' });
+    await storage.init(adapter);
+    expect(storage.getAdapter()).toBe(adapter);
+    expect(storage.getClients()).toEqual([]);
+  });
+
+  it('should fall back to memory without localStorage or IndexedDB', async () => {
+    const adapter = await storage.init();
+    expect(adapter.name).toBe('memory');
+    expect(storage.isAvailable()).toBe(true);
+  });
+
+  it('should refuse a storage file that is not a JSON object', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'invoicey-'));
+    try {
+      const path = join(directory, 'storage.json');
+      writeFileSync(path, '[1, 2');
+      expect(() => jsonFileStorage.open(path)).toThrow('does not contain a JSON object');
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
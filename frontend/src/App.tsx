@@ -2,8 +2,8 @@
  * App Component - Main application entry point
  * 
  * Requirements: 3.3, 3.4
- * - Dashboard, Clients, Invoices, and InvoiceEditor are protected routes
- * - ShareableInvoice remains publicly accessible
+ * - Dashboard, Clients, Invoices, Quotes, InvoiceEditor, Recurring and Settings are protected routes
+ * - ShareableInvoice and ShareableQuote remain publicly accessible
  */
 
 import { Routes, Route } from 'react-router-dom'
@@ -15,7 +15,11 @@ import Dashboard from './pages/Dashboard'
 import Clients from './pages/Clients'
 import Invoices from './pages/Invoices'
 import InvoiceEditor from './pages/InvoiceEditor'
+import Quotes from './pages/Quotes'
+import Recurring from './pages/Recurring'
+import Settings from './pages/Settings'
 import ShareableInvoice from './pages/ShareableInvoice'
+import ShareableQuote from './pages/ShareableQuote'
 import Login from './pages/Login'
 import Signup from './pages/Signup'
 
@@ -30,6 +34,7 @@ function App() {
                     
                     {/* Shareable invoice - publicly accessible (Requirement 3.4) */}
                     <Route path="/invoice/:id" element={<ShareableInvoice />} />
+                    <Route path="/quote/:id" element={<ShareableQuote />} />
 
                     {/* Protected routes with layout (Requirement 3.3) */}
                     <Route element={
@@ -42,6 +47,11 @@ function App() {
                         <Route path="/invoices" element={<Invoices />} />
                         <Route path="/invoices/new" element={<InvoiceEditor />} />
                         <Route path="/invoices/:id/edit" element={<InvoiceEditor />} />
+                        <Route path="/quotes" element={<Quotes />} />
+                        <Route path="/quotes/new" element={<InvoiceEditor documentType="quote" />} />
+                        <Route path="/quotes/:id/edit" element={<InvoiceEditor documentType="quote" />} />
+                        <Route path="/recurring" element={<Recurring />} />
+                        <Route path="/settings" element={<Settings />} />
                     </Route>
                 </Routes>
             </AppProvider>
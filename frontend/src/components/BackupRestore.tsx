@@ -0,0 +1,192 @@
+/**
+ * Backup & Restore
+ *
+ * Exports the workspace as a backup file and restores one, merged into the
+ * workspace or replacing it. A restore is always previewed first.
+ */
+
+import { useState, ChangeEvent } from 'react';
+import { Archive, AlertCircle, Check, Download, Upload } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { backupService } from '../lib/services/backupService';
+import { dates } from '@backend/services/dates';
+import type { RestoreAction, RestoreMode, RestorePreview, WorkspaceArchive } from '../lib/database.types';
+
+const MODE_LABELS: Record<RestoreMode, { label: string; description: string }> = {
+    merge: { label: 'Merge', description: 'Add the backup to your data. Clients with the same email and invoices with the same number are updated.' },
+    replace: { label: 'Replace', description: 'Remove all clients and invoices, with their quotes, recurring profiles and credit notes, and restore the backup.' },
+};
+
+const ACTION_STYLES: Record<RestoreAction, string> = {
+    create: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+    update: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+    remove: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400',
+};
+
+/**
+ * Offer a JSON document as a download
+ */
+function download(fileName: string, json: string) {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+export default function BackupRestore() {
+    const { exportWorkspace, restoreWorkspace } = useApp();
+    const [archive, setArchive] = useState<WorkspaceArchive | null>(null);
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [preview, setPreview] = useState<RestorePreview | null>(null);
+    const [restoreErrors, setRestoreErrors] = useState<string[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const reset = () => {
+        setPreview(null);
+        setRestoreErrors(null);
+        setError(null);
+    };
+
+    const handleExport = async () => {
+        reset();
+        setIsBusy(true);
+        try {
+            const result = await exportWorkspace();
+            if (result.valid && result.data) {
+                download(`invoicey-backup-${dates.today()}.json`, JSON.stringify(result.data, null, 2));
+            } else {
+                setError(result.errors.general);
+            }
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        reset();
+        setArchive(null);
+        if (!file) return;
+
+        try {
+            setArchive(await backupService.parse(await file.text()));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'This file is not an Invoicey backup');
+        }
+    };
+
+    const run = async (dryRun: boolean) => {
+        if (!archive) return;
+        setError(null);
+        setIsBusy(true);
+        try {
+            const result = await restoreWorkspace(archive, mode, dryRun);
+            if (!result.valid || !result.data) {
+                setError(result.errors.general);
+            } else if (dryRun) {
+                setPreview(result.data.preview);
+            } else {
+                setPreview(null);
+                setArchive(null);
+                setRestoreErrors(result.data.errors);
+            }
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <section className="mt-6 max-w-2xl rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <div className="mb-5 flex items-center gap-2">
+                <Archive className="h-5 w-5 text-indigo-500" />
+                <h2 className="font-semibold text-slate-900 dark:text-white">Backup & Restore</h2>
+            </div>
+
+            <div className="space-y-5">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    <p className="text-sm text-slate-500 dark:text-slate-400">Download your clients, invoices and number settings as one file.</p>
+                    <button type="button" onClick={handleExport} disabled={isBusy}
+                        className="flex items-center gap-2 rounded-lg border border-slate-300 px-4 py-2.5 text-sm font-medium text-slate-700 transition-colors hover:bg-slate-50 disabled:opacity-50 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-800">
+                        <Download className="h-4 w-4" />Export backup
+                    </button>
+                </div>
+
+                <div>
+                    <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">Restore from a backup</label>
+                    <label className="flex cursor-pointer items-center gap-2 rounded-lg border border-dashed border-slate-300 px-4 py-3 text-sm text-slate-500 hover:bg-slate-50 dark:border-slate-600 dark:text-slate-400 dark:hover:bg-slate-800">
+                        <Upload className="h-4 w-4" />
+                        {archive ? `Backup of ${archive.exportedAt.slice(0, 10)}: ${archive.data.clients.length} clients, ${archive.data.invoices.length} invoices` : 'Choose a backup file'}
+                        <input type="file" accept="application/json,.json" onChange={handleFile} disabled={isBusy} className="hidden" />
+                    </label>
+                </div>
+
+                {archive && (
+                    <div className="grid gap-3 sm:grid-cols-2">
+                        {(Object.keys(MODE_LABELS) as RestoreMode[]).map((value) => (
+                            <label key={value} className={`cursor-pointer rounded-lg border p-3 text-sm ${mode === value ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-300 dark:border-slate-600'}`}>
+                                <span className="flex items-center gap-2 font-medium text-slate-900 dark:text-white">
+                                    <input type="radio" name="restore-mode" value={value} checked={mode === value} onChange={() => { setMode(value); setPreview(null); }} disabled={isBusy} />
+                                    {MODE_LABELS[value].label}
+                                </span>
+                                <span className="mt-1 block text-slate-500 dark:text-slate-400">{MODE_LABELS[value].description}</span>
+                            </label>
+                        ))}
+                    </div>
+                )}
+
+                {preview && (
+                    <div className="rounded-lg bg-slate-50 px-4 py-3 text-sm dark:bg-slate-800/50">
+                        <p className="text-slate-700 dark:text-slate-300">
+                            Clients: {preview.counts.clients.create} new, {preview.counts.clients.update} updated, {preview.counts.clients.remove} removed.
+                            {' '}Invoices: {preview.counts.invoices.create} new, {preview.counts.invoices.update} updated, {preview.counts.invoices.remove} removed.
+                            {preview.numberFormatChanged && ' The number format is replaced.'}
+                        </p>
+                        <ul className="mt-3 max-h-48 space-y-1 overflow-y-auto">
+                            {preview.entries.map((entry, index) => (
+                                <li key={index} className="flex items-center gap-2">
+                                    <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                                    <span className="text-slate-500 dark:text-slate-400">{entry.type}</span>
+                                    <span className="truncate text-slate-900 dark:text-white">{entry.label}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {restoreErrors && (restoreErrors.length === 0 ? (
+                    <p className="flex items-center gap-1 text-sm text-emerald-600 dark:text-emerald-400"><Check className="h-4 w-4" />Backup restored</p>
+                ) : (
+                    <div className="rounded-lg bg-amber-50 p-3 text-sm text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">
+                        <p className="font-medium">Backup restored, except for:</p>
+                        <ul className="mt-1 list-disc pl-5">
+                            {restoreErrors.map((message) => <li key={message}>{message}</li>)}
+                        </ul>
+                    </div>
+                ))}
+
+                {error && (
+                    <div className="flex items-center gap-2 rounded-lg bg-rose-50 p-3 text-sm text-rose-600 dark:bg-rose-900/20 dark:text-rose-400">
+                        <AlertCircle className="h-4 w-4 flex-shrink-0" />{error}
+                    </div>
+                )}
+            </div>
+
+            {archive && (
+                <div className="mt-6 flex items-center justify-end gap-3">
+                    <button type="button" onClick={() => run(true)} disabled={isBusy}
+                        className="rounded-lg border border-slate-300 px-4 py-2.5 text-sm font-medium text-slate-700 transition-colors hover:bg-slate-50 disabled:opacity-50 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-800">
+                        Preview
+                    </button>
+                    <button type="button" onClick={() => run(false)} disabled={isBusy || !preview}
+                        className="rounded-lg bg-indigo-600 px-4 py-2.5 text-sm font-medium text-white shadow-sm transition-colors hover:bg-indigo-700 disabled:opacity-50 dark:bg-indigo-500 dark:hover:bg-indigo-600">
+                        {isBusy ? 'Working...' : 'Restore'}
+                    </button>
+                </div>
+            )}
+        </section>
+    );
+}
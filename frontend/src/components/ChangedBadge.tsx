@@ -0,0 +1,13 @@
+import { Radio } from 'lucide-react';
+
+// Marks an invoice that was changed elsewhere a short while ago; nothing otherwise
+export default function ChangedBadge({ at }: { at?: string }) {
+    if (!at) return null;
+
+    const time = new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return (
+        <span title={`Changed elsewhere at ${time}`} className="inline-flex items-center gap-1 rounded-full bg-indigo-100 px-2 py-0.5 text-xs font-medium text-indigo-700 dark:bg-indigo-950 dark:text-indigo-400">
+            <Radio className="h-3 w-3" />Updated
+        </span>
+    );
+}
@@ -0,0 +1,43 @@
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+
+const formatTimestamp = (timestamp: string) =>
+    new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' }).format(new Date(timestamp));
+
+interface ConflictDialogProps {
+    // What was changed, e.g. "invoice INV-2026-001"
+    subject: string;
+    // updatedAt of the latest version
+    changedAt: string;
+    isSaving?: boolean;
+    onReload: () => void;
+    onForce: () => void;
+    onCancel: () => void;
+}
+
+// Shown when a save was based on a version that someone else changed in the meantime
+export default function ConflictDialog({ subject, changedAt, isSaving, onReload, onForce, onCancel }: ConflictDialogProps) {
+    return (
+        <>
+            <div className="fixed inset-0 z-[60] bg-slate-900/50 backdrop-blur-sm" onClick={onCancel} />
+            <div role="alertdialog" className="fixed inset-x-4 top-1/2 z-[70] -translate-y-1/2 rounded-xl border border-slate-200 bg-white p-6 shadow-xl dark:border-slate-700 dark:bg-slate-900 sm:left-1/2 sm:right-auto sm:max-w-md sm:-translate-x-1/2">
+                <div className="flex items-start gap-4">
+                    <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full bg-amber-100 dark:bg-amber-900/30">
+                        <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+                    </div>
+                    <div className="flex-1">
+                        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Changed by someone else</h3>
+                        <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+                            The <span className="font-medium">{subject}</span> was changed on {formatTimestamp(changedAt)}, after you opened it.
+                            Reload it to see those changes, or save yours over them.
+                        </p>
+                    </div>
+                </div>
+                <div className="mt-6 flex flex-wrap justify-end gap-3">
+                    <button type="button" onClick={onCancel} disabled={isSaving} className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">Cancel</button>
+                    <button type="button" onClick={onForce} disabled={isSaving} className="rounded-lg border border-amber-300 bg-white px-4 py-2 text-sm font-medium text-amber-700 hover:bg-amber-50 disabled:opacity-50 dark:border-amber-800 dark:bg-slate-800 dark:text-amber-400 dark:hover:bg-amber-950/40">{isSaving ? 'Saving...' : 'Save mine anyway'}</button>
+                    <button type="button" onClick={onReload} disabled={isSaving} className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 dark:bg-indigo-500 dark:hover:bg-indigo-600"><RefreshCw className="h-4 w-4" />Reload latest</button>
+                </div>
+            </div>
+        </>
+    );
+}
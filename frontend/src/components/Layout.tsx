@@ -5,15 +5,21 @@
  */
 
 import { Outlet, NavLink, useLocation, useNavigate } from 'react-router-dom';
-import { LayoutDashboard, Users, FileText, Menu, X, LogOut } from 'lucide-react';
+import { LayoutDashboard, Users, FileText, ClipboardList, Repeat, Settings, Menu, X, LogOut } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import Logo from './Logo';
+import SyncBanner from './SyncBanner';
+import LocalImportWizard from './LocalImportWizard';
 import { useAuth } from '../context/AuthContext';
+import { importService } from '../lib/services/importService';
 
 const navItems = [
     { to: '/', icon: LayoutDashboard, label: 'Dashboard' },
     { to: '/clients', icon: Users, label: 'Clients' },
     { to: '/invoices', icon: FileText, label: 'Invoices' },
+    { to: '/quotes', icon: ClipboardList, label: 'Quotes' },
+    { to: '/recurring', icon: Repeat, label: 'Recurring' },
+    { to: '/settings', icon: Settings, label: 'Settings' },
 ];
 
 export default function Layout() {
@@ -21,6 +27,12 @@ export default function Layout() {
     const location = useLocation();
     const navigate = useNavigate();
     const { user, signOut } = useAuth();
+    const [importOpen, setImportOpen] = useState(false);
+
+    // Offer once to import data kept on this device before signing in
+    useEffect(() => {
+        setImportOpen(!!user && importService.shouldOffer(user.id));
+    }, [user]);
 
     // Close mobile menu on route change
     useEffect(() => {
@@ -157,9 +169,17 @@ export default function Layout() {
             {/* Main Content */}
             <main className="pt-16 lg:pl-64 lg:pt-0">
                 <div className="min-h-screen">
+                    <SyncBanner />
                     <Outlet />
                 </div>
             </main>
+
+            {importOpen && user && (
+                <LocalImportWizard
+                    onClose={() => setImportOpen(false)}
+                    onDismiss={() => { importService.dismiss(user.id); setImportOpen(false); }}
+                />
+            )}
         </div>
     );
 }
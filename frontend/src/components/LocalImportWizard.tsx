@@ -0,0 +1,146 @@
+/**
+ * Local Import Wizard
+ *
+ * Moves the clients and invoices kept on this device, from before signing
+ * in, into the account. The import is previewed first, with what is left out
+ * and why; after it ran, records that could not be imported are reported.
+ */
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, Check, HardDriveUpload, X } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import type { ImportAction, ImportReport } from '../lib/database.types';
+
+const ACTION_STYLES: Record<ImportAction, { label: string; className: string }> = {
+    create: { label: 'new', className: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' },
+    link: { label: 'matched', className: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400' },
+    skip: { label: 'skipped', className: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400' },
+    conflict: { label: 'conflict', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' },
+};
+
+interface LocalImportWizardProps {
+    onClose: () => void;
+    // Offered after sign-in: the user can decline for good
+    onDismiss?: () => void;
+}
+
+export default function LocalImportWizard({ onClose, onDismiss }: LocalImportWizardProps) {
+    const { importLocalData } = useApp();
+    const [preview, setPreview] = useState<ImportReport | null>(null);
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        importLocalData(true).then((result) => {
+            if (cancelled) return;
+            if (result.valid && result.data) {
+                setPreview(result.data);
+            } else {
+                setError(result.errors.general);
+            }
+            setIsBusy(false);
+        });
+        return () => { cancelled = true; };
+    }, [importLocalData]);
+
+    const handleImport = async () => {
+        setError(null);
+        setIsBusy(true);
+        try {
+            const result = await importLocalData();
+            if (result.valid && result.data) {
+                setReport(result.data);
+            } else {
+                setError(result.errors.general);
+            }
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const shown = report ?? preview;
+    const leftOut = shown ? shown.entries.filter((entry) => entry.action === 'skip' || entry.action === 'conflict') : [];
+
+    return (
+        <>
+            <div className="fixed inset-0 z-[60] bg-slate-900/50 backdrop-blur-sm" onClick={isBusy ? undefined : onClose} />
+            <div role="dialog" className="fixed inset-x-4 top-1/2 z-[70] max-h-[90vh] -translate-y-1/2 overflow-y-auto rounded-xl border border-slate-200 bg-white p-6 shadow-xl dark:border-slate-700 dark:bg-slate-900 sm:left-1/2 sm:right-auto sm:w-full sm:max-w-lg sm:-translate-x-1/2">
+                <div className="mb-4 flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                        <HardDriveUpload className="h-5 w-5 text-indigo-500" />
+                        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Import data from this device</h3>
+                    </div>
+                    <button type="button" onClick={onClose} disabled={isBusy} className="rounded-lg p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-600 disabled:opacity-50 dark:hover:bg-slate-800"><X className="h-5 w-5" /></button>
+                </div>
+
+                {!report && (
+                    <p className="text-sm text-slate-600 dark:text-slate-400">
+                        This device has clients and invoices from before you signed in. Import them into your account to keep working on them;
+                        invoices keep their numbers, and new invoices continue after the highest one.
+                    </p>
+                )}
+
+                {isBusy && !shown && <p className="mt-4 text-sm text-slate-500 dark:text-slate-400">Checking your data...</p>}
+
+                {shown && (
+                    <div className="mt-4 rounded-lg bg-slate-50 px-4 py-3 text-sm dark:bg-slate-800/50">
+                        <p className="text-slate-700 dark:text-slate-300">
+                            {report ? 'Imported' : 'To import'}: {shown.counts.clients.create} new and {shown.counts.clients.link} matched clients,
+                            {' '}{shown.counts.invoices.create} invoices.
+                            {shown.numberFormatChanged && ' Your account takes the number format of this device.'}
+                        </p>
+                        {leftOut.length > 0 && (
+                            <>
+                                <p className="mt-3 font-medium text-slate-700 dark:text-slate-300">Left out</p>
+                                <ul className="mt-1 max-h-48 space-y-1 overflow-y-auto">
+                                    {leftOut.map((entry, index) => (
+                                        <li key={index} className="flex items-start gap-2">
+                                            <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${ACTION_STYLES[entry.action].className}`}>{ACTION_STYLES[entry.action].label}</span>
+                                            <span className="min-w-0">
+                                                <span className="text-slate-900 dark:text-white">{entry.label}</span>
+                                                {entry.reason && <span className="block text-xs text-slate-500 dark:text-slate-400">{entry.reason}</span>}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {report && (report.errors.length === 0 ? (
+                    <p className="mt-4 flex items-center gap-1 text-sm text-emerald-600 dark:text-emerald-400"><Check className="h-4 w-4" />Your data is in your account. You can run the import again from Settings.</p>
+                ) : (
+                    <div className="mt-4 rounded-lg bg-amber-50 p-3 text-sm text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">
+                        <p className="font-medium">Imported, except for:</p>
+                        <ul className="mt-1 list-disc pl-5">
+                            {report.errors.map((message) => <li key={message}>{message}</li>)}
+                        </ul>
+                    </div>
+                ))}
+
+                {error && (
+                    <div className="mt-4 flex items-center gap-2 rounded-lg bg-rose-50 p-3 text-sm text-rose-600 dark:bg-rose-900/20 dark:text-rose-400">
+                        <AlertCircle className="h-4 w-4 flex-shrink-0" />{error}
+                    </div>
+                )}
+
+                <div className="mt-6 flex flex-wrap justify-end gap-3">
+                    {report ? (
+                        <button type="button" onClick={onClose} className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600">Done</button>
+                    ) : (
+                        <>
+                            {onDismiss && (
+                                <button type="button" onClick={onDismiss} disabled={isBusy} className="rounded-lg px-4 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 disabled:opacity-50 dark:text-slate-400 dark:hover:bg-slate-800">Don't ask again</button>
+                            )}
+                            <button type="button" onClick={onClose} disabled={isBusy} className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">Not now</button>
+                            <button type="button" onClick={handleImport} disabled={isBusy || !preview} className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 dark:bg-indigo-500 dark:hover:bg-indigo-600">{isBusy && preview ? 'Importing...' : 'Import'}</button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </>
+    );
+}
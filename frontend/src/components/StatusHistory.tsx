@@ -0,0 +1,31 @@
+import { ArrowRight, History } from 'lucide-react';
+import { invoiceStatusService } from '@backend/services/invoiceStatusService';
+import type { StatusChange } from '../lib/database.types';
+
+const formatTimestamp = (timestamp: string) =>
+    new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' }).format(new Date(timestamp));
+
+// Status changes of an invoice, newest first
+export default function StatusHistory({ history }: { history: StatusChange[] }) {
+    if (history.length === 0) return null;
+
+    return (
+        <div>
+            <h3 className="mb-3 flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                <History className="h-4 w-4" />Status History
+            </h3>
+            <ol className="space-y-3">
+                {[...history].reverse().map((entry) => (
+                    <li key={`${entry.changedAt}-${entry.to}`} className="text-sm">
+                        <p className="flex flex-wrap items-center gap-1.5 font-medium text-slate-900 dark:text-white">
+                            {entry.from && <><span className="text-slate-500 dark:text-slate-400">{invoiceStatusService.STATUS_LABELS[entry.from]}</span><ArrowRight className="h-3.5 w-3.5 text-slate-400" /></>}
+                            {invoiceStatusService.STATUS_LABELS[entry.to]}
+                            {entry.reason && <span className="font-normal text-slate-500 dark:text-slate-400">· {entry.reason}</span>}
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">{formatTimestamp(entry.changedAt)} by {entry.changedBy}</p>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+}
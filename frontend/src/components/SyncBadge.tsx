@@ -0,0 +1,21 @@
+import { AlertTriangle, CloudOff, RefreshCw } from 'lucide-react';
+import type { OutboxStatus } from '../lib/database.types';
+
+const badges: Record<OutboxStatus, { label: string; className: string; icon: typeof CloudOff }> = {
+    pending: { label: 'Not synced', className: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400', icon: CloudOff },
+    syncing: { label: 'Syncing', className: 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-400', icon: RefreshCw },
+    failed: { label: 'Sync failed', className: 'bg-rose-100 text-rose-700 dark:bg-rose-950 dark:text-rose-400', icon: AlertTriangle },
+    conflict: { label: 'Conflict', className: 'bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-400', icon: AlertTriangle },
+};
+
+// Sync status of a record with changes that are not on the server yet; nothing once it is synced
+export default function SyncBadge({ status }: { status?: OutboxStatus }) {
+    if (!status) return null;
+
+    const { label, className, icon: Icon } = badges[status];
+    return (
+        <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${className}`}>
+            <Icon className={`h-3 w-3 ${status === 'syncing' ? 'animate-spin' : ''}`} />{label}
+        </span>
+    );
+}
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { AlertTriangle, CloudOff } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import type { OutboxEntry } from '../lib/database.types';
+
+const describeChange = (entry: OutboxEntry) =>
+    `${entry.operation.replace(/([A-Z])/g, ' $1').toLowerCase()} ${entry.entity}`;
+
+// Offline notice with the number of changes waiting to sync, and the changes that need a decision
+export default function SyncBanner() {
+    const { isOffline, pendingChanges, retryChange, discardChange } = useApp();
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const held = pendingChanges.filter((entry) => entry.status === 'failed' || entry.status === 'conflict');
+    const waiting = pendingChanges.length - held.length;
+    if (!isOffline && pendingChanges.length === 0) return null;
+
+    const handle = async (id: string, action: () => Promise<void>) => {
+        setBusyId(id);
+        try {
+            await action();
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-2 border-b border-slate-200 bg-white px-4 py-3 dark:border-slate-800 dark:bg-slate-900 sm:px-6 lg:px-8">
+            {(isOffline || waiting > 0) && (
+                <p className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                    <CloudOff className="h-4 w-4 flex-shrink-0" />
+                    {isOffline ? "You're offline. " : ''}
+                    {waiting > 0 ? `${waiting} ${waiting === 1 ? 'change' : 'changes'} will sync when the connection returns.` : 'Changes you make will sync when the connection returns.'}
+                </p>
+            )}
+            {held.map((entry) => (
+                <div key={entry.id} className="flex flex-wrap items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm dark:border-amber-900 dark:bg-amber-950/40">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-600 dark:text-amber-400" />
+                    <span className="flex-1 text-amber-800 dark:text-amber-300">
+                        <span className="font-medium capitalize">{describeChange(entry)}</span> did not sync: {entry.error}
+                    </span>
+                    <div className="flex gap-2">
+                        <button type="button" disabled={busyId === entry.id} onClick={() => handle(entry.id, () => retryChange(entry.id))} className="rounded-lg border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">Retry</button>
+                        {entry.status === 'conflict' && (
+                            <button type="button" disabled={busyId === entry.id} onClick={() => handle(entry.id, () => retryChange(entry.id, true))} className="rounded-lg border border-amber-300 bg-white px-3 py-1 text-xs font-medium text-amber-700 hover:bg-amber-50 disabled:opacity-50 dark:border-amber-800 dark:bg-slate-800 dark:text-amber-400 dark:hover:bg-amber-950/40">Save mine anyway</button>
+                        )}
+                        <button type="button" disabled={busyId === entry.id} onClick={() => handle(entry.id, () => discardChange(entry.id))} className="rounded-lg border border-rose-200 bg-white px-3 py-1 text-xs font-medium text-rose-600 hover:bg-rose-50 disabled:opacity-50 dark:border-rose-900 dark:bg-slate-800 dark:text-rose-400 dark:hover:bg-rose-950">Discard</button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -4,16 +4,47 @@
  * Requirements: 7.2 - Updated to use Supabase services
  * 
  * Provides:
- * - Global state for clients, invoices, and metrics
- * - CRUD actions for clients and invoices via Supabase
+ * - Global state for clients, invoices, quotes, recurring profiles, metrics and the number format
+ * - CRUD actions for clients, invoices and quotes via Supabase
  * - Loading and error states for async operations
+ * - Issuing the invoices of recurring profiles that fell due since the last visit
+ * - Offline mode: the data last loaded is shown while Supabase cannot be
+ *   reached, and changes to clients and invoices are queued until it can
+ * - Cross-tab sync: changes made here are published on the change feed, and
+ *   those published by other tabs are applied to the state as they arrive
+ * - Live updates: row changes of clients, invoices and line items on the
+ *   server are merged into the state, and invoices changed elsewhere are
+ *   marked as recently changed
+ * - Query cache: loaded data is kept in a normalized cache, served while it
+ *   is fetched again, and changed optimistically by updates and deletes
+ * - Invoices are loaded on demand: the list is paged on the server, and an
+ *   invoice's details are loaded when it is opened; the metrics are summed
+ *   on the server and fetched again after invoices or clients change
  */
 
-import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
-import type { Client, Invoice, Metrics, ClientInput, InvoiceInput } from '../lib/database.types';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore, type ReactNode } from 'react';
+import type { Client, Invoice, Metrics, ClientInput, InvoiceInput, Payment, PaymentInput, PaymentIntent, CardDetails, CreditNote, CreditNoteInput, Quote, QuoteInput, QuoteResponse, RecurringProfile, RecurringProfileInput, NumberFormat, RestoreMode, RestoreResult, WorkspaceArchive, ImportReport, OutboxEntry, OutboxStatus, LiveChange } from '../lib/database.types';
 import { clientService } from '../lib/services/clientService';
 import { invoiceService } from '../lib/services/invoiceService';
+import { paymentService } from '../lib/services/paymentService';
+import { paymentGatewayService } from '../lib/services/paymentGatewayService';
+import { creditNoteService } from '../lib/services/creditNoteService';
+import { quoteService } from '../lib/services/quoteService';
 import { metricsService } from '../lib/services/metricsService';
+import { recurringService } from '../lib/services/recurringService';
+import { numberingService } from '../lib/services/numberingService';
+import { backupService } from '../lib/services/backupService';
+import { importService } from '../lib/services/importService';
+import { syncService } from '../lib/services/syncService';
+import { realtimeService } from '../lib/services/realtimeService';
+import { VersionConflictError } from '../lib/services/versionConflict';
+import { invoiceNumberGenerator as localNumbers } from '@backend/services/invoiceNumberGenerator';
+import { discountService } from '@backend/services/discountService';
+import { paymentTermsService } from '@backend/services/paymentTermsService';
+import { offlineService } from '@backend/services/offlineService';
+import { changeFeed } from '@backend/services/changeFeed';
+import { liveMerge } from '@backend/services/liveMerge';
+import { queryCache } from '@backend/services/queryCache';
 import { useAuth } from './AuthContext';
 
 /**
@@ -21,10 +52,36 @@ import { useAuth } from './AuthContext';
  */
 interface AppState {
   clients: Client[];
+  // The invoices loaded so far, e.g. opened or changed here; not all of them
   invoices: Invoice[];
+  quotes: Quote[];
+  recurringProfiles: RecurringProfile[];
   metrics: Metrics;
+  numberFormat: NumberFormat;
   isLoading: boolean;
   error: string | null;
+  // Supabase could not be reached; the data shown may be out of date
+  isOffline: boolean;
+  // Changes waiting to be synced, oldest first, and the sync status of their records by ID
+  pendingChanges: OutboxEntry[];
+  syncStatus: Record<string, OutboxStatus>;
+  // Invoices changed elsewhere a short while ago, with when the change came in, by ID
+  recentlyChanged: Record<string, string>;
+}
+
+/**
+ * The data kept to be shown while offline
+ */
+type WorkspaceSnapshot = Pick<AppState, 'clients' | 'invoices' | 'quotes' | 'recurringProfiles' | 'metrics' | 'numberFormat'>;
+
+/**
+ * A change to an invoice or a client, made here, in another tab or on the
+ * server; a reload may have changed any invoice
+ */
+export interface InvoiceChange {
+  entity: 'client' | 'invoice';
+  type: 'create' | 'update' | 'remove' | 'reload';
+  id?: string;
 }
 
 /**
@@ -34,6 +91,8 @@ interface OperationResult<T> {
   valid: boolean;
   errors: Record<string, string>;
   data?: T;
+  // Latest version of a record that changed since the update was based on it
+  conflict?: T;
 }
 
 /**
@@ -42,20 +101,63 @@ interface OperationResult<T> {
 interface AppContextValue extends AppState {
   // Client actions
   addClient: (input: ClientInput) => Promise<OperationResult<Client>>;
-  updateClient: (id: string, input: ClientInput) => Promise<OperationResult<Client>>;
+  updateClient: (id: string, input: ClientInput, expectedVersion?: string) => Promise<OperationResult<Client>>;
   deleteClient: (id: string) => Promise<boolean>;
   
   // Invoice actions
+  loadInvoice: (id: string) => Promise<Invoice | undefined>;
   addInvoice: (input: InvoiceInput) => Promise<OperationResult<Invoice>>;
-  updateInvoice: (id: string, input: InvoiceInput) => Promise<OperationResult<Invoice>>;
+  updateInvoice: (id: string, input: InvoiceInput, expectedVersion?: string) => Promise<OperationResult<Invoice>>;
   deleteInvoice: (id: string) => Promise<boolean>;
   duplicateInvoice: (id: string) => Promise<Invoice | null>;
   markInvoiceAsPaid: (id: string) => Promise<void>;
   markInvoiceAsSent: (id: string) => Promise<void>;
+  voidInvoice: (id: string, reason: string) => Promise<OperationResult<Invoice>>;
+
+  // Payment actions
+  getInvoicePayments: (invoiceId: string) => Promise<Payment[]>;
+  recordPayment: (invoiceId: string, input: PaymentInput) => Promise<OperationResult<Invoice>>;
+  deletePayment: (paymentId: string, invoiceId: string) => Promise<boolean>;
+  startOnlinePayment: (invoiceId: string) => Promise<OperationResult<PaymentIntent>>;
+  confirmOnlinePayment: (intentId: string, card?: CardDetails) => Promise<OperationResult<PaymentIntent>>;
+  refundPayment: (payment: Payment) => Promise<boolean>;
+
+  // Credit note actions
+  getInvoiceCreditNotes: (invoiceId: string) => Promise<CreditNote[]>;
+  issueCreditNote: (invoiceId: string, input: CreditNoteInput) => Promise<OperationResult<CreditNote>>;
+
+  // Quote actions
+  addQuote: (input: QuoteInput) => Promise<OperationResult<Quote>>;
+  updateQuote: (id: string, input: QuoteInput) => Promise<OperationResult<Quote>>;
+  deleteQuote: (id: string) => Promise<boolean>;
+  markQuoteAsSent: (id: string) => Promise<void>;
+  acceptQuote: (id: string, response: QuoteResponse) => Promise<OperationResult<Quote>>;
+  declineQuote: (id: string, response: QuoteResponse) => Promise<OperationResult<Quote>>;
+  convertQuoteToInvoice: (id: string) => Promise<OperationResult<Invoice>>;
+
+  // Recurring profile actions
+  addRecurringProfile: (input: RecurringProfileInput) => Promise<OperationResult<RecurringProfile>>;
+  updateRecurringProfile: (id: string, input: RecurringProfileInput) => Promise<OperationResult<RecurringProfile>>;
+  setRecurringProfileActive: (id: string, active: boolean) => Promise<boolean>;
+  deleteRecurringProfile: (id: string) => Promise<boolean>;
+
+  // Numbering actions
+  updateNumberFormat: (format: NumberFormat) => Promise<OperationResult<NumberFormat>>;
+
+  // Backup actions
+  exportWorkspace: () => Promise<OperationResult<WorkspaceArchive>>;
+  restoreWorkspace: (archive: WorkspaceArchive, mode: RestoreMode, dryRun?: boolean) => Promise<OperationResult<RestoreResult>>;
+  importLocalData: (dryRun?: boolean) => Promise<OperationResult<ImportReport>>;
+
+  // Sync actions
+  retryChange: (id: string, force?: boolean) => Promise<void>;
+  discardChange: (id: string) => Promise<void>;
   
   // Utility
   getClientById: (id: string) => Client | undefined;
   getInvoiceById: (id: string) => Invoice | undefined;
+  getQuoteById: (id: string) => Quote | undefined;
+  subscribeToInvoiceChanges: (listener: (change: InvoiceChange) => void) => () => void;
   refreshData: () => Promise<void>;
   clearError: () => void;
 }
@@ -64,16 +166,64 @@ interface AppContextValue extends AppState {
  * Default metrics when no data is loaded
  */
 const defaultMetrics: Metrics = {
+  currency: 'USD',
   totalRevenue: 0,
+  creditAdjustment: 0,
   pendingAmount: 0,
   overdueAmount: 0,
   totalClients: 0,
   paidInvoices: 0,
   pendingInvoices: 0,
+  partiallyPaidInvoices: 0,
   overdueInvoices: 0,
   draftInvoices: 0,
+  voidInvoices: 0,
+  amountsByCurrency: [],
 };
 
+/**
+ * Cache keys of the data loaded for the workspace
+ */
+const QUERIES = {
+  clients: 'clients',
+  invoices: 'invoices',
+  quotes: 'quotes',
+  recurringProfiles: 'recurringProfiles',
+  metrics: 'metrics',
+  numberFormat: 'numberFormat',
+} as const;
+
+/**
+ * How long the metrics wait for more changes before they are fetched again
+ */
+const METRICS_REFRESH_MS = 500;
+
+const NO_RECORDS: never[] = [];
+
+type ListUpdate<T> = T[] | ((prev: T[]) => T[]);
+
+/**
+ * Replace a record in a list, or add it at the front
+ */
+function upsert<T extends { id: string }>(records: T[], record: T): T[] {
+  return records.some(r => r.id === record.id)
+    ? records.map(r => r.id === record.id ? record : r)
+    : [record, ...records];
+}
+
+/**
+ * The invoice or client a row change on the server is about; line items
+ * change their invoice's row too
+ */
+function toInvoiceChange(change: Pick<LiveChange, 'table' | 'type' | 'id'>): InvoiceChange | null {
+  if (change.table === 'line_items') return null;
+  return {
+    entity: change.table === 'clients' ? 'client' : 'invoice',
+    type: change.type === 'INSERT' ? 'create' : change.type === 'DELETE' ? 'remove' : 'update',
+    id: change.id,
+  };
+}
+
 /**
  * Create context with undefined default (will be provided by AppProvider)
  */
@@ -97,12 +247,34 @@ interface AppProviderProps {
 export function AppProvider({ children }: AppProviderProps): React.ReactElement {
   const { user } = useAuth();
   
-  // State
-  const [clients, setClients] = useState<Client[]>([]);
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [metrics, setMetrics] = useState<Metrics>(defaultMetrics);
+  // Loaded data, read from the query cache as it changes
+  const [cache] = useState(() => queryCache.createQueryCache());
+  const cacheVersion = useSyncExternalStore(cache.subscribe, cache.getVersion);
+  // The user the cached data was loaded for
+  const cacheOwner = useRef<string | null>(null);
+
+  const clients = useMemo(() => cache.read<Client[]>(QUERIES.clients) ?? NO_RECORDS, [cache, cacheVersion]);
+  const invoices = useMemo(() => cache.read<Invoice[]>(QUERIES.invoices) ?? NO_RECORDS, [cache, cacheVersion]);
+  const quotes = useMemo(() => cache.read<Quote[]>(QUERIES.quotes) ?? NO_RECORDS, [cache, cacheVersion]);
+  const recurringProfiles = useMemo(() => cache.read<RecurringProfile[]>(QUERIES.recurringProfiles) ?? NO_RECORDS, [cache, cacheVersion]);
+  const numberFormat = useMemo(() => cache.read<NumberFormat>(QUERIES.numberFormat) ?? localNumbers.DEFAULT_NUMBER_FORMAT, [cache, cacheVersion]);
+
+  const metrics = useMemo(() => cache.read<Metrics>(QUERIES.metrics) ?? defaultMetrics, [cache, cacheVersion]);
+
+  const setClients = useCallback((update: ListUpdate<Client>) => cache.setList(QUERIES.clients, 'client', update), [cache]);
+  const setInvoices = useCallback((update: ListUpdate<Invoice>) => cache.setList(QUERIES.invoices, 'invoice', update), [cache]);
+  const setQuotes = useCallback((update: ListUpdate<Quote>) => cache.setList(QUERIES.quotes, 'quote', update), [cache]);
+  const setRecurringProfiles = useCallback((update: ListUpdate<RecurringProfile>) => cache.setList(QUERIES.recurringProfiles, 'recurringProfile', update), [cache]);
+  const setNumberFormat = useCallback((format: NumberFormat) => cache.setValue(QUERIES.numberFormat, format), [cache]);
+
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<OutboxEntry[]>([]);
+  const [syncStatus, setSyncStatus] = useState<Record<string, OutboxStatus>>({});
+  const [recentlyChanged, setRecentlyChanged] = useState<Record<string, string>>({});
+  const [invoiceListeners] = useState(() => new Set<(change: InvoiceChange) => void>());
+  const metricsTimer = useRef<number>();
 
   /**
    * Clear error state
@@ -111,49 +283,136 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     setError(null);
   }, []);
 
+  /**
+   * Read the queued changes and the sync status of their records
+   */
+  const refreshOutbox = useCallback(() => {
+    setPendingChanges(user ? offlineService.getEntries(user.id) : []);
+    setSyncStatus(user ? offlineService.getStatuses(user.id) : {});
+  }, [user]);
+
+  /**
+   * Fetch the metrics again once changes stop coming in
+   */
+  const refreshMetrics = useCallback(() => {
+    window.clearTimeout(metricsTimer.current);
+    metricsTimer.current = window.setTimeout(() => {
+      cache.fetch(QUERIES.metrics, () => metricsService.getMetrics(), { force: true })
+        .catch(err => console.warn('Failed to refresh metrics:', err));
+    }, METRICS_REFRESH_MS);
+  }, [cache]);
+
+  /**
+   * Tell the listeners an invoice or client changed, and refresh the metrics
+   */
+  const notifyInvoiceChange = useCallback((change: InvoiceChange) => {
+    refreshMetrics();
+    invoiceListeners.forEach(listener => listener(change));
+  }, [invoiceListeners, refreshMetrics]);
+
+  /**
+   * Listen to changes of invoices and clients, until the returned function
+   * is called
+   */
+  const subscribeToInvoiceChanges = useCallback((listener: (change: InvoiceChange) => void) => {
+    invoiceListeners.add(listener);
+    return () => { invoiceListeners.delete(listener); };
+  }, [invoiceListeners]);
+
+  useEffect(() => () => window.clearTimeout(metricsTimer.current), []);
+
   /**
    * Load all data from Supabase
+   * Changes queued while offline are sent first and shown on top of the
+   * loaded data until they are synced. Without a connection the data last
+   * loaded is shown instead. Unless forced, cached data is shown right away
+   * and only what is stale is fetched again, in the background. Invoices
+   * are not loaded here but when they are opened; the metrics stand in for
+   * them.
    */
-  const loadData = useCallback(async () => {
+  const loadData = useCallback(async (force = false) => {
+    refreshOutbox();
+    // Cached data belongs to the user it was loaded for
+    if (cacheOwner.current !== (user?.id ?? null)) {
+      cache.clear();
+      cacheOwner.current = user?.id ?? null;
+      setRecentlyChanged({});
+    }
     if (!user) {
-      setClients([]);
-      setInvoices([]);
-      setMetrics(defaultMetrics);
       setIsLoading(false);
       return;
     }
 
+    const fetchAll = (refetch: boolean) => Promise.all([
+      cache.fetch(QUERIES.clients, async () => offlineService.applyPending(await clientService.getAll(), 'client', user.id), { entity: 'client', force: refetch }),
+      cache.fetch(QUERIES.quotes, () => quoteService.getAll(), { entity: 'quote', force: refetch }),
+      cache.fetch(QUERIES.recurringProfiles, () => recurringService.getAll(), { entity: 'recurringProfile', force: refetch }),
+      cache.fetch(QUERIES.metrics, () => metricsService.getMetrics(), { force: refetch }),
+      cache.fetch(QUERIES.numberFormat, () => numberingService.getFormat(), { force: refetch }),
+    ]);
+
+    if (!force && cache.has(QUERIES.metrics)) {
+      fetchAll(false).catch(err => console.warn('Failed to revalidate data:', err));
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
     try {
-      // Load all data in parallel
-      const [clientsData, invoicesData, metricsData] = await Promise.all([
-        clientService.getAll(),
-        invoiceService.getAll(),
-        metricsService.getMetrics(),
-      ]);
+      if (navigator.onLine) {
+        await syncService.replay(user.id).catch(err => console.error('Failed to sync offline changes:', err));
+        refreshOutbox();
+      }
+
+      // Issue recurring invoices that fell due first, so they are part of the data loaded below
+      await recurringService.generateDue().catch(err => console.error('Failed to generate recurring invoices:', err));
 
-      setClients(clientsData);
-      setInvoices(invoicesData);
-      setMetrics(metricsData);
+      // Load all data in parallel, joining fetches already under way
+      const [clientsData, quotesData, recurringData, metricsData, numberFormatData] = await fetchAll(true);
+      // Invoices created or changed offline that are still queued
+      setInvoices(prev => offlineService.applyPending(prev, 'invoice', user.id));
+
+      offlineService.saveSnapshot<WorkspaceSnapshot>(user.id, {
+        clients: clientsData,
+        invoices: cache.read<Invoice[]>(QUERIES.invoices) ?? [],
+        quotes: quotesData,
+        recurringProfiles: recurringData,
+        metrics: metricsData,
+        numberFormat: numberFormatData,
+      });
+      setIsOffline(false);
     } catch (err) {
-      console.error('Failed to load data:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load data');
-      // Initialize with empty data on error
-      setClients([]);
-      setInvoices([]);
-      setMetrics(defaultMetrics);
+      const snapshot = syncService.isOffline(err) ? offlineService.getSnapshot<WorkspaceSnapshot>(user.id) : null;
+      if (snapshot) {
+        // Work on the data last loaded until the connection returns
+        setClients(offlineService.applyPending(snapshot.data.clients, 'client', user.id));
+        setInvoices(offlineService.applyPending(snapshot.data.invoices, 'invoice', user.id));
+        setQuotes(snapshot.data.quotes);
+        setRecurringProfiles(snapshot.data.recurringProfiles);
+        // Snapshots saved before the metrics were kept have none
+        cache.setValue(QUERIES.metrics, snapshot.data.metrics ?? defaultMetrics);
+        setNumberFormat(snapshot.data.numberFormat);
+        setIsOffline(true);
+      } else {
+        console.error('Failed to load data:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load data');
+        // Initialize with empty data on error
+        setClients([]);
+        setInvoices([]);
+        setQuotes([]);
+        setRecurringProfiles([]);
+      }
     } finally {
       setIsLoading(false);
     }
-  }, [user]);
+  }, [user, cache, refreshOutbox]);
 
   /**
    * Refresh data from Supabase
    */
   const refreshData = useCallback(async () => {
-    await loadData();
+    await loadData(true);
   }, [loadData]);
 
   /**
@@ -163,6 +422,143 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     loadData();
   }, [loadData]);
 
+  /**
+   * Sync and reload when the connection returns, and fetch stale data again
+   * when the app is shown again
+   */
+  useEffect(() => {
+    const handleOnline = () => { loadData(true); };
+    const handleOffline = () => setIsOffline(true);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && navigator.onLine) {
+        loadData();
+      }
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [loadData]);
+
+  /**
+   * Merge the row changes on the server into the state as they come in
+   * Changes missed while disconnected are caught up on by loading all data.
+   * Only invoices changed elsewhere are announced; those changed here were
+   * announced on the change feed, but a deletion or a client change cannot
+   * be told apart.
+   */
+  useEffect(() => {
+    if (!user) return;
+
+    return liveMerge.connect(realtimeService.createSource(user.id, () => { loadData(true); }), {
+      getClients: () => cache.read<Client[]>(QUERIES.clients) ?? [],
+      getInvoices: () => cache.read<Invoice[]>(QUERIES.invoices) ?? [],
+      setClients,
+      setInvoices,
+      merged: (change, external) => {
+        if (external) {
+          setRecentlyChanged(prev => liveMerge.markRecent(liveMerge.pruneRecent(prev), change.id));
+        }
+        const invoiceChange = toInvoiceChange(change);
+        if (invoiceChange && (external || invoiceChange.type === 'remove' || invoiceChange.entity === 'client')) {
+          notifyInvoiceChange(invoiceChange);
+        }
+      },
+    });
+  }, [user, cache, loadData, notifyInvoiceChange]);
+
+  /**
+   * Let recently changed marks expire
+   */
+  useEffect(() => {
+    const timer = window.setInterval(() => setRecentlyChanged(prev => liveMerge.pruneRecent(prev)), 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  /**
+   * Apply the changes made in other tabs as they come in
+   * Record changes are applied one by one; a reload loads all data again.
+   */
+  useEffect(() => {
+    if (!user) return;
+
+    return changeFeed.subscribe(change => {
+      if ((change.entity === 'invoice' || change.entity === 'client') && change.origin !== changeFeed.EXTERNAL_ORIGIN) {
+        notifyInvoiceChange({ entity: change.entity, type: change.type, id: change.id });
+      }
+      if (!changeFeed.isExternal(change)) {
+        // Changed here, also when the server sent the change back first
+        const id = change.id;
+        if (change.entity === 'invoice' && id) {
+          setRecentlyChanged(prev => liveMerge.clearRecent(prev, id));
+        }
+        return;
+      }
+      // Local storage written by other tabs is not the account's data
+      if (change.origin === changeFeed.EXTERNAL_ORIGIN) return;
+
+      if (change.type === 'reload') {
+        loadData(true);
+        return;
+      }
+
+      const id = change.id;
+      switch (change.entity) {
+        case 'client': {
+          const client = change.record as Client | undefined;
+          if (change.type === 'remove') {
+            setClients(prev => prev.filter(c => c.id !== id));
+          } else if (client) {
+            setClients(prev => upsert(prev, client));
+            setInvoices(prev => prev.map(inv => inv.clientId === client.id ? { ...inv, client } : inv));
+          }
+          break;
+        }
+        case 'invoice':
+          setInvoices(prev => change.type === 'remove' ? prev.filter(inv => inv.id !== id) : upsert(prev, change.record as Invoice));
+          break;
+        case 'quote':
+          setQuotes(prev => change.type === 'remove' ? prev.filter(q => q.id !== id) : upsert(prev, change.record as Quote));
+          break;
+        case 'recurringProfile':
+          setRecurringProfiles(prev => change.type === 'remove' ? prev.filter(p => p.id !== id) : upsert(prev, change.record as RecurringProfile));
+          break;
+        case 'numberFormat':
+          setNumberFormat(change.record as NumberFormat);
+          break;
+      }
+      // Changes queued offline by the other tab
+      refreshOutbox();
+    });
+  }, [user, loadData, refreshOutbox, notifyInvoiceChange]);
+
+  /**
+   * Queue a change made while offline
+   * Changes to records created offline are not based on a server version.
+   * Returns false when the change could not be kept, after telling the user.
+   */
+  const queueChange = useCallback((change: Omit<OutboxEntry, 'id' | 'userId' | 'queuedAt' | 'status' | 'attempts'>): boolean => {
+    if (!user) return false;
+    try {
+      offlineService.enqueue({
+        ...change,
+        userId: user.id,
+        baseVersion: offlineService.isTempId(change.targetId) ? undefined : change.baseVersion,
+      });
+    } catch (err) {
+      console.error('Failed to queue offline change:', err);
+      setError(err instanceof Error ? err.message : 'This change could not be saved for syncing later');
+      return false;
+    }
+    setIsOffline(true);
+    refreshOutbox();
+    return true;
+  }, [user, refreshOutbox]);
+
   // ============================================
   // Client Actions
   // ============================================
@@ -176,76 +572,121 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
       const newClient = await clientService.create(input);
       
       // Update local state
-      setClients(prev => [newClient, ...prev]);
-      
-      // Update metrics
-      setMetrics(prev => ({
-        ...prev,
-        totalClients: prev.totalClients + 1,
-      }));
+      setClients(prev => upsert(prev, newClient));
+      changeFeed.publish({ entity: 'client', type: 'create', id: newClient.id, record: newClient });
       
       return { valid: true, errors: {}, data: newClient };
     } catch (err) {
+      const draft = syncService.isOffline(err) ? syncService.draftClient(offlineService.createTempId('client'), input) : undefined;
+      if (draft && queueChange({ entity: 'client', operation: 'create', targetId: draft.id, args: [input], record: draft })) {
+        setClients(prev => [draft, ...prev]);
+        changeFeed.publish({ entity: 'client', type: 'create', id: draft.id, record: draft });
+        return { valid: true, errors: {}, data: draft };
+      }
       const message = err instanceof Error ? err.message : 'Failed to create client';
       return { valid: false, errors: { general: message } };
     }
-  }, []);
+  }, [queueChange]);
 
   /**
    * Update an existing client
    * Requirement 4.3: Update client record in Supabase
+   * Without an expected version the client is overwritten
+   * The change is shown right away, and rolled back if the update fails
    */
-  const updateClient = useCallback(async (id: string, input: ClientInput): Promise<OperationResult<Client>> => {
-    try {
-      const updatedClient = await clientService.update(id, input);
-      
-      // Update local state
-      setClients(prev => prev.map(c => c.id === id ? updatedClient : c));
+  const updateClient = useCallback(async (id: string, input: ClientInput, expectedVersion?: string): Promise<OperationResult<Client>> => {
+    const applyClient = (client: Client) => {
+      setClients(prev => prev.map(c => c.id === id ? client : c));
       
       // Also update client reference in invoices
       setInvoices(prev => prev.map(inv => {
         if (inv.clientId === id) {
-          return { ...inv, client: updatedClient };
+          return { ...inv, client };
         }
         return inv;
       }));
+    };
+
+    const draft = syncService.draftClient(id, input, clients.find(c => c.id === id));
+    const rollback = cache.optimistic(() => applyClient(draft));
+
+    try {
+      const updatedClient = await clientService.update(id, input, expectedVersion);
+      
+      // Update local state
+      applyClient(updatedClient);
+      changeFeed.publish({ entity: 'client', type: 'update', id, record: updatedClient });
       
       return { valid: true, errors: {}, data: updatedClient };
     } catch (err) {
+      // Someone else saved first; show their version
+      if (err instanceof VersionConflictError) {
+        const latest = err.latest as Client;
+        applyClient(latest);
+        changeFeed.publish({ entity: 'client', type: 'update', id, record: latest });
+        return { valid: false, errors: { general: err.message }, conflict: latest };
+      }
+      if (syncService.isOffline(err) && queueChange({ entity: 'client', operation: 'update', targetId: id, args: [input], record: draft, baseVersion: expectedVersion })) {
+        changeFeed.publish({ entity: 'client', type: 'update', id, record: draft });
+        return { valid: true, errors: {}, data: draft };
+      }
+      rollback();
       const message = err instanceof Error ? err.message : 'Failed to update client';
       return { valid: false, errors: { general: message } };
     }
-  }, []);
+  }, [cache, clients, queueChange]);
 
   /**
    * Delete a client
    * Requirement 4.4: Remove client from Supabase
+   * The client is removed right away, and restored if the delete fails
    */
   const deleteClient = useCallback(async (id: string): Promise<boolean> => {
+    const rollback = cache.optimistic(() => cache.remove('client', id));
+
     try {
       await clientService.delete(id);
-      
-      // Update local state
-      setClients(prev => prev.filter(c => c.id !== id));
-      
-      // Update metrics
-      setMetrics(prev => ({
-        ...prev,
-        totalClients: Math.max(0, prev.totalClients - 1),
-      }));
+      changeFeed.publish({ entity: 'client', type: 'remove', id });
       
       return true;
     } catch (err) {
+      if (syncService.isOffline(err) && queueChange({ entity: 'client', operation: 'delete', targetId: id, args: [] })) {
+        changeFeed.publish({ entity: 'client', type: 'remove', id });
+        return true;
+      }
+      rollback();
       console.error('Failed to delete client:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete client');
       return false;
     }
-  }, []);
+  }, [cache, queueChange]);
 
   // ============================================
   // Invoice Actions
   // ============================================
 
+  /**
+   * Load an invoice with its line items and status history, e.g. when it is
+   * opened; changes queued offline are shown on top of it. Without a
+   * connection the invoice last loaded is returned.
+   */
+  const loadInvoice = useCallback(async (id: string): Promise<Invoice | undefined> => {
+    const loaded = () => cache.read<Invoice[]>(QUERIES.invoices)?.find(inv => inv.id === id);
+    if (!user || offlineService.isTempId(id)) return loaded();
+
+    try {
+      const invoice = await invoiceService.getById(id);
+      const shown = invoice ? offlineService.applyPending([invoice], 'invoice', user.id).find(inv => inv.id === id) : undefined;
+      setInvoices(prev => shown ? upsert(prev, shown) : prev.filter(inv => inv.id !== id));
+      return shown;
+    } catch (err) {
+      if (syncService.isOffline(err)) return loaded();
+      console.error('Failed to load invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load invoice');
+      return undefined;
+    }
+  }, [user, cache]);
+
   /**
    * Add a new invoice
    * Requirement 5.1: Insert invoice and line items into Supabase
@@ -261,29 +702,39 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     if (!input.lineItems || input.lineItems.length === 0) {
       return { valid: false, errors: { lineItems: 'At least one line item is required' } };
     }
+    if (!discountService.isValid(input.discount)) {
+      return { valid: false, errors: { discount: 'Discount must be between 0 and 100% or a positive amount' } };
+    }
+    if (!paymentTermsService.isValid(input.paymentTerms)) {
+      return { valid: false, errors: { paymentTerms: 'Payment terms must have zero or more days' } };
+    }
 
     try {
       const newInvoice = await invoiceService.create(input);
       
       // Update local state
-      setInvoices(prev => [newInvoice, ...prev]);
-      
-      // Refresh metrics to get accurate counts
-      const updatedMetrics = await metricsService.getMetrics();
-      setMetrics(updatedMetrics);
+      setInvoices(prev => upsert(prev, newInvoice));
+      changeFeed.publish({ entity: 'invoice', type: 'create', id: newInvoice.id, record: newInvoice });
       
       return { valid: true, errors: {}, data: newInvoice };
     } catch (err) {
+      const draft = syncService.isOffline(err) ? syncService.draftInvoice(offlineService.createTempId('invoice'), input, clients) : undefined;
+      if (draft && queueChange({ entity: 'invoice', operation: 'create', targetId: draft.id, args: [input], record: draft })) {
+        setInvoices(prev => [draft, ...prev]);
+        changeFeed.publish({ entity: 'invoice', type: 'create', id: draft.id, record: draft });
+        return { valid: true, errors: {}, data: draft };
+      }
       const message = err instanceof Error ? err.message : 'Failed to create invoice';
       return { valid: false, errors: { general: message } };
     }
-  }, []);
+  }, [clients, queueChange]);
 
   /**
    * Update an existing invoice
    * Requirement 5.3: Update invoice and line items in Supabase
+   * Without an expected version the invoice is overwritten
    */
-  const updateInvoice = useCallback(async (id: string, input: InvoiceInput): Promise<OperationResult<Invoice>> => {
+  const updateInvoice = useCallback(async (id: string, input: InvoiceInput, expectedVersion?: string): Promise<OperationResult<Invoice>> => {
     // Basic validation
     if (!input.clientId) {
       return { valid: false, errors: { clientId: 'Client is required' } };
@@ -294,46 +745,66 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     if (!input.lineItems || input.lineItems.length === 0) {
       return { valid: false, errors: { lineItems: 'At least one line item is required' } };
     }
+    if (!discountService.isValid(input.discount)) {
+      return { valid: false, errors: { discount: 'Discount must be between 0 and 100% or a positive amount' } };
+    }
+    if (!paymentTermsService.isValid(input.paymentTerms)) {
+      return { valid: false, errors: { paymentTerms: 'Payment terms must have zero or more days' } };
+    }
+
+    const draft = syncService.draftInvoice(id, input, clients, invoices.find(inv => inv.id === id));
+    const rollback = cache.optimistic(() => setInvoices(prev => prev.map(inv => inv.id === id ? draft : inv)));
 
     try {
-      const updatedInvoice = await invoiceService.update(id, input);
+      const updatedInvoice = await invoiceService.update(id, input, {}, expectedVersion);
       
       // Update local state
       setInvoices(prev => prev.map(inv => inv.id === id ? updatedInvoice : inv));
-      
-      // Refresh metrics if status changed
-      const updatedMetrics = await metricsService.getMetrics();
-      setMetrics(updatedMetrics);
+      changeFeed.publish({ entity: 'invoice', type: 'update', id, record: updatedInvoice });
       
       return { valid: true, errors: {}, data: updatedInvoice };
     } catch (err) {
+      // Someone else saved first; show their version
+      if (err instanceof VersionConflictError) {
+        const latest = err.latest as Invoice;
+        setInvoices(prev => prev.map(inv => inv.id === id ? latest : inv));
+        changeFeed.publish({ entity: 'invoice', type: 'update', id, record: latest });
+        return { valid: false, errors: { general: err.message }, conflict: latest };
+      }
+      if (syncService.isOffline(err) && queueChange({ entity: 'invoice', operation: 'update', targetId: id, args: [input], record: draft, baseVersion: expectedVersion })) {
+        changeFeed.publish({ entity: 'invoice', type: 'update', id, record: draft });
+        return { valid: true, errors: {}, data: draft };
+      }
+      rollback();
       const message = err instanceof Error ? err.message : 'Failed to update invoice';
       return { valid: false, errors: { general: message } };
     }
-  }, []);
+  }, [cache, clients, invoices, queueChange]);
 
   /**
    * Delete an invoice
    * Requirement 5.4: Remove invoice and associated line items
+   * The invoice is removed right away, and restored if the delete fails
    */
   const deleteInvoice = useCallback(async (id: string): Promise<boolean> => {
+    const rollback = cache.optimistic(() => cache.remove('invoice', id));
+
     try {
       await invoiceService.delete(id);
-      
-      // Update local state
-      setInvoices(prev => prev.filter(inv => inv.id !== id));
-      
-      // Refresh metrics
-      const updatedMetrics = await metricsService.getMetrics();
-      setMetrics(updatedMetrics);
+      changeFeed.publish({ entity: 'invoice', type: 'remove', id });
       
       return true;
     } catch (err) {
+      if (syncService.isOffline(err) && queueChange({ entity: 'invoice', operation: 'delete', targetId: id, args: [] })) {
+        changeFeed.publish({ entity: 'invoice', type: 'remove', id });
+        return true;
+      }
+      rollback();
       console.error('Failed to delete invoice:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete invoice');
       return false;
     }
-  }, []);
+  }, [cache, queueChange]);
 
   /**
    * Duplicate an invoice
@@ -343,11 +814,8 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
       const newInvoice = await invoiceService.duplicate(id);
       
       // Update local state
-      setInvoices(prev => [newInvoice, ...prev]);
-      
-      // Refresh metrics
-      const updatedMetrics = await metricsService.getMetrics();
-      setMetrics(updatedMetrics);
+      setInvoices(prev => upsert(prev, newInvoice));
+      changeFeed.publish({ entity: 'invoice', type: 'create', id: newInvoice.id, record: newInvoice });
       
       return newInvoice;
     } catch (err) {
@@ -359,40 +827,442 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
 
   /**
    * Mark an invoice as paid
+   * Shown as paid right away, and rolled back if the change fails
    */
   const markInvoiceAsPaid = useCallback(async (id: string): Promise<void> => {
+    const existing = invoices.find(inv => inv.id === id);
+    // Settled in full, as the payment recorded when it syncs
+    const draft: Invoice | undefined = existing && { ...existing, status: 'paid', amountPaid: existing.amountPaid + existing.balanceDue, balanceDue: 0 };
+    const rollback = cache.optimistic(() => {
+      if (draft) setInvoices(prev => prev.map(inv => inv.id === id ? draft : inv));
+    });
+
     try {
       const updatedInvoice = await invoiceService.markAsPaid(id);
       
       // Update local state
       setInvoices(prev => prev.map(inv => inv.id === id ? updatedInvoice : inv));
-      
-      // Refresh metrics
-      const updatedMetrics = await metricsService.getMetrics();
-      setMetrics(updatedMetrics);
+      changeFeed.publish({ entity: 'invoice', type: 'update', id, record: updatedInvoice });
     } catch (err) {
+      if (syncService.isOffline(err) && draft && queueChange({ entity: 'invoice', operation: 'markAsPaid', targetId: id, args: [], record: draft })) {
+        changeFeed.publish({ entity: 'invoice', type: 'update', id, record: draft });
+        return;
+      }
+      rollback();
       console.error('Failed to mark invoice as paid:', err);
       setError(err instanceof Error ? err.message : 'Failed to mark invoice as paid');
     }
-  }, []);
+  }, [cache, invoices, queueChange]);
 
   /**
    * Mark an invoice as sent
+   * Shown as sent right away, and rolled back if the change fails
    */
   const markInvoiceAsSent = useCallback(async (id: string): Promise<void> => {
+    const existing = invoices.find(inv => inv.id === id);
+    const draft: Invoice | undefined = existing && { ...existing, status: 'sent' };
+    const rollback = cache.optimistic(() => {
+      if (draft) setInvoices(prev => prev.map(inv => inv.id === id ? draft : inv));
+    });
+
     try {
-      const updatedInvoice = await invoiceService.update(id, { status: 'sent' });
+      const updatedInvoice = await invoiceService.markAsSent(id);
       
       // Update local state
       setInvoices(prev => prev.map(inv => inv.id === id ? updatedInvoice : inv));
-      
-      // Refresh metrics
-      const updatedMetrics = await metricsService.getMetrics();
-      setMetrics(updatedMetrics);
+      changeFeed.publish({ entity: 'invoice', type: 'update', id, record: updatedInvoice });
     } catch (err) {
+      if (syncService.isOffline(err) && draft && queueChange({ entity: 'invoice', operation: 'markAsSent', targetId: id, args: [], record: draft })) {
+        changeFeed.publish({ entity: 'invoice', type: 'update', id, record: draft });
+        return;
+      }
+      rollback();
       console.error('Failed to mark invoice as sent:', err);
       setError(err instanceof Error ? err.message : 'Failed to mark invoice as sent');
     }
+  }, [cache, invoices, queueChange]);
+
+  /**
+   * Void an invoice; it keeps its number but no longer counts as owed
+   */
+  const voidInvoice = useCallback(async (id: string, reason: string): Promise<OperationResult<Invoice>> => {
+    try {
+      // Voids the invoice as shown, not a version changed since
+      const shown = cache.getRecord<Invoice>('invoice', id);
+      const updatedInvoice = await invoiceService.void(id, reason, shown?.updatedAt);
+
+      // Update local state
+      setInvoices(prev => prev.map(inv => inv.id === id ? updatedInvoice : inv));
+      changeFeed.publish({ entity: 'invoice', type: 'update', id, record: updatedInvoice });
+
+      return { valid: true, errors: {}, data: updatedInvoice };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to void invoice';
+      return { valid: false, errors: { general: message } };
+    }
+  },[cache]);
+
+  // ============================================
+  // Payment Actions
+  // ============================================
+
+  /**
+   * Get the payments recorded against an invoice
+   */
+  const getInvoicePayments = useCallback(async (invoiceId: string): Promise<Payment[]> => {
+    try {
+      return await paymentService.getByInvoiceId(invoiceId);
+    } catch (err) {
+      console.error('Failed to load payments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load payments');
+      return [];
+    }
+  }, []);
+
+  /**
+   * Record a payment; the invoice balance and status are updated with it
+   */
+  const recordPayment = useCallback(async (invoiceId: string, input: PaymentInput): Promise<OperationResult<Invoice>> => {
+    try {
+      await paymentService.record(invoiceId, input);
+      const updatedInvoice = await invoiceService.getById(invoiceId);
+
+      // Update local state
+      if (updatedInvoice) {
+        setInvoices(prev => prev.map(inv => inv.id === invoiceId ? updatedInvoice : inv));
+        changeFeed.publish({ entity: 'invoice', type: 'update', id: invoiceId, record: updatedInvoice });
+      }
+
+      return { valid: true, errors: {}, data: updatedInvoice ?? undefined };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to record payment';
+      return { valid: false, errors: { general: message } };
+    }
+  }, []);
+
+  /**
+   * Delete a payment; the invoice balance and status are updated with it
+   */
+  const deletePayment = useCallback(async (paymentId: string, invoiceId: string): Promise<boolean> => {
+    try {
+      await paymentService.delete(paymentId);
+      const updatedInvoice = await invoiceService.getById(invoiceId);
+
+      // Update local state
+      if (updatedInvoice) {
+        setInvoices(prev => prev.map(inv => inv.id === invoiceId ? updatedInvoice : inv));
+        changeFeed.publish({ entity: 'invoice', type: 'update', id: invoiceId, record: updatedInvoice });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Failed to delete payment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete payment');
+      return false;
+    }
+  }, []);
+
+  /**
+   * Start paying the balance due of an invoice through the payment provider
+   */
+  const startOnlinePayment = useCallback(async (invoiceId: string): Promise<OperationResult<PaymentIntent>> => {
+    try {
+      const intent = await paymentGatewayService.startPayment(invoiceId);
+      return { valid: true, errors: {}, data: intent };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to start payment';
+      return { valid: false, errors: { general: message } };
+    }
+  }, []);
+
+  /**
+   * Confirm an online payment; the invoice is only updated once the provider
+   * reports the payment as succeeded
+   */
+  const confirmOnlinePayment = useCallback(async (intentId: string, card?: CardDetails): Promise<OperationResult<PaymentIntent>> => {
+    try {
+      const intent = await paymentGatewayService.confirmPayment(intentId, card);
+
+      if (intent.status === 'succeeded') {
+        const updatedInvoice = await invoiceService.getById(intent.invoiceId);
+
+        // Update local state
+        if (updatedInvoice) {
+          setInvoices(prev => prev.map(inv => inv.id === intent.invoiceId ? updatedInvoice : inv));
+          changeFeed.publish({ entity: 'invoice', type: 'update', id: intent.invoiceId, record: updatedInvoice });
+        }
+      }
+
+      return { valid: true, errors: {}, data: intent };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to confirm payment';
+      return { valid: false, errors: { general: message } };
+    }
+  }, []);
+
+  /**
+   * Refund an online card payment through the payment provider
+   */
+  const refundPayment = useCallback(async (payment: Payment): Promise<boolean> => {
+    try {
+      await paymentGatewayService.refundPayment(payment);
+      const updatedInvoice = await invoiceService.getById(payment.invoiceId);
+
+      // Update local state
+      if (updatedInvoice) {
+        setInvoices(prev => prev.map(inv => inv.id === payment.invoiceId ? updatedInvoice : inv));
+        changeFeed.publish({ entity: 'invoice', type: 'update', id: payment.invoiceId, record: updatedInvoice });
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Failed to refund payment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to refund payment');
+      return false;
+    }
+  }, []);
+
+  // ============================================
+  // Credit Note Actions
+  // ============================================
+
+  /**
+   * Get the credit notes issued against an invoice
+   */
+  const getInvoiceCreditNotes = useCallback(async (invoiceId: string): Promise<CreditNote[]> => {
+    try {
+      return await creditNoteService.getByInvoiceId(invoiceId);
+    } catch (err) {
+      console.error('Failed to load credit notes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load credit notes');
+      return [];
+    }
+  }, []);
+
+  /**
+   * Issue a credit note; the invoice balance and status are updated with it
+   */
+  const issueCreditNote = useCallback(async (invoiceId: string, input: CreditNoteInput): Promise<OperationResult<CreditNote>> => {
+    try {
+      const creditNote = await creditNoteService.create(invoiceId, input);
+      const updatedInvoice = await invoiceService.getById(invoiceId);
+
+      // Update local state
+      if (updatedInvoice) {
+        setInvoices(prev => prev.map(inv => inv.id === invoiceId ? updatedInvoice : inv));
+        changeFeed.publish({ entity: 'invoice', type: 'update', id: invoiceId, record: updatedInvoice });
+      }
+
+      return { valid: true, errors: {}, data: creditNote };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to issue credit note';
+      return { valid: false, errors: { general: message } };
+    }
+  }, []);
+
+  // ============================================
+  // Recurring Profile Actions
+  // ============================================
+
+  /**
+   * Issue the invoices of recurring profiles that are due and reload what they change
+   */
+  const generateRecurringInvoices = useCallback(async (): Promise<void> => {
+    const issued = await recurringService.generateDue();
+    if (issued.length > 0) {
+      changeFeed.publish({ entity: 'invoice', type: 'reload' });
+    }
+    setRecurringProfiles(await recurringService.getAll());
+  }, []);
+
+  /**
+   * Add a recurring profile
+   * Runs from a start date in the past are issued right away
+   */
+  const addRecurringProfile = useCallback(async (input: RecurringProfileInput): Promise<OperationResult<RecurringProfile>> => {
+    try {
+      const profile = await recurringService.create(input);
+      setRecurringProfiles(prev => [...prev, profile]);
+      changeFeed.publish({ entity: 'recurringProfile', type: 'create', id: profile.id, record: profile });
+      await generateRecurringInvoices();
+      return { valid: true, errors: {}, data: profile };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create recurring profile';
+      return { valid: false, errors: { general: message } };
+    }
+  }, [generateRecurringInvoices]);
+
+  /**
+   * Update a recurring profile
+   */
+  const updateRecurringProfile = useCallback(async (id: string, input: RecurringProfileInput): Promise<OperationResult<RecurringProfile>> => {
+    try {
+      const profile = await recurringService.update(id, input);
+      setRecurringProfiles(prev => prev.map(p => p.id === id ? profile : p));
+      changeFeed.publish({ entity: 'recurringProfile', type: 'update', id, record: profile });
+      await generateRecurringInvoices();
+      return { valid: true, errors: {}, data: profile };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update recurring profile';
+      return { valid: false, errors: { general: message } };
+    }
+  }, [generateRecurringInvoices]);
+
+  /**
+   * Pause or resume a recurring profile
+   */
+  const setRecurringProfileActive = useCallback(async (id: string, active: boolean): Promise<boolean> => {
+    try {
+      const profile = await recurringService.setActive(id, active);
+      setRecurringProfiles(prev => prev.map(p => p.id === id ? profile : p));
+      changeFeed.publish({ entity: 'recurringProfile', type: 'update', id, record: profile });
+      if (active) {
+        await generateRecurringInvoices();
+      }
+      return true;
+    } catch (err) {
+      console.error('Failed to change recurring profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change recurring profile');
+      return false;
+    }
+  }, [generateRecurringInvoices]);
+
+  /**
+   * Delete a recurring profile, keeping the invoices it issued
+   */
+  const deleteRecurringProfile = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      await recurringService.delete(id);
+      setRecurringProfiles(prev => prev.filter(p => p.id !== id));
+      changeFeed.publish({ entity: 'recurringProfile', type: 'remove', id });
+      return true;
+    } catch (err) {
+      console.error('Failed to delete recurring profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete recurring profile');
+      return false;
+    }
+  }, []);
+
+  // ============================================
+  // Quote Actions
+  // ============================================
+
+  /**
+   * Add a new quote
+   */
+  const addQuote = useCallback(async (input: QuoteInput): Promise<OperationResult<Quote>> => {
+    try {
+      const newQuote = await quoteService.create(input);
+      setQuotes(prev => [newQuote, ...prev]);
+      changeFeed.publish({ entity: 'quote', type: 'create', id: newQuote.id, record: newQuote });
+      return { valid: true, errors: {}, data: newQuote };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create quote';
+      return { valid: false, errors: { general: message } };
+    }
+  }, []);
+
+  /**
+   * Update a quote that has not been answered yet
+   */
+  const updateQuote = useCallback(async (id: string, input: QuoteInput): Promise<OperationResult<Quote>> => {
+    try {
+      const updatedQuote = await quoteService.update(id, input);
+      setQuotes(prev => prev.map(q => q.id === id ? updatedQuote : q));
+      changeFeed.publish({ entity: 'quote', type: 'update', id, record: updatedQuote });
+      return { valid: true, errors: {}, data: updatedQuote };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update quote';
+      return { valid: false, errors: { general: message } };
+    }
+  }, []);
+
+  /**
+   * Delete a quote
+   */
+  const deleteQuote = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      await quoteService.delete(id);
+      setQuotes(prev => prev.filter(q => q.id !== id));
+      changeFeed.publish({ entity: 'quote', type: 'remove', id });
+      return true;
+    } catch (err) {
+      console.error('Failed to delete quote:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete quote');
+      return false;
+    }
+  }, []);
+
+  /**
+   * Mark a quote as sent
+   */
+  const markQuoteAsSent = useCallback(async (id: string): Promise<void> => {
+    try {
+      const updatedQuote = await quoteService.markAsSent(id);
+      setQuotes(prev => prev.map(q => q.id === id ? updatedQuote : q));
+      changeFeed.publish({ entity: 'quote', type: 'update', id, record: updatedQuote });
+    } catch (err) {
+      console.error('Failed to mark quote as sent:', err);
+      setError(err instanceof Error ? err.message : 'Failed to mark quote as sent');
+    }
+  }, []);
+
+  /**
+   * Record the client's answer to a quote
+   * An expired quote is reloaded so the page shows it as expired
+   */
+  const respondToQuote = useCallback(async (id: string, status: 'accepted' | 'declined', response: QuoteResponse): Promise<OperationResult<Quote>> => {
+    try {
+      const updatedQuote = await quoteService.respond(id, status, response);
+      setQuotes(prev => prev.map(q => q.id === id ? updatedQuote : q));
+      changeFeed.publish({ entity: 'quote', type: 'update', id, record: updatedQuote });
+      return { valid: true, errors: {}, data: updatedQuote };
+    } catch (err) {
+      const reloaded = await quoteService.getById(id).catch(() => null);
+      if (reloaded) {
+        setQuotes(prev => prev.map(q => q.id === id ? reloaded : q));
+        changeFeed.publish({ entity: 'quote', type: 'update', id, record: reloaded });
+      }
+      const message = err instanceof Error ? err.message : 'Failed to answer quote';
+      return { valid: false, errors: { general: message } };
+    }
+  }, []);
+
+  /**
+   * Accept a quote
+   */
+  const acceptQuote = useCallback((id: string, response: QuoteResponse): Promise<OperationResult<Quote>> => {
+    return respondToQuote(id, 'accepted', response);
+  }, [respondToQuote]);
+
+  /**
+   * Decline a quote
+   */
+  const declineQuote = useCallback((id: string, response: QuoteResponse): Promise<OperationResult<Quote>> => {
+    return respondToQuote(id, 'declined', response);
+  }, [respondToQuote]);
+
+  /**
+   * Convert a quote into a linked draft invoice
+   */
+  const convertQuoteToInvoice = useCallback(async (id: string): Promise<OperationResult<Invoice>> => {
+    try {
+      const newInvoice = await quoteService.convertToInvoice(id);
+      const updatedQuote = await quoteService.getById(id);
+
+      // Update local state
+      setInvoices(prev => upsert(prev, newInvoice));
+      changeFeed.publish({ entity: 'invoice', type: 'create', id: newInvoice.id, record: newInvoice });
+      if (updatedQuote) {
+        setQuotes(prev => prev.map(q => q.id === id ? updatedQuote : q));
+        changeFeed.publish({ entity: 'quote', type: 'update', id, record: updatedQuote });
+      }
+
+      return { valid: true, errors: {}, data: newInvoice };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to convert quote';
+      return { valid: false, errors: { general: message } };
+    }
   }, []);
 
   // ============================================
@@ -413,6 +1283,119 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     return invoices.find(inv => inv.id === id);
   }, [invoices]);
 
+  /**
+   * Get a quote by ID
+   */
+  const getQuoteById = useCallback((id: string): Quote | undefined => {
+    return quotes.find(q => q.id === id);
+  }, [quotes]);
+
+  // ============================================
+  // Numbering Actions
+  // ============================================
+
+  /**
+   * Save the template and reset policy of document numbers
+   */
+  const updateNumberFormat = useCallback(async (format: NumberFormat): Promise<OperationResult<NumberFormat>> => {
+    const validation = localNumbers.validateFormat(format);
+    if (!validation.valid) {
+      return { valid: false, errors: validation.errors };
+    }
+
+    try {
+      const saved = await numberingService.updateFormat(format);
+      setNumberFormat(saved);
+      changeFeed.publish({ entity: 'numberFormat', type: 'update', record: saved });
+      return { valid: true, errors: {}, data: saved };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save number format';
+      return { valid: false, errors: { general: message } };
+    }
+  }, []);
+
+  // ============================================
+  // Backup Actions
+  // ============================================
+
+  /**
+   * Export the workspace as a backup archive
+   */
+  const exportWorkspace = useCallback(async (): Promise<OperationResult<WorkspaceArchive>> => {
+    try {
+      const archive = await backupService.export();
+      return { valid: true, errors: {}, data: archive };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to export backup';
+      return { valid: false, errors: { general: message } };
+    }
+  }, []);
+
+  /**
+   * Restore a backup archive, or only preview the restore with dryRun
+   * The workspace is reloaded after a restore, also when some records failed
+   */
+  const restoreWorkspace = useCallback(async (
+    archive: WorkspaceArchive,
+    mode: RestoreMode,
+    dryRun = false
+  ): Promise<OperationResult<RestoreResult>> => {
+    try {
+      const result = await backupService.restore(archive, mode, { dryRun });
+      return { valid: true, errors: {}, data: result };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to restore backup';
+      return { valid: false, errors: { general: message } };
+    } finally {
+      if (!dryRun) {
+        await loadData(true);
+        changeFeed.publish({ entity: 'invoice', type: 'reload' });
+      }
+    }
+  }, [loadData]);
+
+  /**
+   * Import the clients and invoices kept on this device into the account,
+   * or only preview the import with dryRun
+   */
+  const importLocalData = useCallback(async (dryRun = false): Promise<OperationResult<ImportReport>> => {
+    try {
+      const report = await importService.import({ dryRun });
+      return { valid: true, errors: {}, data: report };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to import data';
+      return { valid: false, errors: { general: message } };
+    } finally {
+      if (!dryRun) {
+        await loadData(true);
+        changeFeed.publish({ entity: 'invoice', type: 'reload' });
+      }
+    }
+  }, [loadData]);
+
+  // ============================================
+  // Sync Actions
+  // ============================================
+
+  /**
+   * Send a change that failed or conflicted again
+   * With force it overwrites the changes made on the server since
+   */
+  const retryChange = useCallback(async (id: string, force = false): Promise<void> => {
+    offlineService.retry(id, force);
+    await loadData(true);
+    changeFeed.publish({ entity: 'invoice', type: 'reload' });
+  }, [loadData]);
+
+  /**
+   * Drop a queued change and show the record as the server has it
+   */
+  const discardChange = useCallback(async (id: string): Promise<void> => {
+    offlineService.discard(id);
+    await loadData(true);
+    changeFeed.publish({ entity: 'invoice', type: 'reload' });
+  }, [loadData]);
+
   // ============================================
   // Context Value
   // ============================================
@@ -421,9 +1404,16 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     // State
     clients,
     invoices,
+    quotes,
+    recurringProfiles,
     metrics,
+    numberFormat,
     isLoading,
     error,
+    isOffline,
+    pendingChanges,
+    syncStatus,
+    recentlyChanged,
     
     // Client actions
     addClient,
@@ -431,35 +1421,114 @@ export function AppProvider({ children }: AppProviderProps): React.ReactElement
     deleteClient,
     
     // Invoice actions
+    loadInvoice,
     addInvoice,
     updateInvoice,
     deleteInvoice,
     duplicateInvoice,
     markInvoiceAsPaid,
     markInvoiceAsSent,
+    voidInvoice,
+
+    // Payment actions
+    getInvoicePayments,
+    recordPayment,
+    deletePayment,
+    startOnlinePayment,
+    confirmOnlinePayment,
+    refundPayment,
+
+    // Credit note actions
+    getInvoiceCreditNotes,
+    issueCreditNote,
+
+    // Quote actions
+    addQuote,
+    updateQuote,
+    deleteQuote,
+    markQuoteAsSent,
+    acceptQuote,
+    declineQuote,
+    convertQuoteToInvoice,
+
+    // Recurring profile actions
+    addRecurringProfile,
+    updateRecurringProfile,
+    setRecurringProfileActive,
+    deleteRecurringProfile,
+
+    // Numbering actions
+    updateNumberFormat,
+
+    // Backup actions
+    exportWorkspace,
+    restoreWorkspace,
+    importLocalData,
+
+    // Sync actions
+    retryChange,
+    discardChange,
     
     // Utility
     getClientById,
     getInvoiceById,
+    getQuoteById,
+    subscribeToInvoiceChanges,
     refreshData,
     clearError,
   }), [
     clients,
     invoices,
+    quotes,
+    recurringProfiles,
     metrics,
+    numberFormat,
     isLoading,
     error,
+    isOffline,
+    pendingChanges,
+    syncStatus,
+    recentlyChanged,
     addClient,
     updateClient,
     deleteClient,
+    loadInvoice,
     addInvoice,
     updateInvoice,
     deleteInvoice,
     duplicateInvoice,
     markInvoiceAsPaid,
     markInvoiceAsSent,
+    voidInvoice,
+    getInvoicePayments,
+    recordPayment,
+    deletePayment,
+    startOnlinePayment,
+    confirmOnlinePayment,
+    refundPayment,
+    getInvoiceCreditNotes,
+    issueCreditNote,
+    addQuote,
+    updateQuote,
+    deleteQuote,
+    markQuoteAsSent,
+    acceptQuote,
+    declineQuote,
+    convertQuoteToInvoice,
+    addRecurringProfile,
+    updateRecurringProfile,
+    setRecurringProfileActive,
+    deleteRecurringProfile,
+    updateNumberFormat,
+    exportWorkspace,
+    restoreWorkspace,
+    importLocalData,
+    retryChange,
+    discardChange,
     getClientById,
     getInvoiceById,
+    getQuoteById,
+    subscribeToInvoiceChanges,
     refreshData,
     clearError,
   ]);
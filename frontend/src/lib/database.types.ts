@@ -11,6 +11,9 @@ export interface Database {
           company: string | null
           phone: string | null
           address: string | null
+          default_currency: string
+          default_terms_type: 'receipt' | 'net' | 'eom' | null
+          default_terms_days: number | null
           created_at: string
           updated_at: string
         }
@@ -22,6 +25,9 @@ export interface Database {
           company?: string | null
           phone?: string | null
           address?: string | null
+          default_currency?: string
+          default_terms_type?: 'receipt' | 'net' | 'eom' | null
+          default_terms_days?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -33,6 +39,9 @@ export interface Database {
           company?: string | null
           phone?: string | null
           address?: string | null
+          default_currency?: string
+          default_terms_type?: 'receipt' | 'net' | 'eom' | null
+          default_terms_days?: number | null
           updated_at?: string
         }
         Relationships: []
@@ -43,13 +52,29 @@ export interface Database {
           user_id: string
           client_id: string | null
           invoice_number: string
-          status: 'draft' | 'sent' | 'paid' | 'overdue'
+          status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+          currency: string
           issue_date: string
           due_date: string
+          payment_terms_type: 'receipt' | 'net' | 'eom' | null
+          payment_terms_days: number | null
+          tax_name: string
+          tax_rate: number
+          discount_type: 'percentage' | 'fixed' | null
+          discount_value: number | null
+          rounding_mode: 'half-up' | 'half-even'
+          rounding_scope: 'line' | 'invoice'
           subtotal: number
+          discount_amount: number
           tax: number
           total: number
+          amount_paid: number
+          credited_amount: number
+          balance_due: number
           notes: string | null
+          recurring_profile_id: string | null
+          recurring_period: string | null
+          quote_id: string | null
           created_at: string
           updated_at: string
         }
@@ -58,13 +83,29 @@ export interface Database {
           user_id: string
           client_id?: string | null
           invoice_number: string
-          status?: 'draft' | 'sent' | 'paid' | 'overdue'
+          status?: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+          currency?: string
           issue_date: string
           due_date: string
+          payment_terms_type?: 'receipt' | 'net' | 'eom' | null
+          payment_terms_days?: number | null
+          tax_name?: string
+          tax_rate?: number
+          discount_type?: 'percentage' | 'fixed' | null
+          discount_value?: number | null
+          rounding_mode?: 'half-up' | 'half-even'
+          rounding_scope?: 'line' | 'invoice'
           subtotal?: number
+          discount_amount?: number
           tax?: number
           total?: number
+          amount_paid?: number
+          credited_amount?: number
+          balance_due?: number
           notes?: string | null
+          recurring_profile_id?: string | null
+          recurring_period?: string | null
+          quote_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -73,12 +114,25 @@ export interface Database {
           user_id?: string
           client_id?: string | null
           invoice_number?: string
-          status?: 'draft' | 'sent' | 'paid' | 'overdue'
+          status?: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+          currency?: string
           issue_date?: string
           due_date?: string
+          payment_terms_type?: 'receipt' | 'net' | 'eom' | null
+          payment_terms_days?: number | null
+          tax_name?: string
+          tax_rate?: number
+          discount_type?: 'percentage' | 'fixed' | null
+          discount_value?: number | null
+          rounding_mode?: 'half-up' | 'half-even'
+          rounding_scope?: 'line' | 'invoice'
           subtotal?: number
+          discount_amount?: number
           tax?: number
           total?: number
+          amount_paid?: number
+          credited_amount?: number
+          balance_due?: number
           notes?: string | null
           updated_at?: string
         }
@@ -99,6 +153,10 @@ export interface Database {
           quantity: number
           rate: number
           amount: number
+          tax_name: string | null
+          tax_rate: number | null
+          discount_type: 'percentage' | 'fixed' | null
+          discount_value: number | null
         }
         Insert: {
           id?: string
@@ -107,6 +165,10 @@ export interface Database {
           quantity: number
           rate: number
           amount?: number
+          tax_name?: string | null
+          tax_rate?: number | null
+          discount_type?: 'percentage' | 'fixed' | null
+          discount_value?: number | null
         }
         Update: {
           id?: string
@@ -115,6 +177,10 @@ export interface Database {
           quantity?: number
           rate?: number
           amount?: number
+          tax_name?: string | null
+          tax_rate?: number | null
+          discount_type?: 'percentage' | 'fixed' | null
+          discount_value?: number | null
         }
         Relationships: [
           {
@@ -125,26 +191,712 @@ export interface Database {
           }
         ]
       }
+      payments: {
+        Row: {
+          id: string
+          user_id: string
+          invoice_id: string
+          amount: number
+          paid_on: string
+          method: 'bank_transfer' | 'card' | 'cash' | 'check' | 'other'
+          reference: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          invoice_id: string
+          amount: number
+          paid_on: string
+          method: 'bank_transfer' | 'card' | 'cash' | 'check' | 'other'
+          reference?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          amount?: number
+          paid_on?: string
+          method?: 'bank_transfer' | 'card' | 'cash' | 'check' | 'other'
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'payments_invoice_id_fkey'
+            columns: ['invoice_id']
+            referencedRelation: 'invoices'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      invoice_status_history: {
+        Row: {
+          id: string
+          user_id: string
+          invoice_id: string
+          from_status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void' | null
+          to_status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+          changed_by: string
+          reason: string | null
+          changed_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          invoice_id: string
+          from_status?: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void' | null
+          to_status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+          changed_by: string
+          reason?: string | null
+          changed_at?: string
+        }
+        Update: {
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'invoice_status_history_invoice_id_fkey'
+            columns: ['invoice_id']
+            referencedRelation: 'invoices'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      credit_notes: {
+        Row: {
+          id: string
+          user_id: string
+          invoice_id: string
+          client_id: string | null
+          credit_note_number: string
+          currency: string
+          issue_date: string
+          reason: string
+          tax_name: string
+          tax_rate: number
+          discount_type: 'percentage' | 'fixed' | null
+          discount_value: number | null
+          rounding_mode: 'half-up' | 'half-even'
+          rounding_scope: 'line' | 'invoice'
+          subtotal: number
+          discount_amount: number
+          tax: number
+          total: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          invoice_id: string
+          client_id?: string | null
+          credit_note_number: string
+          currency: string
+          issue_date: string
+          reason: string
+          tax_name?: string
+          tax_rate?: number
+          discount_type?: 'percentage' | 'fixed' | null
+          discount_value?: number | null
+          rounding_mode?: 'half-up' | 'half-even'
+          rounding_scope?: 'line' | 'invoice'
+          subtotal: number
+          discount_amount?: number
+          tax: number
+          total: number
+          created_at?: string
+        }
+        Update: {
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'credit_notes_invoice_id_fkey'
+            columns: ['invoice_id']
+            referencedRelation: 'invoices'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      credit_note_items: {
+        Row: {
+          id: string
+          credit_note_id: string
+          description: string
+          quantity: number
+          rate: number
+          amount: number
+          tax_name: string | null
+          tax_rate: number | null
+        }
+        Insert: {
+          id?: string
+          credit_note_id: string
+          description: string
+          quantity: number
+          rate: number
+          amount: number
+          tax_name?: string | null
+          tax_rate?: number | null
+        }
+        Update: {
+          description?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'credit_note_items_credit_note_id_fkey'
+            columns: ['credit_note_id']
+            referencedRelation: 'credit_notes'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      recurring_profiles: {
+        Row: {
+          id: string
+          user_id: string
+          client_id: string | null
+          name: string
+          template: RecurringTemplate
+          frequency: RecurringFrequency
+          interval_count: number | null
+          interval_unit: RecurringInterval['unit'] | null
+          start_date: string
+          end_date: string | null
+          max_runs: number | null
+          auto_send: boolean
+          active: boolean
+          run_count: number
+          last_run_date: string | null
+          next_run_date: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          client_id?: string | null
+          name: string
+          template: RecurringTemplate
+          frequency: RecurringFrequency
+          interval_count?: number | null
+          interval_unit?: RecurringInterval['unit'] | null
+          start_date: string
+          end_date?: string | null
+          max_runs?: number | null
+          auto_send?: boolean
+          active?: boolean
+          run_count?: number
+          last_run_date?: string | null
+          next_run_date?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string | null
+          name?: string
+          template?: RecurringTemplate
+          frequency?: RecurringFrequency
+          interval_count?: number | null
+          interval_unit?: RecurringInterval['unit'] | null
+          start_date?: string
+          end_date?: string | null
+          max_runs?: number | null
+          auto_send?: boolean
+          active?: boolean
+          run_count?: number
+          last_run_date?: string | null
+          next_run_date?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'recurring_profiles_client_id_fkey'
+            columns: ['client_id']
+            referencedRelation: 'clients'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      quotes: {
+        Row: {
+          id: string
+          user_id: string
+          client_id: string | null
+          quote_number: string
+          status: QuoteStatus
+          currency: string
+          issue_date: string
+          expiry_date: string
+          tax_name: string
+          tax_rate: number
+          discount_type: 'percentage' | 'fixed' | null
+          discount_value: number | null
+          rounding_mode: 'half-up' | 'half-even'
+          rounding_scope: 'line' | 'invoice'
+          subtotal: number
+          discount_amount: number
+          tax: number
+          total: number
+          notes: string | null
+          responded_at: string | null
+          responded_by: string | null
+          decline_reason: string | null
+          invoice_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          client_id?: string | null
+          quote_number: string
+          status?: QuoteStatus
+          currency?: string
+          issue_date: string
+          expiry_date: string
+          tax_name?: string
+          tax_rate?: number
+          discount_type?: 'percentage' | 'fixed' | null
+          discount_value?: number | null
+          rounding_mode?: 'half-up' | 'half-even'
+          rounding_scope?: 'line' | 'invoice'
+          subtotal?: number
+          discount_amount?: number
+          tax?: number
+          total?: number
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string | null
+          status?: QuoteStatus
+          currency?: string
+          issue_date?: string
+          expiry_date?: string
+          tax_name?: string
+          tax_rate?: number
+          discount_type?: 'percentage' | 'fixed' | null
+          discount_value?: number | null
+          rounding_mode?: 'half-up' | 'half-even'
+          rounding_scope?: 'line' | 'invoice'
+          subtotal?: number
+          discount_amount?: number
+          tax?: number
+          total?: number
+          notes?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          decline_reason?: string | null
+          invoice_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'quotes_client_id_fkey'
+            columns: ['client_id']
+            referencedRelation: 'clients'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      quote_items: {
+        Row: {
+          id: string
+          quote_id: string
+          description: string
+          quantity: number
+          rate: number
+          amount: number
+          tax_name: string | null
+          tax_rate: number | null
+          discount_type: 'percentage' | 'fixed' | null
+          discount_value: number | null
+        }
+        Insert: {
+          id?: string
+          quote_id: string
+          description: string
+          quantity: number
+          rate: number
+          amount?: number
+          tax_name?: string | null
+          tax_rate?: number | null
+          discount_type?: 'percentage' | 'fixed' | null
+          discount_value?: number | null
+        }
+        Update: {
+          description?: string
+          quantity?: number
+          rate?: number
+          amount?: number
+          tax_name?: string | null
+          tax_rate?: number | null
+          discount_type?: 'percentage' | 'fixed' | null
+          discount_value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'quote_items_quote_id_fkey'
+            columns: ['quote_id']
+            referencedRelation: 'quotes'
+            referencedColumns: ['id']
+          }
+        ]
+      }
       invoice_sequences: {
         Row: {
           user_id: string
           last_number: number
+          last_credit_note_number: number
+          last_quote_number: number
+          last_number_period: string
+          last_credit_note_period: string
+          last_quote_period: string
+          number_template: string
+          number_reset: 'never' | 'yearly' | 'monthly'
+          fiscal_year_start_month: number
         }
         Insert: {
           user_id: string
           last_number?: number
+          last_credit_note_number?: number
+          last_quote_number?: number
+          last_number_period?: string
+          last_credit_note_period?: string
+          last_quote_period?: string
+          number_template?: string
+          number_reset?: 'never' | 'yearly' | 'monthly'
+          fiscal_year_start_month?: number
         }
         Update: {
           last_number?: number
+          last_credit_note_number?: number
+          last_quote_number?: number
+          last_number_period?: string
+          last_credit_note_period?: string
+          last_quote_period?: string
+          number_template?: string
+          number_reset?: 'never' | 'yearly' | 'monthly'
+          fiscal_year_start_month?: number
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      invoice_list: {
+        Row: {
+          id: string
+          user_id: string
+          client_id: string | null
+          invoice_number: string
+          status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+          currency: string
+          issue_date: string
+          due_date: string
+          payment_terms_type: 'receipt' | 'net' | 'eom' | null
+          payment_terms_days: number | null
+          tax_name: string
+          tax_rate: number
+          discount_type: 'percentage' | 'fixed' | null
+          discount_value: number | null
+          rounding_mode: 'half-up' | 'half-even'
+          rounding_scope: 'line' | 'invoice'
+          subtotal: number
+          discount_amount: number
+          tax: number
+          total: number
+          amount_paid: number
+          credited_amount: number
+          balance_due: number
+          notes: string | null
+          recurring_profile_id: string | null
+          recurring_period: string | null
+          quote_id: string | null
+          created_at: string
+          updated_at: string
+          client_name: string | null
+          client_company: string | null
+          number_sort: string
+          client_sort: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'invoices_client_id_fkey'
+            columns: ['client_id']
+            referencedRelation: 'clients'
+            referencedColumns: ['id']
+          }
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      allocate_document_number: {
+        Args: {
+          p_series: 'invoice' | 'credit_note' | 'quote'
+          p_date?: string
+        }
+        Returns: {
+          sequence: number
+          period: string
+          number_template: string
+          number_reset: 'never' | 'yearly' | 'monthly'
+          fiscal_year_start_month: number
+        }[]
+      }
+      save_invoice: {
+        Args: {
+          p_invoice_id: string | null
+          p_invoice: {
+            id?: string | null
+            client_id: string | null
+            invoice_number?: string
+            status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+            currency: string
+            issue_date: string
+            due_date: string
+            payment_terms_type: 'receipt' | 'net' | 'eom' | null
+            payment_terms_days: number | null
+            tax_name: string
+            tax_rate: number
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+            rounding_mode: 'half-up' | 'half-even'
+            rounding_scope: 'line' | 'invoice'
+            notes: string | null
+            recurring_profile_id?: string | null
+            recurring_period?: string | null
+            quote_id?: string | null
+          }
+          p_line_items: {
+            description: string
+            quantity: number
+            rate: number
+            tax_name: string | null
+            tax_rate: number | null
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+          }[]
+          p_change?: {
+            changed_by?: string
+            reason?: string
+          }
+          p_expected_version?: string | null
+        }
+        Returns: string
+      }
+      restore_invoice: {
+        Args: {
+          p_invoice_id: string | null
+          p_invoice: {
+            client_id: string
+            invoice_number: string
+            status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+            currency: string
+            issue_date: string
+            due_date: string
+            payment_terms_type: 'receipt' | 'net' | 'eom' | null
+            payment_terms_days: number | null
+            tax_name: string
+            tax_rate: number
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+            rounding_mode: 'half-up' | 'half-even'
+            rounding_scope: 'line' | 'invoice'
+            notes: string | null
+            amount_paid: number
+            paid_on: string | null
+          }
+          p_line_items: {
+            description: string
+            quantity: number
+            rate: number
+            tax_name: string | null
+            tax_rate: number | null
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+          }[]
+          p_change?: {
+            changed_by?: string
+            reason?: string
+          }
+        }
+        Returns: string
+      }
+      import_invoice: {
+        Args: {
+          p_invoice: {
+            client_id: string
+            invoice_number: string
+            status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+            currency: string
+            issue_date: string
+            due_date: string
+            payment_terms_type: 'receipt' | 'net' | 'eom' | null
+            payment_terms_days: number | null
+            tax_name: string
+            tax_rate: number
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+            rounding_mode: 'half-up' | 'half-even'
+            rounding_scope: 'line' | 'invoice'
+            notes: string | null
+            amount_paid: number
+            paid_on: string | null
+            created_at?: string
+          }
+          p_line_items: {
+            description: string
+            quantity: number
+            rate: number
+            tax_name: string | null
+            tax_rate: number | null
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+          }[]
+          p_status_history?: {
+            from_status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void' | null
+            to_status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+            changed_by: string
+            reason: string | null
+            changed_at: string
+          }[]
+        }
+        Returns: string
+      }
+      void_invoice: {
+        Args: {
+          p_invoice_id: string
+          p_change?: {
+            changed_by?: string
+            reason?: string
+          }
+          p_expected_version?: string | null
+        }
+        Returns: undefined
+      }
+      save_quote: {
+        Args: {
+          p_quote_id: string | null
+          p_quote: {
+            client_id: string | null
+            quote_number?: string
+            status: 'draft' | 'sent' | 'accepted' | 'declined' | 'expired'
+            currency: string
+            issue_date: string
+            expiry_date: string
+            tax_name: string
+            tax_rate: number
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+            rounding_mode: 'half-up' | 'half-even'
+            rounding_scope: 'line' | 'invoice'
+            notes: string | null
+          }
+          p_line_items: {
+            description: string
+            quantity: number
+            rate: number
+            tax_name: string | null
+            tax_rate: number | null
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+          }[]
+        }
+        Returns: string
+      }
+      convert_quote: {
+        Args: {
+          p_quote_id: string
+          p_invoice: {
+            client_id: string | null
+            invoice_number: string
+            status: 'draft'
+            currency: string
+            issue_date: string
+            due_date: string
+            payment_terms_type: 'receipt' | 'net' | 'eom' | null
+            payment_terms_days: number | null
+            tax_name: string
+            tax_rate: number
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+            rounding_mode: 'half-up' | 'half-even'
+            rounding_scope: 'line' | 'invoice'
+            notes: string | null
+          }
+          p_line_items: {
+            description: string
+            quantity: number
+            rate: number
+            tax_name: string | null
+            tax_rate: number | null
+            discount_type: 'percentage' | 'fixed' | null
+            discount_value: number | null
+          }[]
+          p_change?: {
+            changed_by?: string
+            reason?: string
+          }
+        }
+        Returns: string
+      }
+      sync_invoice_payments: {
+        Args: {
+          p_invoice_id: string
+          p_change?: {
+            changed_by?: string
+            reason?: string
+          }
+          p_reopen?: boolean
+        }
+        Returns: undefined
+      }
+      record_payment: {
+        Args: {
+          p_invoice_id: string
+          p_payment: {
+            amount: number
+            paid_on: string
+            method: 'bank_transfer' | 'card' | 'cash' | 'check' | 'other'
+            reference: string | null
+          }
+          p_change?: {
+            changed_by?: string
+            reason?: string
+          }
+        }
+        Returns: {
+          id: string
+          user_id: string
+          invoice_id: string
+          amount: number
+          paid_on: string
+          method: 'bank_transfer' | 'card' | 'cash' | 'check' | 'other'
+          reference: string | null
+          created_at: string
+        }
+      }
+      delete_payment: {
+        Args: {
+          p_payment_id: string
+          p_change?: {
+            changed_by?: string
+            reason?: string
+          }
+        }
+        Returns: undefined
+      }
+      invoice_metrics: {
+        Args: Record<string, never>
+        Returns: {
+          currency: string
+          status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+          invoice_count: number
+          amount_paid: number
+          balance_due: number
+          refund_due: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -156,7 +908,20 @@ export interface Database {
 }
 
 // Application types (compatible with existing code)
-export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue'
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void'
+
+export interface StatusChange {
+  from: InvoiceStatus | null
+  to: InvoiceStatus
+  changedBy: string
+  reason?: string
+  changedAt: string
+}
+
+export interface StatusChangeInput {
+  changedBy?: string
+  reason?: string
+}
 
 export interface Client {
   id: string
@@ -165,16 +930,47 @@ export interface Client {
   company?: string
   phone?: string
   address?: string
+  defaultCurrency: string
+  defaultPaymentTerms?: PaymentTerms
   createdAt: string
   updatedAt: string
 }
 
+export interface TaxRate {
+  name: string
+  rate: number
+}
+
+export interface TaxBreakdownEntry {
+  name: string
+  rate: number
+  taxableAmount: number
+  tax: number
+}
+
+export interface Discount {
+  type: 'percentage' | 'fixed'
+  value: number
+}
+
+export interface PaymentTerms {
+  type: 'receipt' | 'net' | 'eom'
+  days: number
+}
+
+export interface RoundingPolicy {
+  mode: 'half-up' | 'half-even'
+  scope: 'line' | 'invoice'
+}
+
 export interface LineItem {
   id: string
   description: string
   quantity: number
   rate: number
   amount: number
+  taxRate?: TaxRate
+  discount?: Discount
 }
 
 export interface Invoice {
@@ -183,28 +979,286 @@ export interface Invoice {
   client?: Client
   invoiceNumber: string
   status: InvoiceStatus
+  currency: string
   issueDate: string
   dueDate: string
+  paymentTerms?: PaymentTerms
   lineItems: LineItem[]
+  taxRate: TaxRate
+  discount?: Discount
+  rounding: RoundingPolicy
   subtotal: number
+  discountAmount: number
   tax: number
   total: number
+  amountPaid: number
+  creditedAmount: number
+  balanceDue: number
   notes?: string
+  statusHistory: StatusChange[]
+  recurringProfileId?: string
+  recurringPeriod?: string
+  quoteId?: string
   createdAt: string
   updatedAt: string
 }
 
+export interface CreditNote {
+  id: string
+  creditNoteNumber: string
+  invoiceId: string
+  invoiceNumber: string
+  clientId: string
+  client?: Client
+  currency: string
+  issueDate: string
+  reason: string
+  lineItems: LineItem[]
+  taxRate: TaxRate
+  discount?: Discount
+  rounding: RoundingPolicy
+  subtotal: number
+  discountAmount: number
+  tax: number
+  total: number
+  createdAt: string
+}
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired'
+
+export interface Quote {
+  id: string
+  quoteNumber: string
+  clientId: string
+  client?: Client
+  status: QuoteStatus
+  currency: string
+  issueDate: string
+  expiryDate: string
+  lineItems: LineItem[]
+  taxRate: TaxRate
+  discount?: Discount
+  rounding: RoundingPolicy
+  subtotal: number
+  discountAmount: number
+  tax: number
+  total: number
+  notes?: string
+  respondedAt?: string
+  respondedBy?: string
+  declineReason?: string
+  invoiceId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'quarterly' | 'custom'
+
+export interface RecurringInterval {
+  count: number
+  unit: 'day' | 'week' | 'month'
+}
+
+export interface RecurringTemplate {
+  clientId: string
+  currency?: string
+  lineItems: LineItemInput[]
+  taxRate?: TaxRate
+  discount?: Discount
+  rounding?: RoundingPolicy
+  notes?: string
+  dueInDays: number
+  paymentTerms?: PaymentTerms
+}
+
+export interface RecurringProfile {
+  id: string
+  name: string
+  template: RecurringTemplate
+  frequency: RecurringFrequency
+  interval?: RecurringInterval
+  startDate: string
+  endDate?: string
+  maxRuns?: number
+  autoSend: boolean
+  active: boolean
+  runCount: number
+  lastRunDate?: string
+  nextRunDate: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type PaymentMethod = 'bank_transfer' | 'card' | 'cash' | 'check' | 'other'
+
+export interface Payment {
+  id: string
+  invoiceId: string
+  amount: number
+  date: string
+  method: PaymentMethod
+  reference?: string
+  createdAt: string
+}
+
+export type PaymentIntentStatus = 'requires_payment_method' | 'requires_action' | 'succeeded' | 'failed' | 'refunded'
+
+export interface PaymentIntent {
+  id: string
+  provider: string
+  invoiceId: string
+  amount: number // Minor units of currency
+  currency: string
+  status: PaymentIntentStatus
+  cardLast4?: string
+  failureReason?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PaymentWebhookEvent {
+  type: 'payment_intent.succeeded' | 'payment_intent.payment_failed' | 'charge.refunded'
+  intentId: string
+  failureReason?: string
+}
+
+export interface CurrencyAmounts {
+  currency: string
+  totalRevenue: number
+  creditAdjustment: number
+  pendingAmount: number
+  overdueAmount: number
+  invoiceCount: number
+}
+
 export interface Metrics {
+  currency: string
   totalRevenue: number
+  creditAdjustment: number
   pendingAmount: number
   overdueAmount: number
   totalClients: number
   paidInvoices: number
   pendingInvoices: number
+  partiallyPaidInvoices: number
   overdueInvoices: number
   draftInvoices: number
+  voidInvoices: number
+  amountsByCurrency: CurrencyAmounts[]
+}
+
+export type NumberResetPolicy = 'never' | 'yearly' | 'monthly'
+
+export interface NumberFormat {
+  template: string
+  reset: NumberResetPolicy
+  fiscalYearStartMonth: number
+}
+
+export interface NumberCounter {
+  period: string
+  sequence: number
+}
+
+export interface WorkspaceData {
+  clients: Client[]
+  invoices: Invoice[]
+  counters: Partial<Record<'invoice' | 'creditNote' | 'quote', NumberCounter>>
+  numberFormat: NumberFormat
+}
+
+export interface WorkspaceArchive {
+  format: 'invoicey-backup'
+  version: number
+  exportedAt: string
+  checksum: string
+  data: WorkspaceData
 }
 
+export type RestoreMode = 'merge' | 'replace'
+
+export type RestoreAction = 'create' | 'update' | 'remove'
+
+export interface RestorePreview {
+  mode: RestoreMode
+  counts: Record<'clients' | 'invoices', Record<RestoreAction, number>>
+  entries: { type: 'client' | 'invoice'; action: RestoreAction; label: string }[]
+  numberFormatChanged: boolean
+}
+
+export interface RestoreResult {
+  preview: RestorePreview
+  errors: string[]
+}
+
+export type ImportAction = 'create' | 'link' | 'skip' | 'conflict'
+
+export interface ImportReport {
+  counts: Record<'clients' | 'invoices', Record<ImportAction, number>>
+  entries: { type: 'client' | 'invoice'; action: ImportAction; label: string; reason?: string }[]
+  numberFormatChanged: boolean
+  errors: string[]
+}
+
+export type OutboxStatus = 'pending' | 'syncing' | 'failed' | 'conflict'
+
+export interface OutboxEntry {
+  id: string
+  userId: string
+  entity: 'client' | 'invoice'
+  operation: string
+  targetId: string
+  args: unknown[]
+  record?: unknown
+  baseVersion?: string
+  queuedAt: string
+  status: OutboxStatus
+  attempts: number
+  force?: boolean
+  error?: string
+}
+
+export interface OutboxReplayResult {
+  synced: number
+  failed: number
+  conflicts: number
+  remaining: number
+  offline: boolean
+}
+
+export type LiveTable = 'clients' | 'invoices' | 'line_items'
+
+export interface LiveChange {
+  table: LiveTable
+  type: 'INSERT' | 'UPDATE' | 'DELETE'
+  id: string
+  record?: Client | Invoice | LineItem
+  invoiceId?: string
+}
+
+export type InvoiceSortKey = 'number' | 'client' | 'issueDate' | 'dueDate' | 'total' | 'status'
+
+export type SortDirection = 'asc' | 'desc'
+
+export interface InvoiceQuery {
+  sort: InvoiceSortKey
+  direction: SortDirection
+  status: InvoiceStatus | 'all'
+  search: string
+  pageSize: number
+  cursor?: string
+}
+
+export interface InvoicePage<T = Invoice> {
+  items: T[]
+  total: number
+  start: number
+  nextCursor?: string
+  previousCursor?: string
+}
+
+export type InvoiceStatusCounts = Record<InvoiceStatus | 'all', number>
+
 // Input types for creating/updating records
 export interface ClientInput {
   name: string
@@ -212,19 +1266,81 @@ export interface ClientInput {
   company?: string
   phone?: string
   address?: string
+  defaultCurrency?: string
+  defaultPaymentTerms?: PaymentTerms
+}
+
+export interface CardDetails {
+  number: string
+  expiry: string
+  cvc: string
+  name: string
+}
+
+export interface PaymentInput {
+  amount: number
+  date: string
+  method: PaymentMethod
+  reference?: string
+}
+
+export interface CreditNoteInput {
+  issueDate: string
+  reason: string
+  lineItems: LineItemInput[]
+}
+
+export interface QuoteInput {
+  clientId: string
+  issueDate: string
+  expiryDate: string
+  currency?: string
+  lineItems: LineItemInput[]
+  taxRate?: TaxRate
+  discount?: Discount
+  rounding?: RoundingPolicy
+  notes?: string
+  status?: QuoteStatus
+}
+
+export interface QuoteResponse {
+  name: string
+  reason?: string
+}
+
+export interface RecurringProfileInput {
+  name: string
+  template: RecurringTemplate
+  frequency: RecurringFrequency
+  interval?: RecurringInterval
+  startDate: string
+  endDate?: string
+  maxRuns?: number
+  autoSend?: boolean
+  active?: boolean
 }
 
 export interface LineItemInput {
   description: string
   quantity: number
   rate: number
+  taxRate?: TaxRate
+  discount?: Discount
 }
 
 export interface InvoiceInput {
   clientId: string
   issueDate: string
   dueDate: string
+  paymentTerms?: PaymentTerms
+  currency?: string
   lineItems: LineItemInput[]
+  taxRate?: TaxRate
+  discount?: Discount
+  rounding?: RoundingPolicy
   notes?: string
   status?: InvoiceStatus
+  recurringProfileId?: string
+  recurringPeriod?: string
+  quoteId?: string
 }
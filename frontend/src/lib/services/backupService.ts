@@ -0,0 +1,237 @@
+/**
+ * Backup Service - Supabase workspace backup and restore
+ *
+ * Exports the user's clients, invoices, number counters and number format as
+ * the same checksummed archive the local backup service writes, and restores
+ * such an archive by merging it into the workspace or replacing the workspace
+ * with it. Planning is shared with the local backup service; records are
+ * written through the client, invoice and numbering services.
+ */
+
+import { supabase } from '../supabase';
+import { NetworkError, isNetworkError } from './networkError';
+import { backupService as localBackup } from '@backend/services/backupService';
+import { clientService } from './clientService';
+import { invoiceService } from './invoiceService';
+import { numberingService } from './numberingService';
+import type { Client, ClientInput, Invoice, RestoreMode, RestoreResult, WorkspaceArchive, WorkspaceData } from '../database.types';
+
+/**
+ * Handle Supabase errors and return user-friendly messages
+ */
+function handleError(error: unknown): never {
+  console.error('Backup service error:', error);
+
+  if (isNetworkError(error)) {
+    throw new NetworkError();
+  }
+
+  throw new Error('A database error occurred. Please try again.');
+}
+
+/**
+ * Get current authenticated user ID
+ */
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    throw new Error('You must be logged in to perform this action');
+  }
+
+  return user.id;
+}
+
+/**
+ * Get the user's workspace
+ */
+async function getWorkspace(): Promise<WorkspaceData> {
+  const [clients, invoices, counters, numberFormat] = await Promise.all([
+    clientService.getAll(),
+    invoiceService.getAll(),
+    numberingService.getCounters(),
+    numberingService.getFormat(),
+  ]);
+  return { clients, invoices, counters, numberFormat };
+}
+
+/**
+ * Map a backed up client to client input
+ */
+function toClientInput(client: Client): ClientInput {
+  return {
+    name: client.name,
+    email: client.email,
+    company: client.company,
+    phone: client.phone,
+    address: client.address,
+    defaultCurrency: client.defaultCurrency,
+    defaultPaymentTerms: client.defaultPaymentTerms,
+  };
+}
+
+/**
+ * Delete records of the user by ID
+ */
+async function deleteAll(table: 'clients' | 'invoices', ids: string[], userId: string): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from(table)
+    .delete()
+    .in('id', ids)
+    .eq('user_id', userId);
+
+  if (error) {
+    handleError(error);
+  }
+}
+
+/**
+ * Delete the records that refer to removed clients and invoices
+ * Credit notes restrict deleting their invoice; quotes and recurring
+ * profiles belong to a client. Line items and payments are deleted with
+ * their invoice.
+ */
+async function deleteDependents(clientIds: string[], invoiceIds: string[], userId: string): Promise<void> {
+  if (invoiceIds.length > 0) {
+    const { error } = await supabase
+      .from('credit_notes')
+      .delete()
+      .in('invoice_id', invoiceIds)
+      .eq('user_id', userId);
+
+    if (error) {
+      handleError(error);
+    }
+  }
+
+  if (clientIds.length > 0) {
+    for (const table of ['quotes', 'recurring_profiles'] as const) {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .in('client_id', clientIds)
+        .eq('user_id', userId);
+
+      if (error) {
+        handleError(error);
+      }
+    }
+  }
+}
+
+/**
+ * Describe why a record could not be restored
+ */
+function describeError(label: string, error: unknown): string {
+  return `${label}: ${error instanceof Error ? error.message : 'could not be restored'}`;
+}
+
+/**
+ * Backup Service object
+ */
+export const backupService = {
+  /**
+   * Export the user's workspace as a backup
+   */
+  async export(): Promise<WorkspaceArchive> {
+    try {
+      await getCurrentUserId();
+      return await localBackup.createArchive(await getWorkspace());
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Read a backup file
+   * Throws the first problem found when it is not a valid backup
+   */
+  async parse(json: string): Promise<WorkspaceArchive> {
+    let document: unknown;
+    try {
+      document = JSON.parse(json);
+    } catch {
+      throw new Error('This file is not an Invoicey backup');
+    }
+
+    const validation = await localBackup.validateArchive(document);
+    if (!validation.valid) {
+      throw new Error(Object.values(validation.errors)[0]);
+    }
+    return document as WorkspaceArchive;
+  },
+
+  /**
+   * Restore a backup into the user's workspace, or only preview what it
+   * would do with dryRun
+   * Records that cannot be restored are skipped and listed in the errors;
+   * invoices of a client that could not be restored are skipped as well.
+   */
+  async restore(archive: WorkspaceArchive, mode: RestoreMode, options: { dryRun?: boolean } = {}): Promise<RestoreResult> {
+    try {
+      const validation = await localBackup.validateArchive(archive);
+      if (!validation.valid) {
+        throw new Error(Object.values(validation.errors)[0]);
+      }
+
+      const userId = await getCurrentUserId();
+      const workspace = await getWorkspace();
+      const plan = localBackup.planRestore<Client, Invoice>(archive, workspace, mode);
+      const preview = localBackup.previewPlan(plan, workspace.numberFormat);
+      if (options.dryRun) {
+        return { preview, errors: [] };
+      }
+
+      const removedClientIds = plan.clients.filter(step => step.action === 'remove').map(step => step.record.id);
+      const removedInvoiceIds = plan.invoices.filter(step => step.action === 'remove').map(step => step.record.id);
+      await deleteDependents(removedClientIds, removedInvoiceIds, userId);
+      await deleteAll('invoices', removedInvoiceIds, userId);
+      await deleteAll('clients', removedClientIds, userId);
+
+      const errors: string[] = [];
+
+      // Backup client IDs -> workspace client IDs
+      const clientIds = new Map<string, string>();
+      for (const step of plan.clients) {
+        if (step.action === 'remove') continue;
+        try {
+          const client = step.action === 'update' && step.targetId
+            ? await clientService.update(step.targetId, toClientInput(step.record))
+            : await clientService.create(toClientInput(step.record));
+          clientIds.set(step.record.id, client.id);
+        } catch (error) {
+          errors.push(describeError(step.record.email, error));
+        }
+      }
+
+      for (const step of plan.invoices) {
+        if (step.action === 'remove') continue;
+        const clientId = clientIds.get(step.record.clientId);
+        if (!clientId) {
+          errors.push(`${step.record.invoiceNumber}: its client could not be restored`);
+          continue;
+        }
+        try {
+          await invoiceService.restore(step.record, clientId, step.action === 'update' ? step.targetId : undefined);
+        } catch (error) {
+          errors.push(describeError(step.record.invoiceNumber, error));
+        }
+      }
+
+      await numberingService.setCounters(plan.counters);
+      if (preview.numberFormatChanged) {
+        await numberingService.updateFormat(plan.numberFormat);
+      }
+
+      return { preview, errors };
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+};
+
+export default backupService;
@@ -8,7 +8,9 @@
  */
 
 import { supabase } from '../supabase';
-import type { Client, ClientInput } from '../database.types';
+import { NetworkError, isNetworkError } from './networkError';
+import { VersionConflictError } from './versionConflict';
+import type { Client, ClientInput, PaymentTerms } from '../database.types';
 
 interface ClientRow {
   id: string;
@@ -18,6 +20,9 @@ interface ClientRow {
   company: string | null;
   phone: string | null;
   address: string | null;
+  default_currency: string;
+  default_terms_type: PaymentTerms['type'] | null;
+  default_terms_days: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -25,7 +30,7 @@ interface ClientRow {
 /**
  * Transform database row to application Client type
  */
-function toClient(row: ClientRow): Client {
+export function toClient(row: ClientRow): Client {
   return {
     id: row.id,
     name: row.name,
@@ -33,18 +38,15 @@ function toClient(row: ClientRow): Client {
     company: row.company ?? undefined,
     phone: row.phone ?? undefined,
     address: row.address ?? undefined,
+    defaultCurrency: row.default_currency,
+    defaultPaymentTerms: row.default_terms_type !== null && row.default_terms_days !== null
+      ? { type: row.default_terms_type, days: row.default_terms_days }
+      : undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
-/**
- * Check if error is a network error
- */
-function isNetworkError(error: unknown): boolean {
-  return error instanceof TypeError && error.message === 'Failed to fetch';
-}
-
 /**
  * Handle Supabase errors and return user-friendly messages
  * Requirement 4.6: Handle database errors gracefully
@@ -53,7 +55,7 @@ function handleError(error: unknown): never {
   console.error('Client service error:', error);
 
   if (isNetworkError(error)) {
-    throw new Error('Unable to connect. Please check your internet connection.');
+    throw new NetworkError();
   }
 
   if (error && typeof error === 'object' && 'code' in error) {
@@ -73,6 +75,16 @@ function handleError(error: unknown): never {
   throw new Error('A database error occurred. Please try again.');
 }
 
+/**
+ * Check if an error is a unique violation of the primary key: a client with
+ * the ID given to it already exists
+ */
+function isDuplicateId(error: unknown): boolean {
+  if (!error || typeof error !== 'object' || !('code' in error)) return false;
+  const pgError = error as { code: string; message?: string };
+  return pgError.code === '23505' && (pgError.message ?? '').includes('clients_pkey');
+}
+
 /**
  * Get current authenticated user ID
  */
@@ -146,25 +158,35 @@ export const clientService = {
   /**
    * Create a new client
    * Requirement 4.1: Insert client with user's ID
+   * A client can be given its ID, e.g. a change queued offline; a create
+   * sent again with the same ID returns the client the first one created.
    */
-  async create(input: ClientInput): Promise<Client> {
+  async create(input: ClientInput, id?: string): Promise<Client> {
     try {
       const userId = await getCurrentUserId();
       
       const { data, error } = await supabase
         .from('clients')
         .insert({
+          ...(id ? { id } : {}),
           user_id: userId,
           name: input.name,
           email: input.email,
           company: input.company ?? null,
           phone: input.phone ?? null,
           address: input.address ?? null,
+          default_currency: input.defaultCurrency,
+          default_terms_type: input.defaultPaymentTerms?.type ?? null,
+          default_terms_days: input.defaultPaymentTerms?.days ?? null,
         })
         .select()
         .single();
 
       if (error) {
+        const created = id && isDuplicateId(error) ? await this.getById(id) : null;
+        if (created) {
+          return created;
+        }
         handleError(error);
       }
 
@@ -182,8 +204,10 @@ export const clientService = {
   /**
    * Update an existing client
    * Requirement 4.3: Update client record in Supabase
+   * With an expected version (updatedAt), a client changed since then is not
+   * overwritten; a VersionConflictError with the latest client is thrown.
    */
-  async update(id: string, input: Partial<ClientInput>): Promise<Client> {
+  async update(id: string, input: Partial<ClientInput>, expectedVersion?: string): Promise<Client> {
     try {
       const userId = await getCurrentUserId();
       
@@ -196,20 +220,36 @@ export const clientService = {
       if (input.company !== undefined) updateData.company = input.company ?? null;
       if (input.phone !== undefined) updateData.phone = input.phone ?? null;
       if (input.address !== undefined) updateData.address = input.address ?? null;
+      if (input.defaultCurrency !== undefined) updateData.default_currency = input.defaultCurrency;
+      // Unset terms clear the client's default
+      if ('defaultPaymentTerms' in input) {
+        updateData.default_terms_type = input.defaultPaymentTerms?.type ?? null;
+        updateData.default_terms_days = input.defaultPaymentTerms?.days ?? null;
+      }
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('clients')
         .update(updateData)
         .eq('id', id)
-        .eq('user_id', userId)
+        .eq('user_id', userId);
+      if (expectedVersion) {
+        query = query.eq('updated_at', expectedVersion);
+      }
+
+      const { data, error } = await query
         .select()
-        .single();
+        .maybeSingle();
 
       if (error) {
         handleError(error);
       }
 
       if (!data) {
+        // No row matched: deleted, or changed since the expected version
+        const latest = expectedVersion ? await this.getById(id) : null;
+        if (latest) {
+          throw new VersionConflictError('client', id, latest);
+        }
         throw new Error('Client not found');
       }
 
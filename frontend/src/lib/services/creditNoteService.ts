@@ -0,0 +1,269 @@
+/**
+ * Credit Note Service - Supabase credit notes against issued invoices
+ *
+ * Credit notes have their own CN-XXXX number series and negative line items.
+ * Issuing one adds to the invoice's credited_amount and recalculates its
+ * balance due and status; the invoice itself is not rewritten.
+ * Amounts and validation are shared with the local services.
+ */
+
+import { supabase } from '../supabase';
+import { NetworkError, isNetworkError } from './networkError';
+import { creditNoteService as localCreditNotes } from '@backend/services/creditNoteService';
+import { money } from '@backend/services/money';
+import { invoiceService } from './invoiceService';
+import { paymentService } from './paymentService';
+import { numberingService } from './numberingService';
+import type { CreditNote, CreditNoteInput, Discount, LineItem, RoundingPolicy } from '../database.types';
+
+interface CreditNoteRow {
+  id: string;
+  user_id: string;
+  invoice_id: string;
+  client_id: string | null;
+  credit_note_number: string;
+  currency: string;
+  issue_date: string;
+  reason: string;
+  tax_name: string;
+  tax_rate: number;
+  discount_type: Discount['type'] | null;
+  discount_value: number | null;
+  rounding_mode: RoundingPolicy['mode'];
+  rounding_scope: RoundingPolicy['scope'];
+  subtotal: number;
+  discount_amount: number;
+  tax: number;
+  total: number;
+  created_at: string;
+}
+
+interface CreditNoteItemRow {
+  id: string;
+  credit_note_id: string;
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+  tax_name: string | null;
+  tax_rate: number | null;
+}
+
+/**
+ * Transform database row to application LineItem type
+ */
+function toLineItem(row: CreditNoteItemRow): LineItem {
+  return {
+    id: row.id,
+    description: row.description,
+    quantity: row.quantity,
+    rate: row.rate,
+    amount: row.amount,
+    taxRate: row.tax_name !== null && row.tax_rate !== null
+      ? { name: row.tax_name, rate: row.tax_rate }
+      : undefined,
+  };
+}
+
+/**
+ * Transform database row to application CreditNote type
+ */
+function toCreditNote(row: CreditNoteRow, items: CreditNoteItemRow[], invoiceNumber: string): CreditNote {
+  return {
+    id: row.id,
+    creditNoteNumber: row.credit_note_number,
+    invoiceId: row.invoice_id,
+    invoiceNumber,
+    clientId: row.client_id || '',
+    currency: row.currency,
+    issueDate: row.issue_date,
+    reason: row.reason,
+    lineItems: items.map(toLineItem),
+    taxRate: { name: row.tax_name, rate: row.tax_rate },
+    discount: row.discount_type !== null && row.discount_value !== null
+      ? { type: row.discount_type, value: row.discount_value }
+      : undefined,
+    rounding: { mode: row.rounding_mode, scope: row.rounding_scope },
+    subtotal: row.subtotal,
+    discountAmount: row.discount_amount,
+    tax: row.tax,
+    total: row.total,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Handle Supabase errors and return user-friendly messages
+ */
+function handleError(error: unknown): never {
+  console.error('Credit note service error:', error);
+
+  if (isNetworkError(error)) {
+    throw new NetworkError();
+  }
+
+  if (error && typeof error === 'object' && 'code' in error) {
+    const pgError = error as { code: string; message: string };
+
+    if (pgError.code === '23505') {
+      throw new Error('A credit note with this number already exists');
+    }
+    if (pgError.code === '23503') {
+      throw new Error('Invoice does not exist');
+    }
+  }
+
+  throw new Error('A database error occurred. Please try again.');
+}
+
+/**
+ * Get current authenticated user ID
+ */
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    throw new Error('You must be logged in to perform this action');
+  }
+
+  return user.id;
+}
+
+/**
+ * Credit Note Service object
+ */
+export const creditNoteService = {
+  /**
+   * Get the credit notes of an invoice, oldest first
+   */
+  async getByInvoiceId(invoiceId: string): Promise<CreditNote[]> {
+    try {
+      const userId = await getCurrentUserId();
+
+      const { data, error } = await supabase
+        .from('credit_notes')
+        .select('*, invoices(invoice_number), credit_note_items(*)')
+        .eq('invoice_id', invoiceId)
+        .eq('user_id', userId)
+        .order('issue_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        handleError(error);
+      }
+
+      return (data || []).map(row => {
+        const { invoices, credit_note_items, ...creditNote } = row as CreditNoteRow & {
+          invoices: { invoice_number: string } | null;
+          credit_note_items: CreditNoteItemRow[];
+        };
+        return toCreditNote(creditNote, credit_note_items || [], invoices?.invoice_number ?? '');
+      });
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Issue a credit note against an invoice and update the invoice balance and status
+   */
+  async create(invoiceId: string, input: CreditNoteInput): Promise<CreditNote> {
+    try {
+      const userId = await getCurrentUserId();
+      const invoice = await invoiceService.getById(invoiceId);
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+
+      const validation = localCreditNotes.validate(input, invoice);
+      if (!validation.valid) {
+        throw new Error(Object.values(validation.errors)[0]);
+      }
+
+      const amounts = localCreditNotes.calculate(input, invoice);
+      const discount = invoice.discount?.type === 'percentage' ? invoice.discount : undefined;
+
+      const { data: creditNote, error } = await numberingService.insertWithNumber('creditNote', invoice.clientId, (creditNoteNumber) => supabase
+        .from('credit_notes')
+        .insert({
+          user_id: userId,
+          invoice_id: invoice.id,
+          client_id: invoice.clientId || null,
+          credit_note_number: creditNoteNumber,
+          currency: invoice.currency,
+          issue_date: input.issueDate,
+          reason: input.reason.trim(),
+          tax_name: invoice.taxRate.name,
+          tax_rate: invoice.taxRate.rate,
+          discount_type: discount?.type ?? null,
+          discount_value: discount?.value ?? null,
+          rounding_mode: invoice.rounding.mode,
+          rounding_scope: invoice.rounding.scope,
+          subtotal: amounts.subtotal,
+          discount_amount: amounts.discountAmount,
+          tax: amounts.tax,
+          total: amounts.total,
+        })
+        .select('*')
+        .single());
+
+      if (error) {
+        handleError(error);
+      }
+
+      if (!creditNote) {
+        throw new Error('Failed to issue credit note');
+      }
+
+      const { data: items, error: itemsError } = await supabase
+        .from('credit_note_items')
+        .insert(amounts.lineItems.map(item => ({
+          credit_note_id: creditNote.id,
+          description: item.description,
+          quantity: item.quantity,
+          rate: item.rate,
+          amount: item.amount,
+          tax_name: item.taxRate?.name ?? null,
+          tax_rate: item.taxRate?.rate ?? null,
+        })))
+        .select('*');
+
+      if (itemsError) {
+        handleError(itemsError);
+      }
+
+      // The credit reduces the balance due of the invoice
+      const credited = money.toMinor(invoice.creditedAmount, invoice.currency) - money.toMinor(amounts.total, invoice.currency);
+      const { error: invoiceError } = await supabase
+        .from('invoices')
+        .update({ credited_amount: money.fromMinor(credited, invoice.currency) })
+        .eq('id', invoice.id)
+        .eq('user_id', userId);
+
+      if (invoiceError) {
+        handleError(invoiceError);
+      }
+
+      await paymentService.syncInvoice(invoice.id, { reason: `Credit note ${creditNote.credit_note_number} issued` });
+
+      return {
+        ...toCreditNote(creditNote as CreditNoteRow, (items || []) as CreditNoteItemRow[], invoice.invoiceNumber),
+        client: invoice.client,
+      };
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Generate a unique credit note number for the current user
+   * Credit notes have their own sequence next to the invoice sequence
+   */
+  async generateCreditNoteNumber(clientId?: string): Promise<string> {
+    return numberingService.next('creditNote', clientId);
+  },
+};
+
+export default creditNoteService;
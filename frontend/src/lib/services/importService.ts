@@ -0,0 +1,293 @@
+/**
+ * Import Service - local data into a Supabase account
+ *
+ * Moves the clients and invoices a user kept in local storage, before
+ * signing up, into their account. The local import service plans what to
+ * create, link, skip or report as a conflict. Clients are inserted here as
+ * the account's table rows; each invoice is written by the import_invoice()
+ * database function in one transaction, with its invoice number, line items
+ * and status history as they were and its totals calculated by the database.
+ * The invoice counter in invoice_sequences is moved past the highest number
+ * imported.
+ *
+ * Local data is left in place, and an import can be run again: what is
+ * already in the account is skipped.
+ */
+
+import { supabase } from '../supabase';
+import { NetworkError, isNetworkError } from './networkError';
+import { importService as localImport } from '@backend/services/importService';
+import { currencyService } from '@backend/services/currencyService';
+import { money } from '@backend/services/money';
+import { taxService } from '@backend/services/taxService';
+import { clientService } from './clientService';
+import { invoiceService } from './invoiceService';
+import { numberingService } from './numberingService';
+import type { Database, ImportReport } from '../database.types';
+
+type Tables = Database['public']['Tables'];
+type ClientInsert = Tables['clients']['Insert'];
+type ImportInvoiceArgs = Database['public']['Functions']['import_invoice']['Args'];
+
+type LocalData = NonNullable<ReturnType<typeof localImport.getLocalData>>;
+type LocalClient = LocalData['clients'][number];
+type LocalInvoice = LocalData['invoices'][number];
+
+/**
+ * Handle Supabase errors and return user-friendly messages
+ */
+function handleError(error: unknown): never {
+  console.error('Import service error:', error);
+
+  if (isNetworkError(error)) {
+    throw new NetworkError();
+  }
+
+  if (error && typeof error === 'object' && 'code' in error) {
+    const pgError = error as { code: string; message: string };
+
+    if (pgError.code === '23505') {
+      throw new Error('Your account already has an invoice with this number');
+    }
+    // Raised by import_invoice() with a message meant for the user
+    if (pgError.code === 'P0001') {
+      throw new Error(pgError.message);
+    }
+  }
+
+  throw new Error('A database error occurred. Please try again.');
+}
+
+/**
+ * Get current authenticated user ID
+ */
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    throw new Error('You must be logged in to perform this action');
+  }
+
+  return user.id;
+}
+
+/**
+ * Get the local data, or throw if there is none
+ */
+function getLocalData(): LocalData {
+  const local = localImport.getLocalData();
+  if (!local) {
+    throw new Error('There is no data on this device to import');
+  }
+  return local;
+}
+
+/**
+ * Get the clients, invoices and numbering of the account
+ */
+async function getAccountData() {
+  const [clients, invoices, counters, numberFormat] = await Promise.all([
+    clientService.getAll(),
+    invoiceService.getAll(),
+    numberingService.getCounters(),
+    numberingService.getFormat(),
+  ]);
+  return { clients, invoices, counters, numberFormat };
+}
+
+function toClientInsert(client: LocalClient, userId: string): ClientInsert {
+  return {
+    user_id: userId,
+    name: client.name.trim(),
+    email: client.email.trim(),
+    company: client.company ?? null,
+    phone: client.phone ?? null,
+    address: client.address ?? null,
+    default_currency: client.defaultCurrency ?? currencyService.DEFAULT_CURRENCY,
+    default_terms_type: client.defaultPaymentTerms?.type ?? null,
+    default_terms_days: client.defaultPaymentTerms?.days ?? null,
+    created_at: client.createdAt,
+  };
+}
+
+/**
+ * Map a local invoice to the import_invoice() payload
+ * Links to recurring profiles and quotes are not imported.
+ */
+function toInvoicePayload(invoice: LocalInvoice, clientId: string): ImportInvoiceArgs['p_invoice'] {
+  const taxRate = invoice.taxRate ?? taxService.NO_TAX;
+  const rounding = invoice.rounding ?? money.DEFAULT_ROUNDING;
+  // The device has no payments; its amount paid is dated when it was last paid
+  const paidOn = [...(invoice.statusHistory ?? [])].reverse()
+    .find(entry => entry.to === 'paid' || entry.to === 'partially_paid')?.changedAt.slice(0, 10);
+
+  return {
+    client_id: clientId,
+    invoice_number: invoice.invoiceNumber,
+    status: invoice.status,
+    currency: invoice.currency ?? currencyService.DEFAULT_CURRENCY,
+    issue_date: invoice.issueDate,
+    due_date: invoice.dueDate,
+    payment_terms_type: invoice.paymentTerms?.type ?? null,
+    payment_terms_days: invoice.paymentTerms?.days ?? null,
+    tax_name: taxRate.name,
+    tax_rate: taxRate.rate,
+    discount_type: invoice.discount?.type ?? null,
+    discount_value: invoice.discount?.value ?? null,
+    rounding_mode: rounding.mode,
+    rounding_scope: rounding.scope,
+    notes: invoice.notes ?? null,
+    amount_paid: invoice.amountPaid ?? 0,
+    paid_on: paidOn ?? null,
+    created_at: invoice.createdAt,
+  };
+}
+
+/**
+ * Map line items to the import_invoice() payload
+ * Amounts are left out; the database calculates them
+ */
+function toLineItemPayload(invoice: LocalInvoice): ImportInvoiceArgs['p_line_items'] {
+  return invoice.lineItems.map(item => ({
+    description: item.description,
+    quantity: item.quantity,
+    rate: item.rate,
+    tax_name: item.taxRate?.name ?? null,
+    tax_rate: item.taxRate?.rate ?? null,
+    discount_type: item.discount?.type ?? null,
+    discount_value: item.discount?.value ?? null,
+  }));
+}
+
+function toStatusHistoryPayload(invoice: LocalInvoice): NonNullable<ImportInvoiceArgs['p_status_history']> {
+  return (invoice.statusHistory ?? []).map(entry => ({
+    from_status: entry.from,
+    to_status: entry.to,
+    changed_by: entry.changedBy,
+    reason: entry.reason ?? null,
+    changed_at: entry.changedAt,
+  }));
+}
+
+/**
+ * Import an invoice with its line items and status history in one transaction
+ */
+async function insertInvoice(invoice: LocalInvoice, clientId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('import_invoice', {
+    p_invoice: toInvoicePayload(invoice, clientId),
+    p_line_items: toLineItemPayload(invoice),
+    p_status_history: toStatusHistoryPayload(invoice),
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to import invoice');
+  }
+}
+
+/**
+ * Describe why a record could not be imported
+ */
+function describeError(label: string, error: unknown): string {
+  return `${label}: ${error instanceof Error ? error.message : 'could not be imported'}`;
+}
+
+/**
+ * Import Service object
+ */
+export const importService = {
+  /**
+   * Check if there are clients or invoices on this device to import
+   */
+  hasLocalData(): boolean {
+    return localImport.getLocalData() !== null;
+  },
+
+  /**
+   * Check if the user should be offered to import the data on this device
+   */
+  shouldOffer(userId: string): boolean {
+    return localImport.shouldOffer(userId);
+  },
+
+  /**
+   * Remember that the user does not want to import the data on this device
+   */
+  dismiss(userId: string): void {
+    localImport.setRecord(userId, 'dismissed');
+  },
+
+  /**
+   * Import the data on this device into the user's account, or only preview
+   * what it would do with dryRun
+   * Records that cannot be imported are left out and listed in the errors;
+   * invoices of a client that could not be imported are left out as well.
+   */
+  async import(options: { dryRun?: boolean } = {}): Promise<ImportReport> {
+    try {
+      const userId = await getCurrentUserId();
+      const local = getLocalData();
+      const account = await getAccountData();
+      const plan = localImport.planImport(local, account);
+      if (options.dryRun) {
+        return localImport.summarize(plan, account.numberFormat);
+      }
+
+      const errors: string[] = [];
+
+      // Emails -> account client IDs
+      const clientIds = new Map<string, string>();
+      const emailOf = (client: LocalClient) => client.email.trim().toLowerCase();
+      for (const step of plan.clients) {
+        if (step.action === 'link' && step.targetId) {
+          clientIds.set(emailOf(step.record), step.targetId);
+        } else if (step.action === 'create') {
+          const { data, error } = await supabase
+            .from('clients')
+            .insert(toClientInsert(step.record, userId))
+            .select('id')
+            .single();
+
+          if (error || !data) {
+            errors.push(describeError(step.record.email, error ?? new Error('Failed to import client')));
+          } else {
+            clientIds.set(emailOf(step.record), data.id);
+          }
+        }
+      }
+
+      const localClients = new Map(local.clients.map(client => [client.id, client]));
+      for (const step of plan.invoices) {
+        if (step.action !== 'create') continue;
+        const client = localClients.get(step.record.clientId);
+        const clientId = client && clientIds.get(emailOf(client));
+        if (!clientId) {
+          errors.push(`${step.record.invoiceNumber}: its client could not be imported`);
+          continue;
+        }
+        try {
+          await insertInvoice(step.record, clientId);
+        } catch (error) {
+          errors.push(describeError(step.record.invoiceNumber, error));
+        }
+      }
+
+      await numberingService.setCounters(plan.counters);
+      const report = localImport.summarize(plan, account.numberFormat, errors);
+      if (report.numberFormatChanged) {
+        await numberingService.updateFormat(plan.numberFormat);
+      }
+
+      localImport.setRecord(userId, 'imported');
+      return report;
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+};
+
+export default importService;
@@ -5,3 +5,16 @@
 export { clientService } from './clientService';
 export { invoiceService } from './invoiceService';
 export { metricsService } from './metricsService';
+export { paymentService } from './paymentService';
+export { paymentGatewayService } from './paymentGatewayService';
+export { creditNoteService } from './creditNoteService';
+export { invoiceStatusService } from './invoiceStatusService';
+export { recurringService } from './recurringService';
+export { quoteService } from './quoteService';
+export { numberingService, DocumentNumberConflictError } from './numberingService';
+export { VersionConflictError } from './versionConflict';
+export { backupService } from './backupService';
+export { NetworkError } from './networkError';
+export { syncService } from './syncService';
+export { importService } from './importService';
+export { realtimeService } from './realtimeService';
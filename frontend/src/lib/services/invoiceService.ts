@@ -5,10 +5,23 @@
  * 
  * Provides CRUD operations for invoices with user isolation via RLS.
  * Handles line items, total calculations, and invoice number generation.
+ * An invoice and its line items are written together by the save_invoice()
+ * database function, which also calculates the totals in exact minor units.
  */
 
 import { supabase } from '../supabase';
-import type { Invoice, InvoiceInput, InvoiceStatus, LineItem, LineItemInput, Client } from '../database.types';
+import { NetworkError, isNetworkError } from './networkError';
+import { taxService } from '@backend/services/taxService';
+import { currencyService } from '@backend/services/currencyService';
+import { money } from '@backend/services/money';
+import { dates } from '@backend/services/dates';
+import { paymentTermsService } from '@backend/services/paymentTermsService';
+import { paymentService } from './paymentService';
+import { invoiceStatusService } from './invoiceStatusService';
+import { numberingService } from './numberingService';
+import { invoiceQuery } from '@backend/services/invoiceQuery';
+import { VersionConflictError, isVersionConflict } from './versionConflict';
+import type { Invoice, InvoiceInput, InvoicePage, InvoiceQuery, InvoiceSortKey, InvoiceStatus, InvoiceStatusCounts, LineItem, LineItemInput, Client, Discount, PaymentTerms, RoundingPolicy, PaymentMethod, StatusChange, StatusChangeInput } from '../database.types';
 
 interface InvoiceRow {
   id: string;
@@ -16,12 +29,28 @@ interface InvoiceRow {
   client_id: string | null;
   invoice_number: string;
   status: InvoiceStatus;
+  currency: string;
   issue_date: string;
   due_date: string;
+  payment_terms_type: PaymentTerms['type'] | null;
+  payment_terms_days: number | null;
+  tax_name: string;
+  tax_rate: number;
+  discount_type: Discount['type'] | null;
+  discount_value: number | null;
+  rounding_mode: RoundingPolicy['mode'];
+  rounding_scope: RoundingPolicy['scope'];
   subtotal: number;
+  discount_amount: number;
   tax: number;
   total: number;
+  amount_paid: number;
+  credited_amount: number;
+  balance_due: number;
   notes: string | null;
+  recurring_profile_id: string | null;
+  recurring_period: string | null;
+  quote_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -33,6 +62,20 @@ interface LineItemRow {
   quantity: number;
   rate: number;
   amount: number;
+  tax_name: string | null;
+  tax_rate: number | null;
+  discount_type: Discount['type'] | null;
+  discount_value: number | null;
+}
+
+interface StatusHistoryRow {
+  id: string;
+  invoice_id: string;
+  from_status: InvoiceStatus | null;
+  to_status: InvoiceStatus;
+  changed_by: string;
+  reason: string | null;
+  changed_at: string;
 }
 
 interface ClientRow {
@@ -42,23 +85,58 @@ interface ClientRow {
   company: string | null;
   phone: string | null;
   address: string | null;
+  default_currency: string;
+  default_terms_type: PaymentTerms['type'] | null;
+  default_terms_days: number | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Read a discount from its type/value column pair
+ */
+function toDiscount(type: Discount['type'] | null, value: number | null): Discount | undefined {
+  return type !== null && value !== null ? { type, value } : undefined;
+}
+
+/**
+ * Read payment terms from their type/days column pair
+ */
+function toPaymentTerms(type: PaymentTerms['type'] | null, days: number | null): PaymentTerms | undefined {
+  return type !== null && days !== null ? { type, days } : undefined;
+}
+
 /**
  * Transform database row to application LineItem type
  */
-function toLineItem(row: LineItemRow): LineItem {
+export function toLineItem(row: LineItemRow): LineItem {
   return {
     id: row.id,
     description: row.description,
     quantity: row.quantity,
     rate: row.rate,
     amount: row.amount,
+    taxRate: row.tax_name !== null && row.tax_rate !== null
+      ? { name: row.tax_name, rate: row.tax_rate }
+      : undefined,
+    discount: toDiscount(row.discount_type, row.discount_value),
   };
 }
 
+/**
+ * Transform status history rows to the application's history, oldest first
+ */
+function toStatusHistory(rows: StatusHistoryRow[]): StatusChange[] {
+  return [...rows]
+    .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+    .map(row => ({
+      from: row.from_status,
+      to: row.to_status,
+      changedBy: row.changed_by,
+      reason: row.reason ?? undefined,
+      changedAt: row.changed_at,
+    }));
+}
 
 /**
  * Transform database row to application Client type
@@ -71,6 +149,8 @@ function toClient(row: ClientRow): Client {
     company: row.company ?? undefined,
     phone: row.phone ?? undefined,
     address: row.address ?? undefined,
+    defaultCurrency: row.default_currency,
+    defaultPaymentTerms: toPaymentTerms(row.default_terms_type, row.default_terms_days),
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -79,32 +159,38 @@ function toClient(row: ClientRow): Client {
 /**
  * Transform database row to application Invoice type
  */
-function toInvoice(row: InvoiceRow, lineItems: LineItemRow[] = [], client?: ClientRow): Invoice {
+export function toInvoice(row: InvoiceRow, lineItems: LineItemRow[] = [], client?: ClientRow, statusHistory: StatusHistoryRow[] = []): Invoice {
   return {
     id: row.id,
     clientId: row.client_id || '',
     client: client ? toClient(client) : undefined,
     invoiceNumber: row.invoice_number,
     status: row.status,
+    currency: row.currency,
     issueDate: row.issue_date,
     dueDate: row.due_date,
+    paymentTerms: toPaymentTerms(row.payment_terms_type, row.payment_terms_days),
     lineItems: lineItems.map(toLineItem),
+    taxRate: { name: row.tax_name, rate: row.tax_rate },
+    discount: toDiscount(row.discount_type, row.discount_value),
+    rounding: { mode: row.rounding_mode, scope: row.rounding_scope },
     subtotal: row.subtotal,
+    discountAmount: row.discount_amount,
     tax: row.tax,
     total: row.total,
+    amountPaid: row.amount_paid,
+    creditedAmount: row.credited_amount,
+    balanceDue: row.balance_due,
     notes: row.notes ?? undefined,
+    statusHistory: toStatusHistory(statusHistory),
+    recurringProfileId: row.recurring_profile_id ?? undefined,
+    recurringPeriod: row.recurring_period ?? undefined,
+    quoteId: row.quote_id ?? undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
-/**
- * Check if error is a network error
- */
-function isNetworkError(error: unknown): boolean {
-  return error instanceof TypeError && error.message === 'Failed to fetch';
-}
-
 /**
  * Handle Supabase errors and return user-friendly messages
  */
@@ -112,7 +198,7 @@ function handleError(error: unknown): never {
   console.error('Invoice service error:', error);
 
   if (isNetworkError(error)) {
-    throw new Error('Unable to connect. Please check your internet connection.');
+    throw new NetworkError();
   }
 
   if (error && typeof error === 'object' && 'code' in error) {
@@ -124,14 +210,28 @@ function handleError(error: unknown): never {
     if (pgError.code === '23503') {
       throw new Error('Referenced client does not exist');
     }
-    if (pgError.code === 'PGRST116') {
+    if (pgError.code === 'PGRST116' || pgError.code === 'P0002') {
       throw new Error('Invoice not found');
     }
+    // Raised by save_invoice() with a message meant for the user
+    if (pgError.code === 'P0001') {
+      throw new Error(pgError.message);
+    }
   }
 
   throw new Error('A database error occurred. Please try again.');
 }
 
+/**
+ * Check if an error is a unique violation of the primary key: an invoice
+ * with the ID given to it already exists
+ */
+function isDuplicateId(error: unknown): boolean {
+  if (!error || typeof error !== 'object' || !('code' in error)) return false;
+  const pgError = error as { code: string; message?: string };
+  return pgError.code === '23505' && (pgError.message ?? '').includes('invoices_pkey');
+}
+
 /**
  * Get current authenticated user ID
  */
@@ -146,19 +246,80 @@ async function getCurrentUserId(): Promise<string> {
 }
 
 /**
- * Calculate invoice totals from line items
- * Requirement 5.6: Calculate totals before saving
+ * Get the default currency of a client, used when an invoice has no currency set
  */
-function calculateTotals(lineItems: LineItemInput[], taxRate: number = 0): { subtotal: number; tax: number; total: number } {
-  const subtotal = lineItems.reduce((sum, item) => sum + (item.quantity * item.rate), 0);
-  const tax = subtotal * (taxRate / 100);
-  const total = subtotal + tax;
-  
-  return {
-    subtotal: Math.round(subtotal * 100) / 100,
-    tax: Math.round(tax * 100) / 100,
-    total: Math.round(total * 100) / 100,
-  };
+async function getClientCurrency(clientId: string): Promise<string> {
+  if (!clientId) return currencyService.DEFAULT_CURRENCY;
+
+  const { data } = await supabase
+    .from('clients')
+    .select('default_currency')
+    .eq('id', clientId)
+    .single();
+
+  return data?.default_currency ?? currencyService.DEFAULT_CURRENCY;
+}
+
+/**
+ * Map line item inputs to the save_invoice() payload
+ * Amounts are left out; the database calculates them
+ */
+function toLineItemPayload(lineItems: LineItemInput[]) {
+  return lineItems.map(item => ({
+    description: item.description,
+    quantity: item.quantity,
+    rate: item.rate,
+    tax_name: item.taxRate?.name ?? null,
+    tax_rate: item.taxRate?.rate ?? null,
+    discount_type: item.discount?.type ?? null,
+    discount_value: item.discount?.value ?? null,
+  }));
+}
+
+/**
+ * Invoice fields that change the totals, saved with the line items
+ */
+const AMOUNT_FIELDS: (keyof InvoiceInput)[] = ['lineItems', 'taxRate', 'discount', 'currency', 'rounding'];
+
+/**
+ * Map a status change to the save_invoice() payload
+ */
+function toChangePayload(change: StatusChangeInput) {
+  return { changed_by: change.changedBy, reason: change.reason };
+}
+
+/**
+ * Columns of the invoice_list view the invoice list is sorted on, by sort key
+ * Numbers and client names have sort keys that compare as invoiceQuery does.
+ */
+const SORT_COLUMNS: Record<InvoiceSortKey, string> = {
+  number: 'number_sort',
+  client: 'client_sort',
+  issueDate: 'issue_date',
+  dueDate: 'due_date',
+  total: 'total',
+  status: 'status',
+};
+
+type CursorKey = NonNullable<ReturnType<typeof invoiceQuery.decodeCursor>>;
+
+/**
+ * Quote a value in a filter, so commas and parentheses are part of it
+ */
+function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Filter on the invoices after a cursor's invoice in the order of a query,
+ * or before it for a previous page
+ */
+function keysetFilter(query: InvoiceQuery, key: CursorKey): string {
+  const column = SORT_COLUMNS[query.sort];
+  const next = key.direction === 'next';
+  const operator = next === (query.direction === 'asc') ? 'gt' : 'lt';
+  const value = quoteFilterValue(key.value);
+  return `${column}.${operator}.${value},and(${column}.eq.${value},id.${next ? 'gt' : 'lt'}.${quoteFilterValue(key.id)})`;
 }
 
 
@@ -178,7 +339,7 @@ export const invoiceService = {
       // Fetch invoices with client data
       const { data: invoices, error: invoicesError } = await supabase
         .from('invoices')
-        .select('*, clients(*)')
+        .select('*, clients(*), invoice_status_history(*)')
         .eq('user_id', userId)
         .order('created_at', { ascending: false });
 
@@ -214,7 +375,8 @@ export const invoiceService = {
         toInvoice(
           inv as InvoiceRow, 
           lineItemsByInvoice[inv.id] || [],
-          inv.clients as ClientRow | undefined
+          inv.clients as ClientRow | undefined,
+          inv.invoice_status_history as StatusHistoryRow[] | undefined
         )
       );
     } catch (error) {
@@ -233,7 +395,7 @@ export const invoiceService = {
       
       const { data: invoice, error: invoiceError } = await supabase
         .from('invoices')
-        .select('*, clients(*)')
+        .select('*, clients(*), invoice_status_history(*)')
         .eq('id', id)
         .eq('user_id', userId)
         .single();
@@ -262,7 +424,8 @@ export const invoiceService = {
       return toInvoice(
         invoice as InvoiceRow,
         (lineItems || []) as LineItemRow[],
-        invoice.clients as ClientRow | undefined
+        invoice.clients as ClientRow | undefined,
+        invoice.invoice_status_history as StatusHistoryRow[] | undefined
       );
     } catch (error) {
       if (error instanceof Error) throw error;
@@ -275,62 +438,63 @@ export const invoiceService = {
    * Create a new invoice with line items
    * Requirement 5.1: Insert invoice and line items into Supabase
    * Requirement 5.6: Calculate totals before saving
+   * The invoice, its line items and its first status entry are saved in
+   * one transaction
+   * An invoice can be given its ID, e.g. a change queued offline; a create
+   * sent again with the same ID returns the invoice the first one created.
    */
-  async create(input: InvoiceInput): Promise<Invoice> {
+  async create(input: InvoiceInput, change: StatusChangeInput = {}, id?: string): Promise<Invoice> {
     try {
-      const userId = await getCurrentUserId();
-      const invoiceNumber = await this.generateInvoiceNumber();
-      const totals = calculateTotals(input.lineItems);
-      
-      // Insert invoice
-      const { data: invoice, error: invoiceError } = await supabase
-        .from('invoices')
-        .insert({
-          user_id: userId,
-          client_id: input.clientId || null,
-          invoice_number: invoiceNumber,
-          status: input.status || 'draft',
-          issue_date: input.issueDate,
-          due_date: input.dueDate,
-          subtotal: totals.subtotal,
-          tax: totals.tax,
-          total: totals.total,
-          notes: input.notes ?? null,
-        })
-        .select('*, clients(*)')
-        .single();
+      await getCurrentUserId();
+      const status = input.status || 'draft';
+      invoiceStatusService.assertInitialStatus(status);
+      const taxRate = input.taxRate ?? taxService.NO_TAX;
+      const currency = input.currency ?? await getClientCurrency(input.clientId);
+      const rounding = input.rounding ?? money.DEFAULT_ROUNDING;
+
+      // Save the invoice with the next free number
+      const { data: invoiceId, error } = await numberingService.insertWithNumber('invoice', input.clientId, (invoiceNumber) => supabase
+        .rpc('save_invoice', {
+          p_invoice_id: null,
+          p_invoice: {
+            id: id ?? null,
+            client_id: input.clientId || null,
+            invoice_number: invoiceNumber,
+            status,
+            currency,
+            issue_date: input.issueDate,
+            due_date: paymentTermsService.resolveDueDate(input.issueDate, input.dueDate, input.paymentTerms),
+            payment_terms_type: input.paymentTerms?.type ?? null,
+            payment_terms_days: input.paymentTerms?.days ?? null,
+            tax_name: taxRate.name,
+            tax_rate: taxRate.rate,
+            discount_type: input.discount?.type ?? null,
+            discount_value: input.discount?.value ?? null,
+            rounding_mode: rounding.mode,
+            rounding_scope: rounding.scope,
+            notes: input.notes ?? null,
+            recurring_profile_id: input.recurringProfileId ?? null,
+            recurring_period: input.recurringPeriod ?? null,
+            quote_id: input.quoteId ?? null,
+          },
+          p_line_items: toLineItemPayload(input.lineItems),
+          p_change: toChangePayload(change),
+        }));
 
-      if (invoiceError) {
-        handleError(invoiceError);
+      if (error) {
+        const created = id && isDuplicateId(error) ? await this.getById(id) : null;
+        if (created) {
+          return created;
+        }
+        handleError(error);
       }
 
-      if (!invoice) {
+      if (!invoiceId) {
         throw new Error('Failed to create invoice');
       }
 
-      // Insert line items
-      if (input.lineItems.length > 0) {
-        const lineItemsToInsert = input.lineItems.map(item => ({
-          invoice_id: invoice.id,
-          description: item.description,
-          quantity: item.quantity,
-          rate: item.rate,
-          amount: item.quantity * item.rate,
-        }));
-
-        const { error: lineItemsError } = await supabase
-          .from('line_items')
-          .insert(lineItemsToInsert);
-
-        if (lineItemsError) {
-          // Rollback: delete the invoice if line items fail
-          await supabase.from('invoices').delete().eq('id', invoice.id);
-          handleError(lineItemsError);
-        }
-      }
-
       // Fetch the complete invoice with line items
-      return await this.getById(invoice.id) as Invoice;
+      return await this.getById(invoiceId) as Invoice;
     } catch (error) {
       if (error instanceof Error) throw error;
       handleError(error);
@@ -341,68 +505,122 @@ export const invoiceService = {
    * Update an existing invoice
    * Requirement 5.3: Update invoice and line items in Supabase
    * Requirement 5.6: Calculate totals before saving
+   * A status in the input must be reachable from the current status, and
+   * cannot be a payment status: those follow from the payments ledger.
+   * Changes to the status, line items or amount settings replace the invoice
+   * and its line items in one transaction, with the totals, balance due and
+   * payment status calculated by the database, which also checks the status.
+   * With an expected version (updatedAt), an invoice changed since then is
+   * not overwritten; a VersionConflictError with the latest invoice is thrown.
    */
-  async update(id: string, input: Partial<InvoiceInput>): Promise<Invoice> {
+  async update(id: string, input: Partial<InvoiceInput>, change: StatusChangeInput = {}, expectedVersion?: string): Promise<Invoice> {
+    // Report the latest version of an invoice that changed in the meantime
+    const conflict = async (): Promise<never> => {
+      const latest = await this.getById(id);
+      if (!latest) {
+        throw new Error('Invoice not found');
+      }
+      throw new VersionConflictError('invoice', id, latest);
+    };
+
     try {
       const userId = await getCurrentUserId();
-      
+      const existing = await this.getById(id);
+      if (!existing) {
+        throw new Error('Invoice not found');
+      }
+      if (existing.status === 'void') {
+        throw new Error('A void invoice cannot be edited');
+      }
+      if (input.status !== undefined) {
+        invoiceStatusService.assertEditableStatus(existing.status, input.status);
+      }
+
+      // Terms re-derive the due date, also when only the issue date changes
+      const issueDate = input.issueDate ?? existing.issueDate;
+      const paymentTerms = 'paymentTerms' in input ? input.paymentTerms : existing.paymentTerms;
+      const dueDate = paymentTerms
+        ? paymentTermsService.getDueDate(issueDate, paymentTerms)
+        : input.dueDate ?? existing.dueDate;
+      // An explicit `discount: undefined` removes the invoice discount
+      const hasDiscountInput = 'discount' in input;
+
+      if (input.status !== undefined || AMOUNT_FIELDS.some(field => field in input)) {
+        // Settings not in the input keep their stored values
+        const taxRate = input.taxRate ?? existing.taxRate;
+        const discount = hasDiscountInput ? input.discount : existing.discount;
+        const rounding = input.rounding ?? existing.rounding;
+
+        const { error } = await supabase.rpc('save_invoice', {
+          p_invoice_id: id,
+          p_invoice: {
+            client_id: (input.clientId ?? existing.clientId) || null,
+            status: input.status ?? existing.status,
+            currency: input.currency ?? existing.currency,
+            issue_date: issueDate,
+            due_date: dueDate,
+            payment_terms_type: paymentTerms?.type ?? null,
+            payment_terms_days: paymentTerms?.days ?? null,
+            tax_name: taxRate.name,
+            tax_rate: taxRate.rate,
+            discount_type: discount?.type ?? null,
+            discount_value: discount?.value ?? null,
+            rounding_mode: rounding.mode,
+            rounding_scope: rounding.scope,
+            notes: input.notes !== undefined ? input.notes ?? null : existing.notes ?? null,
+          },
+          p_line_items: toLineItemPayload(input.lineItems ?? existing.lineItems),
+          p_change: toChangePayload(change),
+          p_expected_version: expectedVersion ?? null,
+        });
+
+        if (isVersionConflict(error)) {
+          await conflict();
+        }
+        if (error) {
+          handleError(error);
+        }
+
+        // Fetch the complete invoice with line items
+        return await this.getById(id) as Invoice;
+      }
+
       const updateData: Record<string, unknown> = {
         updated_at: new Date().toISOString(),
+        due_date: dueDate,
       };
 
       if (input.clientId !== undefined) updateData.client_id = input.clientId || null;
       if (input.issueDate !== undefined) updateData.issue_date = input.issueDate;
-      if (input.dueDate !== undefined) updateData.due_date = input.dueDate;
-      if (input.notes !== undefined) updateData.notes = input.notes ?? null;
-      if (input.status !== undefined) updateData.status = input.status;
-
-      // Recalculate totals if line items are provided
-      if (input.lineItems !== undefined) {
-        const totals = calculateTotals(input.lineItems);
-        updateData.subtotal = totals.subtotal;
-        updateData.tax = totals.tax;
-        updateData.total = totals.total;
+      if ('paymentTerms' in input) {
+        updateData.payment_terms_type = paymentTerms?.type ?? null;
+        updateData.payment_terms_days = paymentTerms?.days ?? null;
       }
+      if (input.notes !== undefined) updateData.notes = input.notes ?? null;
 
-      const { data: invoice, error: invoiceError } = await supabase
+      let query = supabase
         .from('invoices')
         .update(updateData)
         .eq('id', id)
-        .eq('user_id', userId)
+        .eq('user_id', userId);
+      if (expectedVersion) {
+        query = query.eq('updated_at', expectedVersion);
+      }
+
+      const { data: invoice, error: invoiceError } = await query
         .select('*, clients(*)')
-        .single();
+        .maybeSingle();
 
       if (invoiceError) {
         handleError(invoiceError);
       }
 
       if (!invoice) {
-        throw new Error('Invoice not found');
-      }
-
-      // Update line items if provided
-      if (input.lineItems !== undefined) {
-        // Delete existing line items
-        await supabase.from('line_items').delete().eq('invoice_id', id);
-
-        // Insert new line items
-        if (input.lineItems.length > 0) {
-          const lineItemsToInsert = input.lineItems.map(item => ({
-            invoice_id: id,
-            description: item.description,
-            quantity: item.quantity,
-            rate: item.rate,
-            amount: item.quantity * item.rate,
-          }));
-
-          const { error: lineItemsError } = await supabase
-            .from('line_items')
-            .insert(lineItemsToInsert);
-
-          if (lineItemsError) {
-            handleError(lineItemsError);
-          }
+        // No row matched: deleted, or changed since the expected version
+        if (expectedVersion) {
+          await conflict();
         }
+        throw new Error('Invoice not found');
       }
 
       // Fetch the complete invoice with line items
@@ -430,6 +648,10 @@ export const invoiceService = {
         .eq('user_id', userId);
 
       if (error) {
+        // Credit notes keep a restricting reference to the invoice they correct
+        if (error.code === '23503') {
+          throw new Error('An invoice with credit notes cannot be deleted');
+        }
         handleError(error);
       }
     } catch (error) {
@@ -448,7 +670,7 @@ export const invoiceService = {
       
       const { data: invoices, error: invoicesError } = await supabase
         .from('invoices')
-        .select('*, clients(*)')
+        .select('*, clients(*), invoice_status_history(*)')
         .eq('user_id', userId)
         .or(`invoice_number.ilike.${searchTerm}`)
         .order('created_at', { ascending: false });
@@ -480,7 +702,8 @@ export const invoiceService = {
         toInvoice(
           inv as InvoiceRow, 
           lineItemsByInvoice[inv.id] || [],
-          inv.clients as ClientRow | undefined
+          inv.clients as ClientRow | undefined,
+          inv.invoice_status_history as StatusHistoryRow[] | undefined
         )
       );
     } catch (error) {
@@ -498,7 +721,7 @@ export const invoiceService = {
       
       const { data: invoices, error: invoicesError } = await supabase
         .from('invoices')
-        .select('*, clients(*)')
+        .select('*, clients(*), invoice_status_history(*)')
         .eq('user_id', userId)
         .eq('status', status)
         .order('created_at', { ascending: false });
@@ -530,7 +753,8 @@ export const invoiceService = {
         toInvoice(
           inv as InvoiceRow, 
           lineItemsByInvoice[inv.id] || [],
-          inv.clients as ClientRow | undefined
+          inv.clients as ClientRow | undefined,
+          inv.invoice_status_history as StatusHistoryRow[] | undefined
         )
       );
     } catch (error) {
@@ -541,42 +765,265 @@ export const invoiceService = {
 
 
   /**
-   * Mark an invoice as paid
+   * Get a page of invoices, sorted and filtered on the server
+   * The page is read by keyset from its cursor's invoice. A next page past
+   * the end, e.g. after invoices were deleted, starts over; a previous page
+   * that reaches the start is the first page. Rows carry their client, but
+   * not their line items or status history.
    */
-  async markAsPaid(id: string): Promise<Invoice> {
+  async list(query: InvoiceQuery): Promise<InvoicePage> {
     try {
       const userId = await getCurrentUserId();
-      
-      const { data: invoice, error } = await supabase
+      const key = invoiceQuery.decodeCursor(query);
+      const previous = key?.direction === 'previous';
+
+      // The invoices on the query's status filter and search
+      const select = (head: boolean) => {
+        let request = supabase
+          .from('invoice_list')
+          .select('*, clients(*)', { count: 'exact', head })
+          .eq('user_id', userId);
+
+        if (query.status !== 'all') {
+          request = request.eq('status', query.status);
+        }
+
+        if (query.search) {
+          // Characters with a meaning in filters are left out of the search
+          const searchTerm = `%${query.search.replace(/[,()"\\]/g, '')}%`;
+          request = request.or(`invoice_number.ilike.${searchTerm},client_name.ilike.${searchTerm},client_company.ilike.${searchTerm}`);
+        }
+        return request;
+      };
+
+      let request = select(false);
+      if (key) {
+        request = request.or(keysetFilter(query, key));
+      }
+
+      // Invoices that sort the same are ordered by ID, so pages do not
+      // overlap; a previous page is read backwards from its cursor. One
+      // invoice more than a page tells if there are more.
+      const ascending = query.direction === 'asc';
+      const { data: invoices, error: invoicesError, count } = await request
+        .order(SORT_COLUMNS[query.sort], { ascending: ascending !== previous })
+        .order('id', { ascending: !previous })
+        .limit(query.pageSize + 1);
+
+      if (invoicesError) {
+        handleError(invoicesError);
+      }
+
+      // Invoices on the cursor's side of it, or all without a cursor
+      const found = count ?? 0;
+      const items = (invoices || []).slice(0, query.pageSize).map(inv =>
+        toInvoice(inv as InvoiceRow, [], inv.clients as ClientRow | undefined)
+      );
+
+      if (!key) {
+        return invoiceQuery.toPage(items, query, { start: 0, total: found, hasPrevious: false, hasNext: found > query.pageSize });
+      }
+      if (previous ? found <= query.pageSize : items.length === 0) {
+        return this.list({ ...query, cursor: undefined });
+      }
+
+      const { count: total, error: totalError } = await select(true);
+      if (totalError) {
+        handleError(totalError);
+      }
+
+      if (previous) {
+        return invoiceQuery.toPage(items.reverse(), query, {
+          start: found - query.pageSize,
+          total: total ?? found,
+          hasPrevious: true,
+          hasNext: true,
+        });
+      }
+      const start = (total ?? found) - found;
+      return invoiceQuery.toPage(items, query, { start, total: total ?? found, hasPrevious: start > 0, hasNext: found > query.pageSize });
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Count the invoices with each status, and in all
+   */
+  async countByStatus(): Promise<InvoiceStatusCounts> {
+    try {
+      const { data: totals, error } = await supabase.rpc('invoice_metrics');
+
+      if (error) {
+        handleError(error);
+      }
+
+      const counts = Object.fromEntries([['all', 0], ...invoiceQuery.STATUSES.map(status => [status, 0])]) as InvoiceStatusCounts;
+      for (const row of totals || []) {
+        counts[row.status] += row.invoice_count;
+        counts.all += row.invoice_count;
+      }
+      return counts;
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Get the invoice numbers of invoices by ID, e.g. of those quotes were
+   * converted into
+   */
+  async getNumbers(ids: string[]): Promise<Record<string, string>> {
+    if (ids.length === 0) return {};
+    try {
+      const userId = await getCurrentUserId();
+
+      const { data: invoices, error } = await supabase
         .from('invoices')
-        .update({ 
-          status: 'paid' as InvoiceStatus,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id)
+        .select('id, invoice_number')
         .eq('user_id', userId)
-        .select('*, clients(*)')
-        .single();
+        .in('id', ids);
 
       if (error) {
         handleError(error);
       }
 
+      return Object.fromEntries((invoices || []).map(inv => [inv.id, inv.invoice_number]));
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Check if a client has any invoices
+   */
+  async hasClientInvoices(clientId: string): Promise<boolean> {
+    try {
+      const userId = await getCurrentUserId();
+
+      const { count, error } = await supabase
+        .from('invoices')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('client_id', clientId);
+
+      if (error) {
+        handleError(error);
+      }
+      return (count ?? 0) > 0;
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Get the invoice each recurring profile issued last, by profile ID
+   * Rows carry neither line items nor status history.
+   */
+  async getLatestIssued(profileIds: string[]): Promise<Record<string, Invoice>> {
+    try {
+      const userId = await getCurrentUserId();
+
+      const latest = await Promise.all(profileIds.map(async profileId => {
+        const { data: invoices, error } = await supabase
+          .from('invoices')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('recurring_profile_id', profileId)
+          .order('recurring_period', { ascending: false, nullsFirst: false })
+          .limit(1);
+
+        if (error) {
+          handleError(error);
+        }
+        return (invoices || []).map(inv => [profileId, toInvoice(inv as InvoiceRow)] as const);
+      }));
+
+      return Object.fromEntries(latest.flat());
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Mark an invoice as paid
+   * The remaining balance is recorded as a payment received today
+   */
+  async markAsPaid(id: string, method: PaymentMethod = 'other'): Promise<Invoice> {
+    try {
+      const invoice = await this.getById(id);
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+
+      if (invoice.balanceDue > 0) {
+        await paymentService.record(id, {
+          amount: invoice.balanceDue,
+          date: new Date().toISOString().split('T')[0],
+          method,
+        });
+      }
+
+      return await this.getById(id) as Invoice;
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Mark a draft invoice as sent
+   */
+  async markAsSent(id: string): Promise<Invoice> {
+    return this.update(id, { status: 'sent' }, { reason: 'Invoice sent' });
+  },
+
+  /**
+   * Void an invoice sent by mistake
+   * The invoice keeps its number and record but no longer counts as owed.
+   * A reason is required, and invoices with payments cannot be voided.
+   * void_invoice() writes the status and its history in one transaction;
+   * an invoice changed since the expected version, or since it was read
+   * here, is not voided and a VersionConflictError is thrown.
+   */
+  async void(id: string, reason: string, expectedVersion?: string): Promise<Invoice> {
+    try {
+      const invoice = await this.getById(id);
       if (!invoice) {
         throw new Error('Invoice not found');
       }
 
-      // Fetch line items
-      const { data: lineItems } = await supabase
-        .from('line_items')
-        .select('*')
-        .eq('invoice_id', id);
+      if (!reason || reason.trim() === '') {
+        throw new Error('Please give a reason for voiding the invoice');
+      }
+      if (invoice.amountPaid > 0) {
+        throw new Error('An invoice with payments cannot be voided; remove or refund its payments first');
+      }
+      invoiceStatusService.assertTransition(invoice.status, 'void');
 
-      return toInvoice(
-        invoice as InvoiceRow,
-        (lineItems || []) as LineItemRow[],
-        invoice.clients as ClientRow | undefined
-      );
+      const { error } = await supabase.rpc('void_invoice', {
+        p_invoice_id: id,
+        p_change: toChangePayload({ reason: reason.trim() }),
+        p_expected_version: expectedVersion ?? invoice.updatedAt,
+      });
+
+      if (isVersionConflict(error)) {
+        const latest = await this.getById(id);
+        if (!latest) {
+          throw new Error('Invoice not found');
+        }
+        throw new VersionConflictError('invoice', id, latest);
+      }
+      if (error) {
+        handleError(error);
+      }
+
+      return await this.getById(id) as Invoice;
     } catch (error) {
       if (error instanceof Error) throw error;
       handleError(error);
@@ -597,19 +1044,28 @@ export const invoiceService = {
         throw new Error('Invoice not found');
       }
 
-      // Create a new invoice with the same data
+      // Create a new invoice with the same data, due on the same terms, or the
+      // same number of days after issue when it has none
+      const today = dates.today();
       const newInvoice = await this.create({
         clientId: original.clientId,
-        issueDate: new Date().toISOString().split('T')[0],
-        dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        issueDate: today,
+        dueDate: dates.addDays(today, dates.daysBetween(original.issueDate, original.dueDate)),
+        paymentTerms: original.paymentTerms,
         lineItems: original.lineItems.map(item => ({
           description: item.description,
           quantity: item.quantity,
           rate: item.rate,
+          taxRate: item.taxRate,
+          discount: item.discount,
         })),
+        taxRate: original.taxRate,
+        discount: original.discount,
+        rounding: original.rounding,
+        currency: original.currency,
         notes: original.notes,
         status: 'draft',
-      });
+      }, { reason: `Duplicated from ${original.invoiceNumber}` });
 
       return newInvoice;
     } catch (error) {
@@ -619,55 +1075,65 @@ export const invoiceService = {
   },
 
   /**
-   * Generate a unique invoice number for the current user
-   * Requirement 5.5: Use per-user sequence stored in Supabase
+   * Restore an invoice from a backup, keeping its number and status
+   * restore_invoice() writes it in one transaction and recalculates the
+   * totals; the amounts paid and credited come from the payments and credit
+   * notes in the workspace. With a target ID that invoice is replaced;
+   * links to recurring profiles and quotes are not restored.
    */
-  async generateInvoiceNumber(): Promise<string> {
+  async restore(invoice: Invoice, clientId: string, targetId?: string): Promise<Invoice> {
     try {
-      const userId = await getCurrentUserId();
-      
-      // Try to get existing sequence
-      const { data: sequence, error: fetchError } = await supabase
-        .from('invoice_sequences')
-        .select('last_number')
-        .eq('user_id', userId)
-        .single();
-
-      let nextNumber: number;
-
-      if (fetchError && fetchError.code === 'PGRST116') {
-        // No sequence exists, create one
-        const { error: insertError } = await supabase
-          .from('invoice_sequences')
-          .insert({ user_id: userId, last_number: 1 });
+      // The backup has no payments; its amount paid is dated when it was last paid
+      const paidOn = [...invoice.statusHistory].reverse()
+        .find(entry => entry.to === 'paid' || entry.to === 'partially_paid')?.changedAt.slice(0, 10);
+
+      const { data: invoiceId, error } = await supabase.rpc('restore_invoice', {
+        p_invoice_id: targetId ?? null,
+        p_invoice: {
+          client_id: clientId,
+          invoice_number: invoice.invoiceNumber,
+          status: invoice.status,
+          currency: invoice.currency,
+          issue_date: invoice.issueDate,
+          due_date: invoice.dueDate,
+          payment_terms_type: invoice.paymentTerms?.type ?? null,
+          payment_terms_days: invoice.paymentTerms?.days ?? null,
+          tax_name: invoice.taxRate.name,
+          tax_rate: invoice.taxRate.rate,
+          discount_type: invoice.discount?.type ?? null,
+          discount_value: invoice.discount?.value ?? null,
+          rounding_mode: invoice.rounding.mode,
+          rounding_scope: invoice.rounding.scope,
+          notes: invoice.notes ?? null,
+          amount_paid: invoice.amountPaid,
+          paid_on: paidOn ?? null,
+        },
+        p_line_items: toLineItemPayload(invoice.lineItems),
+        p_change: toChangePayload({ reason: 'Restored from backup' }),
+      });
 
-        if (insertError) {
-          handleError(insertError);
-        }
-        nextNumber = 1;
-      } else if (fetchError) {
-        handleError(fetchError);
-      } else {
-        // Increment the sequence
-        nextNumber = (sequence?.last_number || 0) + 1;
-        
-        const { error: updateError } = await supabase
-          .from('invoice_sequences')
-          .update({ last_number: nextNumber })
-          .eq('user_id', userId);
+      if (error) {
+        handleError(error);
+      }
 
-        if (updateError) {
-          handleError(updateError);
-        }
+      if (!invoiceId) {
+        throw new Error('Failed to restore invoice');
       }
 
-      // Format as INV-XXXX
-      return `INV-${nextNumber.toString().padStart(4, '0')}`;
+      return await this.getById(invoiceId) as Invoice;
     } catch (error) {
       if (error instanceof Error) throw error;
       handleError(error);
     }
   },
+
+  /**
+   * Generate a unique invoice number for the current user
+   * Requirement 5.5: Use per-user sequence stored in Supabase, numbered from the user's template
+   */
+  async generateInvoiceNumber(clientId?: string): Promise<string> {
+    return numberingService.next('invoice', clientId);
+  },
 };
 
 export default invoiceService;
@@ -0,0 +1,107 @@
+/**
+ * Invoice Status Service - Supabase invoice status history
+ *
+ * Status changes are checked against the transition table shared with the
+ * local services and recorded in invoice_status_history with the email of
+ * the user who made them. Used by the invoice and payment services, which
+ * both change invoice statuses.
+ */
+
+import { supabase } from '../supabase';
+import { NetworkError, isNetworkError } from './networkError';
+import { invoiceStatusService as localStatus } from '@backend/services/invoiceStatusService';
+import type { InvoiceStatus, StatusChangeInput } from '../database.types';
+
+/**
+ * Handle Supabase errors and return user-friendly messages
+ */
+function handleError(error: unknown): never {
+  console.error('Invoice status service error:', error);
+
+  if (isNetworkError(error)) {
+    throw new NetworkError();
+  }
+
+  if (error && typeof error === 'object' && 'code' in error) {
+    const pgError = error as { code: string; message: string };
+
+    if (pgError.code === '23503') {
+      throw new Error('Invoice does not exist');
+    }
+  }
+
+  throw new Error('A database error occurred. Please try again.');
+}
+
+/**
+ * Get the current authenticated user
+ */
+async function getCurrentUser(): Promise<{ id: string; email?: string }> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    throw new Error('You must be logged in to perform this action');
+  }
+
+  return user;
+}
+
+/**
+ * Invoice Status Service object
+ */
+export const invoiceStatusService = {
+  /**
+   * Throw if an invoice cannot move from one status to another
+   */
+  assertTransition(from: InvoiceStatus, to: InvoiceStatus): void {
+    localStatus.assertTransition(from, to);
+  },
+
+  /**
+   * Throw if an edit of an invoice cannot set a status
+   */
+  assertEditableStatus(from: InvoiceStatus, to: InvoiceStatus): void {
+    localStatus.assertEditableStatus(from, to);
+  },
+
+  /**
+   * Throw if an invoice cannot be created with a status
+   */
+  assertInitialStatus(status: InvoiceStatus): void {
+    localStatus.assertInitialStatus(status);
+  },
+
+  /**
+   * Record a status change of an invoice, or the status it was created with
+   * when `from` is null. Nothing is recorded when the status stays the same.
+   */
+  async record(invoiceId: string, from: InvoiceStatus | null, to: InvoiceStatus, change: StatusChangeInput = {}): Promise<void> {
+    try {
+      if (from === to) return;
+
+      const user = await getCurrentUser();
+      const entry = localStatus.createEntry(from, to, from === null ? { reason: 'Invoice created', ...change } : change);
+
+      const { error } = await supabase
+        .from('invoice_status_history')
+        .insert({
+          user_id: user.id,
+          invoice_id: invoiceId,
+          from_status: entry.from,
+          to_status: entry.to,
+          changed_by: change.changedBy || user.email || localStatus.DEFAULT_ACTOR,
+          reason: entry.reason ?? null,
+          changed_at: entry.changedAt,
+        });
+
+      if (error) {
+        handleError(error);
+      }
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+};
+
+export default invoiceStatusService;
@@ -3,24 +3,15 @@
  * 
  * Requirements: 6.1, 6.2, 6.3, 6.4
  * 
- * Calculates business metrics from user's Supabase data.
+ * Calculates business metrics from user's Supabase data. The invoice
+ * amounts are summed on the server by currency and status, so no invoice
+ * is loaded to calculate them.
  */
 
 import { supabase } from '../supabase';
-import type { Metrics, InvoiceStatus } from '../database.types';
-
-interface InvoiceRow {
-  id: string;
-  status: InvoiceStatus;
-  total: number;
-}
-
-/**
- * Check if error is a network error
- */
-function isNetworkError(error: unknown): boolean {
-  return error instanceof TypeError && error.message === 'Failed to fetch';
-}
+import { NetworkError, isNetworkError } from './networkError';
+import { metricsService as localMetrics } from '@backend/services/metricsService';
+import type { Metrics } from '../database.types';
 
 /**
  * Handle Supabase errors and return user-friendly messages
@@ -29,7 +20,7 @@ function handleError(error: unknown): never {
   console.error('Metrics service error:', error);
 
   if (isNetworkError(error)) {
-    throw new Error('Unable to connect. Please check your internet connection.');
+    throw new NetworkError();
   }
 
   throw new Error('A database error occurred. Please try again.');
@@ -63,14 +54,11 @@ export const metricsService = {
     try {
       const userId = await getCurrentUserId();
       
-      // Fetch all invoices for the user
-      const { data: invoices, error: invoicesError } = await supabase
-        .from('invoices')
-        .select('id, status, total')
-        .eq('user_id', userId);
+      // Sum the invoice amounts by currency and status
+      const { data: totals, error: totalsError } = await supabase.rpc('invoice_metrics');
 
-      if (invoicesError) {
-        handleError(invoicesError);
+      if (totalsError) {
+        handleError(totalsError);
       }
 
       // Fetch client count
@@ -83,38 +71,16 @@ export const metricsService = {
         handleError(clientsError);
       }
 
-      // Calculate metrics from invoices
-      const invoiceList = (invoices || []) as InvoiceRow[];
-      
-      // Requirement 6.2: Calculate amounts by status
-      const totalRevenue = invoiceList
-        .filter(inv => inv.status === 'paid')
-        .reduce((sum, inv) => sum + inv.total, 0);
-
-      const pendingAmount = invoiceList
-        .filter(inv => inv.status === 'sent')
-        .reduce((sum, inv) => sum + inv.total, 0);
-
-      const overdueAmount = invoiceList
-        .filter(inv => inv.status === 'overdue')
-        .reduce((sum, inv) => sum + inv.total, 0);
-
-      // Requirement 6.3: Count invoices by status
-      const paidInvoices = invoiceList.filter(inv => inv.status === 'paid').length;
-      const pendingInvoices = invoiceList.filter(inv => inv.status === 'sent').length;
-      const overdueInvoices = invoiceList.filter(inv => inv.status === 'overdue').length;
-      const draftInvoices = invoiceList.filter(inv => inv.status === 'draft').length;
-
-      return {
-        totalRevenue: Math.round(totalRevenue * 100) / 100,
-        pendingAmount: Math.round(pendingAmount * 100) / 100,
-        overdueAmount: Math.round(overdueAmount * 100) / 100,
-        totalClients: clientCount || 0,
-        paidInvoices,
-        pendingInvoices,
-        overdueInvoices,
-        draftInvoices,
-      };
+      // Requirements 6.2, 6.3: Amounts per currency and counts by status
+      // Revenue counts only the amounts actually paid
+      return localMetrics.summarizeTotals((totals || []).map(row => ({
+        currency: row.currency,
+        status: row.status,
+        invoiceCount: row.invoice_count,
+        amountPaid: row.amount_paid,
+        balanceDue: row.balance_due,
+        refundDue: row.refund_due,
+      })), clientCount || 0);
     } catch (error) {
       if (error instanceof Error) throw error;
       handleError(error);
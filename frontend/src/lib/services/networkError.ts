@@ -0,0 +1,33 @@
+/**
+ * Network errors - requests that never reached Supabase
+ *
+ * The services report them as a NetworkError, so that callers can tell a
+ * lost connection from a rejected change and queue the change for later.
+ */
+
+/**
+ * Thrown when Supabase could not be reached
+ */
+export class NetworkError extends Error {
+  constructor() {
+    super('Unable to connect. Please check your internet connection.');
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Messages of the TypeError fetch rejects with, by browser
+ * (Chromium, Firefox, Safari)
+ */
+const FETCH_FAILURE_MESSAGES = ['Failed to fetch', 'NetworkError when attempting to fetch resource', 'Load failed'];
+
+/**
+ * Check if error is a network error
+ * Fetch rejects with a TypeError; PostgREST returns that error's message
+ * as the error of the request.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error || typeof error !== 'object' || !('message' in error)) return false;
+  const message = String((error as { message: unknown }).message);
+  return FETCH_FAILURE_MESSAGES.some(failure => message.includes(failure));
+}
@@ -0,0 +1,311 @@
+/**
+ * Numbering Service - Supabase document number series
+ *
+ * Invoices, credit notes and quotes are numbered in their own series from
+ * one template and reset policy, kept with the counters in the user's
+ * invoice_sequences row. Sequences are allocated atomically by the
+ * allocate_document_number() database function; the template is filled in
+ * with the formatting shared with the local number generator.
+ */
+
+import { supabase } from '../supabase';
+import { NetworkError, isNetworkError } from './networkError';
+import { invoiceNumberGenerator as localNumbers, type NumberSeries } from '@backend/services/invoiceNumberGenerator';
+import { dates } from '@backend/services/dates';
+import type { NumberCounter, NumberFormat, WorkspaceData } from '../database.types';
+
+interface SequenceRow {
+  user_id: string;
+  last_number: number;
+  last_credit_note_number: number;
+  last_quote_number: number;
+  last_number_period: string;
+  last_credit_note_period: string;
+  last_quote_period: string;
+  number_template: string;
+  number_reset: NumberFormat['reset'];
+  fiscal_year_start_month: number;
+}
+
+/**
+ * Database name of each series and the unique constraint on its numbers
+ */
+const SERIES = {
+  invoice: { name: 'invoice', constraint: 'invoices_user_id_invoice_number_key' },
+  creditNote: { name: 'credit_note', constraint: 'credit_notes_user_id_credit_note_number_key' },
+  quote: { name: 'quote', constraint: 'quotes_user_id_quote_number_key' },
+} as const;
+
+/**
+ * Counter columns of each series in the sequence row
+ */
+const COUNTER_COLUMNS = {
+  invoice: { sequence: 'last_number', period: 'last_number_period' },
+  creditNote: { sequence: 'last_credit_note_number', period: 'last_credit_note_period' },
+  quote: { sequence: 'last_quote_number', period: 'last_quote_period' },
+} as const;
+
+/**
+ * Numbers tried before giving up on a document whose number is taken
+ */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Thrown when every number allocated for a document was already taken,
+ * e.g. by documents numbered before the template was changed
+ */
+export class DocumentNumberConflictError extends Error {
+  readonly series: NumberSeries;
+  readonly attempts: string[];
+
+  constructor(series: NumberSeries, attempts: string[]) {
+    super(`Could not allocate a free number: ${attempts.join(', ')} are already taken. Please check your number template.`);
+    this.name = 'DocumentNumberConflictError';
+    this.series = series;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Check if an error is a unique violation of a series' numbers
+ */
+function isNumberConflict(error: unknown, series: NumberSeries): boolean {
+  if (!error || typeof error !== 'object' || !('code' in error)) return false;
+  const pgError = error as { code: string; message?: string };
+  return pgError.code === '23505' && (pgError.message ?? '').includes(SERIES[series].constraint);
+}
+
+/**
+ * Transform database row to application NumberFormat type
+ */
+function toNumberFormat(row: Pick<SequenceRow, 'number_template' | 'number_reset' | 'fiscal_year_start_month'>): NumberFormat {
+  return {
+    template: row.number_template,
+    reset: row.number_reset,
+    fiscalYearStartMonth: row.fiscal_year_start_month,
+  };
+}
+
+/**
+ * Handle Supabase errors and return user-friendly messages
+ */
+function handleError(error: unknown): never {
+  console.error('Numbering service error:', error);
+
+  if (isNetworkError(error)) {
+    throw new NetworkError();
+  }
+
+  throw new Error('A database error occurred. Please try again.');
+}
+
+/**
+ * Get current authenticated user ID
+ */
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    throw new Error('You must be logged in to perform this action');
+  }
+
+  return user.id;
+}
+
+/**
+ * Get the sequence row of a user, creating it with the default format
+ * Creating is a no-op when another tab created the row first
+ */
+async function getSequenceRow(userId: string): Promise<SequenceRow> {
+  const { error: insertError } = await supabase
+    .from('invoice_sequences')
+    .upsert({ user_id: userId }, { onConflict: 'user_id', ignoreDuplicates: true });
+
+  if (insertError) {
+    handleError(insertError);
+  }
+
+  const { data, error } = await supabase
+    .from('invoice_sequences')
+    .select('*')
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) {
+    handleError(error);
+  }
+
+  return data;
+}
+
+/**
+ * Get the name and company of a client for the {CLIENT} token
+ */
+async function getClient(clientId: string): Promise<{ name: string; company?: string } | undefined> {
+  const { data } = await supabase
+    .from('clients')
+    .select('name, company')
+    .eq('id', clientId)
+    .single();
+
+  return data ? { name: data.name, company: data.company ?? undefined } : undefined;
+}
+
+/**
+ * Numbering Service object
+ */
+export const numberingService = {
+  /**
+   * Get the user's number format
+   */
+  async getFormat(): Promise<NumberFormat> {
+    try {
+      const userId = await getCurrentUserId();
+      return toNumberFormat(await getSequenceRow(userId));
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Save the user's number format
+   * Counters are kept; a series starts again at 1 when its next number
+   * falls in a new period
+   */
+  async updateFormat(format: NumberFormat): Promise<NumberFormat> {
+    try {
+      const validation = localNumbers.validateFormat(format);
+      if (!validation.valid) {
+        throw new Error(Object.values(validation.errors)[0]);
+      }
+
+      const userId = await getCurrentUserId();
+      await getSequenceRow(userId);
+
+      const { data, error } = await supabase
+        .from('invoice_sequences')
+        .update({
+          number_template: format.template.trim(),
+          number_reset: format.reset,
+          fiscal_year_start_month: format.fiscalYearStartMonth,
+        })
+        .eq('user_id', userId)
+        .select('*')
+        .single();
+
+      if (error || !data) {
+        handleError(error);
+      }
+
+      return toNumberFormat(data);
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Get the counters of the series that have numbered a document
+   */
+  async getCounters(): Promise<WorkspaceData['counters']> {
+    try {
+      const userId = await getCurrentUserId();
+      const row = await getSequenceRow(userId);
+
+      const counters: WorkspaceData['counters'] = {};
+      for (const [series, columns] of Object.entries(COUNTER_COLUMNS) as [NumberSeries, typeof COUNTER_COLUMNS[NumberSeries]][]) {
+        if (row[columns.sequence] > 0) {
+          counters[series] = { period: row[columns.period], sequence: row[columns.sequence] };
+        }
+      }
+      return counters;
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Set the counters of series, e.g. when restoring a backup
+   * Series not given keep their counters
+   */
+  async setCounters(counters: WorkspaceData['counters']): Promise<void> {
+    try {
+      const userId = await getCurrentUserId();
+      await getSequenceRow(userId);
+
+      const update: Record<string, string | number> = {};
+      for (const [series, counter] of Object.entries(counters) as [NumberSeries, NumberCounter][]) {
+        update[COUNTER_COLUMNS[series].sequence] = counter.sequence;
+        update[COUNTER_COLUMNS[series].period] = counter.period;
+      }
+      if (Object.keys(update).length === 0) return;
+
+      const { error } = await supabase
+        .from('invoice_sequences')
+        .update(update)
+        .eq('user_id', userId);
+
+      if (error) {
+        handleError(error);
+      }
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Allocate the next number of a series
+   * The client is only looked up when the template has a {CLIENT} token
+   */
+  async next(series: NumberSeries, clientId?: string): Promise<string> {
+    try {
+      await getCurrentUserId();
+      const date = dates.today();
+
+      const { data, error } = await supabase
+        .rpc('allocate_document_number', { p_series: SERIES[series].name, p_date: date })
+        .single();
+
+      if (error || !data) {
+        handleError(error);
+      }
+
+      const format = toNumberFormat(data);
+      const client = clientId && format.template.includes('{CLIENT}') ? await getClient(clientId) : undefined;
+      return localNumbers.formatNumber(format, { prefix: localNumbers.SERIES[series].prefix, sequence: data.sequence, date, client });
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Insert a document with the next number of its series
+   * A number that is already taken is skipped for the next one; after
+   * MAX_ATTEMPTS taken numbers a DocumentNumberConflictError is thrown.
+   * Other insert errors are returned to the caller.
+   */
+  async insertWithNumber<R extends { error: unknown }>(
+    series: NumberSeries,
+    clientId: string | undefined,
+    insert: (number: string) => PromiseLike<R>
+  ): Promise<R> {
+    const attempts: string[] = [];
+
+    while (attempts.length < MAX_ATTEMPTS) {
+      const number = await this.next(series, clientId);
+      const result = await insert(number);
+      if (!isNumberConflict(result.error, series)) {
+        return result;
+      }
+      attempts.push(number);
+    }
+
+    throw new DocumentNumberConflictError(series, attempts);
+  },
+};
+
+export default numberingService;
@@ -0,0 +1,94 @@
+/**
+ * Payment Gateway Service - Pay Now flow against the Supabase payments ledger
+ *
+ * Talks to the configured payment provider (the local mock by default) and
+ * writes a payment only for intents the provider reports as succeeded.
+ * The payment's reference is the intent ID, and the database records a card
+ * payment once per invoice and reference, so settling is idempotent even
+ * when two confirmations of one intent run at the same time.
+ */
+
+import { paymentGateway as localGateway, UnrecordedPaymentError } from '@backend/services/paymentGateway';
+import { invoiceService } from './invoiceService';
+import { paymentService } from './paymentService';
+import type { CardDetails, Payment, PaymentIntent, PaymentWebhookEvent } from '../database.types';
+
+/**
+ * Bring the ledger in line with an intent: record a succeeded intent once,
+ * and remove the payment of a refunded one
+ */
+async function settle(intent: PaymentIntent): Promise<PaymentIntent> {
+  const findRecorded = async () =>
+    (await paymentService.getByInvoiceId(intent.invoiceId)).find(payment => payment.reference === intent.id);
+  const recorded = await findRecorded();
+
+  if (intent.status === 'succeeded' && !recorded) {
+    try {
+      await paymentService.record(intent.invoiceId, localGateway.toPaymentInput(intent));
+    } catch (error) {
+      // Recorded by a confirmation or webhook of the same intent running at the same time
+      if (!(await findRecorded().catch(() => undefined))) {
+        throw new UnrecordedPaymentError(intent, error);
+      }
+    }
+  } else if (intent.status === 'refunded' && recorded) {
+    await paymentService.delete(recorded.id);
+  }
+
+  return intent;
+}
+
+/**
+ * Payment Gateway Service object
+ */
+export const paymentGatewayService = {
+  /**
+   * Start paying the balance due of an invoice
+   */
+  async startPayment(invoiceId: string): Promise<PaymentIntent> {
+    const invoice = await invoiceService.getById(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    const amount = localGateway.getPayableAmount(invoice);
+    if (amount <= 0) {
+      throw new Error('This invoice has nothing left to pay');
+    }
+
+    return localGateway.getProvider().createIntent({ invoiceId, amount, currency: invoice.currency });
+  },
+
+  /**
+   * Confirm a payment with card details, or complete 3-D Secure when called
+   * again without them
+   */
+  async confirmPayment(intentId: string, card?: CardDetails): Promise<PaymentIntent> {
+    if (card) {
+      const validation = localGateway.validateCard(card);
+      if (!validation.valid) {
+        throw new Error(Object.values(validation.errors)[0]);
+      }
+    }
+    return settle(await localGateway.getProvider().confirm(intentId, card));
+  },
+
+  /**
+   * Apply a provider webhook to the ledger
+   */
+  async handleWebhook(event: PaymentWebhookEvent): Promise<PaymentIntent> {
+    return settle(await localGateway.getProvider().handleWebhook(event));
+  },
+
+  /**
+   * Refund an online card payment and remove it from the ledger
+   */
+  async refundPayment(payment: Payment): Promise<PaymentIntent> {
+    if (!payment.reference || payment.method !== 'card') {
+      throw new Error('Only online card payments can be refunded');
+    }
+    return settle(await localGateway.getProvider().refund(payment.reference));
+  },
+};
+
+export default paymentGatewayService;
@@ -0,0 +1,238 @@
+/**
+ * Payment Service - Supabase payments ledger
+ *
+ * Records money received against an invoice and keeps the invoice's
+ * amount_paid, balance_due and status in step with its payments.
+ * Payments are written by the record_payment() and delete_payment()
+ * database functions, which update the invoice and its status history in
+ * the same transaction; the status rules match the local services.
+ */
+
+import { supabase } from '../supabase';
+import { NetworkError, isNetworkError } from './networkError';
+import { paymentService as localPayments } from '@backend/services/paymentService';
+import { currencyService } from '@backend/services/currencyService';
+import type { InvoiceStatus, Payment, PaymentInput, PaymentMethod, StatusChangeInput } from '../database.types';
+
+interface PaymentRow {
+  id: string;
+  user_id: string;
+  invoice_id: string;
+  amount: number;
+  paid_on: string;
+  method: PaymentMethod;
+  reference: string | null;
+  created_at: string;
+}
+
+/**
+ * Transform database row to application Payment type
+ */
+function toPayment(row: PaymentRow): Payment {
+  return {
+    id: row.id,
+    invoiceId: row.invoice_id,
+    amount: row.amount,
+    date: row.paid_on,
+    method: row.method,
+    reference: row.reference ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Handle Supabase errors and return user-friendly messages
+ */
+function handleError(error: unknown): never {
+  console.error('Payment service error:', error);
+
+  if (isNetworkError(error)) {
+    throw new NetworkError();
+  }
+
+  if (error && typeof error === 'object' && 'code' in error) {
+    const pgError = error as { code: string; message: string };
+
+    if (pgError.code === '23503') {
+      throw new Error('Invoice does not exist');
+    }
+    if (pgError.code === '23505') {
+      throw new Error('This payment has already been recorded');
+    }
+    if (pgError.code === 'PGRST116' || pgError.code === 'P0002') {
+      throw new Error(pgError.message || 'Payment not found');
+    }
+    // Raised by the payment functions with a message meant for the user
+    if (pgError.code === 'P0001') {
+      throw new Error(pgError.message);
+    }
+  }
+
+  throw new Error('A database error occurred. Please try again.');
+}
+
+/**
+ * Get current authenticated user ID
+ */
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    throw new Error('You must be logged in to perform this action');
+  }
+
+  return user.id;
+}
+
+/**
+ * Fetch the amounts and status of an invoice that payments depend on
+ */
+async function getInvoiceBalance(invoiceId: string, userId: string) {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('status, total, currency, amount_paid, credited_amount, balance_due')
+    .eq('id', invoiceId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  return {
+    status: invoice.status as InvoiceStatus,
+    total: invoice.total,
+    currency: invoice.currency,
+    amountPaid: invoice.amount_paid,
+    creditedAmount: invoice.credited_amount,
+    balanceDue: invoice.balance_due,
+  };
+}
+
+/**
+ * Payload of a status change for the payment functions
+ */
+function toChangePayload(change: StatusChangeInput) {
+  return {
+    changed_by: change.changedBy,
+    reason: change.reason,
+  };
+}
+
+/**
+ * Payment Service object
+ */
+export const paymentService = {
+  /**
+   * Get the payments of an invoice, oldest first
+   */
+  async getByInvoiceId(invoiceId: string): Promise<Payment[]> {
+    try {
+      const userId = await getCurrentUserId();
+
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('invoice_id', invoiceId)
+        .eq('user_id', userId)
+        .order('paid_on', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        handleError(error);
+      }
+
+      return (data || []).map(row => toPayment(row as PaymentRow));
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Recalculate the balance and status of an invoice, e.g. after a credit note
+   */
+  async syncInvoice(invoiceId: string, change: StatusChangeInput = {}): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('sync_invoice_payments', {
+        p_invoice_id: invoiceId,
+        p_change: toChangePayload(change),
+      });
+
+      if (error) {
+        handleError(error);
+      }
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Record a payment against an invoice and update the invoice balance and status
+   * The payment is checked here for a clear message, and again by the
+   * database against the balance due at the time it is written.
+   */
+  async record(invoiceId: string, input: PaymentInput): Promise<Payment> {
+    try {
+      const userId = await getCurrentUserId();
+      const invoice = await getInvoiceBalance(invoiceId, userId);
+
+      const validation = localPayments.validate(input, invoice);
+      if (!validation.valid) {
+        throw new Error(Object.values(validation.errors)[0]);
+      }
+
+      const { data: payment, error } = await supabase.rpc('record_payment', {
+        p_invoice_id: invoiceId,
+        p_payment: {
+          amount: input.amount,
+          paid_on: input.date,
+          method: input.method,
+          reference: input.reference?.trim() || null,
+        },
+        p_change: toChangePayload({
+          reason: `Payment of ${currencyService.format(input.amount, invoice.currency)} recorded`,
+        }),
+      });
+
+      if (error) {
+        handleError(error);
+      }
+
+      if (!payment) {
+        throw new Error('Failed to record payment');
+      }
+
+      return toPayment(payment as PaymentRow);
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Delete a payment and update the invoice balance and status
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('delete_payment', {
+        p_payment_id: id,
+        p_change: toChangePayload({ reason: 'Payment removed' }),
+      });
+
+      if (error) {
+        handleError(error);
+      }
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+};
+
+export default paymentService;
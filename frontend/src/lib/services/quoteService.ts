@@ -0,0 +1,647 @@
+/**
+ * Quote Service - Supabase quotes and their conversion into invoices
+ *
+ * Quotes have their own QUO-XXXX number series and reuse the invoice line
+ * items, totals and validation of the local services. A client answers a sent
+ * quote on its public page; an accepted quote is converted into a draft
+ * invoice, and the two refer to each other. Quotes are written by the
+ * save_quote() and convert_quote() database functions, so a quote and its
+ * line items, or a conversion and its link, are saved in one transaction.
+ */
+
+import { supabase } from '../supabase';
+import { NetworkError, isNetworkError } from './networkError';
+import { quoteService as localQuotes } from '@backend/services/quoteService';
+import { taxService } from '@backend/services/taxService';
+import { currencyService } from '@backend/services/currencyService';
+import { money } from '@backend/services/money';
+import { dates } from '@backend/services/dates';
+import { paymentTermsService } from '@backend/services/paymentTermsService';
+import { invoiceService } from './invoiceService';
+import { numberingService } from './numberingService';
+import type { Client, Discount, Invoice, LineItem, LineItemInput, PaymentTerms, Quote, QuoteInput, QuoteResponse, QuoteStatus, RoundingPolicy, StatusChangeInput } from '../database.types';
+
+interface QuoteRow {
+  id: string;
+  user_id: string;
+  client_id: string | null;
+  quote_number: string;
+  status: QuoteStatus;
+  currency: string;
+  issue_date: string;
+  expiry_date: string;
+  tax_name: string;
+  tax_rate: number;
+  discount_type: Discount['type'] | null;
+  discount_value: number | null;
+  rounding_mode: RoundingPolicy['mode'];
+  rounding_scope: RoundingPolicy['scope'];
+  subtotal: number;
+  discount_amount: number;
+  tax: number;
+  total: number;
+  notes: string | null;
+  responded_at: string | null;
+  responded_by: string | null;
+  decline_reason: string | null;
+  invoice_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface QuoteItemRow {
+  id: string;
+  quote_id: string;
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+  tax_name: string | null;
+  tax_rate: number | null;
+  discount_type: Discount['type'] | null;
+  discount_value: number | null;
+}
+
+interface ClientRow {
+  id: string;
+  user_id: string;
+  name: string;
+  email: string;
+  company: string | null;
+  phone: string | null;
+  address: string | null;
+  default_currency: string;
+  default_terms_type: PaymentTerms['type'] | null;
+  default_terms_days: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Read a discount from its type/value column pair
+ */
+function toDiscount(type: Discount['type'] | null, value: number | null): Discount | undefined {
+  return type !== null && value !== null ? { type, value } : undefined;
+}
+
+/**
+ * Transform database row to application LineItem type
+ */
+function toLineItem(row: QuoteItemRow): LineItem {
+  return {
+    id: row.id,
+    description: row.description,
+    quantity: row.quantity,
+    rate: row.rate,
+    amount: row.amount,
+    taxRate: row.tax_name !== null && row.tax_rate !== null
+      ? { name: row.tax_name, rate: row.tax_rate }
+      : undefined,
+    discount: toDiscount(row.discount_type, row.discount_value),
+  };
+}
+
+/**
+ * Transform database row to application Client type
+ */
+function toClient(row: ClientRow): Client {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    company: row.company ?? undefined,
+    phone: row.phone ?? undefined,
+    address: row.address ?? undefined,
+    defaultCurrency: row.default_currency,
+    defaultPaymentTerms: row.default_terms_type !== null && row.default_terms_days !== null
+      ? { type: row.default_terms_type, days: row.default_terms_days }
+      : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Transform database row to application Quote type
+ */
+function toQuote(row: QuoteRow, items: QuoteItemRow[] = [], client?: ClientRow): Quote {
+  return {
+    id: row.id,
+    quoteNumber: row.quote_number,
+    clientId: row.client_id || '',
+    client: client ? toClient(client) : undefined,
+    status: row.status,
+    currency: row.currency,
+    issueDate: row.issue_date,
+    expiryDate: row.expiry_date,
+    lineItems: items.map(toLineItem),
+    taxRate: { name: row.tax_name, rate: row.tax_rate },
+    discount: toDiscount(row.discount_type, row.discount_value),
+    rounding: { mode: row.rounding_mode, scope: row.rounding_scope },
+    subtotal: row.subtotal,
+    discountAmount: row.discount_amount,
+    tax: row.tax,
+    total: row.total,
+    notes: row.notes ?? undefined,
+    respondedAt: row.responded_at ?? undefined,
+    respondedBy: row.responded_by ?? undefined,
+    declineReason: row.decline_reason ?? undefined,
+    invoiceId: row.invoice_id ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Columns of the quote input, with its totals
+ */
+function toQuoteColumns(input: QuoteInput, currency: string, rounding: RoundingPolicy) {
+  const taxRate = input.taxRate ?? taxService.NO_TAX;
+
+  return {
+    client_id: input.clientId || null,
+    currency,
+    issue_date: input.issueDate,
+    expiry_date: input.expiryDate,
+    tax_name: taxRate.name,
+    tax_rate: taxRate.rate,
+    discount_type: input.discount?.type ?? null,
+    discount_value: input.discount?.value ?? null,
+    rounding_mode: rounding.mode,
+    rounding_scope: rounding.scope,
+    notes: input.notes ?? null,
+  };
+}
+
+/**
+ * Map line item inputs to the save_quote() and convert_quote() payload
+ * Amounts are left out; the database calculates them
+ */
+function toLineItemPayload(lineItems: LineItemInput[]) {
+  return lineItems.map(item => ({
+    description: item.description,
+    quantity: item.quantity,
+    rate: item.rate,
+    tax_name: item.taxRate?.name ?? null,
+    tax_rate: item.taxRate?.rate ?? null,
+    discount_type: item.discount?.type ?? null,
+    discount_value: item.discount?.value ?? null,
+  }));
+}
+
+/**
+ * Handle Supabase errors and return user-friendly messages
+ */
+function handleError(error: unknown): never {
+  console.error('Quote service error:', error);
+
+  if (isNetworkError(error)) {
+    throw new NetworkError();
+  }
+
+  if (error && typeof error === 'object' && 'code' in error) {
+    const pgError = error as { code: string; message: string };
+
+    if (pgError.code === '23505') {
+      throw new Error('A quote with this number already exists');
+    }
+    if (pgError.code === '23503') {
+      throw new Error('A quote that was converted into an invoice cannot be deleted');
+    }
+    if (pgError.code === 'PGRST116' || pgError.code === 'P0002') {
+      throw new Error('Quote not found');
+    }
+    // Raised by save_quote() and convert_quote() with a message meant for the user
+    if (pgError.code === 'P0001') {
+      throw new Error(pgError.message);
+    }
+  }
+
+  throw new Error('A database error occurred. Please try again.');
+}
+
+/**
+ * Get current authenticated user ID
+ */
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    throw new Error('You must be logged in to perform this action');
+  }
+
+  return user.id;
+}
+
+/**
+ * Get the default currency of a client
+ */
+async function getClientCurrency(clientId: string): Promise<string> {
+  if (!clientId) return currencyService.DEFAULT_CURRENCY;
+
+  const { data } = await supabase
+    .from('clients')
+    .select('default_currency')
+    .eq('id', clientId)
+    .single();
+
+  return data?.default_currency ?? currencyService.DEFAULT_CURRENCY;
+}
+
+/**
+ * Quote Service object
+ */
+export const quoteService = {
+  /**
+   * Get all quotes for the current user
+   * Sent quotes past their expiry date are marked expired first
+   */
+  async getAll(): Promise<Quote[]> {
+    try {
+      const userId = await getCurrentUserId();
+      await this.expireDue();
+
+      const { data: quotes, error } = await supabase
+        .from('quotes')
+        .select('*, clients(*)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        handleError(error);
+      }
+
+      if (!quotes || quotes.length === 0) {
+        return [];
+      }
+
+      const { data: items, error: itemsError } = await supabase
+        .from('quote_items')
+        .select('*')
+        .in('quote_id', quotes.map(quote => quote.id));
+
+      if (itemsError) {
+        handleError(itemsError);
+      }
+
+      return quotes.map(quote => toQuote(
+        quote as QuoteRow,
+        ((items || []) as QuoteItemRow[]).filter(item => item.quote_id === quote.id),
+        quote.clients as ClientRow | undefined
+      ));
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Get a single quote by ID
+   */
+  async getById(id: string): Promise<Quote | null> {
+    try {
+      const userId = await getCurrentUserId();
+
+      const { data: quote, error } = await supabase
+        .from('quotes')
+        .select('*, clients(*)')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null;
+        }
+        handleError(error);
+      }
+
+      if (!quote) {
+        return null;
+      }
+
+      const { data: items, error: itemsError } = await supabase
+        .from('quote_items')
+        .select('*')
+        .eq('quote_id', id);
+
+      if (itemsError) {
+        handleError(itemsError);
+      }
+
+      return toQuote(quote as QuoteRow, (items || []) as QuoteItemRow[], quote.clients as ClientRow | undefined);
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Create a new quote with its line items, as a draft or sent
+   * The quote and its line items are saved in one transaction, with the
+   * totals calculated by the database.
+   */
+  async create(input: QuoteInput): Promise<Quote> {
+    try {
+      await getCurrentUserId();
+
+      const validation = localQuotes.validate(input);
+      if (!validation.valid) {
+        throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+      }
+
+      const status = input.status || 'draft';
+      if (status !== 'draft' && status !== 'sent') {
+        throw new Error(`A quote cannot be created as "${localQuotes.QUOTE_STATUS_LABELS[status]}"`);
+      }
+
+      const currency = input.currency ?? await getClientCurrency(input.clientId);
+      const rounding = input.rounding ?? money.DEFAULT_ROUNDING;
+
+      const { data: quoteId, error } = await numberingService.insertWithNumber('quote', input.clientId, (quoteNumber) => supabase
+        .rpc('save_quote', {
+          p_quote_id: null,
+          p_quote: {
+            quote_number: quoteNumber,
+            status,
+            ...toQuoteColumns(input, currency, rounding),
+          },
+          p_line_items: toLineItemPayload(input.lineItems),
+        }));
+
+      if (error) {
+        handleError(error);
+      }
+
+      if (!quoteId) {
+        throw new Error('Failed to create quote');
+      }
+
+      return await this.getById(quoteId) as Quote;
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Update a quote that has not been answered yet
+   * The quote and its line items are replaced in one transaction.
+   */
+  async update(id: string, input: QuoteInput): Promise<Quote> {
+    try {
+      await getCurrentUserId();
+
+      const validation = localQuotes.validate(input);
+      if (!validation.valid) {
+        throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+      }
+
+      const existing = await this.getById(id);
+      if (!existing) {
+        throw new Error('Quote not found');
+      }
+      if (existing.status === 'accepted' || existing.status === 'declined') {
+        throw new Error(`A quote that was ${existing.status} cannot be edited`);
+      }
+
+      const status = input.status || existing.status;
+      localQuotes.assertTransition(existing.status, status);
+      if (localQuotes.isExpired({ status, expiryDate: input.expiryDate })) {
+        throw new Error('Choose an expiry date in the future to send this quote');
+      }
+
+      const currency = input.currency ?? existing.currency;
+      const rounding = input.rounding ?? existing.rounding;
+
+      const { error } = await supabase.rpc('save_quote', {
+        p_quote_id: id,
+        p_quote: {
+          status,
+          ...toQuoteColumns({ ...input, taxRate: input.taxRate ?? existing.taxRate }, currency, rounding),
+        },
+        p_line_items: toLineItemPayload(input.lineItems),
+      });
+
+      if (error) {
+        handleError(error);
+      }
+
+      return await this.getById(id) as Quote;
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Delete a quote and its line items
+   * Quotes converted into an invoice are kept as its origin
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      const userId = await getCurrentUserId();
+
+      // Line items are deleted automatically via CASCADE
+      const { error } = await supabase
+        .from('quotes')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (error) {
+        handleError(error);
+      }
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Change the status of a quote
+   */
+  async setStatus(id: string, status: QuoteStatus, changes: Partial<Pick<QuoteRow, 'responded_at' | 'responded_by' | 'decline_reason'>> = {}): Promise<Quote> {
+    try {
+      const userId = await getCurrentUserId();
+      const existing = await this.getById(id);
+      if (!existing) {
+        throw new Error('Quote not found');
+      }
+      localQuotes.assertTransition(existing.status, status);
+
+      const { error } = await supabase
+        .from('quotes')
+        .update({ status, ...changes, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (error) {
+        handleError(error);
+      }
+
+      return await this.getById(id) as Quote;
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Mark a draft quote as sent to the client
+   */
+  async markAsSent(id: string): Promise<Quote> {
+    const quote = await this.getById(id);
+    if (quote && localQuotes.isExpired({ status: 'sent', expiryDate: quote.expiryDate })) {
+      throw new Error('Choose an expiry date in the future to send this quote');
+    }
+    return this.setStatus(id, 'sent');
+  },
+
+  /**
+   * Record the client's answer to a sent quote
+   * A quote past its expiry date is marked expired and can no longer be answered
+   */
+  async respond(id: string, status: 'accepted' | 'declined', response: QuoteResponse): Promise<Quote> {
+    const quote = await this.getById(id);
+    if (!quote) {
+      throw new Error('Quote not found');
+    }
+
+    if (localQuotes.isExpired(quote)) {
+      await this.setStatus(id, 'expired');
+      throw new Error(`This quote expired on ${quote.expiryDate}`);
+    }
+
+    if (quote.status !== 'sent') {
+      throw new Error(`This quote has already been ${localQuotes.QUOTE_STATUS_LABELS[quote.status].toLowerCase()}`);
+    }
+
+    if (!response.name || response.name.trim() === '') {
+      throw new Error(`Validation failed: ${JSON.stringify({ name: 'Please enter your name' })}`);
+    }
+
+    return this.setStatus(id, status, {
+      responded_at: new Date().toISOString(),
+      responded_by: response.name.trim(),
+      decline_reason: status === 'declined' ? response.reason?.trim() || null : null,
+    });
+  },
+
+  /**
+   * Accept a sent quote
+   */
+  async accept(id: string, response: QuoteResponse): Promise<Quote> {
+    return this.respond(id, 'accepted', response);
+  },
+
+  /**
+   * Decline a sent quote, optionally with a reason
+   */
+  async decline(id: string, response: QuoteResponse): Promise<Quote> {
+    return this.respond(id, 'declined', response);
+  },
+
+  /**
+   * Mark the current user's sent quotes past their expiry date as expired
+   */
+  async expireDue(): Promise<void> {
+    try {
+      const userId = await getCurrentUserId();
+
+      const { error } = await supabase
+        .from('quotes')
+        .update({ status: 'expired', updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('status', 'sent')
+        .lt('expiry_date', dates.today());
+
+      if (error) {
+        handleError(error);
+      }
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Create a draft invoice from an accepted quote and link the two
+   * A sent quote the client agreed to outside the app is accepted on the user's behalf.
+   * The invoice is created and linked in one transaction; converting a quote
+   * that is already linked returns its invoice, so a retry creates no duplicate.
+   */
+  async convertToInvoice(id: string, change: StatusChangeInput = {}): Promise<Invoice> {
+    try {
+      await getCurrentUserId();
+      let quote = await this.getById(id);
+      if (!quote) {
+        throw new Error('Quote not found');
+      }
+      if (quote.invoiceId) {
+        const linked = await invoiceService.getById(quote.invoiceId);
+        if (!linked) {
+          throw new Error('Invoice not found');
+        }
+        return linked;
+      }
+
+      if (quote.status === 'sent') {
+        quote = await this.accept(id, { name: change.changedBy || 'user' });
+      } else if (quote.status !== 'accepted') {
+        throw new Error('Only accepted quotes can be converted into an invoice');
+      }
+
+      // The invoice is due on the client's default terms
+      const converted = quote;
+      const today = dates.today();
+      const paymentTerms = paymentTermsService.getClientTerms(converted.client);
+      const { data: invoiceId, error } = await numberingService.insertWithNumber('invoice', converted.clientId, (invoiceNumber) => supabase
+        .rpc('convert_quote', {
+          p_quote_id: converted.id,
+          p_invoice: {
+            client_id: converted.clientId || null,
+            invoice_number: invoiceNumber,
+            status: 'draft',
+            currency: converted.currency,
+            issue_date: today,
+            due_date: paymentTermsService.getDueDate(today, paymentTerms),
+            payment_terms_type: paymentTerms.type,
+            payment_terms_days: paymentTerms.days,
+            tax_name: converted.taxRate.name,
+            tax_rate: converted.taxRate.rate,
+            discount_type: converted.discount?.type ?? null,
+            discount_value: converted.discount?.value ?? null,
+            rounding_mode: converted.rounding.mode,
+            rounding_scope: converted.rounding.scope,
+            notes: converted.notes ?? null,
+          },
+          p_line_items: toLineItemPayload(converted.lineItems),
+          p_change: { changed_by: change.changedBy, reason: change.reason ?? `Converted from quote ${converted.quoteNumber}` },
+        }));
+
+      if (error) {
+        handleError(error);
+      }
+
+      if (!invoiceId) {
+        throw new Error('Failed to convert quote');
+      }
+
+      return await invoiceService.getById(invoiceId) as Invoice;
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Generate a unique quote number for the current user
+   * Quotes have their own sequence next to the invoice sequence
+   */
+  async generateQuoteNumber(clientId?: string): Promise<string> {
+    return numberingService.next('quote', clientId);
+  },
+};
+
+export default quoteService;
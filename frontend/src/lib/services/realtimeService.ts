@@ -0,0 +1,94 @@
+/**
+ * Realtime Service - row changes of the account from Supabase Realtime
+ *
+ * Listens to inserts, updates and deletes on clients, invoices and
+ * line_items and reads the rows as application records, as a change source
+ * for the live merge. Realtime applies RLS to what it sends; deletes carry
+ * no more than the row's ID, and cannot be filtered on the user.
+ *
+ * Changes missed while the channel was down are not sent again: when it is
+ * joined again, the caller is told to load the data again.
+ */
+
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { toClient } from './clientService';
+import { toInvoice, toLineItem } from './invoiceService';
+import type { Database, LiveChange, LiveTable } from '../database.types';
+
+type Tables = Database['public']['Tables'];
+type ClientRow = Tables['clients']['Row'];
+type InvoiceRow = Tables['invoices']['Row'];
+type LineItemRow = Tables['line_items']['Row'];
+type LiveRow = ClientRow | InvoiceRow | LineItemRow;
+
+const TABLES: LiveTable[] = ['clients', 'invoices', 'line_items'];
+
+/**
+ * Read a Realtime payload as a change
+ * Returns null for payloads without a row ID.
+ */
+function toChange(table: LiveTable, payload: RealtimePostgresChangesPayload<LiveRow>): LiveChange | null {
+  const type = payload.eventType;
+  const row = (type === 'DELETE' ? payload.old : payload.new) as Partial<LiveRow>;
+  if (!row?.id) return null;
+  if (type === 'DELETE') {
+    return { table, type, id: row.id, invoiceId: (row as Partial<LineItemRow>).invoice_id };
+  }
+
+  switch (table) {
+    case 'clients':
+      return { table, type, id: row.id, record: toClient(row as ClientRow) };
+    case 'invoices':
+      return { table, type, id: row.id, record: toInvoice(row as InvoiceRow) };
+    case 'line_items': {
+      const item = row as LineItemRow;
+      return { table, type, id: item.id, invoiceId: item.invoice_id, record: toLineItem(item) };
+    }
+  }
+}
+
+/**
+ * Realtime Service object
+ */
+export const realtimeService = {
+  /**
+   * Create a change source for the rows of a user
+   * onRejoin is called when the channel is joined again after it was down.
+   */
+  createSource(userId: string, onRejoin?: () => void) {
+    return {
+      subscribe(listener: (change: LiveChange) => void): () => void {
+        const channel = supabase.channel(`live:${userId}`);
+
+        for (const table of TABLES) {
+          const filter = table === 'line_items' ? undefined : `user_id=eq.${userId}`;
+          const handle = (payload: RealtimePostgresChangesPayload<LiveRow>) => {
+            const change = toChange(table, payload);
+            if (change) listener(change);
+          };
+          channel
+            .on<LiveRow>('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, handle)
+            .on<LiveRow>('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, handle)
+            .on<LiveRow>('postgres_changes', { event: 'DELETE', schema: 'public', table }, handle);
+        }
+
+        let joined = false;
+        channel.subscribe((status, error) => {
+          if (status === 'SUBSCRIBED') {
+            if (joined) onRejoin?.();
+            joined = true;
+          } else if (status === 'CHANNEL_ERROR') {
+            console.warn('Live updates are unavailable:', error);
+          }
+        });
+
+        return () => {
+          supabase.removeChannel(channel);
+        };
+      },
+    };
+  },
+};
+
+export default realtimeService;
@@ -0,0 +1,356 @@
+/**
+ * Recurring Service - Supabase recurring invoice profiles
+ *
+ * Profiles hold a template invoice and a schedule. The schedule, placeholders
+ * and validation are shared with the local services; this service stores the
+ * profiles and issues their invoices. invoices has a unique index on
+ * (recurring_profile_id, recurring_period), so a run is never issued twice,
+ * even when the generator runs in two tabs at once.
+ */
+
+import { supabase } from '../supabase';
+import { NetworkError, isNetworkError } from './networkError';
+import { recurringService as localRecurring } from '@backend/services/recurringService';
+import { dates } from '@backend/services/dates';
+import { invoiceService } from './invoiceService';
+import type { Invoice, RecurringFrequency, RecurringInterval, RecurringProfile, RecurringProfileInput, RecurringTemplate } from '../database.types';
+
+interface RecurringProfileRow {
+  id: string;
+  user_id: string;
+  client_id: string | null;
+  name: string;
+  template: RecurringTemplate;
+  frequency: RecurringFrequency;
+  interval_count: number | null;
+  interval_unit: RecurringInterval['unit'] | null;
+  start_date: string;
+  end_date: string | null;
+  max_runs: number | null;
+  auto_send: boolean;
+  active: boolean;
+  run_count: number;
+  last_run_date: string | null;
+  next_run_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Transform database row to application RecurringProfile type
+ */
+function toRecurringProfile(row: RecurringProfileRow): RecurringProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    template: row.template,
+    frequency: row.frequency,
+    interval: row.interval_count !== null && row.interval_unit !== null
+      ? { count: row.interval_count, unit: row.interval_unit }
+      : undefined,
+    startDate: row.start_date,
+    endDate: row.end_date ?? undefined,
+    maxRuns: row.max_runs ?? undefined,
+    autoSend: row.auto_send,
+    active: row.active,
+    runCount: row.run_count,
+    lastRunDate: row.last_run_date ?? undefined,
+    nextRunDate: row.next_run_date,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Columns of the profile input, with the next run date for a run count
+ */
+function toProfileColumns(input: RecurringProfileInput, runCount: number) {
+  const interval = input.frequency === 'custom' ? input.interval : undefined;
+
+  return {
+    client_id: input.template.clientId || null,
+    name: input.name.trim(),
+    template: input.template,
+    frequency: input.frequency,
+    interval_count: interval?.count ?? null,
+    interval_unit: interval?.unit ?? null,
+    start_date: input.startDate,
+    end_date: input.endDate || null,
+    max_runs: input.maxRuns ?? null,
+    next_run_date: localRecurring.getNextRunDate({
+      frequency: input.frequency,
+      interval,
+      startDate: input.startDate,
+      endDate: input.endDate || undefined,
+      maxRuns: input.maxRuns,
+      runCount,
+    }),
+  };
+}
+
+/**
+ * Handle Supabase errors and return user-friendly messages
+ */
+function handleError(error: unknown): never {
+  console.error('Recurring service error:', error);
+
+  if (isNetworkError(error)) {
+    throw new NetworkError();
+  }
+
+  if (error && typeof error === 'object' && 'code' in error) {
+    const pgError = error as { code: string; message: string };
+
+    if (pgError.code === '23503') {
+      throw new Error('Referenced client does not exist');
+    }
+    if (pgError.code === 'PGRST116') {
+      throw new Error('Recurring profile not found');
+    }
+  }
+
+  throw new Error('A database error occurred. Please try again.');
+}
+
+/**
+ * Get current authenticated user ID
+ */
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    throw new Error('You must be logged in to perform this action');
+  }
+
+  return user.id;
+}
+
+/**
+ * Check if the invoice of a run has already been issued
+ */
+async function isRunIssued(profileId: string, runDate: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('invoices')
+    .select('id', { count: 'exact', head: true })
+    .eq('recurring_profile_id', profileId)
+    .eq('recurring_period', runDate);
+
+  if (error) {
+    handleError(error);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Recurring Service object
+ */
+export const recurringService = {
+  /**
+   * Get all recurring profiles for the current user, by next run date
+   */
+  async getAll(): Promise<RecurringProfile[]> {
+    try {
+      await getCurrentUserId();
+
+      const { data, error } = await supabase
+        .from('recurring_profiles')
+        .select('*')
+        .order('next_run_date', { ascending: true, nullsFirst: false });
+
+      if (error) {
+        handleError(error);
+      }
+
+      return (data || []).map(row => toRecurringProfile(row as RecurringProfileRow));
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Create a new recurring profile
+   */
+  async create(input: RecurringProfileInput): Promise<RecurringProfile> {
+    try {
+      const userId = await getCurrentUserId();
+
+      const validation = localRecurring.validate(input);
+      if (!validation.valid) {
+        throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+      }
+
+      const { data, error } = await supabase
+        .from('recurring_profiles')
+        .insert({
+          user_id: userId,
+          ...toProfileColumns(input, 0),
+          auto_send: input.autoSend ?? false,
+          active: input.active ?? true,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        handleError(error);
+      }
+
+      return toRecurringProfile(data as RecurringProfileRow);
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Update a recurring profile
+   * Runs already issued are kept; the remaining runs follow the new schedule
+   */
+  async update(id: string, input: RecurringProfileInput): Promise<RecurringProfile> {
+    try {
+      await getCurrentUserId();
+
+      const validation = localRecurring.validate(input);
+      if (!validation.valid) {
+        throw new Error(`Validation failed: ${JSON.stringify(validation.errors)}`);
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('recurring_profiles')
+        .select('run_count')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) {
+        handleError(fetchError);
+      }
+
+      const { data, error } = await supabase
+        .from('recurring_profiles')
+        .update({
+          ...toProfileColumns(input, existing?.run_count ?? 0),
+          ...(input.autoSend !== undefined && { auto_send: input.autoSend }),
+          ...(input.active !== undefined && { active: input.active }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        handleError(error);
+      }
+
+      return toRecurringProfile(data as RecurringProfileRow);
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Pause or resume a recurring profile
+   * A resumed profile catches up on the runs missed while it was paused
+   */
+  async setActive(id: string, active: boolean): Promise<RecurringProfile> {
+    try {
+      await getCurrentUserId();
+
+      const { data, error } = await supabase
+        .from('recurring_profiles')
+        .update({ active, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        handleError(error);
+      }
+
+      return toRecurringProfile(data as RecurringProfileRow);
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Delete a recurring profile
+   * Invoices it issued are kept
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await getCurrentUserId();
+
+      const { error } = await supabase
+        .from('recurring_profiles')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        handleError(error);
+      }
+    } catch (error) {
+      if (error instanceof Error) throw error;
+      handleError(error);
+    }
+  },
+
+  /**
+   * Issue every run of the active profiles that is due today or earlier
+   * Safe to call on every start: runs that were already issued are skipped,
+   * and a profile that fails does not stop the others.
+   */
+  async generateDue(): Promise<Invoice[]> {
+    const profiles = (await this.getAll()).filter(profile => profile.active);
+    const today = dates.today();
+    const issued: Invoice[] = [];
+
+    for (const profile of profiles) {
+      try {
+        let current = profile;
+        let runDate = localRecurring.getNextRunDate(current);
+
+        while (runDate !== null && runDate <= today) {
+          if (!await isRunIssued(current.id, runDate)) {
+            try {
+              issued.push(await invoiceService.create(
+                localRecurring.getRunInvoiceInput(current, current.runCount),
+                localRecurring.getRunStatusChange(current)
+              ));
+            } catch (error) {
+              // Issued in the meantime by another tab
+              if (!await isRunIssued(current.id, runDate)) throw error;
+            }
+          }
+
+          current = { ...current, runCount: current.runCount + 1, lastRunDate: runDate };
+          current.nextRunDate = localRecurring.getNextRunDate(current);
+
+          const { error } = await supabase
+            .from('recurring_profiles')
+            .update({
+              run_count: current.runCount,
+              last_run_date: current.lastRunDate,
+              next_run_date: current.nextRunDate,
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', current.id);
+
+          if (error) {
+            handleError(error);
+          }
+
+          runDate = current.nextRunDate;
+        }
+      } catch (error) {
+        console.error(`Recurring profile "${profile.name}" failed:`, error);
+      }
+    }
+
+    return issued;
+  },
+};
+
+export default recurringService;
@@ -0,0 +1,179 @@
+/**
+ * Sync Service - offline changes to clients and invoices
+ *
+ * Changes made while Supabase cannot be reached are queued by the offline
+ * service and sent through the client and invoice services when the
+ * connection returns. Until then the app shows the records built here, with
+ * amounts calculated by the same rules the database uses.
+ */
+
+import { offlineService } from '@backend/services/offlineService';
+import { invoiceService as localInvoices } from '@backend/services/invoiceService';
+import { currencyService } from '@backend/services/currencyService';
+import { discountService } from '@backend/services/discountService';
+import { money } from '@backend/services/money';
+import { paymentTermsService } from '@backend/services/paymentTermsService';
+import { taxService } from '@backend/services/taxService';
+import { clientService } from './clientService';
+import { invoiceService } from './invoiceService';
+import { NetworkError } from './networkError';
+import { VersionConflictError } from './versionConflict';
+import type { Client, ClientInput, Invoice, InvoiceInput, OutboxEntry, OutboxReplayResult } from '../database.types';
+
+/**
+ * Shown instead of the number of an invoice created offline; the number is
+ * allocated when the invoice is synced
+ */
+const UNNUMBERED = 'Pending';
+
+/**
+ * A record as Supabase has it after a change was sent
+ */
+interface SentRecord {
+  id: string;
+  version?: string;
+}
+
+/**
+ * Check if an error means Supabase could not be reached
+ * Only a NetworkError does: the browser's online flag is not consulted, so a
+ * change the server rejected is reported instead of queued.
+ */
+function isOffline(error: unknown): boolean {
+  return error instanceof NetworkError;
+}
+
+/**
+ * The ID and version of a record after a change was sent
+ */
+function toSent(record: Client | Invoice): SentRecord {
+  return { id: record.id, version: record.updatedAt };
+}
+
+/**
+ * Send a queued change through the Supabase services
+ * Updates carry their base version unless they are forced. Creates carry
+ * the ID held by the temporary ID, so a create sent again, e.g. after its
+ * response was lost, returns the record instead of creating it twice.
+ */
+async function send(entry: OutboxEntry): Promise<SentRecord | void> {
+  const expectedVersion = entry.force ? undefined : entry.baseVersion;
+
+  switch (`${entry.entity}.${entry.operation}`) {
+    case 'client.create':
+      return toSent(await clientService.create(entry.args[0] as ClientInput, offlineService.getCreateId(entry.targetId)));
+    case 'client.update':
+      return toSent(await clientService.update(entry.targetId, entry.args[0] as ClientInput, expectedVersion));
+    case 'client.delete':
+      return clientService.delete(entry.targetId);
+    case 'invoice.create':
+      return toSent(await invoiceService.create(entry.args[0] as InvoiceInput, {}, offlineService.getCreateId(entry.targetId)));
+    case 'invoice.update':
+      return toSent(await invoiceService.update(entry.targetId, entry.args[0] as InvoiceInput, {}, expectedVersion));
+    case 'invoice.markAsPaid':
+      return toSent(await invoiceService.markAsPaid(entry.targetId));
+    case 'invoice.markAsSent':
+      return toSent(await invoiceService.markAsSent(entry.targetId));
+    case 'invoice.delete':
+      return invoiceService.delete(entry.targetId);
+    default:
+      throw new Error(`Unknown change: ${entry.entity} ${entry.operation}`);
+  }
+}
+
+const transport = {
+  send,
+  isNetworkError: isOffline,
+  getConflictVersion: (error: unknown) => (error instanceof VersionConflictError ? (error.latest as Client | Invoice).updatedAt : undefined),
+};
+
+/**
+ * Build a client as it is shown while its change waits to be synced
+ */
+function draftClient(id: string, input: ClientInput, existing?: Client): Client {
+  const now = new Date().toISOString();
+  return {
+    id,
+    name: input.name,
+    email: input.email,
+    company: input.company,
+    phone: input.phone,
+    address: input.address,
+    defaultCurrency: input.defaultCurrency ?? existing?.defaultCurrency ?? currencyService.DEFAULT_CURRENCY,
+    defaultPaymentTerms: input.defaultPaymentTerms,
+    createdAt: existing?.createdAt ?? now,
+    // The version the change is based on
+    updatedAt: existing?.updatedAt ?? now,
+  };
+}
+
+/**
+ * Build an invoice as it is shown while its change waits to be synced
+ * Payments and credits of an existing invoice are kept against the new total.
+ */
+function draftInvoice(id: string, input: InvoiceInput, clients: Client[], existing?: Invoice): Invoice {
+  const client = clients.find(c => c.id === input.clientId);
+  const currency = input.currency ?? existing?.currency ?? client?.defaultCurrency ?? currencyService.DEFAULT_CURRENCY;
+  const rounding = input.rounding ?? existing?.rounding ?? money.DEFAULT_ROUNDING;
+  const taxRate = input.taxRate ?? existing?.taxRate ?? taxService.NO_TAX;
+  const totals = localInvoices.calculateTotals(input.lineItems, taxRate, input.discount, { currency, rounding });
+  const amountPaid = existing?.amountPaid ?? 0;
+  const creditedAmount = existing?.creditedAmount ?? 0;
+  const now = new Date().toISOString();
+
+  return {
+    id,
+    clientId: input.clientId,
+    client,
+    invoiceNumber: existing?.invoiceNumber ?? UNNUMBERED,
+    status: input.status ?? existing?.status ?? 'draft',
+    currency,
+    issueDate: input.issueDate,
+    dueDate: paymentTermsService.resolveDueDate(input.issueDate, input.dueDate, input.paymentTerms),
+    paymentTerms: input.paymentTerms,
+    lineItems: input.lineItems.map((item, index) => ({
+      id: existing?.lineItems[index]?.id ?? `${id}_item_${index}`,
+      description: item.description,
+      quantity: item.quantity,
+      rate: item.rate,
+      amount: discountService.getLineAmount(item, currency, rounding.mode),
+      taxRate: item.taxRate,
+      discount: item.discount,
+    })),
+    taxRate,
+    discount: input.discount,
+    rounding,
+    subtotal: totals.subtotal,
+    discountAmount: totals.discountAmount,
+    tax: totals.tax,
+    total: totals.total,
+    amountPaid,
+    creditedAmount,
+    balanceDue: money.fromMinor(Math.max(money.toMinor(totals.total, currency) - money.toMinor(amountPaid + creditedAmount, currency), 0), currency),
+    notes: input.notes,
+    statusHistory: existing?.statusHistory ?? [],
+    recurringProfileId: existing?.recurringProfileId,
+    recurringPeriod: existing?.recurringPeriod,
+    quoteId: existing?.quoteId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: existing?.updatedAt ?? now,
+  };
+}
+
+/**
+ * Sync Service object
+ */
+export const syncService = {
+  isOffline,
+  draftClient,
+  draftInvoice,
+
+  /**
+   * Send the changes a user queued while offline
+   */
+  replay(userId: string): Promise<OutboxReplayResult> {
+    return offlineService.replay(userId, transport);
+  },
+};
+
+export default syncService;
@@ -0,0 +1,36 @@
+/**
+ * Version conflicts - optimistic concurrency for Supabase rows
+ *
+ * The updated_at of an invoice or client row is its version. Updates can
+ * carry the version they were based on; when the row has changed since,
+ * nothing is written and a VersionConflictError with the latest version is
+ * thrown instead, so the user can reload it or save their changes anyway.
+ */
+
+export type VersionedEntity = 'invoice' | 'client';
+
+/**
+ * Thrown when a row changed after the version an update was based on
+ */
+export class VersionConflictError<T = unknown> extends Error {
+  readonly entity: VersionedEntity;
+  readonly id: string;
+  readonly latest: T;
+
+  constructor(entity: VersionedEntity, id: string, latest: T) {
+    super(`This ${entity} was changed by someone else since you opened it.`);
+    this.name = 'VersionConflictError';
+    this.entity = entity;
+    this.id = id;
+    this.latest = latest;
+  }
+}
+
+/**
+ * Check if a database error is a rejected version
+ * save_invoice() raises serialization_failure for a stale version
+ */
+export function isVersionConflict(error: unknown): boolean {
+  if (!error || typeof error !== 'object' || !('code' in error)) return false;
+  return (error as { code: string }).code === '40001';
+}
@@ -20,6 +20,12 @@ import {
     RefreshCw,
 } from 'lucide-react';
 import { useApp } from '../context/AppContext';
+import SyncBadge from '../components/SyncBadge';
+import { invoiceService } from '../lib/services/invoiceService';
+import { syncService } from '../lib/services/syncService';
+import { currencyService } from '@backend/services/currencyService';
+import { paymentTermsService } from '@backend/services/paymentTermsService';
+import ConflictDialog from '../components/ConflictDialog';
 import type { Client, ClientInput } from '../lib/database.types';
 
 // Loading spinner component
@@ -59,7 +65,7 @@ const ErrorDisplay = ({ message, onRetry }: { message: string; onRetry: () => vo
 );
 
 export default function Clients() {
-    const { clients, invoices, addClient, updateClient, deleteClient, isLoading, error, refreshData, clearError } = useApp();
+    const { clients, invoices, addClient, updateClient, deleteClient, isLoading, error, refreshData, clearError, syncStatus } = useApp();
     const [searchQuery, setSearchQuery] = useState('');
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [editingClient, setEditingClient] = useState<Client | null>(null);
@@ -67,6 +73,8 @@ export default function Clients() {
     const [deleteConfirmClient, setDeleteConfirmClient] = useState<Client | null>(null);
     const [clientHasInvoices, setClientHasInvoices] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    // Latest version of the client being edited, when someone else saved it first
+    const [conflictClient, setConflictClient] = useState<Client | null>(null);
     
     // Form state
     const [formData, setFormData] = useState<ClientInput>({
@@ -75,6 +83,7 @@ export default function Clients() {
         company: '',
         phone: '',
         address: '',
+        defaultCurrency: currencyService.DEFAULT_CURRENCY,
     });
     const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
@@ -89,14 +98,19 @@ export default function Clients() {
         );
     });
 
-    // Check if client has invoices
-    const checkClientHasInvoices = (clientId: string): boolean => {
-        return invoices.some(inv => inv.clientId === clientId);
+    // Check if client has invoices; while offline only the invoices already loaded are known
+    const checkClientHasInvoices = async (clientId: string): Promise<boolean> => {
+        try {
+            return await invoiceService.hasClientInvoices(clientId);
+        } catch (err) {
+            if (!syncService.isOffline(err)) console.error('Failed to check for invoices:', err);
+            return invoices.some(inv => inv.clientId === clientId);
+        }
     };
 
     // Reset form to initial state
     const resetForm = () => {
-        setFormData({ name: '', email: '', company: '', phone: '', address: '' });
+        setFormData({ name: '', email: '', company: '', phone: '', address: '', defaultCurrency: currencyService.DEFAULT_CURRENCY });
         setFormErrors({});
     };
 
@@ -108,6 +122,8 @@ export default function Clients() {
         setFormData({
             name: client.name, email: client.email, company: client.company || '',
             phone: client.phone || '', address: client.address || '',
+            defaultCurrency: client.defaultCurrency,
+            defaultPaymentTerms: client.defaultPaymentTerms,
         });
         setFormErrors({});
         setEditingClient(client);
@@ -138,20 +154,34 @@ export default function Clients() {
         
         if (Object.keys(errors).length > 0) { setFormErrors(errors); setIsSaving(false); return; }
         
+        await saveClient();
+    };
+
+    // Save the form; updates are based on the version the form was opened with unless forced
+    const saveClient = async (force = false) => {
+        setIsSaving(true);
         try {
             const result = editingClient 
-                ? await updateClient(editingClient.id, formData)
+                ? await updateClient(editingClient.id, formData, force ? undefined : editingClient.updatedAt)
                 : await addClient(formData);
+            setConflictClient(result.conflict ?? null);
             if (result.valid) closeModal();
-            else setFormErrors(result.errors);
+            else if (!result.conflict) setFormErrors(result.errors);
         } finally { setIsSaving(false); }
     };
 
+    // Reopen the form with the version saved by someone else
+    const reloadConflictClient = () => {
+        if (conflictClient) openEditModal(conflictClient);
+        setConflictClient(null);
+    };
+
     // Handle delete
-    const handleDeleteClick = (client: Client) => {
+    const handleDeleteClick = async (client: Client) => {
         setActiveMenu(null);
-        setClientHasInvoices(checkClientHasInvoices(client.id));
+        setClientHasInvoices(false);
         setDeleteConfirmClient(client);
+        setClientHasInvoices(await checkClientHasInvoices(client.id));
     };
 
     const confirmDelete = async () => {
@@ -210,6 +240,7 @@ export default function Clients() {
                             <div className="flex h-12 w-12 items-center justify-center rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 text-base font-semibold text-white">{client.name.split(' ').map((n) => n[0]).join('')}</div>
                             <div className="min-w-0 flex-1">
                                 <h3 className="truncate font-semibold text-slate-900 dark:text-white">{client.name}</h3>
+                                <SyncBadge status={syncStatus[client.id]} />
                                 {client.company && <p className="truncate text-sm text-slate-500 dark:text-slate-400">{client.company}</p>}
                             </div>
                         </div>
@@ -322,6 +353,37 @@ export default function Clients() {
                                     </div>
                                 </div>
                                 
+                                {/* Default currency */}
+                                <div>
+                                    <label className="mb-2 block text-sm font-medium text-slate-700 dark:text-slate-300">Default Currency</label>
+                                    <select
+                                        value={formData.defaultCurrency}
+                                        onChange={(e) => handleInputChange('defaultCurrency', e.target.value)}
+                                        className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white"
+                                        disabled={isSaving}
+                                    >
+                                        {[...new Set([...currencyService.SUPPORTED_CURRENCIES, formData.defaultCurrency ?? currencyService.DEFAULT_CURRENCY])].map((code) => (
+                                            <option key={code} value={code}>{code} ({currencyService.getSymbol(code)})</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {/* Default payment terms */}
+                                <div>
+                                    <label className="mb-2 block text-sm font-medium text-slate-700 dark:text-slate-300">Default Payment Terms</label>
+                                    <select
+                                        value={formData.defaultPaymentTerms ? JSON.stringify(formData.defaultPaymentTerms) : ''}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, defaultPaymentTerms: e.target.value ? JSON.parse(e.target.value) : undefined }))}
+                                        className="w-full rounded-xl border border-slate-300 bg-white px-4 py-3 text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white"
+                                        disabled={isSaving}
+                                    >
+                                        <option value="">Default ({paymentTermsService.formatTerms(paymentTermsService.DEFAULT_PAYMENT_TERMS)})</option>
+                                        {paymentTermsService.PAYMENT_TERMS_PRESETS.map((terms) => (
+                                            <option key={JSON.stringify(terms)} value={JSON.stringify(terms)}>{paymentTermsService.formatTerms(terms)}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                
                                 {/* Address - Full width */}
                                 <div className="sm:col-span-2">
                                     <label className="mb-2 block text-sm font-medium text-slate-700 dark:text-slate-300">Address</label>
@@ -400,6 +462,17 @@ export default function Clients() {
                     </div>
                 </>
             )}
+
+            {conflictClient && (
+                <ConflictDialog
+                    subject={`client ${conflictClient.name}`}
+                    changedAt={conflictClient.updatedAt}
+                    isSaving={isSaving}
+                    onReload={reloadConflictClient}
+                    onForce={() => saveClient(true)}
+                    onCancel={() => setConflictClient(null)}
+                />
+            )}
         </div>
     );
 }
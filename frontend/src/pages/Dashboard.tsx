@@ -2,8 +2,12 @@
  * Dashboard Page
  * 
  * Requirements: 8.1, 8.2 - Loading and error states
+ *
+ * The metrics are summed on the server, and only the latest invoices are
+ * loaded.
  */
 
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import {
     DollarSign,
@@ -17,18 +21,26 @@ import {
     RefreshCw,
 } from 'lucide-react';
 import { useApp } from '../context/AppContext';
+import { invoiceService } from '../lib/services/invoiceService';
+import { syncService } from '../lib/services/syncService';
+import { invoiceQuery } from '@backend/services/invoiceQuery';
+import type { Invoice, InvoiceQuery } from '../lib/database.types';
+
+const RECENT_INVOICES: InvoiceQuery = { ...invoiceQuery.DEFAULT_QUERY, pageSize: 5 };
 
 // Format currency
-const formatCurrency = (amount: number) =>
-    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+const formatCurrency = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
 
 // Status badge component
 const StatusBadge = ({ status }: { status: string }) => {
     const styles = {
         paid: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-950 dark:text-emerald-400',
         sent: 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-400',
+        partially_paid: 'bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-400',
         overdue: 'bg-rose-100 text-rose-700 dark:bg-rose-950 dark:text-rose-400',
         draft: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400',
+        void: 'bg-slate-100 text-slate-500 line-through dark:bg-slate-800 dark:text-slate-500',
     };
 
     return (
@@ -36,7 +48,7 @@ const StatusBadge = ({ status }: { status: string }) => {
             className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium capitalize ${styles[status as keyof typeof styles]
                 }`}
         >
-            {status}
+            {status.replace('_', ' ')}
         </span>
     );
 };
@@ -78,12 +90,37 @@ const ErrorDisplay = ({ message, onRetry }: { message: string; onRetry: () => vo
 );
 
 export default function Dashboard() {
-    const { clients, invoices, metrics, isLoading, error, refreshData, clearError } = useApp();
+    const { clients, invoices, metrics, isLoading, isOffline, error, refreshData, clearError, subscribeToInvoiceChanges } = useApp();
+    const [recentInvoices, setRecentInvoices] = useState<Invoice[]>([]);
+    const [revision, setRevision] = useState(0);
     
-    // Get recent items sorted by createdAt descending
-    const recentInvoices = [...invoices]
-        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-        .slice(0, 5);
+    // Amounts in currencies other than the primary one are listed separately, never summed
+    const otherCurrencies = metrics.amountsByCurrency.filter((a) => a.currency !== metrics.currency);
+
+    // The latest invoices by issue date, loaded again when invoices change;
+    // while offline they are taken from the invoices already loaded
+    useEffect(() => subscribeToInvoiceChanges(() => setRevision(prev => prev + 1)), [subscribeToInvoiceChanges]);
+    useEffect(() => {
+        if (isLoading) return;
+        let cancelled = false;
+
+        const load = isOffline
+            ? Promise.resolve(invoiceQuery.paginate(invoices, RECENT_INVOICES))
+            : invoiceService.list(RECENT_INVOICES).catch(err => {
+                if (syncService.isOffline(err)) return invoiceQuery.paginate(invoices, RECENT_INVOICES);
+                throw err;
+            });
+        load
+            .then(page => {
+                if (!cancelled) setRecentInvoices(page.items);
+            })
+            .catch(err => console.error('Failed to load recent invoices:', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [revision, isOffline, isLoading]);
+    
+    // Get recent clients sorted by createdAt descending
     const recentClients = [...clients]
         .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
         .slice(0, 4);
@@ -127,8 +164,18 @@ export default function Dashboard() {
                         <div>
                             <p className="text-sm font-medium text-slate-500 dark:text-slate-400">Total Revenue</p>
                             <p className="text-xl font-bold text-slate-900 dark:text-white font-mono">
-                                {formatCurrency(metrics.totalRevenue)}
+                                {formatCurrency(metrics.totalRevenue, metrics.currency)}
                             </p>
+                            {otherCurrencies.filter((a) => a.totalRevenue > 0).map((a) => (
+                                <p key={a.currency} className="text-sm font-medium text-slate-500 dark:text-slate-400 font-mono">
+                                    + {formatCurrency(a.totalRevenue, a.currency)}
+                                </p>
+                            ))}
+                            {metrics.creditAdjustment < 0 && (
+                                <p className="text-xs text-rose-600 dark:text-rose-400 font-mono">
+                                    {formatCurrency(metrics.creditAdjustment, metrics.currency)} credited back
+                                </p>
+                            )}
                         </div>
                     </div>
                     <div className="mt-3 flex items-center gap-1 text-xs text-emerald-600 dark:text-emerald-400">
@@ -146,8 +193,13 @@ export default function Dashboard() {
                         <div>
                             <p className="text-sm font-medium text-slate-500 dark:text-slate-400">Pending</p>
                             <p className="text-xl font-bold text-slate-900 dark:text-white font-mono">
-                                {formatCurrency(metrics.pendingAmount)}
+                                {formatCurrency(metrics.pendingAmount, metrics.currency)}
                             </p>
+                            {otherCurrencies.filter((a) => a.pendingAmount > 0).map((a) => (
+                                <p key={a.currency} className="text-sm font-medium text-slate-500 dark:text-slate-400 font-mono">
+                                    + {formatCurrency(a.pendingAmount, a.currency)}
+                                </p>
+                            ))}
                         </div>
                     </div>
                     <div className="mt-3 text-xs text-slate-500 dark:text-slate-400">
@@ -164,8 +216,13 @@ export default function Dashboard() {
                         <div>
                             <p className="text-sm font-medium text-slate-500 dark:text-slate-400">Overdue</p>
                             <p className="text-xl font-bold text-slate-900 dark:text-white font-mono">
-                                {formatCurrency(metrics.overdueAmount)}
+                                {formatCurrency(metrics.overdueAmount, metrics.currency)}
                             </p>
+                            {otherCurrencies.filter((a) => a.overdueAmount > 0).map((a) => (
+                                <p key={a.currency} className="text-sm font-medium text-slate-500 dark:text-slate-400 font-mono">
+                                    + {formatCurrency(a.overdueAmount, a.currency)}
+                                </p>
+                            ))}
                         </div>
                     </div>
                     <div className="mt-3 text-xs text-rose-600 dark:text-rose-400">
@@ -246,7 +303,7 @@ export default function Dashboard() {
                                     </div>
                                     <div className="ml-4 flex flex-col items-end gap-1">
                                         <span className="font-mono text-sm font-medium text-slate-900 dark:text-white">
-                                            {formatCurrency(invoice.total)}
+                                            {formatCurrency(invoice.total, invoice.currency)}
                                         </span>
                                         <StatusBadge status={invoice.status} />
                                     </div>
@@ -2,9 +2,12 @@
  * Invoice Editor Page
  * 
  * Requirements: 8.1, 8.2 - Loading and error states
+ * Also edits quotes, which share the client, line items and totals of an invoice
+ * An invoice is loaded with its line items when it is opened, and the form
+ * is filled in once it has been.
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import {
     ArrowLeft,
@@ -19,48 +22,331 @@ import {
     CheckCircle,
     Link as LinkIcon,
     Check,
+    Download,
+    Ban,
+    Repeat,
+    FileText,
 } from 'lucide-react';
 import { useApp } from '../context/AppContext';
-import type { LineItem, InvoiceInput, InvoiceStatus } from '../lib/database.types';
+import { taxService } from '@backend/services/taxService';
+import { currencyService } from '@backend/services/currencyService';
+import { discountService } from '@backend/services/discountService';
+import { paymentTermsService } from '@backend/services/paymentTermsService';
+import { invoiceService as localInvoices } from '@backend/services/invoiceService';
+import { money } from '@backend/services/money';
+import { paymentService as localPayments } from '@backend/services/paymentService';
+import { creditNoteService as localCreditNotes } from '@backend/services/creditNoteService';
+import { downloadCreditNotePDF } from '@backend/services/pdfService';
+import { invoiceStatusService as localStatus } from '@backend/services/invoiceStatusService';
+import StatusHistory from '../components/StatusHistory';
+import ConflictDialog from '../components/ConflictDialog';
+import type { LineItem, LineItemInput, Invoice, InvoiceInput, InvoiceStatus, PaymentTerms, Quote, QuoteInput, QuoteStatus, TaxRate, Discount, RoundingPolicy, Payment, PaymentMethod, CreditNote } from '../lib/database.types';
 
-const formatCurrency = (amount: number) =>
-    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+const formatCurrency = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
 
-export default function InvoiceEditor() {
+const taxRateKey = (taxRate: TaxRate) => `${taxRate.name}|${taxRate.rate}`;
+
+const ROUNDING_OPTIONS: { label: string; rounding: RoundingPolicy }[] = [
+    { label: 'Half up, per invoice', rounding: { mode: 'half-up', scope: 'invoice' } },
+    { label: 'Half up, per line', rounding: { mode: 'half-up', scope: 'line' } },
+    { label: "Banker's, per invoice", rounding: { mode: 'half-even', scope: 'invoice' } },
+    { label: "Banker's, per line", rounding: { mode: 'half-even', scope: 'line' } },
+];
+
+const roundingKey = (rounding: RoundingPolicy) => `${rounding.mode}|${rounding.scope}`;
+
+// Tax rate picker; rates not in the presets (custom or legacy) are listed as extra options
+const TaxRateSelect = ({ value, extraRates = [], inheritLabel, onChange, className }: {
+    value?: TaxRate;
+    extraRates?: TaxRate[];
+    inheritLabel?: string;
+    onChange: (taxRate: TaxRate | undefined) => void;
+    className: string;
+}) => {
+    const options = [...taxService.TAX_RATE_PRESETS];
+    for (const rate of [...extraRates, ...(value ? [value] : [])]) {
+        if (!options.some((o) => taxService.isSameTaxRate(o, rate))) options.push(rate);
+    }
+    return (
+        <select value={value ? taxRateKey(value) : ''} onChange={(e) => onChange(options.find((o) => taxRateKey(o) === e.target.value))} className={className}>
+            {inheritLabel && <option value="">{inheritLabel}</option>}
+            {options.map((o) => <option key={taxRateKey(o)} value={taxRateKey(o)}>{taxService.formatTaxRateLabel(o)}</option>)}
+        </select>
+    );
+};
+
+// Discount amount with a percent / fixed amount toggle
+const DiscountInput = ({ value, currency, onChange, className }: {
+    value?: Discount;
+    currency: string;
+    onChange: (discount: Discount) => void;
+    className: string;
+}) => {
+    const type = value?.type ?? 'percentage';
+    return (
+        <div className="flex">
+            <input type="number" min="0" step="0.01" value={value?.value ?? ''} placeholder="0" onChange={(e) => onChange({ type, value: parseFloat(e.target.value) || 0 })} className={`${className} min-w-0 flex-1 rounded-r-none text-right font-mono`} />
+            <select value={type} onChange={(e) => onChange({ type: e.target.value as Discount['type'], value: value?.value ?? 0 })} className={`${className} w-14 rounded-l-none border-l-0 px-1`}>
+                <option value="percentage">%</option>
+                <option value="fixed">{currencyService.getSymbol(currency)}</option>
+            </select>
+        </div>
+    );
+};
+
+// Drop discounts that have no effect so they are not stored
+const effectiveDiscount = (discount?: Discount) => (discountService.hasDiscount(discount) ? discount : undefined);
+
+// Payments recorded against a saved invoice, with a form to record another
+const PaymentsPanel = ({ invoice }: { invoice: Invoice }) => {
+    const { getInvoicePayments, recordPayment, deletePayment, refundPayment } = useApp();
+    const [payments, setPayments] = useState<Payment[]>([]);
+    const [amount, setAmount] = useState(invoice.balanceDue);
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+    const [reference, setReference] = useState('');
+    const [error, setError] = useState('');
+    const [isRecording, setIsRecording] = useState(false);
+
+    useEffect(() => {
+        getInvoicePayments(invoice.id).then(setPayments);
+    }, [getInvoicePayments, invoice.id, invoice.amountPaid]);
+
+    useEffect(() => {
+        setAmount(invoice.balanceDue);
+    }, [invoice.balanceDue]);
+
+    const handleRecord = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsRecording(true);
+        setError('');
+        try {
+            const result = await recordPayment(invoice.id, { amount, date, method, reference: reference || undefined });
+            if (result.valid) {
+                setReference('');
+            } else {
+                setError(Object.values(result.errors)[0]);
+            }
+        } finally {
+            setIsRecording(false);
+        }
+    };
+
+    return (
+        <div className="mt-6 rounded-xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <div className="flex items-center justify-between border-b border-slate-200 px-6 py-4 dark:border-slate-800">
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Payments</h2>
+                <div className="text-right text-sm"><span className="text-slate-500 dark:text-slate-400">Balance due </span><span className="font-mono font-semibold text-slate-900 dark:text-white">{formatCurrency(invoice.balanceDue, invoice.currency)}</span></div>
+            </div>
+            {payments.length > 0 ? (
+                <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                    {payments.map((payment) => (
+                        <li key={payment.id} className="flex items-center justify-between gap-4 px-6 py-3 text-sm">
+                            <div>
+                                <p className="font-medium text-slate-900 dark:text-white">{localPayments.PAYMENT_METHODS[payment.method]}{payment.reference && <span className="ml-2 text-slate-500 dark:text-slate-400">{payment.reference}</span>}</p>
+                                <p className="text-xs text-slate-500 dark:text-slate-400">{new Date(payment.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <span className="font-mono font-medium text-emerald-600 dark:text-emerald-400">{formatCurrency(payment.amount, invoice.currency)}</span>
+                                {payment.method === 'card' && payment.reference ? (
+                                    <button type="button" onClick={() => refundPayment(payment)} className="rounded px-2 py-1 text-xs font-medium text-slate-500 hover:bg-rose-50 hover:text-rose-500 dark:text-slate-400 dark:hover:bg-rose-950">Refund</button>
+                                ) : (
+                                    <button type="button" onClick={() => deletePayment(payment.id, invoice.id)} className="rounded p-1 text-slate-400 hover:bg-rose-50 hover:text-rose-500 dark:hover:bg-rose-950"><Trash2 className="h-4 w-4" /></button>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">No payments recorded yet.</p>
+            )}
+            {invoice.balanceDue > 0 && invoice.status !== 'draft' && (
+                <form onSubmit={handleRecord} className="border-t border-slate-200 px-6 py-4 dark:border-slate-800">
+                    <div className="grid gap-3 sm:grid-cols-4">
+                        <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Amount</label><input type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(parseFloat(e.target.value) || 0)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-right text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white font-mono" /></div>
+                        <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Date</label><input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white" /></div>
+                        <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Method</label><select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white">{(Object.keys(localPayments.PAYMENT_METHODS) as PaymentMethod[]).map((m) => <option key={m} value={m}>{localPayments.PAYMENT_METHODS[m]}</option>)}</select></div>
+                        <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Reference</label><input type="text" value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Optional" className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white" /></div>
+                    </div>
+                    {error && <p className="mt-2 flex items-center gap-1 text-sm text-red-500"><AlertCircle className="h-4 w-4" />{error}</p>}
+                    <button type="submit" disabled={isRecording} className="mt-3 inline-flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-700 disabled:opacity-50 dark:text-indigo-400 dark:hover:text-indigo-300"><Plus className="h-4 w-4" />{isRecording ? 'Recording...' : 'Record Payment'}</button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+// Credit notes issued against a saved invoice, with a form to issue another
+// Lines start as a copy of the invoice lines; remove or reduce them to credit part of it
+const CreditNotesPanel = ({ invoice }: { invoice: Invoice }) => {
+    const { getInvoiceCreditNotes, issueCreditNote } = useApp();
+    const toCreditLines = (): LineItemInput[] => invoice.lineItems.map(({ description, quantity, rate, taxRate, discount }) => ({ description, quantity, rate, taxRate, discount }));
+    const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+    const [isOpen, setIsOpen] = useState(false);
+    const [reason, setReason] = useState('');
+    const [issueDate, setIssueDate] = useState(new Date().toISOString().split('T')[0]);
+    const [lineItems, setLineItems] = useState<LineItemInput[]>(toCreditLines);
+    const [error, setError] = useState('');
+    const [isIssuing, setIsIssuing] = useState(false);
+
+    useEffect(() => {
+        getInvoiceCreditNotes(invoice.id).then(setCreditNotes);
+    }, [getInvoiceCreditNotes, invoice.id, invoice.creditedAmount]);
+
+    const creditable = localCreditNotes.getCreditableAmount(invoice);
+    const creditTotal = lineItems.length > 0 ? -localCreditNotes.calculate({ lineItems }, invoice).total : 0;
+
+    const updateLine = (index: number, field: 'quantity' | 'rate', value: number) => {
+        setLineItems((prev) => prev.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+    };
+
+    const handleIssue = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsIssuing(true);
+        setError('');
+        try {
+            const result = await issueCreditNote(invoice.id, { issueDate, reason, lineItems });
+            if (result.valid) {
+                setIsOpen(false);
+                setReason('');
+                setLineItems(toCreditLines());
+            } else {
+                setError(Object.values(result.errors)[0]);
+            }
+        } finally {
+            setIsIssuing(false);
+        }
+    };
+
+    return (
+        <div className="mt-6 rounded-xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <div className="flex items-center justify-between border-b border-slate-200 px-6 py-4 dark:border-slate-800">
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Credit Notes</h2>
+                <div className="text-right text-sm"><span className="text-slate-500 dark:text-slate-400">Credited </span><span className="font-mono font-semibold text-rose-600 dark:text-rose-400">{formatCurrency(invoice.creditedAmount, invoice.currency)}</span></div>
+            </div>
+            {creditNotes.length > 0 ? (
+                <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                    {creditNotes.map((creditNote) => (
+                        <li key={creditNote.id} className="flex items-center justify-between gap-4 px-6 py-3 text-sm">
+                            <div>
+                                <p className="font-medium text-slate-900 dark:text-white">{creditNote.creditNoteNumber}<span className="ml-2 text-slate-500 dark:text-slate-400">{creditNote.reason}</span></p>
+                                <p className="text-xs text-slate-500 dark:text-slate-400">{new Date(creditNote.issueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <span className="font-mono font-medium text-rose-600 dark:text-rose-400">{formatCurrency(creditNote.total, invoice.currency)}</span>
+                                {invoice.client && (
+                                    <button type="button" onClick={() => downloadCreditNotePDF({ ...creditNote, client: creditNote.client ?? invoice.client! })} className="rounded p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-600 dark:hover:bg-slate-800"><Download className="h-4 w-4" /></button>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">No credit notes issued.</p>
+            )}
+            {creditable > 0 && (isOpen ? (
+                <form onSubmit={handleIssue} className="space-y-3 border-t border-slate-200 px-6 py-4 dark:border-slate-800">
+                    <div className="grid gap-3 sm:grid-cols-3">
+                        <div className="sm:col-span-2"><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Reason</label><input type="text" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Returned goods, billing error" className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white" /></div>
+                        <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Date</label><input type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white" /></div>
+                    </div>
+                    <div className="space-y-2">
+                        {lineItems.map((item, index) => (
+                            <div key={index} className="flex items-center gap-3 text-sm">
+                                <span className="min-w-0 flex-1 truncate text-slate-700 dark:text-slate-300">{item.description}</span>
+                                <input type="number" min="0" step="1" value={item.quantity} onChange={(e) => updateLine(index, 'quantity', parseFloat(e.target.value) || 0)} className="w-20 rounded-lg border border-slate-300 bg-white px-2 py-1 text-right text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white font-mono" />
+                                <input type="number" min="0" step="0.01" value={item.rate} onChange={(e) => updateLine(index, 'rate', parseFloat(e.target.value) || 0)} className="w-28 rounded-lg border border-slate-300 bg-white px-2 py-1 text-right text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white font-mono" />
+                                <button type="button" onClick={() => setLineItems((prev) => prev.filter((_, i) => i !== index))} className="rounded p-1 text-slate-400 hover:bg-rose-50 hover:text-rose-500 dark:hover:bg-rose-950"><Trash2 className="h-4 w-4" /></button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex items-center justify-between text-sm"><span className="text-slate-500 dark:text-slate-400">Left to credit {formatCurrency(creditable, invoice.currency)}</span><span className="font-mono font-semibold text-rose-600 dark:text-rose-400">-{formatCurrency(creditTotal, invoice.currency)}</span></div>
+                    {error && <p className="flex items-center gap-1 text-sm text-red-500"><AlertCircle className="h-4 w-4" />{error}</p>}
+                    <div className="flex items-center gap-4">
+                        <button type="submit" disabled={isIssuing} className="inline-flex items-center gap-2 text-sm font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50 dark:text-rose-400 dark:hover:text-rose-300"><Check className="h-4 w-4" />{isIssuing ? 'Issuing...' : 'Issue Credit Note'}</button>
+                        <button type="button" onClick={() => setIsOpen(false)} className="text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200">Cancel</button>
+                    </div>
+                </form>
+            ) : (
+                <div className="border-t border-slate-200 px-6 py-4 dark:border-slate-800">
+                    <button type="button" onClick={() => { setLineItems(toCreditLines()); setIsOpen(true); }} className="inline-flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300"><Plus className="h-4 w-4" />New Credit Note</button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const LoadingState = () => (
+    <div className="flex items-center justify-center min-h-[400px]">
+        <div className="flex flex-col items-center gap-4">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+            <p className="text-slate-500 dark:text-slate-400">Loading...</p>
+        </div>
+    </div>
+);
+
+const DocumentForm = ({ documentType }: { documentType: 'invoice' | 'quote' }) => {
     const { id } = useParams();
     const navigate = useNavigate();
-    const { clients, getInvoiceById, addInvoice, updateInvoice, duplicateInvoice, markInvoiceAsPaid, isLoading } = useApp();
+    const { clients, getInvoiceById, addInvoice, updateInvoice, duplicateInvoice, markInvoiceAsPaid, voidInvoice, getQuoteById, addQuote, updateQuote, convertQuoteToInvoice, isLoading } = useApp();
     
-    const existingInvoice = id ? getInvoiceById(id) : undefined;
-    const isEditing = !!existingInvoice;
+    const isQuote = documentType === 'quote';
+    const existingInvoice = !isQuote && id ? getInvoiceById(id) : undefined;
+    const existingQuote = isQuote && id ? getQuoteById(id) : undefined;
+    const existing: Invoice | Quote | undefined = existingInvoice ?? existingQuote;
+    const isEditing = !!existing;
+    const listPath = isQuote ? '/quotes' : '/invoices';
 
-    const [selectedClientId, setSelectedClientId] = useState(existingInvoice?.clientId || '');
+    const [selectedClientId, setSelectedClientId] = useState(existing?.clientId || '');
     const [clientDropdownOpen, setClientDropdownOpen] = useState(false);
-    const [issueDate, setIssueDate] = useState(existingInvoice?.issueDate || new Date().toISOString().split('T')[0]);
-    const [dueDate, setDueDate] = useState(existingInvoice?.dueDate || '');
+    const [issueDate, setIssueDate] = useState(existing?.issueDate || new Date().toISOString().split('T')[0]);
+    // A quote's expiry date takes the place of the due date
+    const [dueDate, setDueDate] = useState(existingInvoice?.dueDate || existingQuote?.expiryDate || '');
+    // New invoices start on the default terms; quotes have no terms
+    const [paymentTerms, setPaymentTerms] = useState<PaymentTerms | undefined>(
+        existingInvoice ? existingInvoice.paymentTerms : isQuote ? undefined : paymentTermsService.DEFAULT_PAYMENT_TERMS
+    );
     const [lineItems, setLineItems] = useState<LineItem[]>(
-        existingInvoice?.lineItems || [{ id: '1', description: '', quantity: 1, rate: 0, amount: 0 }]
+        existing?.lineItems || [{ id: '1', description: '', quantity: 1, rate: 0, amount: 0 }]
     );
-    const [notes, setNotes] = useState(existingInvoice?.notes || '');
-    const [taxRate] = useState(10);
+    const [notes, setNotes] = useState(existing?.notes || '');
+    const [currency, setCurrency] = useState(existing?.currency || currencyService.DEFAULT_CURRENCY);
+    const [taxRate, setTaxRate] = useState<TaxRate>(existing?.taxRate ?? taxService.NO_TAX);
+    const [customTaxOpen, setCustomTaxOpen] = useState(false);
+    const [discount, setDiscount] = useState<Discount | undefined>(existing?.discount);
+    const [rounding, setRounding] = useState<RoundingPolicy>(existing?.rounding ?? money.DEFAULT_ROUNDING);
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [isSaving, setIsSaving] = useState(false);
     const [linkCopied, setLinkCopied] = useState(false);
+    const [voidFormOpen, setVoidFormOpen] = useState(false);
+    const [voidReason, setVoidReason] = useState('');
+    // Version of the invoice the form was loaded from; saving a newer version asks first
+    const [baseVersion, setBaseVersion] = useState(existingInvoice?.updatedAt);
+    const [conflict, setConflict] = useState<{ latest: Invoice; status: InvoiceStatus } | null>(null);
 
     const selectedClient = clients.find((c) => c.id === selectedClientId);
-    const canMarkAsPaid = existingInvoice && (existingInvoice.status === 'sent' || existingInvoice.status === 'overdue');
+    // Invoices on terms are due a set time after the issue date
+    const effectiveDueDate = paymentTerms ? paymentTermsService.getDueDate(issueDate, paymentTerms) : dueDate;
+    const termsOptions = [...new Set([...paymentTermsService.PAYMENT_TERMS_PRESETS, ...(paymentTerms ? [paymentTerms] : [])].map((terms) => JSON.stringify(terms)))];
+    const canMarkAsPaid = existingInvoice && (existingInvoice.status === 'sent' || existingInvoice.status === 'partially_paid' || existingInvoice.status === 'overdue');
+    // Invoices with payments are refunded or credited instead of voided
+    const canVoid = existingInvoice && localStatus.canTransition(existingInvoice.status, 'void') && existingInvoice.status !== 'void' && existingInvoice.amountPaid === 0;
+    const isVoid = existingInvoice?.status === 'void';
+    // Answered quotes are kept as the client saw them
+    const isAnswered = existingQuote?.status === 'accepted' || existingQuote?.status === 'declined';
+    const canConvert = existingQuote && !existingQuote.invoiceId && (existingQuote.status === 'sent' || existingQuote.status === 'accepted');
 
-    const subtotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
-    const tax = subtotal * (taxRate / 100);
-    const total = subtotal + tax;
+    const { subtotal, discountAmount, taxBreakdown, total } = localInvoices.calculateTotals(lineItems, taxRate, discount, { currency, rounding });
+    const lineAmount = (item: LineItem) => discountService.getLineAmount(item, currency, rounding.mode);
 
-    const updateLineItem = (itemId: string, field: keyof LineItem, value: string | number) => {
+    const updateLineItem = (itemId: string, field: keyof LineItem, value: string | number | TaxRate | Discount | undefined) => {
         setLineItems((items) =>
             items.map((item) => {
                 if (item.id !== itemId) return item;
                 const updated = { ...item, [field]: value };
-                if (field === 'quantity' || field === 'rate') {
-                    updated.amount = Number(updated.quantity) * Number(updated.rate);
+                if (field === 'quantity' || field === 'rate' || field === 'discount') {
+                    updated.amount = discountService.getLineAmount({ quantity: Number(updated.quantity), rate: Number(updated.rate), discount: updated.discount }, currency, rounding.mode);
                 }
                 return updated;
             })
@@ -78,13 +364,24 @@ export default function InvoiceEditor() {
     const buildInvoiceInput = (status: InvoiceStatus): InvoiceInput => ({
         clientId: selectedClientId,
         issueDate,
-        dueDate,
-        lineItems: lineItems.map(item => ({ description: item.description, quantity: item.quantity, rate: item.rate })),
+        dueDate: effectiveDueDate,
+        paymentTerms,
+        currency,
+        lineItems: lineItems.map(item => ({ description: item.description, quantity: item.quantity, rate: item.rate, taxRate: item.taxRate, discount: effectiveDiscount(item.discount) })),
+        taxRate,
+        discount: effectiveDiscount(discount),
+        rounding,
         notes: notes || undefined,
         status,
     });
 
-    const handleSave = async (status: InvoiceStatus) => {
+    const buildQuoteInput = (status: QuoteStatus): QuoteInput => {
+        const { dueDate: expiryDate, status: _, ...input } = buildInvoiceInput('draft');
+        return { ...input, expiryDate, status };
+    };
+
+    // Forcing overwrites whatever version was saved last
+    const handleSave = async (status: InvoiceStatus, force = false) => {
         setIsSaving(true);
         setErrors({});
 
@@ -92,11 +389,53 @@ export default function InvoiceEditor() {
         
         try {
             const result = isEditing && id 
-                ? await updateInvoice(id, input)
+                ? await updateInvoice(id, input, force ? undefined : baseVersion)
                 : await addInvoice(input);
 
             if (result.valid) {
                 navigate('/invoices');
+            } else if (result.conflict) {
+                setConflict({ latest: result.conflict, status });
+            } else {
+                setConflict(null);
+                setErrors(result.errors);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Replace the form with the version saved by someone else
+    const handleReload = () => {
+        if (!conflict) return;
+        const { latest } = conflict;
+        setSelectedClientId(latest.clientId);
+        setIssueDate(latest.issueDate);
+        setDueDate(latest.dueDate);
+        setPaymentTerms(latest.paymentTerms);
+        setLineItems(latest.lineItems);
+        setNotes(latest.notes || '');
+        setCurrency(latest.currency);
+        setTaxRate(latest.taxRate);
+        setDiscount(latest.discount);
+        setRounding(latest.rounding);
+        setBaseVersion(latest.updatedAt);
+        setConflict(null);
+    };
+
+    const handleSaveQuote = async (status: QuoteStatus) => {
+        setIsSaving(true);
+        setErrors({});
+
+        const input = buildQuoteInput(status);
+
+        try {
+            const result = isEditing && id
+                ? await updateQuote(id, input)
+                : await addQuote(input);
+
+            if (result.valid) {
+                navigate('/quotes');
             } else {
                 setErrors(result.errors);
             }
@@ -105,8 +444,28 @@ export default function InvoiceEditor() {
         }
     };
 
-    const handleSaveDraft = () => handleSave('draft');
-    const handleSendInvoice = () => handleSave('sent');
+    // Issued invoices and sent quotes keep their status when edited; only drafts are saved as draft or sent
+    // An expired quote is sent again with a new expiry date
+    const isIssued = (!!existingInvoice && existingInvoice.status !== 'draft') || existingQuote?.status === 'sent';
+    const handleSaveDraft = () => (isQuote ? handleSaveQuote('draft') : handleSave('draft'));
+    const handleSendInvoice = () => (isQuote ? handleSaveQuote('sent') : handleSave('sent'));
+    const handleSaveChanges = () => (existingQuote ? handleSaveQuote(existingQuote.status) : existingInvoice && handleSave(existingInvoice.status));
+
+    const handleConvert = async () => {
+        if (!id) return;
+        setIsSaving(true);
+        setErrors({});
+        try {
+            const result = await convertQuoteToInvoice(id);
+            if (result.valid && result.data) {
+                navigate(`/invoices/${result.data.id}/edit`);
+            } else {
+                setErrors(result.errors);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
 
     const handleMarkAsPaid = async () => {
         if (id && canMarkAsPaid) {
@@ -115,6 +474,24 @@ export default function InvoiceEditor() {
         }
     };
 
+    const handleVoid = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!id) return;
+        setIsSaving(true);
+        setErrors({});
+        try {
+            const result = await voidInvoice(id, voidReason);
+            if (result.valid) {
+                setVoidFormOpen(false);
+                setVoidReason('');
+            } else {
+                setErrors(result.errors);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
     const handleDuplicate = async () => {
         if (id) {
             const newInvoice = await duplicateInvoice(id);
@@ -124,7 +501,7 @@ export default function InvoiceEditor() {
 
     const handleCopyLink = async () => {
         if (id) {
-            const shareableUrl = `${window.location.origin}/invoice/${id}`;
+            const shareableUrl = `${window.location.origin}/${isQuote ? 'quote' : 'invoice'}/${id}`;
             try {
                 await navigator.clipboard.writeText(shareableUrl);
                 setLinkCopied(true);
@@ -137,14 +514,7 @@ export default function InvoiceEditor() {
 
     // Show loading state
     if (isLoading) {
-        return (
-            <div className="flex items-center justify-center min-h-[400px]">
-                <div className="flex flex-col items-center gap-4">
-                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
-                    <p className="text-slate-500 dark:text-slate-400">Loading...</p>
-                </div>
-            </div>
-        );
+        return <LoadingState />;
     }
 
     return (
@@ -152,35 +522,74 @@ export default function InvoiceEditor() {
             <div className="sticky top-0 z-30 border-b border-slate-200 bg-white/80 backdrop-blur-sm dark:border-slate-800 dark:bg-slate-900/80">
                 <div className="flex items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
                     <div className="flex items-center gap-3">
-                        <Link to="/invoices" className="rounded-lg p-2 text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800">
+                        <Link to={listPath} className="rounded-lg p-2 text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800">
                             <ArrowLeft className="h-5 w-5" />
                         </Link>
                         <div>
                             <h1 className="text-lg font-bold text-slate-900 dark:text-white sm:text-xl">
-                                {isEditing ? `Edit ${existingInvoice?.invoiceNumber}` : 'New Invoice'}
+                                {isEditing ? `Edit ${existingInvoice?.invoiceNumber ?? existingQuote?.quoteNumber}` : `New ${isQuote ? 'Quote' : 'Invoice'}`}
                             </h1>
                             <p className="text-sm text-slate-500 dark:text-slate-400">
-                                {isEditing ? 'Update invoice details' : 'Create a new invoice'}
+                                {isEditing ? `Update ${documentType} details` : `Create a new ${documentType}`}
+                                {existingInvoice?.recurringProfileId && <> · <Link to="/recurring" className="text-indigo-600 hover:text-indigo-700 dark:text-indigo-400">Issued by a recurring profile</Link></>}
+                                {existingInvoice?.quoteId && <> · <Link to={`/quotes/${existingInvoice.quoteId}/edit`} className="text-indigo-600 hover:text-indigo-700 dark:text-indigo-400">Converted from a quote</Link></>}
                             </p>
                         </div>
                     </div>
                     <div className="flex items-center gap-2">
-                        <button onClick={handleSaveDraft} disabled={isSaving}
-                            className="hidden items-center gap-2 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700 sm:flex">
-                            <Save className="h-4 w-4" />{isSaving ? 'Saving...' : 'Save Draft'}
-                        </button>
-                        <button onClick={handleSendInvoice} disabled={isSaving}
-                            className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500 dark:hover:bg-indigo-600">
-                            <Send className="h-4 w-4" />
-                            <span className="hidden sm:inline">{isSaving ? 'Sending...' : 'Send Invoice'}</span>
-                            <span className="sm:hidden">{isSaving ? '...' : 'Send'}</span>
-                        </button>
+                        {isVoid || isAnswered ? null : isIssued ? (
+                            <button onClick={handleSaveChanges} disabled={isSaving}
+                                className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500 dark:hover:bg-indigo-600">
+                                <Save className="h-4 w-4" />{isSaving ? 'Saving...' : 'Save Changes'}
+                            </button>
+                        ) : (
+                            <>
+                                <button onClick={handleSaveDraft} disabled={isSaving}
+                                    className="hidden items-center gap-2 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700 sm:flex">
+                                    <Save className="h-4 w-4" />{isSaving ? 'Saving...' : 'Save Draft'}
+                                </button>
+                                <button onClick={handleSendInvoice} disabled={isSaving}
+                                    className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500 dark:hover:bg-indigo-600">
+                                    <Send className="h-4 w-4" />
+                                    <span className="hidden sm:inline">{isSaving ? 'Sending...' : existingQuote?.status === 'expired' ? 'Send Again' : `Send ${isQuote ? 'Quote' : 'Invoice'}`}</span>
+                                    <span className="sm:hidden">{isSaving ? '...' : 'Send'}</span>
+                                </button>
+                            </>
+                        )}
                     </div>
                 </div>
             </div>
 
             <div className="px-4 py-6 sm:px-6 lg:px-8">
                 <div className="mx-auto max-w-4xl">
+                    {isEditing && existingQuote && (
+                        <div className="mb-6 flex flex-wrap items-center gap-2 rounded-xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+                            <span className="mr-2 text-sm font-medium text-slate-500 dark:text-slate-400">Actions:</span>
+                            {canConvert && (
+                                <button onClick={handleConvert} disabled={isSaving} className="inline-flex items-center gap-2 rounded-lg bg-emerald-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-emerald-500 dark:hover:bg-emerald-600">
+                                    <FileText className="h-4 w-4" />{isSaving ? 'Converting...' : 'Convert to Invoice'}
+                                </button>
+                            )}
+                            {existingQuote.invoiceId && (
+                                <Link to={`/invoices/${existingQuote.invoiceId}/edit`} className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">
+                                    <FileText className="h-4 w-4" />View Invoice
+                                </Link>
+                            )}
+                            <button onClick={handleCopyLink} className={`inline-flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors ${linkCopied ? 'border-emerald-300 bg-emerald-50 text-emerald-700 dark:border-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400' : 'border-slate-300 bg-white text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700'}`}>
+                                {linkCopied ? <><Check className="h-4 w-4" />Link Copied!</> : <><LinkIcon className="h-4 w-4" />Copy Link</>}
+                            </button>
+                        </div>
+                    )}
+
+                    {existingQuote && (isAnswered || existingQuote.status === 'expired') && (
+                        <div className={`mb-6 flex items-center gap-2 rounded-lg border px-4 py-3 text-sm ${existingQuote.status === 'accepted' ? 'border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400' : 'border-slate-300 bg-slate-50 text-slate-600 dark:border-slate-700 dark:bg-slate-800/50 dark:text-slate-400'}`}>
+                            <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                            {existingQuote.status === 'expired'
+                                ? 'This quote expired before the client answered. Choose a new valid until date to send it again.'
+                                : `${existingQuote.status === 'accepted' ? 'Accepted' : 'Declined'} by ${existingQuote.respondedBy}${existingQuote.declineReason ? `: ${existingQuote.declineReason}` : ''}. It can no longer be edited.`}
+                        </div>
+                    )}
+
                     {isEditing && existingInvoice && (
                         <div className="mb-6 flex flex-wrap items-center gap-2 rounded-xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900">
                             <span className="mr-2 text-sm font-medium text-slate-500 dark:text-slate-400">Actions:</span>
@@ -189,15 +598,42 @@ export default function InvoiceEditor() {
                                     <CheckCircle className="h-4 w-4" />Mark as Paid
                                 </button>
                             )}
+                            {canVoid && (
+                                <button onClick={() => setVoidFormOpen(!voidFormOpen)} className="inline-flex items-center gap-2 rounded-lg border border-rose-300 bg-white px-3 py-1.5 text-sm font-medium text-rose-600 hover:bg-rose-50 dark:border-rose-800 dark:bg-slate-800 dark:text-rose-400 dark:hover:bg-rose-950">
+                                    <Ban className="h-4 w-4" />Void
+                                </button>
+                            )}
                             <button onClick={handleDuplicate} className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">
                                 <Copy className="h-4 w-4" />Duplicate
                             </button>
+                            {!isVoid && (
+                                <Link to={`/recurring?invoice=${existingInvoice?.id}`} className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">
+                                    <Repeat className="h-4 w-4" />Make Recurring
+                                </Link>
+                            )}
                             <button onClick={handleCopyLink} className={`inline-flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors ${linkCopied ? 'border-emerald-300 bg-emerald-50 text-emerald-700 dark:border-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400' : 'border-slate-300 bg-white text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700'}`}>
                                 {linkCopied ? <><Check className="h-4 w-4" />Link Copied!</> : <><LinkIcon className="h-4 w-4" />Copy Link</>}
                             </button>
                         </div>
                     )}
 
+                    {voidFormOpen && canVoid && (
+                        <form onSubmit={handleVoid} className="mb-6 rounded-xl border border-rose-200 bg-rose-50 p-4 dark:border-rose-900 dark:bg-rose-950/40">
+                            <label className="mb-1.5 block text-sm font-medium text-rose-700 dark:text-rose-400">Reason for voiding {existingInvoice?.invoiceNumber} *</label>
+                            <p className="mb-3 text-xs text-rose-600 dark:text-rose-400">The invoice keeps its number and stays on record, but is no longer owed. This cannot be undone.</p>
+                            <div className="flex flex-col gap-2 sm:flex-row">
+                                <input type="text" value={voidReason} onChange={(e) => setVoidReason(e.target.value)} placeholder="e.g. Sent to the wrong client" className="flex-1 rounded-lg border border-rose-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-rose-500 focus:outline-none focus:ring-2 focus:ring-rose-500/20 dark:border-rose-800 dark:bg-slate-800 dark:text-white" />
+                                <button type="submit" disabled={isSaving || !voidReason.trim()} className="inline-flex items-center justify-center gap-2 rounded-lg bg-rose-600 px-4 py-2 text-sm font-medium text-white hover:bg-rose-700 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-rose-500 dark:hover:bg-rose-600"><Ban className="h-4 w-4" />{isSaving ? 'Voiding...' : 'Void Invoice'}</button>
+                            </div>
+                        </form>
+                    )}
+
+                    {isVoid && existingInvoice && (
+                        <div className="mb-6 flex items-center gap-2 rounded-lg border border-slate-300 bg-slate-50 px-4 py-3 text-sm text-slate-600 dark:border-slate-700 dark:bg-slate-800/50 dark:text-slate-400">
+                            <Ban className="h-5 w-5 flex-shrink-0" />This invoice is void{localStatus.getVoidReason(existingInvoice) ? `: ${localStatus.getVoidReason(existingInvoice)}` : ''}. It can no longer be edited.
+                        </div>
+                    )}
+
                     {errors.general && (
                         <div className="mb-6 flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400">
                             <AlertCircle className="h-5 w-5 flex-shrink-0" />{errors.general}
@@ -221,7 +657,7 @@ export default function InvoiceEditor() {
                                                 <div className="px-3 py-2 text-sm text-slate-500">No clients. Add a client first.</div>
                                             ) : (
                                                 clients.map((client) => (
-                                                    <button key={client.id} type="button" onClick={() => { setSelectedClientId(client.id); setClientDropdownOpen(false); if (errors.clientId) setErrors(prev => { const { clientId: _, ...rest } = prev; return rest; }); }}
+                                                    <button key={client.id} type="button" onClick={() => { setSelectedClientId(client.id); if (!isEditing) { setCurrency(client.defaultCurrency); if (!isQuote) setPaymentTerms(paymentTermsService.getClientTerms(client)); } setClientDropdownOpen(false); if (errors.clientId) setErrors(prev => { const { clientId: _, ...rest } = prev; return rest; }); }}
                                                         className="flex w-full items-center gap-3 px-3 py-2 text-left hover:bg-slate-100 dark:hover:bg-slate-700">
                                                         <div className="flex h-8 w-8 items-center justify-center rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 text-xs font-semibold text-white">{client.name.split(' ').map((n) => n[0]).join('')}</div>
                                                         <div><p className="text-sm font-medium text-slate-900 dark:text-white">{client.name}</p><p className="text-xs text-slate-500 dark:text-slate-400">{client.company}</p></div>
@@ -241,12 +677,51 @@ export default function InvoiceEditor() {
                                 <input type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} className="w-full rounded-lg border border-slate-300 bg-white py-2.5 pl-10 pr-3 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white" />
                             </div>
                         </div>
+                        {!isQuote && (
+                            <div>
+                                <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">Payment Terms</label>
+                                <select value={paymentTerms ? JSON.stringify(paymentTerms) : ''}
+                                    onChange={(e) => { if (!e.target.value) setDueDate(effectiveDueDate); setPaymentTerms(e.target.value ? JSON.parse(e.target.value) : undefined); }}
+                                    className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white">
+                                    {termsOptions.map((option) => <option key={option} value={option}>{paymentTermsService.formatTerms(JSON.parse(option))}</option>)}
+                                    <option value="">Custom date</option>
+                                </select>
+                            </div>
+                        )}
                         <div>
-                            <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">Due Date</label>
+                            <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">{isQuote ? 'Valid Until' : 'Due Date'}</label>
                             <div className="relative">
                                 <Calendar className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
-                                <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className="w-full rounded-lg border border-slate-300 bg-white py-2.5 pl-10 pr-3 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white" />
+                                <input type="date" value={effectiveDueDate} onChange={(e) => setDueDate(e.target.value)} readOnly={!!paymentTerms} title={paymentTerms ? 'Set by the payment terms' : undefined}
+                                    className={`w-full rounded-lg border ${errors.dueDate ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} py-2.5 pl-10 pr-3 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:text-white ${paymentTerms ? 'bg-slate-50 dark:bg-slate-800/50' : 'bg-white dark:bg-slate-800'}`} />
                             </div>
+                            {errors.dueDate && <p className="mt-1.5 flex items-center gap-1 text-sm text-red-500"><AlertCircle className="h-4 w-4" />{errors.dueDate}</p>}
+                        </div>
+                        <div>
+                            <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">Currency</label>
+                            <select value={currency} onChange={(e) => setCurrency(e.target.value)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white">
+                                {[...new Set([...currencyService.SUPPORTED_CURRENCIES, currency])].map((code) => <option key={code} value={code}>{code} ({currencyService.getSymbol(code)})</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <div className="mb-1.5 flex items-center justify-between">
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">Tax Rate</label>
+                                <button type="button" onClick={() => setCustomTaxOpen(!customTaxOpen)} className="text-xs font-medium text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300">{customTaxOpen ? 'Done' : 'Custom rate'}</button>
+                            </div>
+                            {customTaxOpen ? (
+                                <div className="flex gap-2">
+                                    <input type="text" value={taxRate.name} onChange={(e) => setTaxRate({ ...taxRate, name: e.target.value })} placeholder="Name" className="min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white" />
+                                    <div className="relative w-28"><input type="number" min="0" step="0.01" value={taxRate.rate} onChange={(e) => setTaxRate({ ...taxRate, rate: parseFloat(e.target.value) || 0 })} className="w-full rounded-lg border border-slate-300 bg-white py-2.5 pl-3 pr-7 text-right text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white font-mono" /><span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-slate-400">%</span></div>
+                                </div>
+                            ) : (
+                                <TaxRateSelect value={taxRate} onChange={(rate) => rate && setTaxRate(rate)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white" />
+                            )}
+                        </div>
+                        <div>
+                            <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">Rounding</label>
+                            <select value={roundingKey(rounding)} onChange={(e) => setRounding(ROUNDING_OPTIONS.find((o) => roundingKey(o.rounding) === e.target.value)?.rounding ?? money.DEFAULT_ROUNDING)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white">
+                                {ROUNDING_OPTIONS.map((o) => <option key={roundingKey(o.rounding)} value={roundingKey(o.rounding)}>{o.label}</option>)}
+                            </select>
                         </div>
                     </div>
 
@@ -262,6 +737,8 @@ export default function InvoiceEditor() {
                                         <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">Description</th>
                                         <th className="px-4 py-3 text-center text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 w-24">Qty</th>
                                         <th className="px-4 py-3 text-center text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 w-32">Rate</th>
+                                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 w-36">Discount</th>
+                                        <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 w-44">Tax</th>
                                         <th className="px-4 py-3 text-right text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 w-32">Amount</th>
                                         <th className="w-12 px-4"></th>
                                     </tr>
@@ -271,8 +748,10 @@ export default function InvoiceEditor() {
                                         <tr key={item.id}>
                                             <td className="px-6 py-3"><input type="text" value={item.description} onChange={(e) => updateLineItem(item.id, 'description', e.target.value)} placeholder="Item description" className="w-full border-0 bg-transparent p-0 text-sm text-slate-900 placeholder:text-slate-400 focus:outline-none focus:ring-0 dark:text-white" /></td>
                                             <td className="px-4 py-3"><input type="number" min="1" value={item.quantity} onChange={(e) => updateLineItem(item.id, 'quantity', parseInt(e.target.value) || 0)} className="w-full rounded border border-slate-200 bg-slate-50 px-2 py-1 text-center text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white font-mono" /></td>
-                                            <td className="px-4 py-3"><div className="relative"><span className="absolute left-2 top-1/2 -translate-y-1/2 text-sm text-slate-400">$</span><input type="number" min="0" step="0.01" value={item.rate} onChange={(e) => updateLineItem(item.id, 'rate', parseFloat(e.target.value) || 0)} className="w-full rounded border border-slate-200 bg-slate-50 py-1 pl-6 pr-2 text-right text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white font-mono" /></div></td>
-                                            <td className="px-4 py-3 text-right"><span className="font-mono text-sm font-medium text-slate-900 dark:text-white">{formatCurrency(item.amount)}</span></td>
+                                            <td className="px-4 py-3"><div className="relative"><span className="absolute left-2 top-1/2 -translate-y-1/2 text-sm text-slate-400">{currencyService.getSymbol(currency)}</span><input type="number" min="0" step="0.01" value={item.rate} onChange={(e) => updateLineItem(item.id, 'rate', parseFloat(e.target.value) || 0)} className="w-full rounded border border-slate-200 bg-slate-50 py-1 pl-10 pr-2 text-right text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white font-mono" /></div></td>
+                                            <td className="px-4 py-3"><DiscountInput value={item.discount} currency={currency} onChange={(d) => updateLineItem(item.id, 'discount', d)} className="rounded border border-slate-200 bg-slate-50 py-1 pl-2 pr-1 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" /></td>
+                                            <td className="px-4 py-3"><TaxRateSelect value={item.taxRate} extraRates={[taxRate]} inheritLabel="Invoice rate" onChange={(rate) => updateLineItem(item.id, 'taxRate', rate)} className="w-full rounded border border-slate-200 bg-slate-50 px-2 py-1 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 dark:border-slate-700 dark:bg-slate-800 dark:text-white" /></td>
+                                            <td className="px-4 py-3 text-right"><span className="font-mono text-sm font-medium text-slate-900 dark:text-white">{formatCurrency(lineAmount(item), currency)}</span></td>
                                             <td className="px-4 py-3"><button type="button" onClick={() => removeLineItem(item.id)} className="rounded p-1 text-slate-400 hover:bg-rose-50 hover:text-rose-500 dark:hover:bg-rose-950" disabled={lineItems.length === 1}><Trash2 className="h-4 w-4" /></button></td>
                                         </tr>
                                     ))}
@@ -290,7 +769,11 @@ export default function InvoiceEditor() {
                                     <div className="grid grid-cols-3 gap-3">
                                         <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Qty</label><input type="number" min="1" value={item.quantity} onChange={(e) => updateLineItem(item.id, 'quantity', parseInt(e.target.value) || 0)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-center text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white font-mono" /></div>
                                         <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Rate</label><input type="number" min="0" step="0.01" value={item.rate} onChange={(e) => updateLineItem(item.id, 'rate', parseFloat(e.target.value) || 0)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-center text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white font-mono" /></div>
-                                        <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Amount</label><div className="rounded-lg bg-slate-100 px-3 py-2 text-center text-sm font-medium text-slate-900 dark:bg-slate-700 dark:text-white font-mono">{formatCurrency(item.amount)}</div></div>
+                                        <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Amount</label><div className="rounded-lg bg-slate-100 px-3 py-2 text-center text-sm font-medium text-slate-900 dark:bg-slate-700 dark:text-white font-mono">{formatCurrency(lineAmount(item), currency)}</div></div>
+                                    </div>
+                                    <div className="mt-3 grid grid-cols-2 gap-3">
+                                        <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Discount</label><DiscountInput value={item.discount} currency={currency} onChange={(d) => updateLineItem(item.id, 'discount', d)} className="rounded-lg border border-slate-300 bg-white py-2 pl-3 pr-1 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white" /></div>
+                                        <div><label className="mb-1 block text-xs text-slate-500 dark:text-slate-400">Tax</label><TaxRateSelect value={item.taxRate} extraRates={[taxRate]} inheritLabel="Invoice rate" onChange={(rate) => updateLineItem(item.id, 'taxRate', rate)} className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none dark:border-slate-600 dark:bg-slate-800 dark:text-white" /></div>
                                     </div>
                                 </div>
                             ))}
@@ -307,14 +790,72 @@ export default function InvoiceEditor() {
                         </div>
                         <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
                             <div className="space-y-3">
-                                <div className="flex items-center justify-between text-sm"><span className="text-slate-600 dark:text-slate-400">Subtotal</span><span className="font-mono font-medium text-slate-900 dark:text-white">{formatCurrency(subtotal)}</span></div>
-                                <div className="flex items-center justify-between text-sm"><span className="text-slate-600 dark:text-slate-400">Tax ({taxRate}%)</span><span className="font-mono font-medium text-slate-900 dark:text-white">{formatCurrency(tax)}</span></div>
-                                <div className="border-t border-slate-200 pt-3 dark:border-slate-700"><div className="flex items-center justify-between"><span className="text-base font-semibold text-slate-900 dark:text-white">Total</span><span className="font-mono text-xl font-bold text-slate-900 dark:text-white">{formatCurrency(total)}</span></div></div>
+                                <div className="flex items-center justify-between text-sm"><span className="text-slate-600 dark:text-slate-400">Subtotal</span><span className="font-mono font-medium text-slate-900 dark:text-white">{formatCurrency(subtotal, currency)}</span></div>
+                                <div className="flex items-center justify-between gap-4 text-sm">
+                                    <div className="flex items-center gap-2"><span className="text-slate-600 dark:text-slate-400">Discount</span><div className="w-32"><DiscountInput value={discount} currency={currency} onChange={setDiscount} className="rounded-lg border border-slate-300 bg-white py-1 pl-2 pr-1 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white" /></div></div>
+                                    <span className="font-mono font-medium text-emerald-600 dark:text-emerald-400">{discountAmount > 0 ? `-${formatCurrency(discountAmount, currency)}` : formatCurrency(0, currency)}</span>
+                                </div>
+                                {errors.discount && <p className="flex items-center gap-1 text-sm text-red-500"><AlertCircle className="h-4 w-4" />{errors.discount}</p>}
+                                {taxBreakdown.map((entry) => (
+                                    <div key={taxRateKey(entry)} className="flex items-center justify-between text-sm"><span className="text-slate-600 dark:text-slate-400">{taxService.formatTaxRateLabel(entry)}{taxBreakdown.length > 1 && <span className="ml-1 text-xs text-slate-400">on {formatCurrency(entry.taxableAmount, currency)}</span>}</span><span className="font-mono font-medium text-slate-900 dark:text-white">{formatCurrency(entry.tax, currency)}</span></div>
+                                ))}
+                                <div className="border-t border-slate-200 pt-3 dark:border-slate-700"><div className="flex items-center justify-between"><span className="text-base font-semibold text-slate-900 dark:text-white">Total</span><span className="font-mono text-xl font-bold text-slate-900 dark:text-white">{formatCurrency(total, currency)}</span></div></div>
                             </div>
                         </div>
                     </div>
+
+                    {existingInvoice && <PaymentsPanel invoice={existingInvoice} />}
+                    {existingInvoice && existingInvoice.status !== 'draft' && <CreditNotesPanel invoice={existingInvoice} />}
+                    {existingInvoice && existingInvoice.statusHistory.length > 0 && (
+                        <div className="mt-6 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+                            <StatusHistory history={existingInvoice.statusHistory} />
+                        </div>
+                    )}
                 </div>
             </div>
+
+            {conflict && (
+                <ConflictDialog
+                    subject={`invoice ${conflict.latest.invoiceNumber}`}
+                    changedAt={conflict.latest.updatedAt}
+                    isSaving={isSaving}
+                    onReload={handleReload}
+                    onForce={() => handleSave(conflict.status, true)}
+                    onCancel={() => setConflict(null)}
+                />
+            )}
         </div>
     );
+};
+
+export default function InvoiceEditor({ documentType = 'invoice' }: { documentType?: 'invoice' | 'quote' }) {
+    const { id } = useParams();
+    const { loadInvoice, isLoading } = useApp();
+    const invoiceId = documentType === 'invoice' ? id : undefined;
+    // Whether the data was loaded once, and which invoice's details were
+    const [isReady, setIsReady] = useState(!isLoading);
+    const [loadedId, setLoadedId] = useState<string>();
+
+    useEffect(() => {
+        if (!isLoading) setIsReady(true);
+    }, [isLoading]);
+
+    useEffect(() => {
+        if (!invoiceId || isLoading) return;
+        let cancelled = false;
+        loadInvoice(invoiceId).finally(() => {
+            if (!cancelled) setLoadedId(invoiceId);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [invoiceId, isLoading, loadInvoice]);
+
+    // Show loading state
+    if (!isReady || (invoiceId && loadedId !== invoiceId)) {
+        return <LoadingState />;
+    }
+
+    // The form starts over for every invoice or quote it is opened for
+    return <DocumentForm key={`${documentType}:${id ?? 'new'}`} documentType={documentType} />;
 }
@@ -2,10 +2,14 @@
  * Invoices Page
  * 
  * Requirements: 8.1, 8.2 - Loading and error states
+ *
+ * Invoices are sorted, filtered, paged and counted on the server; the sort,
+ * filters and page are kept in the URL. The page is loaded again when one
+ * of its invoices changes, or invoices are added or removed.
  */
 
-import { useState } from 'react';
-import { Link } from 'react-router-dom';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import {
     Plus,
     Search,
@@ -18,14 +22,34 @@ import {
     Trash2,
     AlertTriangle,
     RefreshCw,
+    ArrowUp,
+    ArrowDown,
+    ArrowUpDown,
+    ChevronLeft,
+    ChevronRight,
 } from 'lucide-react';
-import { useApp } from '../context/AppContext';
-import type { Invoice, InvoiceStatus } from '../lib/database.types';
+import { useApp, type InvoiceChange } from '../context/AppContext';
+import SyncBadge from '../components/SyncBadge';
+import ChangedBadge from '../components/ChangedBadge';
+import { invoiceService } from '../lib/services/invoiceService';
+import { syncService } from '../lib/services/syncService';
+import { invoiceQuery } from '@backend/services/invoiceQuery';
+import { metricsService } from '@backend/services/metricsService';
+import type { Invoice, InvoicePage, InvoiceQuery, InvoiceSortKey, InvoiceStatus } from '../lib/database.types';
 
 type StatusFilter = 'all' | InvoiceStatus;
 
-const formatCurrency = (amount: number) =>
-    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+const SORT_LABELS: Record<InvoiceSortKey, string> = {
+    number: 'Invoice',
+    client: 'Client',
+    status: 'Status',
+    issueDate: 'Issued',
+    dueDate: 'Due Date',
+    total: 'Amount',
+};
+
+const formatCurrency = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
 
 const formatDate = (date: string) =>
     new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(date));
@@ -34,10 +58,12 @@ const StatusBadge = ({ status }: { status: string }) => {
     const styles = {
         paid: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-950 dark:text-emerald-400',
         sent: 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-400',
+        partially_paid: 'bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-400',
         overdue: 'bg-rose-100 text-rose-700 dark:bg-rose-950 dark:text-rose-400',
         draft: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400',
+        void: 'bg-slate-100 text-slate-500 line-through dark:bg-slate-800 dark:text-slate-500',
     };
-    return <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium capitalize ${styles[status as keyof typeof styles]}`}>{status}</span>;
+    return <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium capitalize ${styles[status as keyof typeof styles]}`}>{status.replace('_', ' ')}</span>;
 };
 
 const LoadingSpinner = () => (
@@ -49,6 +75,18 @@ const LoadingSpinner = () => (
     </div>
 );
 
+const SortHeader = ({ sortKey, query, onSort, align = 'left' }: { sortKey: InvoiceSortKey; query: InvoiceQuery; onSort: (sort: InvoiceSortKey) => void; align?: 'left' | 'right' }) => {
+    const active = query.sort === sortKey;
+    const Icon = !active ? ArrowUpDown : query.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+        <th aria-sort={active ? (query.direction === 'asc' ? 'ascending' : 'descending') : 'none'} className={`px-6 py-3 text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 ${align === 'right' ? 'text-right' : 'text-left'}`}>
+            <button type="button" onClick={() => onSort(sortKey)} className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-slate-700 dark:hover:text-slate-200 ${active ? 'text-slate-900 dark:text-white' : ''}`}>
+                {SORT_LABELS[sortKey]}<Icon className={`h-3.5 w-3.5 ${active ? '' : 'opacity-50'}`} />
+            </button>
+        </th>
+    );
+};
+
 const ErrorDisplay = ({ message, onRetry }: { message: string; onRetry: () => void }) => (
     <div className="flex flex-col items-center justify-center min-h-[400px]">
         <div className="flex flex-col items-center gap-4 max-w-md text-center">
@@ -67,28 +105,75 @@ const ErrorDisplay = ({ message, onRetry }: { message: string; onRetry: () => vo
 );
 
 export default function Invoices() {
-    const { invoices, deleteInvoice, isLoading, error, refreshData, clearError } = useApp();
-    const [searchQuery, setSearchQuery] = useState('');
-    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+    const { invoices, metrics, deleteInvoice, isLoading, isOffline, error, refreshData, clearError, syncStatus, recentlyChanged, subscribeToInvoiceChanges } = useApp();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const query = useMemo(() => invoiceQuery.fromSearchParams(searchParams), [searchParams]);
+    const [searchInput, setSearchInput] = useState(query.search);
     const [showFilters, setShowFilters] = useState(false);
     const [deleteConfirmInvoice, setDeleteConfirmInvoice] = useState<Invoice | null>(null);
+    const [page, setPage] = useState<InvoicePage | null>(null);
+    const [isPageLoading, setIsPageLoading] = useState(true);
+    const [pageError, setPageError] = useState<string | null>(null);
+    // Bumped when the page shown has to be loaded again
+    const [revision, setRevision] = useState(0);
+    const pageRef = useRef<InvoicePage | null>(null);
+    const statusCounts = useMemo(() => metricsService.toStatusCounts(metrics), [metrics]);
 
-    // Filter invoices
-    const filteredInvoices = invoices.filter(invoice => {
-        const matchesSearch = !searchQuery || 
-            invoice.invoiceNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            invoice.client?.name.toLowerCase().includes(searchQuery.toLowerCase());
-        const matchesStatus = statusFilter === 'all' || invoice.status === statusFilter;
-        return matchesSearch && matchesStatus;
-    });
-
-    const statusCounts = {
-        all: invoices.length,
-        draft: invoices.filter((i) => i.status === 'draft').length,
-        sent: invoices.filter((i) => i.status === 'sent').length,
-        paid: invoices.filter((i) => i.status === 'paid').length,
-        overdue: invoices.filter((i) => i.status === 'overdue').length,
-    };
+    const setQuery = (next: InvoiceQuery, replace = false) => setSearchParams(invoiceQuery.toSearchParams(next), { replace });
+
+    // Search once typing stops, from the first page
+    useEffect(() => {
+        const search = searchInput.trim();
+        if (search === query.search) return;
+        const timer = setTimeout(() => setQuery({ ...query, search, cursor: undefined }, true), 300);
+        return () => clearTimeout(timer);
+    }, [searchInput, query]);
+
+    // Follow the search in the URL, e.g. after going back
+    useEffect(() => {
+        setSearchInput(query.search);
+    }, [query.search]);
+
+    // Load the page again when the query changes, or when it is told to;
+    // while offline it is made from the invoices already loaded
+    useEffect(() => {
+        if (isLoading) return;
+        let cancelled = false;
+        setIsPageLoading(true);
+
+        const load = isOffline
+            ? Promise.resolve(invoiceQuery.paginate(invoices, query))
+            : invoiceService.list(query).catch(err => {
+                if (syncService.isOffline(err)) return invoiceQuery.paginate(invoices, query);
+                throw err;
+            });
+        load
+            .then(result => {
+                if (cancelled) return;
+                pageRef.current = result;
+                setPage(result);
+                setPageError(null);
+            })
+            .catch(err => {
+                if (!cancelled) setPageError(err instanceof Error ? err.message : 'Failed to load invoices');
+            })
+            .finally(() => {
+                if (!cancelled) setIsPageLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [query, revision, isOffline, isLoading]);
+
+    // Changes to invoices, or clients, not shown on the page leave it as it is
+    useEffect(() => subscribeToInvoiceChanges((change: InvoiceChange) => {
+        const items = pageRef.current?.items ?? [];
+        const shown = change.type !== 'update'
+            || items.some(invoice => change.entity === 'invoice' ? invoice.id === change.id : invoice.clientId === change.id);
+        if (shown) setRevision(prev => prev + 1);
+    }), [subscribeToInvoiceChanges]);
+
+    const handleSort = (sort: InvoiceSortKey) => setQuery(invoiceQuery.toggleSort(query, sort));
 
     const handleDeleteClick = (invoice: Invoice) => setDeleteConfirmInvoice(invoice);
     const confirmDelete = async () => {
@@ -98,10 +183,11 @@ export default function Invoices() {
         }
     };
     const cancelDelete = () => setDeleteConfirmInvoice(null);
-    const handleRetry = async () => { clearError(); await refreshData(); };
+    const handleRetry = async () => { clearError(); setPageError(null); await refreshData(); };
 
     if (isLoading) return <LoadingSpinner />;
-    if (error) return <ErrorDisplay message={error} onRetry={handleRetry} />;
+    if (error || pageError) return <ErrorDisplay message={error || pageError || ''} onRetry={handleRetry} />;
+    if (!page) return <LoadingSpinner />;
 
     return (
         <div className="px-4 py-6 sm:px-6 lg:px-8">
@@ -118,41 +204,46 @@ export default function Invoices() {
             <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:items-center">
                 <div className="relative flex-1">
                     <Search className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-slate-400" />
-                    <input type="text" placeholder="Search invoices..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)}
+                    <input type="text" placeholder="Search invoices..." value={searchInput} onChange={(e) => setSearchInput(e.target.value)}
                         className="w-full rounded-lg border border-slate-300 bg-white py-2.5 pl-10 pr-4 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-white dark:placeholder:text-slate-500 dark:focus:border-indigo-400" />
                 </div>
+                <select aria-label="Sort by" value={query.sort} onChange={(e) => handleSort(e.target.value as InvoiceSortKey)}
+                    className="rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-700 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 md:hidden">
+                    {invoiceQuery.SORT_KEYS.map((sortKey) => <option key={sortKey} value={sortKey}>Sort by {SORT_LABELS[sortKey].toLowerCase()}</option>)}
+                </select>
                 <button onClick={() => setShowFilters(!showFilters)} className="inline-flex items-center justify-center gap-2 rounded-lg border border-slate-300 bg-white px-4 py-2.5 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700 sm:hidden">
                     <Filter className="h-4 w-4" />Filter<ChevronDown className={`h-4 w-4 transition-transform ${showFilters ? 'rotate-180' : ''}`} />
                 </button>
             </div>
 
             <div className={`mb-6 flex flex-wrap gap-2 ${showFilters ? 'block' : 'hidden'} sm:flex`}>
-                {(['all', 'draft', 'sent', 'paid', 'overdue'] as StatusFilter[]).map((status) => (
-                    <button key={status} onClick={() => setStatusFilter(status)}
-                        className={`inline-flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm font-medium transition-colors ${statusFilter === status ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-950 dark:text-indigo-400' : 'bg-white text-slate-600 hover:bg-slate-100 dark:bg-slate-800 dark:text-slate-400 dark:hover:bg-slate-700'}`}>
-                        <span className="capitalize">{status}</span>
-                        <span className={`rounded-full px-1.5 py-0.5 text-xs ${statusFilter === status ? 'bg-indigo-200 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-400'}`}>{statusCounts[status]}</span>
+                {(['all', 'draft', 'sent', 'partially_paid', 'paid', 'overdue', 'void'] as StatusFilter[]).map((status) => (
+                    <button key={status} onClick={() => setQuery({ ...query, status, cursor: undefined })}
+                        className={`inline-flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm font-medium transition-colors ${query.status === status ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-950 dark:text-indigo-400' : 'bg-white text-slate-600 hover:bg-slate-100 dark:bg-slate-800 dark:text-slate-400 dark:hover:bg-slate-700'}`}>
+                        <span className="capitalize">{status.replace('_', ' ')}</span>
+                        {statusCounts && <span className={`rounded-full px-1.5 py-0.5 text-xs ${query.status === status ? 'bg-indigo-200 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-400'}`}>{statusCounts[status]}</span>}
                     </button>
                 ))}
             </div>
 
-            <div className="rounded-xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <div className={`rounded-xl border border-slate-200 bg-white shadow-sm transition-opacity dark:border-slate-800 dark:bg-slate-900 ${isPageLoading ? 'opacity-60' : ''}`}>
                 <div className="hidden overflow-x-auto md:block">
                     <table className="w-full">
                         <thead>
                             <tr className="border-b border-slate-200 dark:border-slate-800">
-                                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">Invoice</th>
-                                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">Client</th>
-                                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">Status</th>
-                                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">Due Date</th>
-                                <th className="px-6 py-3 text-right text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">Amount</th>
+                                <SortHeader sortKey="number" query={query} onSort={handleSort} />
+                                <SortHeader sortKey="client" query={query} onSort={handleSort} />
+                                <SortHeader sortKey="status" query={query} onSort={handleSort} />
+                                <SortHeader sortKey="issueDate" query={query} onSort={handleSort} />
+                                <SortHeader sortKey="dueDate" query={query} onSort={handleSort} />
+                                <SortHeader sortKey="total" query={query} onSort={handleSort} align="right" />
                                 <th className="px-6 py-3 text-right text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">Actions</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
-                            {filteredInvoices.map((invoice) => (
+                            {page.items.map((invoice) => (
                                 <tr key={invoice.id} className="transition-colors hover:bg-slate-50 dark:hover:bg-slate-800/50">
-                                    <td className="whitespace-nowrap px-6 py-4"><span className="font-mono text-sm font-medium text-slate-900 dark:text-white">{invoice.invoiceNumber}</span></td>
+                                    <td className="whitespace-nowrap px-6 py-4"><div className="flex items-center gap-2"><span className="font-mono text-sm font-medium text-slate-900 dark:text-white">{invoice.invoiceNumber}</span><SyncBadge status={syncStatus[invoice.id]} /><ChangedBadge at={recentlyChanged[invoice.id]} /></div></td>
                                     <td className="whitespace-nowrap px-6 py-4">
                                         <div>
                                             <p className="font-medium text-slate-900 dark:text-white">{invoice.client?.name || 'Unknown'}</p>
@@ -160,8 +251,9 @@ export default function Invoices() {
                                         </div>
                                     </td>
                                     <td className="whitespace-nowrap px-6 py-4"><StatusBadge status={invoice.status} /></td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{formatDate(invoice.issueDate)}</td>
                                     <td className="whitespace-nowrap px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{formatDate(invoice.dueDate)}</td>
-                                    <td className="whitespace-nowrap px-6 py-4 text-right"><span className="font-mono text-sm font-medium text-slate-900 dark:text-white">{formatCurrency(invoice.total)}</span></td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-right"><span className="font-mono text-sm font-medium text-slate-900 dark:text-white">{formatCurrency(invoice.total, invoice.currency)}</span>{invoice.status === 'partially_paid' && <span className="block text-xs text-amber-600 dark:text-amber-400">{formatCurrency(invoice.balanceDue, invoice.currency)} due</span>}</td>
                                     <td className="whitespace-nowrap px-6 py-4 text-right">
                                         <div className="flex items-center justify-end gap-2">
                                             <Link to={`/invoices/${invoice.id}/edit`} className="rounded-lg p-2 text-slate-400 hover:bg-slate-100 hover:text-slate-600 dark:hover:bg-slate-800 dark:hover:text-slate-300" title="Edit"><Pencil className="h-4 w-4" /></Link>
@@ -176,11 +268,11 @@ export default function Invoices() {
                 </div>
 
                 <div className="divide-y divide-slate-100 dark:divide-slate-800 md:hidden">
-                    {filteredInvoices.map((invoice) => (
+                    {page.items.map((invoice) => (
                         <div key={invoice.id} className="p-4">
                             <div className="mb-3 flex items-start justify-between">
                                 <div>
-                                    <p className="font-mono text-sm font-medium text-slate-900 dark:text-white">{invoice.invoiceNumber}</p>
+                                    <p className="flex items-center gap-2 font-mono text-sm font-medium text-slate-900 dark:text-white">{invoice.invoiceNumber}<SyncBadge status={syncStatus[invoice.id]} /><ChangedBadge at={recentlyChanged[invoice.id]} /></p>
                                     <p className="mt-0.5 text-sm font-medium text-slate-700 dark:text-slate-300">{invoice.client?.name || 'Unknown'}</p>
                                     <p className="text-sm text-slate-500 dark:text-slate-400">{invoice.client?.company}</p>
                                 </div>
@@ -190,7 +282,7 @@ export default function Invoices() {
                                 <span className="flex items-center gap-1"><Calendar className="h-4 w-4" />{formatDate(invoice.dueDate)}</span>
                             </div>
                             <div className="flex items-center justify-between">
-                                <span className="font-mono text-lg font-semibold text-slate-900 dark:text-white">{formatCurrency(invoice.total)}</span>
+                                <span className="font-mono text-lg font-semibold text-slate-900 dark:text-white">{formatCurrency(invoice.total, invoice.currency)}</span>
                                 <div className="flex items-center gap-2">
                                     <Link to={`/invoices/${invoice.id}/edit`} className="rounded-lg bg-slate-100 p-2 text-slate-600 hover:bg-slate-200 dark:bg-slate-800 dark:text-slate-400 dark:hover:bg-slate-700"><Pencil className="h-4 w-4" /></Link>
                                     <Link to={`/invoice/${invoice.id}`} className="rounded-lg bg-indigo-100 p-2 text-indigo-600 hover:bg-indigo-200 dark:bg-indigo-950 dark:text-indigo-400 dark:hover:bg-indigo-900"><ExternalLink className="h-4 w-4" /></Link>
@@ -201,11 +293,29 @@ export default function Invoices() {
                     ))}
                 </div>
 
-                {filteredInvoices.length === 0 && (
+                {page.items.length === 0 && (
                     <div className="flex flex-col items-center justify-center py-12 text-center">
                         <FileText className="h-12 w-12 text-slate-300 dark:text-slate-600" />
                         <h3 className="mt-4 font-semibold text-slate-900 dark:text-white">No invoices found</h3>
-                        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{searchQuery || statusFilter !== 'all' ? 'Try adjusting your search or filters' : 'Create your first invoice to get started'}</p>
+                        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{query.search || query.status !== 'all' ? 'Try adjusting your search or filters' : 'Create your first invoice to get started'}</p>
+                    </div>
+                )}
+
+                {page.items.length > 0 && (
+                    <div className="flex items-center justify-between gap-4 border-t border-slate-200 px-4 py-3 dark:border-slate-800 sm:px-6">
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                            Showing <span className="font-medium text-slate-900 dark:text-white">{page.start + 1}–{page.start + page.items.length}</span> of <span className="font-medium text-slate-900 dark:text-white">{page.total}</span>
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <button type="button" disabled={!page.previousCursor} onClick={() => setQuery({ ...query, cursor: page.previousCursor })}
+                                className="inline-flex items-center gap-1 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">
+                                <ChevronLeft className="h-4 w-4" />Previous
+                            </button>
+                            <button type="button" disabled={!page.nextCursor} onClick={() => setQuery({ ...query, cursor: page.nextCursor })}
+                                className="inline-flex items-center gap-1 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">
+                                Next<ChevronRight className="h-4 w-4" />
+                            </button>
+                        </div>
                     </div>
                 )}
             </div>
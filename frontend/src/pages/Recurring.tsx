@@ -0,0 +1,508 @@
+/**
+ * Recurring Page
+ *
+ * Recurring profiles issue a copy of a template invoice on a schedule.
+ * A profile is created from an existing invoice, e.g. via "Make Recurring"
+ * in the invoice editor, which opens this page with ?invoice=<id>. The
+ * latest invoices to choose from, and the latest invoice of each profile,
+ * are loaded from the server.
+ */
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+    Plus,
+    Repeat,
+    Pencil,
+    Trash2,
+    Pause,
+    Play,
+    Send,
+    X,
+    AlertTriangle,
+    RefreshCw,
+} from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { invoiceService } from '../lib/services/invoiceService';
+import { syncService } from '../lib/services/syncService';
+import { invoiceQuery } from '@backend/services/invoiceQuery';
+import { recurringService as localRecurring } from '@backend/services/recurringService';
+import { dates } from '@backend/services/dates';
+import type { Invoice, InvoiceQuery, RecurringFrequency, RecurringInterval, RecurringProfile, RecurringProfileInput, RecurringTemplate } from '../lib/database.types';
+
+const SOURCE_INVOICES: InvoiceQuery = { ...invoiceQuery.DEFAULT_QUERY, pageSize: invoiceQuery.MAX_PAGE_SIZE };
+
+interface ProfileForm {
+    name: string;
+    invoiceId: string;
+    template: RecurringTemplate | null;
+    frequency: RecurringFrequency;
+    interval: RecurringInterval;
+    startDate: string;
+    endType: 'never' | 'date' | 'runs';
+    endDate: string;
+    maxRuns: string;
+    autoSend: boolean;
+}
+
+const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+    quarterly: 'Quarterly',
+    custom: 'Custom',
+};
+
+const formatDate = (date: string) =>
+    new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }).format(dates.parse(date));
+
+const describeSchedule = (profile: RecurringProfile) => {
+    if (profile.frequency !== 'custom' || !profile.interval) return FREQUENCY_LABELS[profile.frequency];
+    const { count, unit } = profile.interval;
+    return `Every ${count} ${unit}${count === 1 ? '' : 's'}`;
+};
+
+const emptyForm = (): ProfileForm => ({
+    name: '',
+    invoiceId: '',
+    template: null,
+    frequency: 'monthly',
+    interval: { count: 1, unit: 'month' },
+    startDate: dates.today(),
+    endType: 'never',
+    endDate: '',
+    maxRuns: '',
+    autoSend: false,
+});
+
+const inputClass = 'w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white';
+const labelClass = 'mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300';
+
+const LoadingSpinner = () => (
+    <div className="flex items-center justify-center min-h-[400px]">
+        <div className="flex flex-col items-center gap-4">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+            <p className="text-slate-500 dark:text-slate-400">Loading recurring invoices...</p>
+        </div>
+    </div>
+);
+
+const ErrorDisplay = ({ message, onRetry }: { message: string; onRetry: () => void }) => (
+    <div className="flex flex-col items-center justify-center min-h-[400px]">
+        <div className="flex flex-col items-center gap-4 max-w-md text-center">
+            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-rose-100 dark:bg-rose-900/30">
+                <AlertTriangle className="h-6 w-6 text-rose-600 dark:text-rose-400" />
+            </div>
+            <div>
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Failed to load recurring invoices</h3>
+                <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{message}</p>
+            </div>
+            <button onClick={onRetry} className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700">
+                <RefreshCw className="h-4 w-4" />Try Again
+            </button>
+        </div>
+    </div>
+);
+
+export default function Recurring() {
+    const {
+        recurringProfiles, invoices, getClientById, loadInvoice,
+        addRecurringProfile, updateRecurringProfile, setRecurringProfileActive, deleteRecurringProfile,
+        isLoading, error, refreshData, clearError, subscribeToInvoiceChanges,
+    } = useApp();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingProfile, setEditingProfile] = useState<RecurringProfile | null>(null);
+    const [deleteConfirmProfile, setDeleteConfirmProfile] = useState<RecurringProfile | null>(null);
+    const [form, setForm] = useState<ProfileForm>(emptyForm);
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+    const [isSaving, setIsSaving] = useState(false);
+    const [sourceInvoices, setSourceInvoices] = useState<Invoice[]>([]);
+    const [latestIssued, setLatestIssued] = useState<Record<string, Invoice>>({});
+    const [revision, setRevision] = useState(0);
+
+    // Invoices issued or changed elsewhere may be the latest of a profile
+    useEffect(() => subscribeToInvoiceChanges(() => setRevision(prev => prev + 1)), [subscribeToInvoiceChanges]);
+
+    // The latest invoice each profile issued; while offline it is taken
+    // from the invoices already loaded
+    const profileIds = recurringProfiles.map(profile => profile.id).join(',');
+    useEffect(() => {
+        if (isLoading) return;
+        let cancelled = false;
+        const fromLoaded = () => Object.fromEntries(recurringProfiles.flatMap(profile => {
+            const issued = invoices.filter(invoice => invoice.recurringProfileId === profile.id);
+            const last = [...issued].sort((a, b) => (a.recurringPeriod ?? '').localeCompare(b.recurringPeriod ?? '')).pop();
+            return last ? [[profile.id, last]] : [];
+        }));
+
+        invoiceService.getLatestIssued(profileIds ? profileIds.split(',') : [])
+            .catch(err => {
+                if (syncService.isOffline(err)) return fromLoaded();
+                throw err;
+            })
+            .then(latest => {
+                if (!cancelled) setLatestIssued(latest);
+            })
+            .catch(err => console.error('Failed to load the latest recurring invoices:', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [profileIds, revision, isLoading]);
+
+    // The latest invoices to repeat, loaded when the form opens
+    useEffect(() => {
+        if (!isModalOpen) return;
+        let cancelled = false;
+
+        invoiceService.list(SOURCE_INVOICES)
+            .then(page => page.items)
+            .catch(err => {
+                if (syncService.isOffline(err)) return invoices;
+                throw err;
+            })
+            .then(items => {
+                if (!cancelled) setSourceInvoices(items.filter(invoice => invoice.status !== 'void'));
+            })
+            .catch(err => console.error('Failed to load invoices:', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [isModalOpen]);
+
+    // The invoice passed by the editor may be older than those listed
+    const selectedInvoice = invoices.find(invoice => invoice.id === form.invoiceId);
+    const invoiceOptions = selectedInvoice && !sourceInvoices.some(invoice => invoice.id === selectedInvoice.id)
+        ? [selectedInvoice, ...sourceInvoices]
+        : sourceInvoices;
+
+    // Use an invoice as the template, naming the profile after its client;
+    // the template needs the invoice's line items, so it is loaded
+    const selectInvoice = async (invoiceId: string) => {
+        setForm(prev => ({ ...prev, invoiceId, template: null }));
+        const invoice = invoiceId ? await loadInvoice(invoiceId) : undefined;
+        setForm(prev => prev.invoiceId !== invoiceId ? prev : {
+            ...prev,
+            template: invoice ? localRecurring.templateFromInvoice(invoice) : null,
+            name: prev.name || (invoice?.client ? `${invoice.client.name} retainer` : ''),
+        });
+        return invoice;
+    };
+
+    // Open the form for the invoice passed by the editor
+    useEffect(() => {
+        const invoiceId = searchParams.get('invoice');
+        if (!invoiceId || isLoading) return;
+        setSearchParams({}, { replace: true });
+        setForm(emptyForm());
+        setFormErrors({});
+        setEditingProfile(null);
+        selectInvoice(invoiceId).then(invoice => {
+            if (invoice) setIsModalOpen(true);
+        });
+    }, [searchParams, isLoading]);
+
+    const openAddModal = () => {
+        setForm(emptyForm());
+        setFormErrors({});
+        setEditingProfile(null);
+        setIsModalOpen(true);
+    };
+
+    const openEditModal = (profile: RecurringProfile) => {
+        setForm({
+            name: profile.name,
+            invoiceId: '',
+            template: profile.template,
+            frequency: profile.frequency,
+            interval: profile.interval ?? { count: 1, unit: 'month' },
+            startDate: profile.startDate,
+            endType: profile.endDate ? 'date' : profile.maxRuns !== undefined ? 'runs' : 'never',
+            endDate: profile.endDate ?? '',
+            maxRuns: profile.maxRuns !== undefined ? String(profile.maxRuns) : '',
+            autoSend: profile.autoSend,
+        });
+        setFormErrors({});
+        setEditingProfile(profile);
+        setIsModalOpen(true);
+    };
+
+    const closeModal = () => { setIsModalOpen(false); setEditingProfile(null); };
+
+    const updateTemplate = (changes: Partial<RecurringTemplate>) => {
+        setForm(prev => prev.template ? { ...prev, template: { ...prev.template, ...changes } } : prev);
+    };
+
+    const updateLineDescription = (index: number, description: string) => {
+        if (!form.template) return;
+        updateTemplate({ lineItems: form.template.lineItems.map((item, i) => i === index ? { ...item, description } : item) });
+    };
+
+    const toInput = (): RecurringProfileInput | null => {
+        if (!form.template) return null;
+        return {
+            name: form.name,
+            template: form.template,
+            frequency: form.frequency,
+            interval: form.frequency === 'custom' ? form.interval : undefined,
+            startDate: form.startDate,
+            endDate: form.endType === 'date' ? form.endDate : undefined,
+            maxRuns: form.endType === 'runs' ? Number(form.maxRuns) : undefined,
+            autoSend: form.autoSend,
+        };
+    };
+
+    // Descriptions of the first run still to come, with placeholders filled in
+    const previewInput = toInput();
+    const preview = previewInput ? localRecurring.getRunInvoiceInput({
+        ...previewInput,
+        id: editingProfile?.id ?? '',
+        autoSend: form.autoSend,
+        active: true,
+        runCount: editingProfile?.runCount ?? 0,
+        nextRunDate: null,
+        createdAt: '',
+    }, editingProfile?.runCount ?? 0) : null;
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        const input = toInput();
+        if (!input) {
+            setFormErrors({ invoiceId: 'Please choose an invoice to repeat' });
+            return;
+        }
+
+        const validation = localRecurring.validate(input);
+        if (!validation.valid) {
+            setFormErrors(validation.errors);
+            return;
+        }
+
+        setIsSaving(true);
+        setFormErrors({});
+        try {
+            const result = editingProfile
+                ? await updateRecurringProfile(editingProfile.id, input)
+                : await addRecurringProfile(input);
+            if (result.valid) closeModal();
+            else setFormErrors(result.errors);
+        } finally { setIsSaving(false); }
+    };
+
+    const confirmDelete = async () => {
+        if (deleteConfirmProfile) {
+            await deleteRecurringProfile(deleteConfirmProfile.id);
+            setDeleteConfirmProfile(null);
+        }
+    };
+
+    const handleRetry = async () => { clearError(); await refreshData(); };
+
+    if (isLoading) return <LoadingSpinner />;
+    if (error) return <ErrorDisplay message={error} onRetry={handleRetry} />;
+
+    return (
+        <div className="px-4 py-6 sm:px-6 lg:px-8">
+            <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white sm:text-3xl">Recurring</h1>
+                    <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">Invoices issued automatically on a schedule.</p>
+                </div>
+                <button onClick={openAddModal} className="inline-flex items-center justify-center gap-2 rounded-lg bg-indigo-600 px-4 py-2.5 text-sm font-medium text-white shadow-sm transition-colors hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600">
+                    <Plus className="h-4 w-4" />New Profile
+                </button>
+            </div>
+
+            <div className="space-y-4">
+                {recurringProfiles.map((profile) => {
+                    const client = getClientById(profile.template.clientId);
+                    const lastIssued = latestIssued[profile.id];
+
+                    return (
+                        <div key={profile.id} className={`rounded-xl border border-slate-200 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900 ${profile.active ? '' : 'opacity-60'}`}>
+                            <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                                <div className="min-w-0">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <h3 className="font-semibold text-slate-900 dark:text-white">{profile.name}</h3>
+                                        <span className="inline-flex items-center gap-1 rounded-full bg-indigo-100 px-2.5 py-0.5 text-xs font-medium text-indigo-700 dark:bg-indigo-950 dark:text-indigo-400"><Repeat className="h-3 w-3" />{describeSchedule(profile)}</span>
+                                        {profile.autoSend && <span className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-2.5 py-0.5 text-xs font-medium text-blue-700 dark:bg-blue-950 dark:text-blue-400"><Send className="h-3 w-3" />Auto-send</span>}
+                                        {!profile.active && <span className="inline-flex items-center rounded-full bg-slate-100 px-2.5 py-0.5 text-xs font-medium text-slate-600 dark:bg-slate-800 dark:text-slate-400">Paused</span>}
+                                    </div>
+                                    <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{client?.name ?? 'Unknown client'}</p>
+                                    <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+                                        {profile.nextRunDate ? <>Next invoice on <span className="font-medium text-slate-900 dark:text-white">{formatDate(profile.nextRunDate)}</span></> : 'Schedule ended'}
+                                        {' · '}{profile.runCount} issued{profile.maxRuns !== undefined && ` of ${profile.maxRuns}`}
+                                        {profile.endDate && ` · ends ${formatDate(profile.endDate)}`}
+                                    </p>
+                                    {lastIssued && (
+                                        <Link to={`/invoices/${lastIssued.id}/edit`} className="mt-1 inline-block text-sm text-indigo-600 hover:text-indigo-700 dark:text-indigo-400">
+                                            Latest: {lastIssued.invoiceNumber}
+                                        </Link>
+                                    )}
+                                </div>
+                                <div className="flex flex-shrink-0 gap-2">
+                                    {profile.nextRunDate && (
+                                        <button onClick={() => setRecurringProfileActive(profile.id, !profile.active)} title={profile.active ? 'Pause' : 'Resume'} className="rounded-lg p-2 text-slate-400 hover:bg-slate-100 hover:text-slate-600 dark:hover:bg-slate-800 dark:hover:text-slate-300">
+                                            {profile.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                                        </button>
+                                    )}
+                                    <button onClick={() => openEditModal(profile)} title="Edit" className="rounded-lg p-2 text-slate-400 hover:bg-slate-100 hover:text-slate-600 dark:hover:bg-slate-800 dark:hover:text-slate-300"><Pencil className="h-4 w-4" /></button>
+                                    <button onClick={() => setDeleteConfirmProfile(profile)} title="Delete" className="rounded-lg p-2 text-slate-400 hover:bg-rose-50 hover:text-rose-600 dark:hover:bg-rose-950 dark:hover:text-rose-400"><Trash2 className="h-4 w-4" /></button>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {recurringProfiles.length === 0 && (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                    <Repeat className="h-12 w-12 text-slate-300 dark:text-slate-600" />
+                    <h3 className="mt-4 font-semibold text-slate-900 dark:text-white">No recurring invoices</h3>
+                    <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">Repeat an invoice for retainer clients instead of duplicating it every month</p>
+                </div>
+            )}
+
+            {isModalOpen && (
+                <>
+                    <div className="fixed inset-0 z-40 bg-slate-900/60 backdrop-blur-sm" onClick={closeModal} />
+                    <div className="fixed inset-x-4 top-1/2 z-50 max-h-[90vh] -translate-y-1/2 overflow-y-auto rounded-2xl border border-slate-200 bg-white shadow-2xl dark:border-slate-700 dark:bg-slate-900 sm:left-1/2 sm:right-auto sm:w-full sm:max-w-2xl sm:-translate-x-1/2">
+                        <div className="flex items-center justify-between border-b border-slate-200 bg-slate-50 px-6 py-4 dark:border-slate-700 dark:bg-slate-800/50">
+                            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">{editingProfile ? 'Edit Recurring Profile' : 'New Recurring Profile'}</h2>
+                            <button onClick={closeModal} className="rounded-lg p-2 text-slate-400 transition-colors hover:bg-slate-200 hover:text-slate-600 dark:hover:bg-slate-700 dark:hover:text-slate-300"><X className="h-5 w-5" /></button>
+                        </div>
+
+                        <form onSubmit={handleSubmit} className="space-y-5 p-6">
+                            {!editingProfile && (
+                                <div>
+                                    <label className={labelClass}>Invoice to repeat <span className="text-rose-500">*</span></label>
+                                    <select value={form.invoiceId} onChange={(e) => selectInvoice(e.target.value)} className={inputClass} disabled={isSaving}>
+                                        <option value="">Choose an invoice</option>
+                                        {invoiceOptions.map(invoice => (
+                                            <option key={invoice.id} value={invoice.id}>{invoice.invoiceNumber} · {invoice.client?.name ?? 'No client'}</option>
+                                        ))}
+                                    </select>
+                                    {(formErrors.invoiceId || formErrors.clientId) && <p className="mt-1.5 text-sm text-rose-500">{formErrors.invoiceId || formErrors.clientId}</p>}
+                                </div>
+                            )}
+
+                            <div>
+                                <label className={labelClass}>Name <span className="text-rose-500">*</span></label>
+                                <input type="text" value={form.name} onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))} className={inputClass} placeholder="Monthly retainer" disabled={isSaving} />
+                                {formErrors.name && <p className="mt-1.5 text-sm text-rose-500">{formErrors.name}</p>}
+                            </div>
+
+                            <div className="grid gap-4 sm:grid-cols-2">
+                                <div>
+                                    <label className={labelClass}>Repeat</label>
+                                    <select value={form.frequency} onChange={(e) => setForm(prev => ({ ...prev, frequency: e.target.value as RecurringFrequency }))} className={inputClass} disabled={isSaving}>
+                                        {(Object.keys(FREQUENCY_LABELS) as RecurringFrequency[]).map(frequency => <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>)}
+                                    </select>
+                                </div>
+                                {form.frequency === 'custom' && (
+                                    <div>
+                                        <label className={labelClass}>Every</label>
+                                        <div className="flex gap-2">
+                                            <input type="number" min="1" value={form.interval.count} onChange={(e) => setForm(prev => ({ ...prev, interval: { ...prev.interval, count: Number(e.target.value) } }))} className={inputClass} disabled={isSaving} />
+                                            <select value={form.interval.unit} onChange={(e) => setForm(prev => ({ ...prev, interval: { ...prev.interval, unit: e.target.value as RecurringInterval['unit'] } }))} className={inputClass} disabled={isSaving}>
+                                                <option value="day">days</option>
+                                                <option value="week">weeks</option>
+                                                <option value="month">months</option>
+                                            </select>
+                                        </div>
+                                        {formErrors.interval && <p className="mt-1.5 text-sm text-rose-500">{formErrors.interval}</p>}
+                                    </div>
+                                )}
+                                <div>
+                                    <label className={labelClass}>First invoice on</label>
+                                    <input type="date" value={form.startDate} onChange={(e) => setForm(prev => ({ ...prev, startDate: e.target.value }))} className={inputClass} disabled={isSaving} />
+                                    {formErrors.startDate && <p className="mt-1.5 text-sm text-rose-500">{formErrors.startDate}</p>}
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Due after (days)</label>
+                                    <input type="number" min="0" value={form.template?.dueInDays ?? 30} onChange={(e) => updateTemplate({ dueInDays: Number(e.target.value) })} className={inputClass} disabled={isSaving || !form.template} />
+                                    {formErrors.dueInDays && <p className="mt-1.5 text-sm text-rose-500">{formErrors.dueInDays}</p>}
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Ends</label>
+                                    <select value={form.endType} onChange={(e) => setForm(prev => ({ ...prev, endType: e.target.value as ProfileForm['endType'] }))} className={inputClass} disabled={isSaving}>
+                                        <option value="never">Never</option>
+                                        <option value="date">On a date</option>
+                                        <option value="runs">After a number of invoices</option>
+                                    </select>
+                                </div>
+                                {form.endType === 'date' && (
+                                    <div>
+                                        <label className={labelClass}>End date</label>
+                                        <input type="date" value={form.endDate} onChange={(e) => setForm(prev => ({ ...prev, endDate: e.target.value }))} className={inputClass} disabled={isSaving} />
+                                        {formErrors.endDate && <p className="mt-1.5 text-sm text-rose-500">{formErrors.endDate}</p>}
+                                    </div>
+                                )}
+                                {form.endType === 'runs' && (
+                                    <div>
+                                        <label className={labelClass}>Number of invoices</label>
+                                        <input type="number" min="1" value={form.maxRuns} onChange={(e) => setForm(prev => ({ ...prev, maxRuns: e.target.value }))} className={inputClass} disabled={isSaving} />
+                                        {formErrors.maxRuns && <p className="mt-1.5 text-sm text-rose-500">{formErrors.maxRuns}</p>}
+                                    </div>
+                                )}
+                            </div>
+
+                            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                                <input type="checkbox" checked={form.autoSend} onChange={(e) => setForm(prev => ({ ...prev, autoSend: e.target.checked }))} className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" disabled={isSaving} />
+                                Send automatically (otherwise invoices are created as drafts to review)
+                            </label>
+
+                            {form.template && (
+                                <div>
+                                    <label className={labelClass}>Line descriptions</label>
+                                    <p className="mb-2 text-xs text-slate-500 dark:text-slate-400">
+                                        Placeholders are filled in for the period each invoice bills: {localRecurring.PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}
+                                    </p>
+                                    <div className="space-y-2">
+                                        {form.template.lineItems.map((item, index) => (
+                                            <div key={index}>
+                                                <input type="text" value={item.description} onChange={(e) => updateLineDescription(index, e.target.value)} className={inputClass} disabled={isSaving} />
+                                                {preview && preview.lineItems[index] && preview.lineItems[index].description !== item.description && (
+                                                    <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Next: {preview.lineItems[index].description}</p>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                    {formErrors.lineItems && <p className="mt-1.5 text-sm text-rose-500">{formErrors.lineItems}</p>}
+                                </div>
+                            )}
+
+                            {formErrors.general && (
+                                <div className="rounded-lg bg-rose-50 p-4 dark:bg-rose-900/20">
+                                    <p className="text-sm text-rose-600 dark:text-rose-400">{formErrors.general}</p>
+                                </div>
+                            )}
+
+                            <div className="flex items-center justify-end gap-3 border-t border-slate-200 pt-5 dark:border-slate-700">
+                                <button type="button" onClick={closeModal} disabled={isSaving} className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">Cancel</button>
+                                <button type="submit" disabled={isSaving} className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 dark:bg-indigo-500 dark:hover:bg-indigo-600">
+                                    {isSaving ? 'Saving...' : editingProfile ? 'Save Changes' : 'Create Profile'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </>
+            )}
+
+            {deleteConfirmProfile && (
+                <>
+                    <div className="fixed inset-0 z-40 bg-slate-900/50 backdrop-blur-sm" onClick={() => setDeleteConfirmProfile(null)} />
+                    <div className="fixed inset-x-4 top-1/2 z-50 -translate-y-1/2 rounded-xl border border-slate-200 bg-white p-6 shadow-xl dark:border-slate-700 dark:bg-slate-900 sm:left-1/2 sm:right-auto sm:max-w-md sm:-translate-x-1/2">
+                        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Delete Recurring Profile</h3>
+                        <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+                            Stop issuing <span className="font-medium">{deleteConfirmProfile.name}</span>? Invoices it already issued are kept.
+                        </p>
+                        <div className="mt-6 flex justify-end gap-3">
+                            <button type="button" onClick={() => setDeleteConfirmProfile(null)} className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700">Cancel</button>
+                            <button type="button" onClick={confirmDelete} className="rounded-lg bg-rose-600 px-4 py-2 text-sm font-medium text-white hover:bg-rose-700 dark:bg-rose-500 dark:hover:bg-rose-600">Delete</button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
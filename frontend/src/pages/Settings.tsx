@@ -0,0 +1,169 @@
+/**
+ * Settings Page
+ *
+ * Document numbering: the template invoices, credit notes and quotes are
+ * numbered from, and when their series start again at 1. Changes apply to
+ * numbers allocated after saving; existing numbers are never changed.
+ * Below it, the workspace is backed up and restored, and data kept on this
+ * device from before signing in can be imported into the account.
+ */
+
+import { useState, useEffect, FormEvent } from 'react';
+import { Hash, AlertCircle, Check, HardDriveUpload } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import BackupRestore from '../components/BackupRestore';
+import LocalImportWizard from '../components/LocalImportWizard';
+import { importService } from '../lib/services/importService';
+import { invoiceNumberGenerator as localNumbers } from '@backend/services/invoiceNumberGenerator';
+import { dates } from '@backend/services/dates';
+import type { NumberFormat, NumberResetPolicy } from '../lib/database.types';
+
+const RESET_LABELS: Record<NumberResetPolicy, string> = {
+    never: 'Never',
+    yearly: 'Every (fiscal) year',
+    monthly: 'Every month',
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const TOKEN_HELP: [string, string][] = [
+    ['{PREFIX}', 'INV, CN or QUO'],
+    ['{YYYY} / {YY}', 'Year'],
+    ['{MM}', 'Month'],
+    ['{FY}', 'Fiscal year, named after the year it ends in'],
+    ['{CLIENT}', 'First three letters of the client'],
+    ['{SEQ:n}', 'Sequence, padded to n digits'],
+];
+
+export default function Settings() {
+    const { numberFormat, updateNumberFormat, clients } = useApp();
+    const [form, setForm] = useState<NumberFormat>(numberFormat);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [isSaving, setIsSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [importOpen, setImportOpen] = useState(false);
+
+    // Follow the stored format once it has loaded
+    useEffect(() => { setForm(numberFormat); }, [numberFormat]);
+
+    const validation = localNumbers.validateFormat(form);
+    const previewClient = clients[0] ?? { name: 'Acme Inc' };
+    const preview = validation.valid
+        ? (['invoice', 'creditNote', 'quote'] as const).map((series) =>
+            localNumbers.formatNumber(form, { prefix: localNumbers.SERIES[series].prefix, sequence: 1, date: dates.today(), client: previewClient }))
+        : [];
+
+    const updateForm = (changes: Partial<NumberFormat>) => {
+        setForm(prev => ({ ...prev, ...changes }));
+        setErrors({});
+        setSaved(false);
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            const result = await updateNumberFormat(form);
+            if (result.valid) {
+                setSaved(true);
+            } else {
+                setErrors(result.errors);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const fieldError = errors.template ?? (validation.valid ? undefined : Object.values(validation.errors)[0]);
+
+    return (
+        <div className="px-4 py-6 sm:px-6 lg:px-8">
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white sm:text-3xl">Settings</h1>
+                <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">How your documents are numbered, and backups of your data.</p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="max-w-2xl rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+                <div className="mb-5 flex items-center gap-2">
+                    <Hash className="h-5 w-5 text-indigo-500" />
+                    <h2 className="font-semibold text-slate-900 dark:text-white">Document Numbers</h2>
+                </div>
+
+                <div className="space-y-5">
+                    <div>
+                        <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">Template</label>
+                        <input type="text" value={form.template} onChange={(e) => updateForm({ template: e.target.value })} disabled={isSaving}
+                            className={`w-full rounded-lg border ${fieldError ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} bg-white px-3 py-2.5 font-mono text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:bg-slate-800 dark:text-white`} />
+                        {fieldError && <p className="mt-1.5 flex items-center gap-1 text-sm text-red-500"><AlertCircle className="h-4 w-4" />{fieldError}</p>}
+                        <dl className="mt-3 grid grid-cols-1 gap-x-4 gap-y-1 text-xs sm:grid-cols-2">
+                            {TOKEN_HELP.map(([token, description]) => (
+                                <div key={token} className="flex gap-2">
+                                    <dt className="font-mono text-slate-700 dark:text-slate-300">{token}</dt>
+                                    <dd className="text-slate-500 dark:text-slate-400">{description}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                    </div>
+
+                    <div className="grid gap-5 sm:grid-cols-2">
+                        <div>
+                            <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">Start again at 1</label>
+                            <select value={form.reset} onChange={(e) => updateForm({ reset: e.target.value as NumberResetPolicy })} disabled={isSaving}
+                                className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white">
+                                {Object.entries(RESET_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">Fiscal year starts in</label>
+                            <select value={form.fiscalYearStartMonth} onChange={(e) => updateForm({ fiscalYearStartMonth: Number(e.target.value) })} disabled={isSaving}
+                                className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white">
+                                {MONTHS.map((month, index) => <option key={month} value={index + 1}>{month}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    {preview.length > 0 && (
+                        <div className="rounded-lg bg-slate-50 px-4 py-3 text-sm dark:bg-slate-800/50">
+                            <span className="text-slate-500 dark:text-slate-400">Next numbers in a new period: </span>
+                            <span className="font-mono text-slate-900 dark:text-white">{preview.join(', ')}</span>
+                        </div>
+                    )}
+
+                    {errors.general && (
+                        <div className="flex items-center gap-2 rounded-lg bg-rose-50 p-3 text-sm text-rose-600 dark:bg-rose-900/20 dark:text-rose-400">
+                            <AlertCircle className="h-4 w-4 flex-shrink-0" />{errors.general}
+                        </div>
+                    )}
+                </div>
+
+                <div className="mt-6 flex items-center justify-end gap-3">
+                    {saved && <span className="flex items-center gap-1 text-sm text-emerald-600 dark:text-emerald-400"><Check className="h-4 w-4" />Saved</span>}
+                    <button type="submit" disabled={isSaving || !validation.valid}
+                        className="rounded-lg bg-indigo-600 px-4 py-2.5 text-sm font-medium text-white shadow-sm transition-colors hover:bg-indigo-700 disabled:opacity-50 dark:bg-indigo-500 dark:hover:bg-indigo-600">
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </form>
+
+            <BackupRestore />
+
+            {importService.hasLocalData() && (
+                <section className="mt-6 max-w-2xl rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+                    <div className="mb-3 flex items-center gap-2">
+                        <HardDriveUpload className="h-5 w-5 text-indigo-500" />
+                        <h2 className="font-semibold text-slate-900 dark:text-white">Data on this device</h2>
+                    </div>
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <p className="text-sm text-slate-500 dark:text-slate-400">Import clients and invoices kept on this device into your account. What is already imported is skipped.</p>
+                        <button type="button" onClick={() => setImportOpen(true)}
+                            className="rounded-lg border border-slate-300 px-4 py-2.5 text-sm font-medium text-slate-700 transition-colors hover:bg-slate-50 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-800">
+                            Import
+                        </button>
+                    </div>
+                </section>
+            )}
+
+            {importOpen && <LocalImportWizard onClose={() => setImportOpen(false)} />}
+        </div>
+    );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import {
     FileText,
@@ -12,13 +12,23 @@ import {
     MapPin,
     Calendar,
     ArrowLeft,
+    AlertCircle,
+    ShieldCheck,
 } from 'lucide-react';
 import { useApp } from '../context/AppContext';
 import { downloadInvoicePDF } from '@backend/services/pdfService';
+import { invoiceStatusService } from '@backend/services/invoiceStatusService';
+import StatusHistory from '../components/StatusHistory';
+import { taxService } from '@backend/services/taxService';
+import { discountService } from '@backend/services/discountService';
+import { paymentTermsService } from '@backend/services/paymentTermsService';
+import { paymentGateway } from '@backend/services/paymentGateway';
+import { money } from '@backend/services/money';
+import type { CardDetails, PaymentIntent } from '../lib/database.types';
 
 // Format currency
-const formatCurrency = (amount: number) =>
-    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+const formatCurrency = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
 
 // Format date
 const formatDate = (date: string) =>
@@ -26,13 +36,17 @@ const formatDate = (date: string) =>
         new Date(date)
     );
 
+const EMPTY_CARD: CardDetails = { number: '', expiry: '', cvc: '', name: '' };
+
 // Status badge component
 const StatusBadge = ({ status }: { status: string }) => {
     const styles = {
         paid: 'bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-400 dark:border-emerald-800',
         sent: 'bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-400 dark:border-blue-800',
+        partially_paid: 'bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-400 dark:border-amber-800',
         overdue: 'bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-950 dark:text-rose-400 dark:border-rose-800',
         draft: 'bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-400 dark:border-slate-700',
+        void: 'bg-slate-100 text-slate-500 border-slate-300 dark:bg-slate-800 dark:text-slate-400 dark:border-slate-600',
     };
 
     return (
@@ -41,19 +55,40 @@ const StatusBadge = ({ status }: { status: string }) => {
                 }`}
         >
             {status === 'paid' && <Check className="mr-1.5 h-4 w-4" />}
-            {status}
+            {status.replace('_', ' ')}
         </span>
     );
 };
 
 export default function ShareableInvoice() {
     const { id } = useParams();
-    const { getInvoiceById, markInvoiceAsPaid } = useApp();
+    const { getInvoiceById, loadInvoice, startOnlinePayment, confirmOnlinePayment, isLoading } = useApp();
     const invoice = getInvoiceById(id || '');
+    // The invoice is loaded with its line items when the page is opened
+    const [isInvoiceLoading, setIsInvoiceLoading] = useState(true);
     const [paymentModalOpen, setPaymentModalOpen] = useState(false);
-    const [paymentSuccess, setPaymentSuccess] = useState(false);
+    const [paymentIntent, setPaymentIntent] = useState<PaymentIntent | null>(null);
+    const [card, setCard] = useState<CardDetails>(EMPTY_CARD);
+    const [cardErrors, setCardErrors] = useState<Record<string, string>>({});
+    const [paymentError, setPaymentError] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
 
+    useEffect(() => {
+        if (!id) {
+            setIsInvoiceLoading(false);
+            return;
+        }
+        if (isLoading) return;
+        let cancelled = false;
+        loadInvoice(id).finally(() => {
+            if (!cancelled) setIsInvoiceLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [id, isLoading, loadInvoice]);
+
     // Mock company info
     const companyInfo = {
         name: 'Invoicey',
@@ -77,16 +112,75 @@ export default function ShareableInvoice() {
         }
     };
 
+    const paymentSuccess = paymentIntent?.status === 'succeeded';
+    const awaitingAuthentication = paymentIntent?.status === 'requires_action';
+
+    // Start a payment intent for the balance due and open the modal
+    const openPaymentModal = async () => {
+        if (!invoice) return;
+        setCard(EMPTY_CARD);
+        setCardErrors({});
+        setPaymentError('');
+        setPaymentIntent(null);
+        setPaymentModalOpen(true);
+
+        const result = await startOnlinePayment(invoice.id);
+        if (result.valid && result.data) {
+            setPaymentIntent(result.data);
+        } else {
+            setPaymentError(Object.values(result.errors)[0]);
+        }
+    };
+
+    const closePaymentModal = () => {
+        setPaymentModalOpen(false);
+        setPaymentIntent(null);
+    };
+
+    // Confirm the intent with the provider; the invoice is only updated when it succeeds
+    const confirmPayment = async (details?: CardDetails) => {
+        if (!paymentIntent) return;
+        setIsProcessing(true);
+        setPaymentError('');
+        try {
+            const result = await confirmOnlinePayment(paymentIntent.id, details);
+            if (!result.valid || !result.data) {
+                setPaymentError(Object.values(result.errors)[0]);
+                return;
+            }
+            setPaymentIntent(result.data);
+            if (result.data.status === 'failed') {
+                setPaymentError(result.data.failureReason || 'Your payment was declined.');
+            }
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
     // Handler for payment submission
     const handlePaymentSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        // Mark invoice as paid in the context
-        if (invoice) {
-            markInvoiceAsPaid(invoice.id);
+        const validation = paymentGateway.validateCard(card);
+        setCardErrors(validation.errors);
+        if (validation.valid) {
+            confirmPayment(card);
         }
-        setPaymentSuccess(true);
     };
 
+    // Abandoning 3-D Secure leaves the intent unusable, so start over with a new one
+    const handleCancelAuthentication = async () => {
+        await openPaymentModal();
+        setPaymentError('Authentication was cancelled. Your card has not been charged.');
+    };
+
+    if (!invoice && isInvoiceLoading) {
+        return (
+            <div className="flex min-h-screen items-center justify-center bg-slate-50 font-sans dark:bg-slate-950">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+            </div>
+        );
+    }
+
     if (!invoice) {
         return (
             <div className="flex min-h-screen items-center justify-center bg-slate-50 font-sans dark:bg-slate-950">
@@ -130,9 +224,9 @@ export default function ShareableInvoice() {
                             <Download className="h-4 w-4" />
                             {isDownloading ? 'Downloading...' : 'Download PDF'}
                         </button>
-                        {invoice.status !== 'paid' && (
+                        {invoice.status !== 'paid' && invoice.balanceDue > 0 && (
                             <button
-                                onClick={() => setPaymentModalOpen(true)}
+                                onClick={openPaymentModal}
                                 className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
                             >
                                 <CreditCard className="h-4 w-4" />
@@ -145,7 +239,21 @@ export default function ShareableInvoice() {
 
             {/* Invoice Content */}
             <div className="mx-auto max-w-4xl px-4 py-8">
-                <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-xl dark:border-slate-800 dark:bg-slate-900">
+                <div className="relative overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-xl dark:border-slate-800 dark:bg-slate-900">
+                    {/* Void Watermark */}
+                    {invoice.status === 'void' && (
+                        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center" aria-hidden="true">
+                            <span className="-rotate-45 select-none text-[10rem] font-black tracking-widest text-rose-500/15 dark:text-rose-400/15">VOID</span>
+                        </div>
+                    )}
+
+                    {/* Void Notice */}
+                    {invoice.status === 'void' && (
+                        <div className="border-b border-rose-200 bg-rose-50 px-6 py-3 text-sm text-rose-700 dark:border-rose-900 dark:bg-rose-950/40 dark:text-rose-400 sm:px-10">
+                            This invoice has been voided{invoiceStatusService.getVoidReason(invoice) ? `: ${invoiceStatusService.getVoidReason(invoice)}` : ''}. Nothing is owed on it.
+                        </div>
+                    )}
+
                     {/* Invoice Header */}
                     <div className="border-b border-slate-200 bg-gradient-to-r from-slate-50 to-slate-100 px-6 py-8 dark:border-slate-800 dark:from-slate-900 dark:to-slate-800 sm:px-10">
                         <div className="flex flex-col gap-6 sm:flex-row sm:items-start sm:justify-between">
@@ -242,6 +350,11 @@ export default function ShareableInvoice() {
                                     <Calendar className="h-4 w-4" />
                                     {formatDate(invoice.dueDate)}
                                 </p>
+                                {invoice.paymentTerms && (
+                                    <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400 sm:text-right">
+                                        {paymentTermsService.formatTerms(invoice.paymentTerms)}
+                                    </p>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -274,15 +387,22 @@ export default function ShareableInvoice() {
                                 <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
                                     {invoice.lineItems.map((item) => (
                                         <tr key={item.id}>
-                                            <td className="px-4 py-4 text-slate-900 dark:text-white">{item.description}</td>
+                                            <td className="px-4 py-4 text-slate-900 dark:text-white">
+                                                {item.description}
+                                                {discountService.hasDiscount(item.discount) && (
+                                                    <span className="block text-xs text-emerald-600 dark:text-emerald-400">
+                                                        Less {discountService.formatDiscount(item.discount, invoice.currency)} discount
+                                                    </span>
+                                                )}
+                                            </td>
                                             <td className="px-4 py-4 text-center font-mono text-slate-600 dark:text-slate-400">
                                                 {item.quantity}
                                             </td>
                                             <td className="px-4 py-4 text-right font-mono text-slate-600 dark:text-slate-400">
-                                                {formatCurrency(item.rate)}
+                                                {formatCurrency(item.rate, invoice.currency)}
                                             </td>
                                             <td className="px-4 py-4 text-right font-mono font-medium text-slate-900 dark:text-white">
-                                                {formatCurrency(item.amount)}
+                                                {formatCurrency(item.amount, invoice.currency)}
                                             </td>
                                         </tr>
                                     ))}
@@ -295,12 +415,17 @@ export default function ShareableInvoice() {
                             {invoice.lineItems.map((item) => (
                                 <div key={item.id} className="p-4">
                                     <p className="font-medium text-slate-900 dark:text-white">{item.description}</p>
+                                    {discountService.hasDiscount(item.discount) && (
+                                        <p className="text-xs text-emerald-600 dark:text-emerald-400">
+                                            Less {discountService.formatDiscount(item.discount, invoice.currency)} discount
+                                        </p>
+                                    )}
                                     <div className="mt-2 flex items-center justify-between text-sm">
                                         <span className="text-slate-500 dark:text-slate-400">
-                                            {item.quantity} × {formatCurrency(item.rate)}
+                                            {item.quantity} × {formatCurrency(item.rate, invoice.currency)}
                                         </span>
                                         <span className="font-mono font-medium text-slate-900 dark:text-white">
-                                            {formatCurrency(item.amount)}
+                                            {formatCurrency(item.amount, invoice.currency)}
                                         </span>
                                     </div>
                                 </div>
@@ -313,23 +438,63 @@ export default function ShareableInvoice() {
                                 <div className="flex items-center justify-between text-sm">
                                     <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
                                     <span className="font-mono text-slate-900 dark:text-white">
-                                        {formatCurrency(invoice.subtotal)}
-                                    </span>
-                                </div>
-                                <div className="flex items-center justify-between text-sm">
-                                    <span className="text-slate-600 dark:text-slate-400">Tax</span>
-                                    <span className="font-mono text-slate-900 dark:text-white">
-                                        {formatCurrency(invoice.tax)}
+                                        {formatCurrency(invoice.subtotal, invoice.currency)}
                                     </span>
                                 </div>
+                                {discountService.hasDiscount(invoice.discount) && invoice.discountAmount > 0 && (
+                                    <div className="flex items-center justify-between text-sm">
+                                        <span className="text-slate-600 dark:text-slate-400">
+                                            {discountService.formatDiscountLabel(invoice.discount)}
+                                        </span>
+                                        <span className="font-mono text-emerald-600 dark:text-emerald-400">
+                                            -{formatCurrency(invoice.discountAmount, invoice.currency)}
+                                        </span>
+                                    </div>
+                                )}
+                                {taxService.getInvoiceBreakdown(invoice).map((entry) => (
+                                    <div key={`${entry.name}|${entry.rate}`} className="flex items-center justify-between text-sm">
+                                        <span className="text-slate-600 dark:text-slate-400">
+                                            {taxService.formatTaxRateLabel(entry)}
+                                        </span>
+                                        <span className="font-mono text-slate-900 dark:text-white">
+                                            {formatCurrency(entry.tax, invoice.currency)}
+                                        </span>
+                                    </div>
+                                ))}
                                 <div className="border-t border-slate-200 pt-2 dark:border-slate-700">
                                     <div className="flex items-center justify-between">
                                         <span className="text-lg font-semibold text-slate-900 dark:text-white">Total</span>
                                         <span className="font-mono text-2xl font-bold text-slate-900 dark:text-white">
-                                            {formatCurrency(invoice.total)}
+                                            {formatCurrency(invoice.total, invoice.currency)}
                                         </span>
                                     </div>
                                 </div>
+                                {(invoice.amountPaid > 0 || invoice.creditedAmount > 0) && (
+                                    <>
+                                        {invoice.creditedAmount > 0 && (
+                                            <div className="flex items-center justify-between text-sm">
+                                                <span className="text-slate-600 dark:text-slate-400">Credited</span>
+                                                <span className="font-mono text-rose-600 dark:text-rose-400">
+                                                    -{formatCurrency(invoice.creditedAmount, invoice.currency)}
+                                                </span>
+                                            </div>
+                                        )}
+                                        {invoice.amountPaid > 0 && (
+                                            <div className="flex items-center justify-between text-sm">
+                                                <span className="text-slate-600 dark:text-slate-400">Amount Paid</span>
+                                                <span className="font-mono text-emerald-600 dark:text-emerald-400">
+                                                    -{formatCurrency(invoice.amountPaid, invoice.currency)}
+                                                </span>
+                                            </div>
+                                        )}
+                                        <div className="flex items-center justify-between">
+                                            <span className="font-semibold text-slate-900 dark:text-white">Balance Due</span>
+                                            <span className="font-mono text-lg font-bold text-slate-900 dark:text-white">
+                                                {formatCurrency(invoice.balanceDue, invoice.currency)}
+                                            </span>
+                                        </div>
+                                    </>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -344,6 +509,13 @@ export default function ShareableInvoice() {
                         </div>
                     )}
 
+                    {/* Status History */}
+                    {invoice.statusHistory.length > 0 && (
+                        <div className="border-t border-slate-200 px-6 py-6 dark:border-slate-800 sm:px-10">
+                            <StatusHistory history={invoice.statusHistory} />
+                        </div>
+                    )}
+
                     {/* Footer */}
                     <div className="border-t border-slate-200 px-6 py-4 text-center text-xs text-slate-500 dark:border-slate-800 dark:text-slate-400 sm:px-10">
                         Thank you for your business!
@@ -357,11 +529,11 @@ export default function ShareableInvoice() {
                     <div
                         className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm"
                         onClick={() => {
-                            if (!paymentSuccess) setPaymentModalOpen(false);
+                            if (!paymentSuccess && !isProcessing) closePaymentModal();
                         }}
                     />
                     <div className="fixed inset-x-4 top-1/2 z-50 max-h-[85vh] -translate-y-1/2 overflow-y-auto rounded-2xl border border-slate-200 bg-white shadow-2xl dark:border-slate-700 dark:bg-slate-900 sm:left-1/2 sm:right-auto sm:w-full sm:max-w-md sm:-translate-x-1/2">
-                        {paymentSuccess ? (
+                        {paymentSuccess && paymentIntent ? (
                             // Success State
                             <div className="p-8 text-center">
                                 <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-emerald-100 dark:bg-emerald-950">
@@ -371,18 +543,42 @@ export default function ShareableInvoice() {
                                     Payment Successful!
                                 </h2>
                                 <p className="mt-2 text-slate-600 dark:text-slate-400">
-                                    Thank you for your payment of {formatCurrency(invoice.total)}.
+                                    Thank you for your payment of {money.format(paymentIntent.amount, paymentIntent.currency)}.
                                 </p>
                                 <button
-                                    onClick={() => {
-                                        setPaymentModalOpen(false);
-                                        setPaymentSuccess(false);
-                                    }}
+                                    onClick={closePaymentModal}
                                     className="mt-6 w-full rounded-lg bg-indigo-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
                                 >
                                     Done
                                 </button>
                             </div>
+                        ) : awaitingAuthentication ? (
+                            // 3-D Secure State
+                            <div className="p-8 text-center">
+                                <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-indigo-100 dark:bg-indigo-950">
+                                    <ShieldCheck className="h-8 w-8 text-indigo-600 dark:text-indigo-400" />
+                                </div>
+                                <h2 className="mt-4 text-xl font-bold text-slate-900 dark:text-white">
+                                    Confirm with your bank
+                                </h2>
+                                <p className="mt-2 text-slate-600 dark:text-slate-400">
+                                    Your bank needs you to approve this payment of {money.format(paymentIntent.amount, paymentIntent.currency)} to the card ending in {paymentIntent.cardLast4}.
+                                </p>
+                                <button
+                                    onClick={() => confirmPayment()}
+                                    disabled={isProcessing}
+                                    className="mt-6 w-full rounded-lg bg-indigo-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500 dark:hover:bg-indigo-600"
+                                >
+                                    {isProcessing ? 'Confirming...' : 'Approve Payment'}
+                                </button>
+                                <button
+                                    onClick={handleCancelAuthentication}
+                                    disabled={isProcessing}
+                                    className="mt-3 w-full rounded-lg border border-slate-300 bg-white px-4 py-2.5 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
                         ) : (
                             // Payment Form
                             <>
@@ -391,7 +587,8 @@ export default function ShareableInvoice() {
                                         Pay Invoice
                                     </h2>
                                     <button
-                                        onClick={() => setPaymentModalOpen(false)}
+                                        onClick={closePaymentModal}
+                                        disabled={isProcessing}
                                         className="rounded-lg p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-600 dark:hover:bg-slate-800 dark:hover:text-slate-300"
                                     >
                                         <X className="h-5 w-5" />
@@ -402,11 +599,18 @@ export default function ShareableInvoice() {
                                         <div className="flex items-center justify-between">
                                             <span className="text-sm text-slate-600 dark:text-slate-400">Amount Due</span>
                                             <span className="font-mono text-xl font-bold text-slate-900 dark:text-white">
-                                                {formatCurrency(invoice.total)}
+                                                {formatCurrency(invoice.balanceDue, invoice.currency)}
                                             </span>
                                         </div>
                                     </div>
 
+                                    {paymentError && (
+                                        <div className="mb-4 flex items-start gap-2 rounded-lg border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950 dark:text-rose-400">
+                                            <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                                            {paymentError}
+                                        </div>
+                                    )}
+
                                     <form onSubmit={handlePaymentSubmit}>
                                         <div className="space-y-4">
                                             <div>
@@ -415,9 +619,12 @@ export default function ShareableInvoice() {
                                                 </label>
                                                 <input
                                                     type="text"
+                                                    value={card.number}
+                                                    onChange={(e) => setCard({ ...card, number: e.target.value })}
                                                     placeholder="4242 4242 4242 4242"
-                                                    className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white font-mono"
+                                                    className={`w-full rounded-lg border bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:bg-slate-800 dark:text-white ${cardErrors.number ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} font-mono`}
                                                 />
+                                                {cardErrors.number && <p className="mt-1 text-xs text-red-500">{cardErrors.number}</p>}
                                             </div>
                                             <div className="grid grid-cols-2 gap-4">
                                                 <div>
@@ -426,9 +633,12 @@ export default function ShareableInvoice() {
                                                     </label>
                                                     <input
                                                         type="text"
+                                                        value={card.expiry}
+                                                        onChange={(e) => setCard({ ...card, expiry: e.target.value })}
                                                         placeholder="MM / YY"
-                                                        className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white font-mono"
+                                                        className={`w-full rounded-lg border bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:bg-slate-800 dark:text-white ${cardErrors.expiry ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} font-mono`}
                                                     />
+                                                    {cardErrors.expiry && <p className="mt-1 text-xs text-red-500">{cardErrors.expiry}</p>}
                                                 </div>
                                                 <div>
                                                     <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">
@@ -436,9 +646,12 @@ export default function ShareableInvoice() {
                                                     </label>
                                                     <input
                                                         type="text"
+                                                        value={card.cvc}
+                                                        onChange={(e) => setCard({ ...card, cvc: e.target.value })}
                                                         placeholder="123"
-                                                        className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white font-mono"
+                                                        className={`w-full rounded-lg border bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:bg-slate-800 dark:text-white ${cardErrors.cvc ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} font-mono`}
                                                     />
+                                                    {cardErrors.cvc && <p className="mt-1 text-xs text-red-500">{cardErrors.cvc}</p>}
                                                 </div>
                                             </div>
                                             <div>
@@ -447,21 +660,25 @@ export default function ShareableInvoice() {
                                                 </label>
                                                 <input
                                                     type="text"
+                                                    value={card.name}
+                                                    onChange={(e) => setCard({ ...card, name: e.target.value })}
                                                     placeholder="John Doe"
-                                                    className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white"
+                                                    className={`w-full rounded-lg border bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:bg-slate-800 dark:text-white ${cardErrors.name ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'}`}
                                                 />
+                                                {cardErrors.name && <p className="mt-1 text-xs text-red-500">{cardErrors.name}</p>}
                                             </div>
                                         </div>
                                         <button
                                             type="submit"
-                                            className="mt-6 w-full rounded-lg bg-indigo-600 px-4 py-3 text-sm font-medium text-white hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+                                            disabled={!paymentIntent || isProcessing}
+                                            className="mt-6 w-full rounded-lg bg-indigo-600 px-4 py-3 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed dark:bg-indigo-500 dark:hover:bg-indigo-600"
                                         >
-                                            Pay {formatCurrency(invoice.total)}
+                                            {isProcessing ? 'Processing...' : `Pay ${formatCurrency(invoice.balanceDue, invoice.currency)}`}
                                         </button>
                                     </form>
 
                                     <p className="mt-4 text-center text-xs text-slate-500 dark:text-slate-400">
-                                        This is a demo. No actual payment will be processed.
+                                        Test mode. Use {paymentGateway.MOCK_CARDS.success} to pay, {paymentGateway.MOCK_CARDS.declined} for a decline or {paymentGateway.MOCK_CARDS.authenticate} for 3-D Secure.
                                     </p>
                                 </div>
                             </>
@@ -0,0 +1,443 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import {
+    ClipboardList,
+    FileText,
+    Check,
+    X,
+    Building2,
+    Mail,
+    Phone,
+    MapPin,
+    Calendar,
+    ArrowLeft,
+    AlertCircle,
+} from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { taxService } from '@backend/services/taxService';
+import { discountService } from '@backend/services/discountService';
+
+// Format currency
+const formatCurrency = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+// Format date
+const formatDate = (date: string) =>
+    new Intl.DateTimeFormat('en-US', { month: 'long', day: 'numeric', year: 'numeric' }).format(
+        new Date(date)
+    );
+
+type Answer = 'accept' | 'decline';
+
+// Status badge component
+const StatusBadge = ({ status }: { status: string }) => {
+    const styles = {
+        accepted: 'bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-400 dark:border-emerald-800',
+        sent: 'bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-400 dark:border-blue-800',
+        declined: 'bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-950 dark:text-rose-400 dark:border-rose-800',
+        expired: 'bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-400 dark:border-amber-800',
+        draft: 'bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-400 dark:border-slate-700',
+    };
+
+    return (
+        <span
+            className={`inline-flex items-center rounded-lg border px-3 py-1 text-sm font-medium capitalize ${styles[status as keyof typeof styles]
+                }`}
+        >
+            {status === 'accepted' && <Check className="mr-1.5 h-4 w-4" />}
+            {status}
+        </span>
+    );
+};
+
+export default function ShareableQuote() {
+    const { id } = useParams();
+    const { getQuoteById, acceptQuote, declineQuote } = useApp();
+    const quote = getQuoteById(id || '');
+    const [answer, setAnswer] = useState<Answer | null>(null);
+    const [name, setName] = useState('');
+    const [reason, setReason] = useState('');
+    const [responseError, setResponseError] = useState('');
+    const [isResponding, setIsResponding] = useState(false);
+
+    // Mock company info
+    const companyInfo = {
+        name: 'Invoicey',
+        email: 'hello@invoicey.com',
+        phone: '+1 (555) 000-1234',
+        address: '100 Main Street, Suite 200, San Francisco, CA 94105',
+    };
+
+    const openResponseModal = (selected: Answer) => {
+        setAnswer(selected);
+        setResponseError('');
+    };
+
+    const closeResponseModal = () => setAnswer(null);
+
+    // Record the answer; the quote shows its new status once it is saved
+    const handleResponseSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!quote || !answer) return;
+        if (!name.trim()) {
+            setResponseError('Please enter your name');
+            return;
+        }
+        setIsResponding(true);
+        setResponseError('');
+        try {
+            const response = { name, reason: answer === 'decline' ? reason : undefined };
+            const result = answer === 'accept' ? await acceptQuote(quote.id, response) : await declineQuote(quote.id, response);
+            if (result.valid) {
+                setAnswer(null);
+            } else {
+                setResponseError(Object.values(result.errors)[0]);
+            }
+        } finally {
+            setIsResponding(false);
+        }
+    };
+
+    if (!quote) {
+        return (
+            <div className="flex min-h-screen items-center justify-center bg-slate-50 font-sans dark:bg-slate-950">
+                <div className="text-center">
+                    <ClipboardList className="mx-auto h-16 w-16 text-slate-300 dark:text-slate-600" />
+                    <h1 className="mt-4 text-xl font-semibold text-slate-900 dark:text-white">
+                        Quote not found
+                    </h1>
+                    <p className="mt-2 text-slate-500 dark:text-slate-400">
+                        This quote doesn't exist or has been removed.
+                    </p>
+                    <Link
+                        to="/"
+                        className="mt-6 inline-flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-700 dark:text-indigo-400"
+                    >
+                        <ArrowLeft className="h-4 w-4" />
+                        Back to Dashboard
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    const canRespond = quote.status === 'sent';
+
+    return (
+        <div className="min-h-screen bg-slate-100 font-sans dark:bg-slate-950">
+            {/* Header Bar */}
+            <div className="sticky top-0 z-40 border-b border-slate-200 bg-white/80 backdrop-blur-sm dark:border-slate-800 dark:bg-slate-900/80">
+                <div className="mx-auto flex max-w-4xl items-center justify-between px-4 py-3">
+                    <div className="flex items-center gap-3">
+                        <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-indigo-600 dark:bg-indigo-500">
+                            <FileText className="h-4 w-4 text-white" />
+                        </div>
+                        <span className="font-bold text-slate-900 dark:text-white">Invoicey</span>
+                    </div>
+                    {canRespond && (
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => openResponseModal('decline')}
+                                className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300 dark:hover:bg-slate-700"
+                            >
+                                <X className="h-4 w-4" />
+                                Decline
+                            </button>
+                            <button
+                                onClick={() => openResponseModal('accept')}
+                                className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+                            >
+                                <Check className="h-4 w-4" />
+                                Accept Quote
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Quote Content */}
+            <div className="mx-auto max-w-4xl px-4 py-8">
+                <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-xl dark:border-slate-800 dark:bg-slate-900">
+                    {/* Response Notice */}
+                    {quote.status === 'accepted' && (
+                        <div className="border-b border-emerald-200 bg-emerald-50 px-6 py-3 text-sm text-emerald-700 dark:border-emerald-900 dark:bg-emerald-950/40 dark:text-emerald-400 sm:px-10">
+                            Accepted by {quote.respondedBy}{quote.respondedAt ? ` on ${formatDate(quote.respondedAt)}` : ''}. Thank you!
+                        </div>
+                    )}
+                    {quote.status === 'declined' && (
+                        <div className="border-b border-rose-200 bg-rose-50 px-6 py-3 text-sm text-rose-700 dark:border-rose-900 dark:bg-rose-950/40 dark:text-rose-400 sm:px-10">
+                            Declined by {quote.respondedBy}{quote.declineReason ? `: ${quote.declineReason}` : ''}.
+                        </div>
+                    )}
+                    {quote.status === 'expired' && (
+                        <div className="border-b border-amber-200 bg-amber-50 px-6 py-3 text-sm text-amber-700 dark:border-amber-900 dark:bg-amber-950/40 dark:text-amber-400 sm:px-10">
+                            This quote expired on {formatDate(quote.expiryDate)}. Please ask {companyInfo.name} for a new one.
+                        </div>
+                    )}
+
+                    {/* Quote Header */}
+                    <div className="border-b border-slate-200 bg-gradient-to-r from-slate-50 to-slate-100 px-6 py-8 dark:border-slate-800 dark:from-slate-900 dark:to-slate-800 sm:px-10">
+                        <div className="flex flex-col gap-6 sm:flex-row sm:items-start sm:justify-between">
+                            {/* Company Info */}
+                            <div>
+                                <div className="flex items-center gap-3">
+                                    <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-indigo-600 dark:bg-indigo-500">
+                                        <FileText className="h-6 w-6 text-white" />
+                                    </div>
+                                    <h1 className="text-2xl font-bold text-slate-900 dark:text-white">
+                                        {companyInfo.name}
+                                    </h1>
+                                </div>
+                                <div className="mt-4 space-y-1 text-sm text-slate-600 dark:text-slate-400">
+                                    <p className="flex items-center gap-2">
+                                        <Mail className="h-4 w-4" />
+                                        {companyInfo.email}
+                                    </p>
+                                    <p className="flex items-center gap-2">
+                                        <Phone className="h-4 w-4" />
+                                        {companyInfo.phone}
+                                    </p>
+                                    <p className="flex items-start gap-2">
+                                        <MapPin className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                                        {companyInfo.address}
+                                    </p>
+                                </div>
+                            </div>
+
+                            {/* Quote Meta */}
+                            <div className="text-left sm:text-right">
+                                <h2 className="text-lg font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                                    Quote
+                                </h2>
+                                <p className="mt-1 font-mono text-2xl font-bold text-slate-900 dark:text-white">
+                                    {quote.quoteNumber}
+                                </p>
+                                <div className="mt-4">
+                                    <StatusBadge status={quote.status} />
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Client Details */}
+                    <div className="grid gap-6 border-b border-slate-200 px-6 py-6 dark:border-slate-800 sm:grid-cols-2 sm:px-10">
+                        {/* Prepared For */}
+                        <div>
+                            <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                                Prepared For
+                            </h3>
+                            <div className="mt-2">
+                                {quote.client ? (
+                                    <>
+                                        <p className="font-semibold text-slate-900 dark:text-white">{quote.client.name}</p>
+                                        {quote.client.company && (
+                                            <p className="text-sm text-slate-600 dark:text-slate-400">
+                                                <Building2 className="mr-1.5 inline h-4 w-4" />
+                                                {quote.client.company}
+                                            </p>
+                                        )}
+                                        <p className="text-sm text-slate-600 dark:text-slate-400">
+                                            <Mail className="mr-1.5 inline h-4 w-4" />
+                                            {quote.client.email}
+                                        </p>
+                                        {quote.client.address && (
+                                            <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                                                {quote.client.address}
+                                            </p>
+                                        )}
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-slate-500 dark:text-slate-400">No client assigned</p>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Dates */}
+                        <div className="space-y-3 sm:text-right">
+                            <div>
+                                <span className="text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                                    Issue Date
+                                </span>
+                                <p className="mt-1 flex items-center gap-1.5 text-slate-900 dark:text-white sm:justify-end">
+                                    <Calendar className="h-4 w-4 text-slate-400" />
+                                    {formatDate(quote.issueDate)}
+                                </p>
+                            </div>
+                            <div>
+                                <span className="text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                                    Valid Until
+                                </span>
+                                <p className={`mt-1 flex items-center gap-1.5 sm:justify-end ${quote.status === 'expired' ? 'font-semibold text-amber-600 dark:text-amber-400' : 'text-slate-900 dark:text-white'}`}>
+                                    <Calendar className="h-4 w-4" />
+                                    {formatDate(quote.expiryDate)}
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Line Items */}
+                    <div className="px-6 py-6 sm:px-10">
+                        <h3 className="mb-4 text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                            Items
+                        </h3>
+
+                        <div className="divide-y divide-slate-200 rounded-lg border border-slate-200 dark:divide-slate-700 dark:border-slate-700">
+                            {quote.lineItems.map((item) => (
+                                <div key={item.id} className="flex items-start justify-between gap-4 p-4">
+                                    <div>
+                                        <p className="font-medium text-slate-900 dark:text-white">{item.description}</p>
+                                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                                            {item.quantity} × {formatCurrency(item.rate, quote.currency)}
+                                        </p>
+                                        {discountService.hasDiscount(item.discount) && (
+                                            <p className="text-xs text-emerald-600 dark:text-emerald-400">
+                                                Less {discountService.formatDiscount(item.discount, quote.currency)} discount
+                                            </p>
+                                        )}
+                                    </div>
+                                    <span className="font-mono font-medium text-slate-900 dark:text-white">
+                                        {formatCurrency(item.amount, quote.currency)}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Totals */}
+                        <div className="mt-6 flex justify-end">
+                            <div className="w-full max-w-xs space-y-2">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
+                                    <span className="font-mono text-slate-900 dark:text-white">
+                                        {formatCurrency(quote.subtotal, quote.currency)}
+                                    </span>
+                                </div>
+                                {discountService.hasDiscount(quote.discount) && quote.discountAmount > 0 && (
+                                    <div className="flex items-center justify-between text-sm">
+                                        <span className="text-slate-600 dark:text-slate-400">
+                                            {discountService.formatDiscountLabel(quote.discount)}
+                                        </span>
+                                        <span className="font-mono text-emerald-600 dark:text-emerald-400">
+                                            -{formatCurrency(quote.discountAmount, quote.currency)}
+                                        </span>
+                                    </div>
+                                )}
+                                {taxService.getInvoiceBreakdown(quote).map((entry) => (
+                                    <div key={`${entry.name}|${entry.rate}`} className="flex items-center justify-between text-sm">
+                                        <span className="text-slate-600 dark:text-slate-400">
+                                            {taxService.formatTaxRateLabel(entry)}
+                                        </span>
+                                        <span className="font-mono text-slate-900 dark:text-white">
+                                            {formatCurrency(entry.tax, quote.currency)}
+                                        </span>
+                                    </div>
+                                ))}
+                                <div className="border-t border-slate-200 pt-2 dark:border-slate-700">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-lg font-semibold text-slate-900 dark:text-white">Total</span>
+                                        <span className="font-mono text-2xl font-bold text-slate-900 dark:text-white">
+                                            {formatCurrency(quote.total, quote.currency)}
+                                        </span>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Notes */}
+                    {quote.notes && (
+                        <div className="border-t border-slate-200 bg-slate-50 px-6 py-6 dark:border-slate-800 dark:bg-slate-800/30 sm:px-10">
+                            <h3 className="mb-2 text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                                Notes
+                            </h3>
+                            <p className="text-sm text-slate-600 dark:text-slate-400">{quote.notes}</p>
+                        </div>
+                    )}
+
+                    {/* Footer */}
+                    <div className="border-t border-slate-200 px-6 py-4 text-center text-xs text-slate-500 dark:border-slate-800 dark:text-slate-400 sm:px-10">
+                        {canRespond ? `This quote is valid until ${formatDate(quote.expiryDate)}.` : 'Thank you for your business!'}
+                    </div>
+                </div>
+            </div>
+
+            {/* Response Modal */}
+            {answer && (
+                <>
+                    <div
+                        className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm"
+                        onClick={() => {
+                            if (!isResponding) closeResponseModal();
+                        }}
+                    />
+                    <div className="fixed inset-x-4 top-1/2 z-50 max-h-[85vh] -translate-y-1/2 overflow-y-auto rounded-2xl border border-slate-200 bg-white shadow-2xl dark:border-slate-700 dark:bg-slate-900 sm:left-1/2 sm:right-auto sm:w-full sm:max-w-md sm:-translate-x-1/2">
+                        <div className="flex items-center justify-between border-b border-slate-200 px-6 py-4 dark:border-slate-700">
+                            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+                                {answer === 'accept' ? 'Accept Quote' : 'Decline Quote'}
+                            </h2>
+                            <button
+                                onClick={closeResponseModal}
+                                disabled={isResponding}
+                                className="rounded-lg p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-600 dark:hover:bg-slate-800 dark:hover:text-slate-300"
+                            >
+                                <X className="h-5 w-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleResponseSubmit} className="p-6">
+                            <div className="mb-6 rounded-lg bg-slate-100 p-4 dark:bg-slate-800">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-sm text-slate-600 dark:text-slate-400">{quote.quoteNumber}</span>
+                                    <span className="font-mono text-xl font-bold text-slate-900 dark:text-white">
+                                        {formatCurrency(quote.total, quote.currency)}
+                                    </span>
+                                </div>
+                            </div>
+
+                            {responseError && (
+                                <div className="mb-4 flex items-start gap-2 rounded-lg border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700 dark:border-rose-800 dark:bg-rose-950 dark:text-rose-400">
+                                    <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                                    {responseError}
+                                </div>
+                            )}
+
+                            <div className="space-y-4">
+                                <div>
+                                    <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">
+                                        Your Name
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={name}
+                                        onChange={(e) => setName(e.target.value)}
+                                        placeholder="John Doe"
+                                        className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white"
+                                    />
+                                </div>
+                                {answer === 'decline' && (
+                                    <div>
+                                        <label className="mb-1.5 block text-sm font-medium text-slate-700 dark:text-slate-300">
+                                            Reason (optional)
+                                        </label>
+                                        <textarea
+                                            value={reason}
+                                            onChange={(e) => setReason(e.target.value)}
+                                            rows={3}
+                                            placeholder="Let us know why this quote doesn't work for you"
+                                            className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 dark:border-slate-600 dark:bg-slate-800 dark:text-white"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                            <button
+                                type="submit"
+                                disabled={isResponding}
+                                className={`mt-6 w-full rounded-lg px-4 py-3 text-sm font-medium text-white disabled:opacity-50 disabled:cursor-not-allowed ${answer === 'accept' ? 'bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600' : 'bg-rose-600 hover:bg-rose-700 dark:bg-rose-500 dark:hover:bg-rose-600'}`}
+                            >
+                                {isResponding ? 'Sending...' : answer === 'accept' ? `Accept ${formatCurrency(quote.total, quote.currency)}` : 'Decline Quote'}
+                            </button>
+                        </form>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
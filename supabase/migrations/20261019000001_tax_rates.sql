@@ -0,0 +1,11 @@
+-- Named tax rates per invoice, optionally overridden per line item.
+-- A line item with a null tax_name/tax_rate uses the invoice rate.
+
+alter table public.invoices
+  add column tax_name text not null default 'No Tax',
+  add column tax_rate numeric(6, 3) not null default 0 check (tax_rate >= 0);
+
+alter table public.line_items
+  add column tax_name text,
+  add column tax_rate numeric(6, 3) check (tax_rate >= 0),
+  add constraint line_items_tax_rate_pair check ((tax_name is null) = (tax_rate is null));
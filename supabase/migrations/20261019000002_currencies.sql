@@ -0,0 +1,8 @@
+-- Invoices are issued in a single ISO 4217 currency; clients carry the
+-- default currency for their new invoices. Existing rows were all USD.
+
+alter table public.clients
+  add column default_currency char(3) not null default 'USD';
+
+alter table public.invoices
+  add column currency char(3) not null default 'USD';
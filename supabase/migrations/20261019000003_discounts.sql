@@ -0,0 +1,21 @@
+-- Line-level and invoice-level discounts
+-- A discount is a percentage (0-100) or a fixed amount in the invoice currency.
+-- Line amounts are stored after their line discount; invoices store the
+-- invoice discount applied to the subtotal, and tax is calculated after it.
+
+alter table public.invoices
+  add column discount_type text check (discount_type in ('percentage', 'fixed')),
+  add column discount_value numeric(12, 2),
+  add column discount_amount numeric(12, 2) not null default 0,
+  add constraint invoices_discount_check check (
+    (discount_type is null and discount_value is null)
+    or (discount_value >= 0 and (discount_type = 'fixed' or discount_value <= 100))
+  );
+
+alter table public.line_items
+  add column discount_type text check (discount_type in ('percentage', 'fixed')),
+  add column discount_value numeric(12, 2),
+  add constraint line_items_discount_check check (
+    (discount_type is null and discount_value is null)
+    or (discount_value >= 0 and (discount_type = 'fixed' or discount_value <= 100))
+  );
@@ -0,0 +1,7 @@
+-- Rounding rules used to calculate invoice totals in integer minor units.
+-- rounding_mode: half-up, or half-even (banker's rounding)
+-- rounding_scope: round tax on every line, or once per tax rate on the invoice
+
+alter table public.invoices
+  add column rounding_mode text not null default 'half-up' check (rounding_mode in ('half-up', 'half-even')),
+  add column rounding_scope text not null default 'invoice' check (rounding_scope in ('line', 'invoice'));
@@ -0,0 +1,34 @@
+-- Payments ledger: every payment received against an invoice.
+-- invoices.amount_paid and invoices.balance_due are kept in step with the
+-- payments, and an invoice with some but not all of its total paid is
+-- "partially_paid".
+
+create table public.payments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  invoice_id uuid not null references public.invoices (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  paid_on date not null,
+  method text not null check (method in ('bank_transfer', 'card', 'cash', 'check', 'other')),
+  reference text,
+  created_at timestamptz not null default now()
+);
+
+create index payments_invoice_id_idx on public.payments (invoice_id);
+
+alter table public.payments enable row level security;
+
+create policy "Users manage their own payments" on public.payments
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.invoices
+  add column amount_paid numeric(12, 2) not null default 0 check (amount_paid >= 0),
+  add column balance_due numeric(12, 2) not null default 0 check (balance_due >= 0);
+
+alter table public.invoices drop constraint if exists invoices_status_check;
+alter table public.invoices
+  add constraint invoices_status_check check (status in ('draft', 'sent', 'partially_paid', 'paid', 'overdue'));
+
+-- Invoices marked paid before the ledger existed count as fully paid
+update public.invoices set amount_paid = total, balance_due = 0 where status = 'paid';
+update public.invoices set balance_due = total where status <> 'paid';
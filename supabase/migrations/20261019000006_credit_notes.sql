@@ -0,0 +1,62 @@
+-- Credit notes: corrections to issued invoices, numbered in their own CN-XXXX
+-- series. Amounts and line items are negative. invoices.credited_amount is
+-- the total credited so far and reduces the balance due; an invoice with
+-- credit notes cannot be deleted.
+
+create table public.credit_notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  invoice_id uuid not null references public.invoices (id) on delete restrict,
+  client_id uuid references public.clients (id) on delete set null,
+  credit_note_number text not null,
+  currency char(3) not null,
+  issue_date date not null,
+  reason text not null check (length(trim(reason)) > 0),
+  tax_name text not null default 'No Tax',
+  tax_rate numeric(6, 3) not null default 0 check (tax_rate >= 0),
+  discount_type text check (discount_type = 'percentage'),
+  discount_value numeric(12, 2) check (discount_value between 0 and 100),
+  rounding_mode text not null default 'half-up' check (rounding_mode in ('half-up', 'half-even')),
+  rounding_scope text not null default 'invoice' check (rounding_scope in ('line', 'invoice')),
+  subtotal numeric(12, 2) not null check (subtotal <= 0),
+  discount_amount numeric(12, 2) not null default 0 check (discount_amount <= 0),
+  tax numeric(12, 2) not null check (tax <= 0),
+  total numeric(12, 2) not null check (total < 0),
+  created_at timestamptz not null default now(),
+  unique (user_id, credit_note_number)
+);
+
+create index credit_notes_invoice_id_idx on public.credit_notes (invoice_id);
+
+create table public.credit_note_items (
+  id uuid primary key default gen_random_uuid(),
+  credit_note_id uuid not null references public.credit_notes (id) on delete cascade,
+  description text not null,
+  quantity numeric(12, 2) not null check (quantity > 0),
+  rate numeric(12, 2) not null check (rate <= 0),
+  amount numeric(12, 2) not null check (amount <= 0),
+  tax_name text,
+  tax_rate numeric(6, 3) check (tax_rate >= 0),
+  constraint credit_note_items_tax_rate_pair check ((tax_name is null) = (tax_rate is null))
+);
+
+create index credit_note_items_credit_note_id_idx on public.credit_note_items (credit_note_id);
+
+alter table public.credit_notes enable row level security;
+alter table public.credit_note_items enable row level security;
+
+create policy "Users manage their own credit notes" on public.credit_notes
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage the lines of their own credit notes" on public.credit_note_items
+  for all using (
+    exists (select 1 from public.credit_notes c where c.id = credit_note_id and c.user_id = auth.uid())
+  ) with check (
+    exists (select 1 from public.credit_notes c where c.id = credit_note_id and c.user_id = auth.uid())
+  );
+
+alter table public.invoices
+  add column credited_amount numeric(12, 2) not null default 0 check (credited_amount >= 0);
+
+alter table public.invoice_sequences
+  add column last_credit_note_number integer not null default 0;
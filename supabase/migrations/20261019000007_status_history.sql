@@ -0,0 +1,27 @@
+-- Status history: every status change of an invoice, with who made it
+-- (the user's email, or "system" for automatic changes) and why.
+-- from_status is null for the status an invoice was created with. Allowed
+-- transitions are enforced by the invoice and payment services.
+
+create table public.invoice_status_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  invoice_id uuid not null references public.invoices (id) on delete cascade,
+  from_status text check (from_status in ('draft', 'sent', 'partially_paid', 'paid', 'overdue')),
+  to_status text not null check (to_status in ('draft', 'sent', 'partially_paid', 'paid', 'overdue')),
+  changed_by text not null,
+  reason text,
+  changed_at timestamptz not null default now()
+);
+
+create index invoice_status_history_invoice_id_idx on public.invoice_status_history (invoice_id, changed_at);
+
+alter table public.invoice_status_history enable row level security;
+
+create policy "Users manage their own invoice status history" on public.invoice_status_history
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Existing invoices start their history at their current status
+insert into public.invoice_status_history (user_id, invoice_id, from_status, to_status, changed_by, reason, changed_at)
+select user_id, id, null, status, 'system', 'Status before history was recorded', updated_at
+from public.invoices;
@@ -0,0 +1,19 @@
+-- Void status: an issued invoice that was raised in error keeps its number and
+-- record but is no longer owed. Voiding requires a reason, which is recorded
+-- in the status history, and is final. Invoices with payments cannot be voided.
+
+alter table public.invoices drop constraint if exists invoices_status_check;
+alter table public.invoices
+  add constraint invoices_status_check check (status in ('draft', 'sent', 'partially_paid', 'paid', 'overdue', 'void'));
+
+alter table public.invoice_status_history drop constraint if exists invoice_status_history_from_status_check;
+alter table public.invoice_status_history
+  add constraint invoice_status_history_from_status_check check (from_status in ('draft', 'sent', 'partially_paid', 'paid', 'overdue', 'void'));
+
+alter table public.invoice_status_history drop constraint if exists invoice_status_history_to_status_check;
+alter table public.invoice_status_history
+  add constraint invoice_status_history_to_status_check check (to_status in ('draft', 'sent', 'partially_paid', 'paid', 'overdue', 'void'));
+
+-- A void invoice cannot be paid
+alter table public.invoices
+  add constraint invoices_void_unpaid check (status <> 'void' or (amount_paid = 0 and balance_due = 0));
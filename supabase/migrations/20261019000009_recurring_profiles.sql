@@ -0,0 +1,41 @@
+-- Recurring profiles: a template invoice (stored as JSON in the app's shape)
+-- issued on a schedule. run_count is the number of run dates generated so
+-- far; generated invoices record their profile and run date, and the unique
+-- index below keeps a run from being issued twice.
+
+create table public.recurring_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  client_id uuid references public.clients (id) on delete set null,
+  name text not null check (length(trim(name)) > 0),
+  template jsonb not null,
+  frequency text not null check (frequency in ('weekly', 'monthly', 'quarterly', 'custom')),
+  interval_count integer check (interval_count >= 1),
+  interval_unit text check (interval_unit in ('day', 'week', 'month')),
+  start_date date not null,
+  end_date date,
+  max_runs integer check (max_runs >= 1),
+  auto_send boolean not null default false,
+  active boolean not null default true,
+  run_count integer not null default 0 check (run_count >= 0),
+  last_run_date date,
+  next_run_date date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint recurring_profiles_custom_interval check ((frequency = 'custom') = (interval_count is not null and interval_unit is not null)),
+  constraint recurring_profiles_end_after_start check (end_date is null or end_date >= start_date)
+);
+
+create index recurring_profiles_next_run_date_idx on public.recurring_profiles (user_id, next_run_date) where active;
+
+alter table public.recurring_profiles enable row level security;
+
+create policy "Users manage their own recurring profiles" on public.recurring_profiles
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.invoices
+  add column recurring_profile_id uuid references public.recurring_profiles (id) on delete set null,
+  add column recurring_period date;
+
+create unique index invoices_recurring_run_key on public.invoices (recurring_profile_id, recurring_period)
+  where recurring_profile_id is not null;
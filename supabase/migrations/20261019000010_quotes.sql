@@ -0,0 +1,84 @@
+-- Quotes: estimates with the same lines and amounts as an invoice, numbered
+-- in their own QUO-XXXX series. A sent quote is accepted or declined by the
+-- client, or expires after expiry_date. An accepted quote is converted into a
+-- draft invoice; the two refer to each other, and a converted quote cannot be
+-- deleted.
+
+create table public.quotes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  client_id uuid references public.clients (id) on delete set null,
+  quote_number text not null,
+  status text not null default 'draft' check (status in ('draft', 'sent', 'accepted', 'declined', 'expired')),
+  currency char(3) not null default 'USD',
+  issue_date date not null,
+  expiry_date date not null,
+  tax_name text not null default 'No Tax',
+  tax_rate numeric(6, 3) not null default 0 check (tax_rate >= 0),
+  discount_type text check (discount_type in ('percentage', 'fixed')),
+  discount_value numeric(12, 2),
+  rounding_mode text not null default 'half-up' check (rounding_mode in ('half-up', 'half-even')),
+  rounding_scope text not null default 'invoice' check (rounding_scope in ('line', 'invoice')),
+  subtotal numeric(12, 2) not null default 0,
+  discount_amount numeric(12, 2) not null default 0,
+  tax numeric(12, 2) not null default 0,
+  total numeric(12, 2) not null default 0,
+  notes text,
+  responded_at timestamptz,
+  responded_by text,
+  decline_reason text,
+  invoice_id uuid references public.invoices (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, quote_number),
+  constraint quotes_expiry_after_issue check (expiry_date >= issue_date),
+  constraint quotes_discount_value check (
+    (discount_type is null and discount_value is null)
+    or (discount_value >= 0 and (discount_type = 'fixed' or discount_value <= 100))
+  ),
+  constraint quotes_answered check ((status in ('accepted', 'declined')) = (responded_at is not null)),
+  constraint quotes_invoice_accepted check (invoice_id is null or status = 'accepted')
+);
+
+create index quotes_user_id_idx on public.quotes (user_id, created_at desc);
+
+create table public.quote_items (
+  id uuid primary key default gen_random_uuid(),
+  quote_id uuid not null references public.quotes (id) on delete cascade,
+  description text not null,
+  quantity numeric(12, 2) not null check (quantity > 0),
+  rate numeric(12, 2) not null check (rate >= 0),
+  amount numeric(12, 2) not null default 0,
+  tax_name text,
+  tax_rate numeric(6, 3) check (tax_rate >= 0),
+  discount_type text check (discount_type in ('percentage', 'fixed')),
+  discount_value numeric(12, 2),
+  constraint quote_items_tax_rate_pair check ((tax_name is null) = (tax_rate is null)),
+  constraint quote_items_discount_value check (
+    (discount_type is null and discount_value is null)
+    or (discount_value >= 0 and (discount_type = 'fixed' or discount_value <= 100))
+  )
+);
+
+create index quote_items_quote_id_idx on public.quote_items (quote_id);
+
+alter table public.quotes enable row level security;
+alter table public.quote_items enable row level security;
+
+create policy "Users manage their own quotes" on public.quotes
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage the lines of their own quotes" on public.quote_items
+  for all using (
+    exists (select 1 from public.quotes q where q.id = quote_id and q.user_id = auth.uid())
+  ) with check (
+    exists (select 1 from public.quotes q where q.id = quote_id and q.user_id = auth.uid())
+  );
+
+alter table public.invoices
+  add column quote_id uuid references public.quotes (id) on delete restrict;
+
+create unique index invoices_quote_id_key on public.invoices (quote_id) where quote_id is not null;
+
+alter table public.invoice_sequences
+  add column last_quote_number integer not null default 0;
@@ -0,0 +1,20 @@
+-- Payment terms: an invoice on terms is due on receipt, net N days after the
+-- issue date, or N days after the end of the issue month (eom). The due date
+-- is derived from the issue date by the app; invoices without terms keep a
+-- due date picked by hand. Clients may set default terms for new invoices.
+
+alter table public.invoices
+  add column payment_terms_type text check (payment_terms_type in ('receipt', 'net', 'eom')),
+  add column payment_terms_days integer,
+  add constraint invoices_payment_terms_pair check (
+    (payment_terms_type is null and payment_terms_days is null)
+    or (payment_terms_type is not null and payment_terms_days >= 0)
+  );
+
+alter table public.clients
+  add column default_terms_type text check (default_terms_type in ('receipt', 'net', 'eom')),
+  add column default_terms_days integer,
+  add constraint clients_default_terms_pair check (
+    (default_terms_type is null and default_terms_days is null)
+    or (default_terms_type is not null and default_terms_days >= 0)
+  );
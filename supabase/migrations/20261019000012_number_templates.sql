@@ -0,0 +1,18 @@
+-- Number templates: documents are numbered from a template with the tokens
+-- {PREFIX}, {YYYY}, {YY}, {MM}, {FY}, {CLIENT} and {SEQ:n}, and each series
+-- starts again at 1 when its reset period rolls over. The period of the
+-- last number of each series is kept next to its counter.
+--
+-- New users number like the local app (INV-2026-001, yearly). Existing
+-- users keep their INV-0001 series, which never resets.
+
+alter table public.invoice_sequences
+  add column number_template text not null default '{PREFIX}-{YYYY}-{SEQ:3}',
+  add column number_reset text not null default 'yearly' check (number_reset in ('never', 'yearly', 'monthly')),
+  add column fiscal_year_start_month integer not null default 1 check (fiscal_year_start_month between 1 and 12),
+  add column last_number_period text not null default '',
+  add column last_credit_note_period text not null default '',
+  add column last_quote_period text not null default '';
+
+update public.invoice_sequences
+set number_template = '{PREFIX}-{SEQ:4}', number_reset = 'never';
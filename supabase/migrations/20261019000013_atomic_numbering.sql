@@ -0,0 +1,90 @@
+-- Atomic document numbers: allocate_document_number() takes the next number
+-- of a series in one statement under a row lock, so two tabs creating
+-- documents at the same moment never get the same sequence. It creates the
+-- user's invoice_sequences row when missing, starts the series again at 1
+-- when its reset period rolled over (the same rules as the app), and
+-- returns the sequence with the format to fill the template in with.
+--
+-- Invoice numbers are unique per user from now on, like credit note and
+-- quote numbers. Numbers duplicated by the old read-then-write allocation
+-- get a -2, -3, ... suffix first.
+
+with duplicates as (
+  select id, row_number() over (partition by user_id, invoice_number order by created_at, id) as position
+  from public.invoices
+)
+update public.invoices i
+set invoice_number = i.invoice_number || '-' || d.position
+from duplicates d
+where d.id = i.id and d.position > 1;
+
+alter table public.invoices
+  add constraint invoices_user_id_invoice_number_key unique (user_id, invoice_number);
+
+create or replace function public.allocate_document_number(p_series text, p_date date default current_date)
+returns table (
+  sequence integer,
+  period text,
+  number_template text,
+  number_reset text,
+  fiscal_year_start_month integer
+)
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_row public.invoice_sequences%rowtype;
+  v_period text;
+  v_last_number integer;
+  v_last_period text;
+  v_sequence integer;
+begin
+  if v_user_id is null then
+    raise exception 'You must be logged in to perform this action' using errcode = '42501';
+  end if;
+  if p_series not in ('invoice', 'credit_note', 'quote') then
+    raise exception 'Unknown number series %', p_series using errcode = '22023';
+  end if;
+
+  insert into public.invoice_sequences (user_id) values (v_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_row from public.invoice_sequences where user_id = v_user_id for update;
+
+  v_period := case v_row.number_reset
+    when 'never' then ''
+    when 'monthly' then to_char(p_date, 'YYYY-MM')
+    -- Fiscal years are named after the calendar year they end in
+    else (extract(year from p_date)::integer
+      + case when v_row.fiscal_year_start_month > 1 and extract(month from p_date) >= v_row.fiscal_year_start_month then 1 else 0 end)::text
+  end;
+
+  v_last_number := case p_series
+    when 'invoice' then v_row.last_number
+    when 'credit_note' then v_row.last_credit_note_number
+    else v_row.last_quote_number
+  end;
+  v_last_period := case p_series
+    when 'invoice' then v_row.last_number_period
+    when 'credit_note' then v_row.last_credit_note_period
+    else v_row.last_quote_period
+  end;
+
+  -- A series that never resets keeps counting on from its last number
+  v_sequence := case when v_period <> '' and v_last_period <> v_period then 1 else v_last_number + 1 end;
+
+  update public.invoice_sequences s set
+    last_number = case when p_series = 'invoice' then v_sequence else s.last_number end,
+    last_number_period = case when p_series = 'invoice' then v_period else s.last_number_period end,
+    last_credit_note_number = case when p_series = 'credit_note' then v_sequence else s.last_credit_note_number end,
+    last_credit_note_period = case when p_series = 'credit_note' then v_period else s.last_credit_note_period end,
+    last_quote_number = case when p_series = 'quote' then v_sequence else s.last_quote_number end,
+    last_quote_period = case when p_series = 'quote' then v_period else s.last_quote_period end
+  where s.user_id = v_user_id;
+
+  return query select v_sequence, v_period, v_row.number_template, v_row.number_reset, v_row.fiscal_year_start_month;
+end;
+$$;
+
+grant execute on function public.allocate_document_number(text, date) to authenticated;
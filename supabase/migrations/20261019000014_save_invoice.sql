@@ -0,0 +1,309 @@
+-- Transactional invoice writes: save_invoice() creates or replaces an
+-- invoice together with its line items and status history entry in one
+-- transaction, so a failure leaves nothing half-written. The server
+-- calculates the line amounts and totals; the client only sends what the
+-- user entered.
+--
+-- The totals follow the rules of the app's invoice service exactly:
+-- amounts in integer minor units, line discounts, an invoice discount spread
+-- over the lines in proportion to their amounts, tax per line or per tax
+-- rate (rounding_scope) and half-up or half-even rounding (rounding_mode).
+
+-- Number of minor unit digits of a currency, as reported by Intl.NumberFormat
+create or replace function public.currency_minor_digits(p_currency text)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when upper(p_currency) in ('BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG', 'RWF', 'UGX', 'UYI', 'VND', 'VUV', 'XAF', 'XOF', 'XPF') then 0
+    when upper(p_currency) in ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') then 3
+    else 2
+  end;
+$$;
+
+-- Round fractional minor units; half-up rounds halves away from zero
+create or replace function public.round_minor(p_value numeric, p_mode text)
+returns bigint
+language sql
+immutable
+as $$
+  select case
+    when p_mode = 'half-even' and abs(p_value - trunc(p_value)) = 0.5
+      then (case when floor(p_value)::bigint % 2 = 0 then floor(p_value) else floor(p_value) + 1 end)::bigint
+    else round(p_value)::bigint
+  end;
+$$;
+
+-- Discount on an amount in minor units, capped between 0 and the amount
+create or replace function public.discount_minor(p_amount bigint, p_type text, p_value numeric, p_currency text, p_mode text)
+returns bigint
+language sql
+immutable
+as $$
+  select case
+    when p_type is null or p_value is null or p_value <= 0 or p_amount <= 0 then 0
+    when p_type = 'percentage' then least(public.round_minor(p_amount * least(p_value, 100) / 100, p_mode), p_amount)
+    else least(public.round_minor(p_value * 10::numeric ^ public.currency_minor_digits(p_currency), p_mode), p_amount)
+  end;
+$$;
+
+-- Line amounts and totals of an invoice, in major units:
+-- { "line_amounts": [...], "subtotal", "discount_amount", "tax", "total" }
+create or replace function public.calculate_invoice_totals(
+  p_line_items jsonb,
+  p_tax_name text,
+  p_tax_rate numeric,
+  p_discount_type text,
+  p_discount_value numeric,
+  p_currency text,
+  p_rounding_mode text,
+  p_rounding_scope text
+)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  v_scale numeric := 10::numeric ^ public.currency_minor_digits(p_currency);
+  v_item jsonb;
+  v_gross bigint;
+  v_lines bigint[] := '{}';
+  v_tax_names text[] := '{}';
+  v_tax_rates numeric[] := '{}';
+  v_subtotal bigint;
+  v_discount bigint;
+  v_shares bigint[];
+  v_remainder bigint;
+  v_index integer;
+  v_taxable bigint[] := '{}';
+  v_tax bigint;
+begin
+  for v_item in select value from jsonb_array_elements(p_line_items) loop
+    v_gross := public.round_minor((v_item->>'rate')::numeric * v_scale * (v_item->>'quantity')::numeric, p_rounding_mode);
+    v_lines := v_lines || (v_gross - public.discount_minor(v_gross, v_item->>'discount_type', (v_item->>'discount_value')::numeric, p_currency, p_rounding_mode));
+    -- Lines without their own tax rate use the invoice rate
+    if v_item->>'tax_name' is not null and v_item->>'tax_rate' is not null then
+      v_tax_names := v_tax_names || (v_item->>'tax_name');
+      v_tax_rates := v_tax_rates || (v_item->>'tax_rate')::numeric;
+    else
+      v_tax_names := v_tax_names || p_tax_name;
+      v_tax_rates := v_tax_rates || p_tax_rate;
+    end if;
+  end loop;
+
+  v_subtotal := coalesce((select sum(amount) from unnest(v_lines) as amount), 0);
+  v_discount := public.discount_minor(v_subtotal, p_discount_type, p_discount_value, p_currency, p_rounding_mode);
+
+  -- Spread the discount over the lines in proportion to their amounts;
+  -- remainders go to the largest fractional shares, earlier lines first
+  if cardinality(v_lines) = 0 then
+    v_shares := '{}';
+  elsif v_subtotal = 0 then
+    v_shares := array_fill(0::bigint, array[cardinality(v_lines)]);
+    v_shares[1] := v_discount;
+  else
+    select array_agg(floor(v_discount::numeric * amount / v_subtotal)::bigint order by position)
+    into v_shares
+    from unnest(v_lines) with ordinality as line(amount, position);
+
+    v_remainder := v_discount - (select sum(share) from unnest(v_shares) as share);
+    for v_index in
+      select position
+      from unnest(v_lines) with ordinality as line(amount, position)
+      order by (v_discount::numeric * amount / v_subtotal) - floor(v_discount::numeric * amount / v_subtotal) desc, position
+    loop
+      exit when v_remainder <= 0;
+      v_shares[v_index] := v_shares[v_index] + 1;
+      v_remainder := v_remainder - 1;
+    end loop;
+  end if;
+
+  for v_index in 1 .. cardinality(v_lines) loop
+    v_taxable := v_taxable || (v_lines[v_index] - v_shares[v_index]);
+  end loop;
+
+  if p_rounding_scope = 'line' then
+    select coalesce(sum(public.round_minor(taxable * rate / 100, p_rounding_mode)), 0)
+    into v_tax
+    from unnest(v_taxable, v_tax_rates) as line(taxable, rate);
+  else
+    select coalesce(sum(public.round_minor(taxable * rate / 100, p_rounding_mode)), 0)
+    into v_tax
+    from (
+      select name, rate, sum(taxable) as taxable
+      from unnest(v_taxable, v_tax_names, v_tax_rates) as line(taxable, name, rate)
+      group by name, rate
+    ) as tax_group;
+  end if;
+
+  return jsonb_build_object(
+    'line_amounts', coalesce((select jsonb_agg(amount / v_scale order by position) from unnest(v_lines) with ordinality as line(amount, position)), '[]'::jsonb),
+    'subtotal', v_subtotal / v_scale,
+    'discount_amount', v_discount / v_scale,
+    'tax', v_tax / v_scale,
+    'total', (v_subtotal - v_discount + v_tax) / v_scale
+  );
+end;
+$$;
+
+-- Create an invoice (p_invoice_id null) or replace one with its line items.
+-- Returns the invoice id. Balance due and payment status follow the new
+-- total; a status change is recorded in the status history.
+create or replace function public.save_invoice(
+  p_invoice_id uuid,
+  p_invoice jsonb,
+  p_line_items jsonb,
+  p_change jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing public.invoices%rowtype;
+  v_id uuid;
+  v_currency text := coalesce(p_invoice->>'currency', 'USD');
+  v_rounding_mode text := coalesce(p_invoice->>'rounding_mode', 'half-up');
+  v_totals jsonb;
+  v_total numeric;
+  v_scale numeric := 10::numeric ^ public.currency_minor_digits(v_currency);
+  v_paid bigint;
+  v_credited bigint;
+  v_status text := coalesce(p_invoice->>'status', 'draft');
+  v_from_status text;
+begin
+  if v_user_id is null then
+    raise exception 'You must be logged in to perform this action' using errcode = '42501';
+  end if;
+
+  v_totals := public.calculate_invoice_totals(
+    p_line_items,
+    coalesce(p_invoice->>'tax_name', 'No Tax'),
+    coalesce((p_invoice->>'tax_rate')::numeric, 0),
+    p_invoice->>'discount_type',
+    (p_invoice->>'discount_value')::numeric,
+    v_currency,
+    v_rounding_mode,
+    coalesce(p_invoice->>'rounding_scope', 'invoice')
+  );
+  v_total := (v_totals->>'total')::numeric;
+
+  if p_invoice_id is null then
+    insert into public.invoices (
+      user_id, client_id, invoice_number, status, currency, issue_date, due_date,
+      payment_terms_type, payment_terms_days, tax_name, tax_rate, discount_type, discount_value,
+      rounding_mode, rounding_scope, subtotal, discount_amount, tax, total, amount_paid, balance_due,
+      notes, recurring_profile_id, recurring_period, quote_id
+    ) values (
+      v_user_id,
+      (p_invoice->>'client_id')::uuid,
+      p_invoice->>'invoice_number',
+      v_status,
+      v_currency,
+      (p_invoice->>'issue_date')::date,
+      (p_invoice->>'due_date')::date,
+      p_invoice->>'payment_terms_type',
+      (p_invoice->>'payment_terms_days')::integer,
+      coalesce(p_invoice->>'tax_name', 'No Tax'),
+      coalesce((p_invoice->>'tax_rate')::numeric, 0),
+      p_invoice->>'discount_type',
+      (p_invoice->>'discount_value')::numeric,
+      v_rounding_mode,
+      coalesce(p_invoice->>'rounding_scope', 'invoice'),
+      (v_totals->>'subtotal')::numeric,
+      (v_totals->>'discount_amount')::numeric,
+      (v_totals->>'tax')::numeric,
+      v_total,
+      0,
+      v_total,
+      p_invoice->>'notes',
+      (p_invoice->>'recurring_profile_id')::uuid,
+      p_invoice->>'recurring_period',
+      (p_invoice->>'quote_id')::uuid
+    )
+    returning id into v_id;
+  else
+    select * into v_existing from public.invoices where id = p_invoice_id and user_id = v_user_id for update;
+    if not found then
+      raise exception 'Invoice not found' using errcode = 'P0002';
+    end if;
+    if v_existing.status = 'void' then
+      raise exception 'A void invoice cannot be edited';
+    end if;
+    -- Credit notes refer to the amounts as issued; corrections need another credit note
+    if v_existing.credited_amount > 0 and (v_total <> v_existing.total or v_currency <> v_existing.currency) then
+      raise exception 'The amounts of an invoice with credit notes cannot be changed; issue a credit note instead';
+    end if;
+
+    v_id := v_existing.id;
+    v_from_status := v_existing.status;
+    v_paid := public.round_minor(v_existing.amount_paid * v_scale, v_rounding_mode);
+    v_credited := public.round_minor(v_existing.credited_amount * v_scale, v_rounding_mode);
+
+    -- Payment status follows the new total
+    v_status := case
+      when v_paid + v_credited > 0 and v_paid + v_credited >= public.round_minor(v_total * v_scale, v_rounding_mode) then 'paid'
+      when v_paid <= 0 then case when v_status = 'partially_paid' then 'sent' else v_status end
+      when v_status = 'overdue' then 'overdue'
+      else 'partially_paid'
+    end;
+
+    update public.invoices set
+      client_id = (p_invoice->>'client_id')::uuid,
+      status = v_status,
+      currency = v_currency,
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      payment_terms_type = p_invoice->>'payment_terms_type',
+      payment_terms_days = (p_invoice->>'payment_terms_days')::integer,
+      tax_name = coalesce(p_invoice->>'tax_name', 'No Tax'),
+      tax_rate = coalesce((p_invoice->>'tax_rate')::numeric, 0),
+      discount_type = p_invoice->>'discount_type',
+      discount_value = (p_invoice->>'discount_value')::numeric,
+      rounding_mode = v_rounding_mode,
+      rounding_scope = coalesce(p_invoice->>'rounding_scope', 'invoice'),
+      subtotal = (v_totals->>'subtotal')::numeric,
+      discount_amount = (v_totals->>'discount_amount')::numeric,
+      tax = (v_totals->>'tax')::numeric,
+      total = v_total,
+      balance_due = greatest(public.round_minor(v_total * v_scale, v_rounding_mode) - v_paid - v_credited, 0) / v_scale,
+      notes = p_invoice->>'notes',
+      updated_at = now()
+    where id = v_id;
+
+    delete from public.line_items where invoice_id = v_id;
+  end if;
+
+  insert into public.line_items (invoice_id, description, quantity, rate, amount, tax_name, tax_rate, discount_type, discount_value)
+  select
+    v_id,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'rate')::numeric,
+    (v_totals->'line_amounts'->>(position::integer - 1))::numeric,
+    item->>'tax_name',
+    (item->>'tax_rate')::numeric,
+    item->>'discount_type',
+    (item->>'discount_value')::numeric
+  from jsonb_array_elements(p_line_items) with ordinality as line(item, position);
+
+  if v_from_status is distinct from v_status then
+    insert into public.invoice_status_history (user_id, invoice_id, from_status, to_status, changed_by, reason)
+    values (
+      v_user_id,
+      v_id,
+      v_from_status,
+      v_status,
+      coalesce(nullif(p_change->>'changed_by', ''), auth.jwt()->>'email', 'user'),
+      coalesce(nullif(trim(p_change->>'reason'), ''), case when v_from_status is null then 'Invoice created' end)
+    );
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.save_invoice(uuid, jsonb, jsonb, jsonb) to authenticated;
+grant execute on function public.calculate_invoice_totals(jsonb, text, numeric, text, numeric, text, text, text) to authenticated;
@@ -0,0 +1,18 @@
+-- Live updates: row changes of clients, invoices and their line items are
+-- sent to signed-in clients over Supabase Realtime, which applies the RLS
+-- policies of each table to what a subscriber receives.
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['clients', 'invoices', 'line_items'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
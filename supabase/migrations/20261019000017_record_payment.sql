@@ -0,0 +1,184 @@
+-- Transactional payments: record_payment() and delete_payment() change the
+-- payments ledger and the invoice's amount_paid, balance_due and status in
+-- one transaction, with the status history entry. The invoice row is locked
+-- first, so payments made at the same time are applied one after the other
+-- and none of them is lost.
+
+-- Throw unless an invoice can change from one status to another, following
+-- the app's status transition table; keeping the same status is allowed
+create or replace function public.assert_invoice_transition(p_from text, p_to text)
+returns void
+language plpgsql
+immutable
+as $$
+begin
+  if p_from = p_to then
+    return;
+  end if;
+  if not p_to = any (case p_from
+    when 'draft' then array['sent', 'paid', 'void']
+    when 'sent' then array['partially_paid', 'paid', 'overdue', 'void']
+    when 'partially_paid' then array['sent', 'paid', 'overdue', 'void']
+    when 'overdue' then array['partially_paid', 'paid', 'void']
+    when 'paid' then array['sent', 'partially_paid']
+    else array[]::text[]
+  end) then
+    raise exception 'Cannot change invoice status from "%" to "%"', p_from, p_to;
+  end if;
+end;
+$$;
+
+-- Recalculate amount_paid, balance_due and status of an invoice from its
+-- payments and credited amount. A "paid" invoice without payments was
+-- settled outside the ledger and stays paid, unless p_reopen is set because
+-- its last payment was just removed.
+create or replace function public.sync_invoice_payments(
+  p_invoice_id uuid,
+  p_change jsonb default '{}'::jsonb,
+  p_reopen boolean default false
+)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_invoice public.invoices%rowtype;
+  v_scale numeric;
+  v_payments integer;
+  v_paid bigint;
+  v_total bigint;
+  v_credited bigint;
+  v_status text;
+begin
+  select * into v_invoice from public.invoices where id = p_invoice_id and user_id = auth.uid() for update;
+  if not found then
+    raise exception 'Invoice not found' using errcode = 'P0002';
+  end if;
+
+  v_scale := 10::numeric ^ public.currency_minor_digits(v_invoice.currency);
+  v_total := public.round_minor(v_invoice.total * v_scale, v_invoice.rounding_mode);
+  v_credited := public.round_minor(v_invoice.credited_amount * v_scale, v_invoice.rounding_mode);
+  select count(*), coalesce(sum(public.round_minor(amount * v_scale, v_invoice.rounding_mode)), 0)
+  into v_payments, v_paid
+  from public.payments
+  where invoice_id = p_invoice_id;
+
+  v_status := v_invoice.status;
+  if v_payments = 0 and v_invoice.status = 'paid' then
+    if p_reopen then
+      v_status := 'sent';
+    else
+      v_paid := public.round_minor(v_invoice.amount_paid * v_scale, v_invoice.rounding_mode);
+    end if;
+  end if;
+
+  v_status := case
+    when v_paid + v_credited > 0 and v_paid + v_credited >= v_total then 'paid'
+    when v_paid <= 0 then case when v_status = 'partially_paid' then 'sent' else v_status end
+    when v_status = 'overdue' then 'overdue'
+    else 'partially_paid'
+  end;
+  perform public.assert_invoice_transition(v_invoice.status, v_status);
+
+  update public.invoices set
+    amount_paid = v_paid / v_scale,
+    balance_due = case when v_status = 'void' then 0 else greatest(v_total - v_paid - v_credited, 0) / v_scale end,
+    status = v_status
+  where id = p_invoice_id;
+
+  if v_invoice.status <> v_status then
+    insert into public.invoice_status_history (user_id, invoice_id, from_status, to_status, changed_by, reason)
+    values (
+      v_invoice.user_id,
+      p_invoice_id,
+      v_invoice.status,
+      v_status,
+      coalesce(nullif(p_change->>'changed_by', ''), auth.jwt()->>'email', 'user'),
+      nullif(trim(p_change->>'reason'), '')
+    );
+  end if;
+end;
+$$;
+
+-- Record a payment against an invoice; returns the payment
+create or replace function public.record_payment(
+  p_invoice_id uuid,
+  p_payment jsonb,
+  p_change jsonb default '{}'::jsonb
+)
+returns public.payments
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_invoice public.invoices%rowtype;
+  v_scale numeric;
+  v_amount bigint;
+  v_payment public.payments%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'You must be logged in to perform this action' using errcode = '42501';
+  end if;
+
+  select * into v_invoice from public.invoices where id = p_invoice_id and user_id = v_user_id for update;
+  if not found then
+    raise exception 'Invoice not found' using errcode = 'P0002';
+  end if;
+  if v_invoice.status = 'void' then
+    raise exception 'A void invoice cannot be paid';
+  end if;
+
+  v_scale := 10::numeric ^ public.currency_minor_digits(v_invoice.currency);
+  v_amount := public.round_minor((p_payment->>'amount')::numeric * v_scale, v_invoice.rounding_mode);
+  if v_amount <= 0 then
+    raise exception 'Payment amount must be greater than zero';
+  end if;
+  if v_amount > public.round_minor(v_invoice.balance_due * v_scale, v_invoice.rounding_mode) then
+    raise exception 'Payment exceeds the balance due of % %', v_invoice.balance_due, v_invoice.currency;
+  end if;
+
+  insert into public.payments (user_id, invoice_id, amount, paid_on, method, reference)
+  values (
+    v_user_id,
+    p_invoice_id,
+    v_amount / v_scale,
+    (p_payment->>'paid_on')::date,
+    p_payment->>'method',
+    nullif(trim(p_payment->>'reference'), '')
+  )
+  returning * into v_payment;
+
+  perform public.sync_invoice_payments(p_invoice_id, p_change);
+  return v_payment;
+end;
+$$;
+
+-- Delete a payment; an invoice left without payments is reopened
+create or replace function public.delete_payment(
+  p_payment_id uuid,
+  p_change jsonb default '{}'::jsonb
+)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_invoice_id uuid;
+begin
+  select invoice_id into v_invoice_id from public.payments where id = p_payment_id and user_id = auth.uid();
+  if not found then
+    raise exception 'Payment not found' using errcode = 'P0002';
+  end if;
+
+  -- Lock the invoice before its payments change
+  perform 1 from public.invoices where id = v_invoice_id for update;
+  delete from public.payments where id = p_payment_id;
+  perform public.sync_invoice_payments(v_invoice_id, p_change, true);
+end;
+$$;
+
+grant execute on function public.assert_invoice_transition(text, text) to authenticated;
+grant execute on function public.sync_invoice_payments(uuid, jsonb, boolean) to authenticated;
+grant execute on function public.record_payment(uuid, jsonb, jsonb) to authenticated;
+grant execute on function public.delete_payment(uuid, jsonb) to authenticated;
@@ -0,0 +1,204 @@
+-- Transactional restore: restore_invoice() writes an invoice from a backup
+-- together with its line items, amounts and status history in one
+-- transaction, so a failure leaves nothing half-restored.
+--
+-- Backups carry no payments or credit notes. The amounts are worked out from
+-- the payments and credit notes the invoice has in the workspace; an amount
+-- paid in the backup that the ledger does not have yet is recorded as one
+-- payment, and nothing is credited without a credit note. The status follows
+-- from the amounts as for any payment, and a restored invoice that already
+-- exists has to follow the status transition table.
+
+create or replace function public.restore_invoice(
+  p_invoice_id uuid,
+  p_invoice jsonb,
+  p_line_items jsonb,
+  p_change jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing public.invoices%rowtype;
+  v_id uuid;
+  v_currency text := coalesce(p_invoice->>'currency', 'USD');
+  v_rounding_mode text := coalesce(p_invoice->>'rounding_mode', 'half-up');
+  v_totals jsonb;
+  v_total numeric;
+  v_scale numeric := 10::numeric ^ public.currency_minor_digits(v_currency);
+  v_total_minor bigint;
+  v_paid bigint;
+  v_credited bigint;
+  v_backup_paid bigint;
+  v_status text := coalesce(p_invoice->>'status', 'draft');
+  v_from_status text;
+begin
+  if v_user_id is null then
+    raise exception 'You must be logged in to perform this action' using errcode = '42501';
+  end if;
+
+  v_totals := public.calculate_invoice_totals(
+    p_line_items,
+    coalesce(p_invoice->>'tax_name', 'No Tax'),
+    coalesce((p_invoice->>'tax_rate')::numeric, 0),
+    p_invoice->>'discount_type',
+    (p_invoice->>'discount_value')::numeric,
+    v_currency,
+    v_rounding_mode,
+    coalesce(p_invoice->>'rounding_scope', 'invoice')
+  );
+  v_total := (v_totals->>'total')::numeric;
+  v_total_minor := public.round_minor(v_total * v_scale, v_rounding_mode);
+
+  -- Payment statuses follow from the amounts below
+  if v_status in ('partially_paid', 'paid') then
+    v_status := 'sent';
+  end if;
+
+  if p_invoice_id is null then
+    insert into public.invoices (
+      user_id, client_id, invoice_number, status, currency, issue_date, due_date,
+      payment_terms_type, payment_terms_days, tax_name, tax_rate, discount_type, discount_value,
+      rounding_mode, rounding_scope, subtotal, discount_amount, tax, total, amount_paid, balance_due, notes
+    ) values (
+      v_user_id,
+      (p_invoice->>'client_id')::uuid,
+      p_invoice->>'invoice_number',
+      v_status,
+      v_currency,
+      (p_invoice->>'issue_date')::date,
+      (p_invoice->>'due_date')::date,
+      p_invoice->>'payment_terms_type',
+      (p_invoice->>'payment_terms_days')::integer,
+      coalesce(p_invoice->>'tax_name', 'No Tax'),
+      coalesce((p_invoice->>'tax_rate')::numeric, 0),
+      p_invoice->>'discount_type',
+      (p_invoice->>'discount_value')::numeric,
+      v_rounding_mode,
+      coalesce(p_invoice->>'rounding_scope', 'invoice'),
+      (v_totals->>'subtotal')::numeric,
+      (v_totals->>'discount_amount')::numeric,
+      (v_totals->>'tax')::numeric,
+      v_total,
+      0,
+      case when v_status = 'void' then 0 else v_total end,
+      p_invoice->>'notes'
+    )
+    returning id into v_id;
+  else
+    select * into v_existing from public.invoices where id = p_invoice_id and user_id = v_user_id for update;
+    if not found then
+      raise exception 'Invoice not found' using errcode = 'P0002';
+    end if;
+    if v_existing.status = 'void' then
+      raise exception 'A void invoice cannot be edited';
+    end if;
+    -- Credit notes refer to the amounts as issued; corrections need another credit note
+    if v_existing.credited_amount > 0 and (v_total <> v_existing.total or v_currency <> v_existing.currency) then
+      raise exception 'The amounts of an invoice with credit notes cannot be changed; issue a credit note instead';
+    end if;
+
+    v_id := v_existing.id;
+    v_from_status := v_existing.status;
+
+    update public.invoices set
+      client_id = (p_invoice->>'client_id')::uuid,
+      currency = v_currency,
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      payment_terms_type = p_invoice->>'payment_terms_type',
+      payment_terms_days = (p_invoice->>'payment_terms_days')::integer,
+      tax_name = coalesce(p_invoice->>'tax_name', 'No Tax'),
+      tax_rate = coalesce((p_invoice->>'tax_rate')::numeric, 0),
+      discount_type = p_invoice->>'discount_type',
+      discount_value = (p_invoice->>'discount_value')::numeric,
+      rounding_mode = v_rounding_mode,
+      rounding_scope = coalesce(p_invoice->>'rounding_scope', 'invoice'),
+      subtotal = (v_totals->>'subtotal')::numeric,
+      discount_amount = (v_totals->>'discount_amount')::numeric,
+      tax = (v_totals->>'tax')::numeric,
+      total = v_total,
+      notes = p_invoice->>'notes'
+    where id = v_id;
+
+    delete from public.line_items where invoice_id = v_id;
+  end if;
+
+  insert into public.line_items (invoice_id, description, quantity, rate, amount, tax_name, tax_rate, discount_type, discount_value)
+  select
+    v_id,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'rate')::numeric,
+    (v_totals->'line_amounts'->>(position::integer - 1))::numeric,
+    item->>'tax_name',
+    (item->>'tax_rate')::numeric,
+    item->>'discount_type',
+    (item->>'discount_value')::numeric
+  from jsonb_array_elements(p_line_items) with ordinality as line(item, position);
+
+  -- Credit note totals are negative
+  select coalesce(-sum(public.round_minor(total * v_scale, v_rounding_mode)), 0)
+  into v_credited
+  from public.credit_notes
+  where invoice_id = v_id;
+
+  select coalesce(sum(public.round_minor(amount * v_scale, v_rounding_mode)), 0)
+  into v_paid
+  from public.payments
+  where invoice_id = v_id;
+
+  v_backup_paid := least(
+    public.round_minor(coalesce((p_invoice->>'amount_paid')::numeric, 0) * v_scale, v_rounding_mode),
+    v_total_minor - v_credited
+  );
+  if v_paid = 0 and v_backup_paid > 0 and v_status <> 'void' then
+    insert into public.payments (user_id, invoice_id, amount, paid_on, method, reference)
+    values (
+      v_user_id,
+      v_id,
+      v_backup_paid / v_scale,
+      coalesce((p_invoice->>'paid_on')::date, current_date),
+      'other',
+      'Restored from backup'
+    );
+    v_paid := v_backup_paid;
+  end if;
+
+  v_status := case
+    when v_status = 'void' then 'void'
+    when v_paid + v_credited > 0 and v_paid + v_credited >= v_total_minor then 'paid'
+    when v_paid <= 0 then v_status
+    when v_status = 'overdue' then 'overdue'
+    else 'partially_paid'
+  end;
+  if v_from_status is not null then
+    perform public.assert_invoice_transition(v_from_status, v_status);
+  end if;
+
+  update public.invoices set
+    status = v_status,
+    amount_paid = v_paid / v_scale,
+    credited_amount = v_credited / v_scale,
+    balance_due = case when v_status = 'void' then 0 else greatest(v_total_minor - v_paid - v_credited, 0) / v_scale end
+  where id = v_id;
+
+  if v_from_status is distinct from v_status then
+    insert into public.invoice_status_history (user_id, invoice_id, from_status, to_status, changed_by, reason)
+    values (
+      v_user_id,
+      v_id,
+      v_from_status,
+      v_status,
+      coalesce(nullif(p_change->>'changed_by', ''), auth.jwt()->>'email', 'user'),
+      nullif(trim(p_change->>'reason'), '')
+    );
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.restore_invoice(uuid, jsonb, jsonb, jsonb) to authenticated;
@@ -0,0 +1,19 @@
+-- Invoice list: the invoices with the client columns the invoice list is
+-- searched and sorted on. Pages are read by keyset on a sort key and the ID.
+--
+-- The sort keys compare byte by byte (collation "C"), as the app compares
+-- text when it pages through the invoices it has while offline; client names
+-- sort without regard to case.
+
+create or replace view public.invoice_list
+with (security_invoker = true) as
+select
+  i.*,
+  c.name as client_name,
+  c.company as client_company,
+  i.invoice_number collate "C" as number_sort,
+  lower(coalesce(c.name, '')) collate "C" as client_sort
+from public.invoices i
+left join public.clients c on c.id = i.client_id;
+
+grant select on public.invoice_list to authenticated;
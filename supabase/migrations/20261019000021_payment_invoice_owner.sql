@@ -0,0 +1,12 @@
+-- Payments can only be recorded against the user's own invoices. The policy
+-- checked the payment's user only, so a payment could point at the invoice
+-- of another user.
+
+drop policy if exists "Users manage their own payments" on public.payments;
+
+create policy "Users manage their own payments" on public.payments
+  for all using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.invoices i where i.id = invoice_id and i.user_id = auth.uid())
+  );
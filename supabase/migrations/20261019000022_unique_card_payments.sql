@@ -0,0 +1,7 @@
+-- A card payment is recorded once: its reference is the ID of the payment
+-- intent it settles. When two confirmations of one intent are settled at the
+-- same time, the second insert fails instead of recording the payment twice.
+
+create unique index payments_invoice_id_reference_key
+  on public.payments (invoice_id, reference)
+  where method = 'card' and reference is not null;
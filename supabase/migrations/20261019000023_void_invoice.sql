@@ -0,0 +1,52 @@
+-- Transactional voiding: void_invoice() voids an invoice and records the
+-- status change with its reason in one transaction. With an expected
+-- version, an invoice changed since then is not voided.
+
+create or replace function public.void_invoice(
+  p_invoice_id uuid,
+  p_change jsonb default '{}'::jsonb,
+  p_expected_version timestamptz default null
+)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_invoice public.invoices%rowtype;
+  v_reason text := nullif(trim(p_change->>'reason'), '');
+begin
+  if v_user_id is null then
+    raise exception 'You must be logged in to perform this action' using errcode = '42501';
+  end if;
+
+  select * into v_invoice from public.invoices where id = p_invoice_id and user_id = v_user_id for update;
+  if not found then
+    raise exception 'Invoice not found' using errcode = 'P0002';
+  end if;
+  if p_expected_version is not null and v_invoice.updated_at <> p_expected_version then
+    raise exception 'This invoice was changed by someone else' using errcode = '40001';
+  end if;
+  if v_reason is null then
+    raise exception 'Please give a reason for voiding the invoice';
+  end if;
+  if v_invoice.amount_paid > 0 then
+    raise exception 'An invoice with payments cannot be voided; remove or refund its payments first';
+  end if;
+  perform public.assert_invoice_transition(v_invoice.status, 'void');
+
+  update public.invoices set status = 'void', balance_due = 0 where id = p_invoice_id;
+
+  insert into public.invoice_status_history (user_id, invoice_id, from_status, to_status, changed_by, reason)
+  values (
+    v_user_id,
+    p_invoice_id,
+    v_invoice.status,
+    'void',
+    coalesce(nullif(p_change->>'changed_by', ''), auth.jwt()->>'email', 'user'),
+    v_reason
+  );
+end;
+$$;
+
+grant execute on function public.void_invoice(uuid, jsonb, timestamptz) to authenticated;
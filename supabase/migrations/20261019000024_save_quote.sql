@@ -0,0 +1,157 @@
+-- Transactional quotes: save_quote() writes a quote and its line items in
+-- one transaction, with the totals calculated as for invoices, and
+-- convert_quote() creates the invoice of an accepted quote and links the two
+-- in one transaction. Converting a quote that is already linked returns its
+-- invoice, so a retried conversion does not create a second invoice.
+
+-- Create a quote (p_quote_id null) or replace one and its line items;
+-- returns the quote ID
+create or replace function public.save_quote(
+  p_quote_id uuid,
+  p_quote jsonb,
+  p_line_items jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing public.quotes%rowtype;
+  v_id uuid;
+  v_currency text := coalesce(p_quote->>'currency', 'USD');
+  v_totals jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'You must be logged in to perform this action' using errcode = '42501';
+  end if;
+
+  v_totals := public.calculate_invoice_totals(
+    p_line_items,
+    coalesce(p_quote->>'tax_name', 'No Tax'),
+    coalesce((p_quote->>'tax_rate')::numeric, 0),
+    p_quote->>'discount_type',
+    (p_quote->>'discount_value')::numeric,
+    v_currency,
+    coalesce(p_quote->>'rounding_mode', 'half-up'),
+    coalesce(p_quote->>'rounding_scope', 'invoice')
+  );
+
+  if p_quote_id is null then
+    insert into public.quotes (
+      user_id, client_id, quote_number, status, currency, issue_date, expiry_date,
+      tax_name, tax_rate, discount_type, discount_value, rounding_mode, rounding_scope,
+      subtotal, discount_amount, tax, total, notes
+    ) values (
+      v_user_id,
+      (p_quote->>'client_id')::uuid,
+      p_quote->>'quote_number',
+      coalesce(p_quote->>'status', 'draft'),
+      v_currency,
+      (p_quote->>'issue_date')::date,
+      (p_quote->>'expiry_date')::date,
+      coalesce(p_quote->>'tax_name', 'No Tax'),
+      coalesce((p_quote->>'tax_rate')::numeric, 0),
+      p_quote->>'discount_type',
+      (p_quote->>'discount_value')::numeric,
+      coalesce(p_quote->>'rounding_mode', 'half-up'),
+      coalesce(p_quote->>'rounding_scope', 'invoice'),
+      (v_totals->>'subtotal')::numeric,
+      (v_totals->>'discount_amount')::numeric,
+      (v_totals->>'tax')::numeric,
+      (v_totals->>'total')::numeric,
+      p_quote->>'notes'
+    )
+    returning id into v_id;
+  else
+    select * into v_existing from public.quotes where id = p_quote_id and user_id = v_user_id for update;
+    if not found then
+      raise exception 'Quote not found' using errcode = 'P0002';
+    end if;
+    if v_existing.status in ('accepted', 'declined') then
+      raise exception 'A quote that was % cannot be edited', v_existing.status;
+    end if;
+
+    v_id := v_existing.id;
+
+    update public.quotes set
+      client_id = (p_quote->>'client_id')::uuid,
+      status = coalesce(p_quote->>'status', v_existing.status),
+      currency = v_currency,
+      issue_date = (p_quote->>'issue_date')::date,
+      expiry_date = (p_quote->>'expiry_date')::date,
+      tax_name = coalesce(p_quote->>'tax_name', 'No Tax'),
+      tax_rate = coalesce((p_quote->>'tax_rate')::numeric, 0),
+      discount_type = p_quote->>'discount_type',
+      discount_value = (p_quote->>'discount_value')::numeric,
+      rounding_mode = coalesce(p_quote->>'rounding_mode', 'half-up'),
+      rounding_scope = coalesce(p_quote->>'rounding_scope', 'invoice'),
+      subtotal = (v_totals->>'subtotal')::numeric,
+      discount_amount = (v_totals->>'discount_amount')::numeric,
+      tax = (v_totals->>'tax')::numeric,
+      total = (v_totals->>'total')::numeric,
+      notes = p_quote->>'notes',
+      updated_at = now()
+    where id = v_id;
+
+    delete from public.quote_items where quote_id = v_id;
+  end if;
+
+  insert into public.quote_items (quote_id, description, quantity, rate, amount, tax_name, tax_rate, discount_type, discount_value)
+  select
+    v_id,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'rate')::numeric,
+    (v_totals->'line_amounts'->>(position::integer - 1))::numeric,
+    item->>'tax_name',
+    (item->>'tax_rate')::numeric,
+    item->>'discount_type',
+    (item->>'discount_value')::numeric
+  from jsonb_array_elements(p_line_items) with ordinality as line(item, position);
+
+  return v_id;
+end;
+$$;
+
+-- Create the invoice of an accepted quote and link the two; returns the
+-- invoice ID, also when the quote was converted before
+create or replace function public.convert_quote(
+  p_quote_id uuid,
+  p_invoice jsonb,
+  p_line_items jsonb,
+  p_change jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_quote public.quotes%rowtype;
+  v_invoice_id uuid;
+begin
+  select * into v_quote from public.quotes where id = p_quote_id and user_id = auth.uid() for update;
+  if not found then
+    raise exception 'Quote not found' using errcode = 'P0002';
+  end if;
+  if v_quote.invoice_id is not null then
+    return v_quote.invoice_id;
+  end if;
+  if v_quote.status <> 'accepted' then
+    raise exception 'Only accepted quotes can be converted into an invoice';
+  end if;
+
+  v_invoice_id := public.save_invoice(
+    null,
+    p_invoice || jsonb_build_object('quote_id', v_quote.id),
+    p_line_items,
+    p_change
+  );
+
+  update public.quotes set invoice_id = v_invoice_id, updated_at = now() where id = p_quote_id;
+  return v_invoice_id;
+end;
+$$;
+
+grant execute on function public.save_quote(uuid, jsonb, jsonb) to authenticated;
+grant execute on function public.convert_quote(uuid, jsonb, jsonb, jsonb) to authenticated;
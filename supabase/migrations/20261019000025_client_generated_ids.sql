@@ -0,0 +1,176 @@
+-- Idempotent creates: a new invoice can be given its ID by the client, so a
+-- create sent again after its response was lost is rejected by the primary
+-- key instead of creating the invoice twice. Clients are inserted directly
+-- and take an ID the same way.
+
+create or replace function public.save_invoice(
+  p_invoice_id uuid,
+  p_invoice jsonb,
+  p_line_items jsonb,
+  p_change jsonb default '{}'::jsonb,
+  p_expected_version timestamptz default null
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing public.invoices%rowtype;
+  v_id uuid;
+  v_currency text := coalesce(p_invoice->>'currency', 'USD');
+  v_rounding_mode text := coalesce(p_invoice->>'rounding_mode', 'half-up');
+  v_totals jsonb;
+  v_total numeric;
+  v_scale numeric := 10::numeric ^ public.currency_minor_digits(v_currency);
+  v_paid bigint;
+  v_credited bigint;
+  v_status text := coalesce(p_invoice->>'status', 'draft');
+  v_from_status text;
+begin
+  if v_user_id is null then
+    raise exception 'You must be logged in to perform this action' using errcode = '42501';
+  end if;
+
+  v_totals := public.calculate_invoice_totals(
+    p_line_items,
+    coalesce(p_invoice->>'tax_name', 'No Tax'),
+    coalesce((p_invoice->>'tax_rate')::numeric, 0),
+    p_invoice->>'discount_type',
+    (p_invoice->>'discount_value')::numeric,
+    v_currency,
+    v_rounding_mode,
+    coalesce(p_invoice->>'rounding_scope', 'invoice')
+  );
+  v_total := (v_totals->>'total')::numeric;
+
+  if p_invoice_id is null then
+    if v_status not in ('draft', 'sent', 'paid') then
+      raise exception 'An invoice cannot be created as "%"', v_status;
+    end if;
+
+    insert into public.invoices (
+      id, user_id, client_id, invoice_number, status, currency, issue_date, due_date,
+      payment_terms_type, payment_terms_days, tax_name, tax_rate, discount_type, discount_value,
+      rounding_mode, rounding_scope, subtotal, discount_amount, tax, total, amount_paid, balance_due,
+      notes, recurring_profile_id, recurring_period, quote_id
+    ) values (
+      coalesce((p_invoice->>'id')::uuid, gen_random_uuid()),
+      v_user_id,
+      (p_invoice->>'client_id')::uuid,
+      p_invoice->>'invoice_number',
+      v_status,
+      v_currency,
+      (p_invoice->>'issue_date')::date,
+      (p_invoice->>'due_date')::date,
+      p_invoice->>'payment_terms_type',
+      (p_invoice->>'payment_terms_days')::integer,
+      coalesce(p_invoice->>'tax_name', 'No Tax'),
+      coalesce((p_invoice->>'tax_rate')::numeric, 0),
+      p_invoice->>'discount_type',
+      (p_invoice->>'discount_value')::numeric,
+      v_rounding_mode,
+      coalesce(p_invoice->>'rounding_scope', 'invoice'),
+      (v_totals->>'subtotal')::numeric,
+      (v_totals->>'discount_amount')::numeric,
+      (v_totals->>'tax')::numeric,
+      v_total,
+      -- An invoice created as paid was settled outside the payments ledger
+      case when v_status = 'paid' then v_total else 0 end,
+      case when v_status = 'paid' then 0 else v_total end,
+      p_invoice->>'notes',
+      (p_invoice->>'recurring_profile_id')::uuid,
+      p_invoice->>'recurring_period',
+      (p_invoice->>'quote_id')::uuid
+    )
+    returning id into v_id;
+  else
+    select * into v_existing from public.invoices where id = p_invoice_id and user_id = v_user_id for update;
+    if not found then
+      raise exception 'Invoice not found' using errcode = 'P0002';
+    end if;
+    if p_expected_version is not null and v_existing.updated_at <> p_expected_version then
+      raise exception 'This invoice was changed by someone else' using errcode = '40001';
+    end if;
+    if v_existing.status = 'void' then
+      raise exception 'A void invoice cannot be edited';
+    end if;
+    if v_status <> v_existing.status and v_status in ('partially_paid', 'paid') then
+      raise exception 'An invoice becomes "%" by recording payments', v_status;
+    end if;
+    perform public.assert_invoice_transition(v_existing.status, v_status);
+    -- Credit notes refer to the amounts as issued; corrections need another credit note
+    if v_existing.credited_amount > 0 and (v_total <> v_existing.total or v_currency <> v_existing.currency) then
+      raise exception 'The amounts of an invoice with credit notes cannot be changed; issue a credit note instead';
+    end if;
+
+    v_id := v_existing.id;
+    v_from_status := v_existing.status;
+    v_paid := public.round_minor(v_existing.amount_paid * v_scale, v_rounding_mode);
+    v_credited := public.round_minor(v_existing.credited_amount * v_scale, v_rounding_mode);
+
+    -- Payment status follows the new total
+    v_status := case
+      when v_paid + v_credited > 0 and v_paid + v_credited >= public.round_minor(v_total * v_scale, v_rounding_mode) then 'paid'
+      when v_paid <= 0 then case when v_status = 'partially_paid' then 'sent' else v_status end
+      when v_status = 'overdue' then 'overdue'
+      else 'partially_paid'
+    end;
+    perform public.assert_invoice_transition(v_existing.status, v_status);
+
+    update public.invoices set
+      client_id = (p_invoice->>'client_id')::uuid,
+      status = v_status,
+      currency = v_currency,
+      issue_date = (p_invoice->>'issue_date')::date,
+      due_date = (p_invoice->>'due_date')::date,
+      payment_terms_type = p_invoice->>'payment_terms_type',
+      payment_terms_days = (p_invoice->>'payment_terms_days')::integer,
+      tax_name = coalesce(p_invoice->>'tax_name', 'No Tax'),
+      tax_rate = coalesce((p_invoice->>'tax_rate')::numeric, 0),
+      discount_type = p_invoice->>'discount_type',
+      discount_value = (p_invoice->>'discount_value')::numeric,
+      rounding_mode = v_rounding_mode,
+      rounding_scope = coalesce(p_invoice->>'rounding_scope', 'invoice'),
+      subtotal = (v_totals->>'subtotal')::numeric,
+      discount_amount = (v_totals->>'discount_amount')::numeric,
+      tax = (v_totals->>'tax')::numeric,
+      total = v_total,
+      balance_due = greatest(public.round_minor(v_total * v_scale, v_rounding_mode) - v_paid - v_credited, 0) / v_scale,
+      notes = p_invoice->>'notes',
+      updated_at = now()
+    where id = v_id;
+
+    delete from public.line_items where invoice_id = v_id;
+  end if;
+
+  insert into public.line_items (invoice_id, description, quantity, rate, amount, tax_name, tax_rate, discount_type, discount_value)
+  select
+    v_id,
+    item->>'description',
+    (item->>'quantity')::numeric,
+    (item->>'rate')::numeric,
+    (v_totals->'line_amounts'->>(position::integer - 1))::numeric,
+    item->>'tax_name',
+    (item->>'tax_rate')::numeric,
+    item->>'discount_type',
+    (item->>'discount_value')::numeric
+  from jsonb_array_elements(p_line_items) with ordinality as line(item, position);
+
+  if v_from_status is distinct from v_status then
+    insert into public.invoice_status_history (user_id, invoice_id, from_status, to_status, changed_by, reason)
+    values (
+      v_user_id,
+      v_id,
+      v_from_status,
+      v_status,
+      coalesce(nullif(p_change->>'changed_by', ''), auth.jwt()->>'email', 'user'),
+      coalesce(nullif(trim(p_change->>'reason'), ''), case when v_from_status is null then 'Invoice created' end)
+    );
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.save_invoice(uuid, jsonb, jsonb, jsonb, timestamptz) to authenticated;
@@ -0,0 +1,52 @@
+-- Transactional import: import_invoice() writes an invoice kept on the
+-- user's device into their account with its line items, amounts and status
+-- history in one transaction, so a failure leaves nothing half-imported.
+--
+-- The invoice is written as restore_invoice() writes a backup: the totals
+-- are recalculated, and an amount paid on the device is recorded as one
+-- payment. The status history from the device replaces the entry written
+-- by the restore, and the invoice keeps the date it was created on.
+
+create or replace function public.import_invoice(
+  p_invoice jsonb,
+  p_line_items jsonb,
+  p_status_history jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_id uuid;
+begin
+  v_id := public.restore_invoice(null, p_invoice, p_line_items, jsonb_build_object('reason', 'Imported from this device'));
+
+  update public.payments
+  set reference = 'Imported from this device'
+  where invoice_id = v_id and reference = 'Restored from backup';
+
+  if p_invoice->>'created_at' is not null then
+    update public.invoices set created_at = (p_invoice->>'created_at')::timestamptz where id = v_id;
+  end if;
+
+  if jsonb_array_length(p_status_history) > 0 then
+    delete from public.invoice_status_history where invoice_id = v_id;
+
+    insert into public.invoice_status_history (user_id, invoice_id, from_status, to_status, changed_by, reason, changed_at)
+    select
+      auth.uid(),
+      v_id,
+      entry->>'from_status',
+      entry->>'to_status',
+      coalesce(nullif(entry->>'changed_by', ''), 'user'),
+      nullif(trim(entry->>'reason'), ''),
+      (entry->>'changed_at')::timestamptz
+    from jsonb_array_elements(p_status_history) with ordinality as history(entry, position)
+    order by position;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.import_invoice(jsonb, jsonb, jsonb) to authenticated;
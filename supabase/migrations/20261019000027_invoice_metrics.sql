@@ -0,0 +1,35 @@
+-- Dashboard metrics on the server: invoice_metrics() sums the amounts of
+-- the user's invoices by currency and status, so the app no longer loads
+-- every invoice to calculate them.
+--
+-- Amounts are those of the invoice columns kept by the payments and credit
+-- notes: money received, the balance still owed, and the refund owed where
+-- payments and credit notes together exceed the total.
+
+create or replace function public.invoice_metrics()
+returns table (
+  currency text,
+  status text,
+  invoice_count integer,
+  amount_paid numeric,
+  balance_due numeric,
+  refund_due numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    i.currency,
+    i.status,
+    count(*)::integer,
+    sum(i.amount_paid),
+    sum(i.balance_due),
+    sum(greatest(i.amount_paid + i.credited_amount - i.total, 0))
+  from public.invoices i
+  where i.user_id = auth.uid()
+  group by i.currency, i.status
+  order by i.currency, i.status;
+$$;
+
+grant execute on function public.invoice_metrics() to authenticated;